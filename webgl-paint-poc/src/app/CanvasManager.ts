@@ -4,6 +4,28 @@
  */
 
 import type { AppConfigState } from '../types/state';
+import { CANVAS_SIZE } from '../types/core';
+import { computeBackingStoreSize, setCanvasLogicalSize } from '../input/coordinateTransformFunctions';
+
+/**
+ * バッキングストアのサイズ変更通知
+ */
+export type BackingStoreResizeCallback = (size: { width: number; height: number }) => void;
+
+/**
+ * ドキュメントの縦横比を保って表示領域に収まる表示サイズを計算
+ */
+export function fitDisplaySize(
+  area: { width: number; height: number },
+  documentSize: { width: number; height: number }
+): { width: number; height: number } {
+  const scale = Math.min(area.width / documentSize.width, area.height / documentSize.height);
+
+  return {
+    width: Math.round(documentSize.width * scale),
+    height: Math.round(documentSize.height * scale),
+  };
+}
 
 /**
  * Canvas管理専門クラス
@@ -12,6 +34,9 @@ import type { AppConfigState } from '../types/state';
 export class CanvasManager {
   private canvas: HTMLCanvasElement | null = null;
   private getConfig: () => AppConfigState;
+  private documentSize = { width: CANVAS_SIZE, height: CANVAS_SIZE };
+  private resizeObserver: ResizeObserver | null = null;
+  private onBackingStoreResize: BackingStoreResizeCallback | null = null;
 
   constructor(getConfig: () => AppConfigState) {
     this.getConfig = getConfig;
@@ -20,8 +45,9 @@ export class CanvasManager {
   /**
    * Canvas要素を初期化
    * PaintApp.initializeCanvas()から移植
+   * @param documentSize ドキュメントサイズ（Canvas座標系の幅・高さ）
    */
-  initializeCanvas(): HTMLCanvasElement {
+  initializeCanvas(documentSize: { width: number; height: number }): HTMLCanvasElement {
     const config = this.getConfig();
     const canvas = document.getElementById(config.canvasId) as HTMLCanvasElement;
     
@@ -29,30 +55,104 @@ export class CanvasManager {
       throw new Error(`Canvas element with id "${config.canvasId}" not found`);
     }
     
-    // Canvas論理サイズを設定（固定値）
-    canvas.width = 1024;
-    canvas.height = 1024;
-    
-    // Canvas表示サイズを設定
-    this.updateCanvasDisplaySize(canvas, config.displaySize);
+    // Canvas論理サイズをドキュメントサイズに設定
+    // バッキングストア(width/height)は表示サイズ×devicePixelRatioで別に決まる
+    setCanvasLogicalSize(canvas, documentSize);
+    this.documentSize = documentSize;
     
     // Canvas基本スタイルを設定
     this.applyCanvasStyles(canvas);
     
     this.canvas = canvas;
+
+    // Canvas表示サイズを設定
+    this.updateDisplaySize(config.displaySize);
+    this.observeResize(canvas);
     return canvas;
   }
 
+  /**
+   * ドキュメントサイズを変更
+   * 論理サイズを更新し、縦横比に合わせて表示サイズとバッキングストアを調整する
+   */
+  setDocumentSize(documentSize: { width: number; height: number }): void {
+    if (!this.canvas) {
+      throw new Error('Canvas not initialized. Call initializeCanvas() first.');
+    }
+
+    setCanvasLogicalSize(this.canvas, documentSize);
+    this.documentSize = documentSize;
+    this.updateDisplaySize(this.getConfig().displaySize);
+  }
+
+  /**
+   * バッキングストアのサイズ変更時のコールバックを設定
+   * レイアウト変更やdevicePixelRatioの変化で呼ばれる
+   */
+  setBackingStoreResizeCallback(callback: BackingStoreResizeCallback | null): void {
+    this.onBackingStoreResize = callback;
+  }
+
   /**
    * Canvas表示サイズを更新
    * PaintApp.updateDisplaySize()から移植
+   * sizeは表示領域で、ドキュメントの縦横比を保って収まる大きさで表示する
    */
   updateDisplaySize(size: { width: number; height: number }): void {
     if (!this.canvas) {
       throw new Error('Canvas not initialized. Call initializeCanvas() first.');
     }
 
-    this.updateCanvasDisplaySize(this.canvas, size);
+    const displaySize = fitDisplaySize(size, this.documentSize);
+    this.updateCanvasDisplaySize(this.canvas, displaySize);
+    // ResizeObserverの通知を待たずに反映（同じサイズの通知は無視される）
+    this.resizeBackingStore(computeBackingStoreSize(displaySize, window.devicePixelRatio));
+  }
+
+  /**
+   * Canvasの表示サイズ変化を監視（内部ヘルパー）
+   * device-pixel-content-boxが使える環境ではデバイスピクセル単位の正確なサイズを使う
+   */
+  private observeResize(canvas: HTMLCanvasElement): void {
+    if (typeof ResizeObserver === 'undefined') {
+      return;
+    }
+
+    this.resizeObserver = new ResizeObserver(entries => {
+      const entry = entries[entries.length - 1];
+      const devicePixelSize = entry.devicePixelContentBoxSize?.[0];
+
+      this.resizeBackingStore(devicePixelSize
+        ? { width: devicePixelSize.inlineSize, height: devicePixelSize.blockSize }
+        : computeBackingStoreSize(
+            { width: entry.contentRect.width, height: entry.contentRect.height },
+            window.devicePixelRatio
+          ));
+    });
+
+    try {
+      this.resizeObserver.observe(canvas, { box: 'device-pixel-content-box' });
+    } catch {
+      // device-pixel-content-box非対応のブラウザ
+      this.resizeObserver.observe(canvas, { box: 'content-box' });
+    }
+  }
+
+  /**
+   * バッキングストアのサイズを変更して通知（内部ヘルパー）
+   */
+  private resizeBackingStore(size: { width: number; height: number }): void {
+    const canvas = this.canvas;
+    if (!canvas || size.width <= 0 || size.height <= 0) {
+      return;
+    }
+    if (canvas.width === size.width && canvas.height === size.height) {
+      return;
+    }
+
+    canvas.width = size.width;
+    canvas.height = size.height;
+    this.onBackingStoreResize?.(size);
   }
 
   /**
@@ -95,6 +195,9 @@ export class CanvasManager {
    * Canvas要素の解放
    */
   cleanup(): void {
+    this.resizeObserver?.disconnect();
+    this.resizeObserver = null;
+    this.onBackingStoreResize = null;
     this.canvas = null;
   }
 }
\ No newline at end of file
@@ -6,6 +6,7 @@
 import { systemSelectors } from '../store/systemStore';
 import { drawingSelectors } from '../store/drawingStore';
 import { viewSelectors } from '../store/viewStore';
+import type { FrameMetrics } from '../types/core';
 
 /**
  * 入力統計情報の型定義
@@ -32,13 +33,16 @@ export class DebugManager {
   private updateIntervalId: number | null = null;
   private isDebugEnabled: () => boolean;
   private getInputStats: () => InputStats;
+  private getFrameMetrics: () => FrameMetrics | null;
 
   constructor(
     isDebugEnabled: () => boolean,
-    getInputStats: () => InputStats
+    getInputStats: () => InputStats,
+    getFrameMetrics: () => FrameMetrics | null = () => null
   ) {
     this.isDebugEnabled = isDebugEnabled;
     this.getInputStats = getInputStats;
+    this.getFrameMetrics = getFrameMetrics;
   }
 
   /**
@@ -84,16 +88,22 @@ export class DebugManager {
     const historyState = drawingSelectors.history();
     const viewState = viewSelectors.view();
     const inputStats = this.getInputStats();
+    const frameMetrics = this.getFrameMetrics();
     
     const debugInfo = {
       'Drawing': {
         'Strokes': historyState.strokes.slice(0, historyState.historyIndex).length,
         'Is Drawing': drawingState.isDrawing,
         'Current Points': drawingState.currentStroke.length,
+        'Wrap Edges': drawingState.wrapEdges,
       },
       'Symmetry': {
         'Enabled': symmetryState.enabled,
+        'Mode': symmetryState.mode,
         'Axis Count': symmetryState.axisCount,
+        'Type': symmetryState.type,
+        'Mirror Angle': `${(symmetryState.mirrorAngle * 180 / Math.PI).toFixed(1)}°`,
+        'Wallpaper': `${symmetryState.wallpaperGroup} ×${symmetryState.wallpaperRepeat}`,
         'Center': symmetryState.centerPoint 
           ? `(${symmetryState.centerPoint.x}, ${symmetryState.centerPoint.y})` 
           : '(512, 512)',
@@ -113,6 +123,12 @@ export class DebugManager {
           ? `${(viewState.transform.rotation * 180 / Math.PI).toFixed(1)}°`
           : '0.0°',
       },
+      'Frame': {
+        'Frame Time': frameMetrics ? `${frameMetrics.totalFrameTime.toFixed(2)}ms` : '-',
+        // 描画中は変化した領域だけを再描画する（fullは全体の再描画）
+        'Dirty Rects': frameMetrics?.dirtyRects ? frameMetrics.dirtyRects.length : 'full',
+        'Redrawn': frameMetrics ? `${(frameMetrics.redrawnArea * 100).toFixed(1)}%` : '-',
+      },
     };
 
     container.innerHTML = `<pre>${this.formatObject(debugInfo)}</pre>`;
@@ -151,10 +167,16 @@ export class DebugManager {
       isDrawing: drawingState.isDrawing,
       currentStrokePoints: drawingState.currentStroke.length,
       totalStrokes: historyState.strokes.slice(0, historyState.historyIndex).length,
+      wrapEdges: drawingState.wrapEdges,
       symmetry: {
         enabled: symmetryState.enabled,
+        mode: symmetryState.mode,
         axisCount: symmetryState.axisCount,
+        type: symmetryState.type,
         centerPoint: symmetryState.centerPoint,
+        mirrorAngle: symmetryState.mirrorAngle,
+        wallpaperGroup: symmetryState.wallpaperGroup,
+        wallpaperRepeat: symmetryState.wallpaperRepeat,
       },
       view: {
         zoom: viewState.zoom,
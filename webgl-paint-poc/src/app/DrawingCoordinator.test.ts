@@ -0,0 +1,453 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { DrawingCoordinator } from './DrawingCoordinator';
+import { drawingStore, drawingSelectors, DEFAULT_LAYER_ID } from '../store/drawingStore';
+import { viewStore } from '../store/viewStore';
+import { createHeadlessRenderer } from '../software/headlessRenderer';
+import type { HeadlessRenderer } from '../software/headlessRenderer';
+import { compareImages } from '../testing/goldenImage';
+import { getSymmetryTransformMatrices } from '../symmetry/symmetryRenderer';
+import { applyTransformToPoint } from '../symmetry/transform';
+import { getWallpaperLattice } from '../symmetry/wallpaper';
+import type { NormalizedInputEvent } from '../input/InputEventHandler';
+import type { ImageBuffer } from '../webgl/renderBackend';
+import { BlendMode, DrawingTool, SymmetryMode, SymmetryType, WallpaperGroup } from '../types/core';
+
+const DOCUMENT_SIZE = { width: 96, height: 96 };
+
+function penEvent(type: NormalizedInputEvent['type'], x: number, y: number, pressure: number): NormalizedInputEvent {
+  return {
+    position: { canvasX: x, canvasY: y },
+    pressure,
+    timestamp: 0,
+    type,
+    deviceType: 'pen',
+    buttons: type === 'end' ? 0 : 1,
+  };
+}
+
+// Zigzag with sharp turns (long miters) and changing pressure, including a repeated point
+// Kept near a corner so the symmetric copies' dirty rects stay apart
+const STROKE_POINTS = [
+  [12, 14, 0.4], [18, 8, 0.6], [22, 20, 0.9], [22, 20, 0.9], [27, 9, 0.5], [31, 21, 1.0], [36, 12, 0.7],
+];
+
+function createCoordinator(
+  partialRedraw: boolean,
+  documentSize: { width: number; height: number } = DOCUMENT_SIZE
+): { coordinator: DrawingCoordinator; renderer: HeadlessRenderer } {
+  drawingStore.getState().reset();
+  viewStore.getState().reset();
+  drawingStore.getState().initializeEngine(documentSize);
+
+  // Scaled drawing buffer so dirty rects go through the view transform and device pixel ratio
+  const renderer = createHeadlessRenderer(documentSize.width, documentSize.height, documentSize.width * 1.5, documentSize.height * 1.5);
+  if (!partialRedraw) {
+    renderer.supportsPartialRedraw = () => false;
+  }
+
+  const coordinator = new DrawingCoordinator(renderer, () => drawingStore.getState(), () => false);
+  coordinator.setViewTransform({ zoom: 1.2, panOffset: { canvasX: 6, canvasY: -4 }, rotation: 0.4 });
+  return { coordinator, renderer };
+}
+
+/**
+ * Draw the stroke and capture the canvas after every live frame
+ */
+function drawLiveFrames(coordinator: DrawingCoordinator, renderer: HeadlessRenderer): ImageBuffer[] {
+  const frames: ImageBuffer[] = [];
+  STROKE_POINTS.forEach(([x, y, pressure], i) => {
+    coordinator.handleInputEvent(penEvent(i === 0 ? 'start' : 'move', x, y, pressure));
+    if (i > 0) {
+      frames.push(renderer.readPixels());
+    }
+  });
+  return frames;
+}
+
+function expectSameFrames(setup: (coordinator: DrawingCoordinator) => void): void {
+  const full = createCoordinator(false);
+  setup(full.coordinator);
+  const fullFrames = drawLiveFrames(full.coordinator, full.renderer);
+
+  const partial = createCoordinator(true);
+  setup(partial.coordinator);
+  const partialFrames = drawLiveFrames(partial.coordinator, partial.renderer);
+
+  partialFrames.forEach((frame, i) => {
+    expect(compareImages(frame, fullFrames[i], { tolerance: 0 }).mismatchedPixels, `frame ${i}`).toBe(0);
+  });
+}
+
+/**
+ * Shift an image by (dx, dy) with wrap-around
+ */
+function rollImage(image: ImageBuffer, dx: number, dy: number): ImageBuffer {
+  const data = new Uint8ClampedArray(image.data.length);
+  for (let y = 0; y < image.height; y++) {
+    for (let x = 0; x < image.width; x++) {
+      const from = (y * image.width + x) * 4;
+      const to = (((y + dy) % image.height) * image.width + ((x + dx) % image.width)) * 4;
+      data.set(image.data.subarray(from, from + 4), to);
+    }
+  }
+  return { width: image.width, height: image.height, data };
+}
+
+describe('DrawingCoordinator', () => {
+  describe('Symmetry center', () => {
+    it('should keep the center inside the document', () => {
+      const { coordinator } = createCoordinator(true);
+      coordinator.setSymmetryCenter({ x: -5, y: 200 });
+
+      expect(drawingSelectors.symmetry().centerPoint).toEqual({ x: 0, y: 96 });
+    });
+
+    it('should place symmetric copies around the configured center', () => {
+      const { coordinator } = createCoordinator(true);
+      coordinator.updateSymmetry(true, 2, SymmetryType.CYCLIC);
+      coordinator.setSymmetryCenter({ x: 30, y: 30 });
+      coordinator.setBrushSize(2);
+      coordinator.handleInputEvent(penEvent('start', 60, 30, 1));
+      coordinator.handleInputEvent(penEvent('move', 62, 30, 1));
+      coordinator.handleInputEvent(penEvent('move', 64, 30, 1));
+
+      // 180度回転のコピーは中心(30, 30)の反対側（x = 0付近）に描かれる
+      const rects = coordinator.getFrameMetrics()?.dirtyRects ?? [];
+      expect(rects.some(rect => rect.x <= 1 && rect.x + rect.width >= 1)).toBe(true);
+      expect(rects.some(rect => rect.x <= 40 && rect.x + rect.width >= 40)).toBe(false);
+    });
+  });
+
+  describe('Mirror symmetry', () => {
+    it('should draw the mirror axes on screen but not in exports', () => {
+      const { coordinator, renderer } = createCoordinator(true);
+      coordinator.setSymmetryMode(SymmetryMode.MIRROR_QUAD);
+      const exported = coordinator.exportPixels();
+      const withGuides = renderer.readPixels();
+
+      coordinator.setShowSymmetryGuides(false);
+      coordinator.render();
+      const withoutGuides = renderer.readPixels();
+
+      expect(compareImages(withGuides, withoutGuides, { tolerance: 0 }).mismatchedPixels).toBeGreaterThan(0);
+      expect(compareImages(coordinator.exportPixels(), exported, { tolerance: 0 }).mismatchedPixels).toBe(0);
+    });
+
+    it('should mirror strokes across the vertical axis through the center', () => {
+      const { coordinator } = createCoordinator(true);
+      coordinator.setSymmetryMode(SymmetryMode.MIRROR_VERTICAL);
+      coordinator.setSymmetryCenter({ x: 30, y: 30 });
+      coordinator.setBrushSize(2);
+      coordinator.handleInputEvent(penEvent('start', 50, 60, 1));
+      coordinator.handleInputEvent(penEvent('move', 52, 60, 1));
+      coordinator.handleInputEvent(penEvent('move', 54, 60, 1));
+
+      // 鏡映のコピーは軸 x = 30 の反対側（x = 6〜10付近）に描かれる
+      const rects = coordinator.getFrameMetrics()?.dirtyRects ?? [];
+      expect(rects).toHaveLength(2);
+      expect(rects.some(rect => rect.x <= 7 && rect.x + rect.width >= 7)).toBe(true);
+    });
+  });
+
+  describe('Wallpaper symmetry', () => {
+    it.each([
+      { group: WallpaperGroup.PGG, repeat: 2, documentSize: DOCUMENT_SIZE },
+      { group: WallpaperGroup.P4M, repeat: 2, documentSize: DOCUMENT_SIZE },
+      // 六方格子の胞が整数ピクセル（16×28、縦横比√3に近い）になる大きさ
+      { group: WallpaperGroup.P6M, repeat: 6, documentSize: { width: 96, height: 84 } },
+    ])(
+      'should export a tile that repeats without seams for $group',
+      ({ group, repeat, documentSize }) => {
+        const { coordinator } = createCoordinator(true, documentSize);
+        coordinator.setSymmetryMode(SymmetryMode.WALLPAPER);
+        coordinator.setWallpaperGroup(group);
+        coordinator.setWallpaperRepeat(repeat);
+        coordinator.setSymmetryCenter({ x: 0, y: 0 });
+        coordinator.setBrushSize(5);
+        // 右端と下端をまたぐストローク
+        coordinator.handleInputEvent(penEvent('start', 84, 70, 1));
+        coordinator.handleInputEvent(penEvent('move', 94, 84, 1));
+        coordinator.handleInputEvent(penEvent('move', 90, 95, 1));
+        coordinator.handleInputEvent(penEvent('end', 90, 95, 1));
+
+        const image = coordinator.exportPixels();
+        const { cellWidth, cellHeight } = getWallpaperLattice(group, documentSize, repeat);
+        const translations = group === WallpaperGroup.P6M
+          ? [[cellWidth, 0], [cellWidth / 2, cellHeight / 2]]
+          : [[cellWidth, 0], [0, cellHeight]];
+
+        // 格子の並進でずらしても（端で折り返して）同じ画像になる
+        translations.forEach(([dx, dy]) => {
+          expect(compareImages(rollImage(image, dx, dy), image, { tolerance: 2 }).mismatchedPixels, `${dx},${dy}`).toBe(0);
+        });
+      }
+    );
+
+    it('should match full redraws', () => {
+      expectSameFrames(coordinator => {
+        coordinator.setSymmetryMode(SymmetryMode.WALLPAPER);
+        coordinator.setWallpaperGroup(WallpaperGroup.P31M);
+        coordinator.setWallpaperRepeat(3);
+        coordinator.setBrushSize(4);
+      });
+    });
+  });
+
+  describe('Edge wrap-around', () => {
+    // 右端と下端をまたぐストローク
+    const CROSSING_STROKE = [[84, 70], [94, 84], [90, 95]];
+
+    function drawStroke(coordinator: DrawingCoordinator, points: number[][], dx: number = 0, dy: number = 0): void {
+      points.forEach(([x, y], i) => {
+        coordinator.handleInputEvent(penEvent(i === 0 ? 'start' : 'move', x + dx, y + dy, 1));
+      });
+      const [x, y] = points[points.length - 1];
+      coordinator.handleInputEvent(penEvent('end', x + dx, y + dy, 1));
+    }
+
+    function exportStroke(wrapEdges: boolean, dx: number, dy: number): ImageBuffer {
+      const { coordinator } = createCoordinator(true);
+      coordinator.updateSymmetry(false);
+      coordinator.setWrapEdges(wrapEdges);
+      coordinator.setBrushSize(5);
+      drawStroke(coordinator, CROSSING_STROKE, dx, dy);
+      return coordinator.exportPixels();
+    }
+
+    it('should draw the parts leaving one edge on the opposite edge', () => {
+      const wrapped = exportStroke(true, 0, 0);
+      // 内側にずらして描いたストロークを端で折り返しながら戻すと同じ画像になる
+      const inside = rollImage(exportStroke(true, -30, -40), 30, 40);
+
+      expect(compareImages(wrapped, inside, { tolerance: 2 }).mismatchedPixels).toBe(0);
+    });
+
+    it('should clip strokes at the edges when disabled', () => {
+      const clipped = exportStroke(false, 0, 0);
+      const inside = rollImage(exportStroke(false, -30, -40), 30, 40);
+
+      expect(compareImages(clipped, inside, { tolerance: 2 }).mismatchedPixels).toBeGreaterThan(0);
+    });
+
+    it('should redraw existing strokes when toggled', () => {
+      const { coordinator } = createCoordinator(true);
+      coordinator.updateSymmetry(false);
+      coordinator.setBrushSize(5);
+      drawStroke(coordinator, CROSSING_STROKE);
+      coordinator.render();
+
+      coordinator.setWrapEdges(true);
+
+      expect(compareImages(coordinator.exportPixels(), exportStroke(true, 0, 0), { tolerance: 0 }).mismatchedPixels).toBe(0);
+    });
+
+    it('should match full redraws with symmetric copies crossing the edges', () => {
+      expectSameFrames(coordinator => {
+        coordinator.setWrapEdges(true);
+        coordinator.setSymmetryMode(SymmetryMode.MIRROR_QUAD);
+        coordinator.setBrushSize(20);
+      });
+    });
+  });
+
+  describe('Layer merge', () => {
+    function drawLine(coordinator: DrawingCoordinator, from: [number, number], to: [number, number]): void {
+      coordinator.handleInputEvent(penEvent('start', from[0], from[1], 1));
+      coordinator.handleInputEvent(penEvent('move', (from[0] + to[0]) / 2, (from[1] + to[1]) / 2, 1));
+      coordinator.handleInputEvent(penEvent('end', to[0], to[1], 1));
+    }
+
+    /**
+     * Draw crossing strokes on the default layer and on a new layer above it
+     * Returns the coordinator and the upper layer's id
+     */
+    function setupLayers(configureUpper: (coordinator: DrawingCoordinator, upperId: string) => void = () => {}): {
+      coordinator: DrawingCoordinator;
+      upperId: string;
+    } {
+      const { coordinator } = createCoordinator(true);
+      coordinator.updateSymmetry(false);
+      coordinator.setBrushSize(10);
+      coordinator.setColor([0.1, 0.3, 0.9, 1]);
+      drawLine(coordinator, [10, 48], [86, 48]);
+
+      coordinator.addLayer();
+      const upperId = drawingSelectors.activeLayerId();
+      coordinator.setColor([0.9, 0.2, 0.1, 1]);
+      // 重なった2本のストローク
+      drawLine(coordinator, [20, 20], [70, 80]);
+      drawLine(coordinator, [70, 20], [20, 80]);
+      configureUpper(coordinator, upperId);
+
+      return { coordinator, upperId };
+    }
+
+    function expectSameAfterMerge(coordinator: DrawingCoordinator, upperId: string): void {
+      const before = coordinator.exportPixels();
+      const layerCount = drawingSelectors.layers().length;
+
+      coordinator.mergeLayerDown(upperId);
+
+      expect(drawingSelectors.layers()).toHaveLength(layerCount - 1);
+      expect(compareImages(coordinator.exportPixels(), before, { tolerance: 1 }).mismatchedPixels).toBe(0);
+    }
+
+    it('should keep overlapping strokes of a translucent layer unchanged', () => {
+      const { coordinator, upperId } = setupLayers((c, id) => c.setLayerOpacity(id, 0.5));
+
+      expectSameAfterMerge(coordinator, upperId);
+    });
+
+    it('should keep a hidden layer hidden', () => {
+      const { coordinator, upperId } = setupLayers((c, id) => c.setLayerVisible(id, false));
+
+      expectSameAfterMerge(coordinator, upperId);
+    });
+
+    it('should keep the opacity of a translucent lower layer', () => {
+      const { coordinator, upperId } = setupLayers((c) => c.setLayerOpacity(DEFAULT_LAYER_ID, 0.4));
+
+      expectSameAfterMerge(coordinator, upperId);
+    });
+
+    it('should keep per-stroke blend modes blending within the merged layer', () => {
+      const { coordinator, upperId } = setupLayers((c) => {
+        c.setBlendMode(BlendMode.MULTIPLY);
+        c.setColor([0.2, 0.9, 0.4, 1]);
+        drawLine(c, [48, 10], [48, 86]);
+      });
+
+      expectSameAfterMerge(coordinator, upperId);
+    });
+
+    it('should keep eraser strokes erasing only the merged layer', () => {
+      const { coordinator, upperId } = setupLayers((c) => {
+        c.setTool(DrawingTool.ERASER);
+        drawLine(c, [10, 48], [86, 48]);
+      });
+      const lower = coordinator.exportPixels();
+      coordinator.setLayerVisible(upperId, false);
+      const lowerOnly = coordinator.exportPixels();
+      coordinator.setLayerVisible(upperId, true);
+
+      expectSameAfterMerge(coordinator, upperId);
+
+      // 下のレイヤーの線は消しゴムの下でも残る
+      const offset = (48 * 96 + 48) * 4;
+      expect(lowerOnly.data[offset + 3]).toBe(255);
+      expect(Array.from(coordinator.exportPixels().data.slice(offset, offset + 4))).toEqual(
+        Array.from(lower.data.slice(offset, offset + 4))
+      );
+      expect(Array.from(lower.data.slice(offset, offset + 4))).toEqual(
+        Array.from(lowerOnly.data.slice(offset, offset + 4))
+      );
+    });
+
+    it('should keep nested merges unchanged', () => {
+      const { coordinator, upperId } = setupLayers((c, id) => c.setLayerOpacity(id, 0.6));
+      coordinator.mergeLayerDown(upperId);
+
+      coordinator.addLayer();
+      const topId = drawingSelectors.activeLayerId();
+      coordinator.setLayerOpacity(topId, 0.5);
+      drawLine(coordinator, [10, 30], [86, 70]);
+      coordinator.setLayerOpacity(DEFAULT_LAYER_ID, 0.7);
+
+      expectSameAfterMerge(coordinator, topId);
+    });
+
+    it('should redo strokes of the merged layer into its group', () => {
+      const expected = setupLayers((c, id) => c.setLayerOpacity(id, 0.5)).coordinator.exportPixels();
+
+      const { coordinator, upperId } = setupLayers((c, id) => c.setLayerOpacity(id, 0.5));
+      coordinator.undo();
+      coordinator.mergeLayerDown(upperId);
+      coordinator.redo();
+
+      expect(compareImages(coordinator.exportPixels(), expected, { tolerance: 1 }).mismatchedPixels).toBe(0);
+    });
+
+    it('should not merge layers with a non-normal blend mode', () => {
+      const { coordinator, upperId } = setupLayers((c, id) => c.setLayerBlendMode(id, BlendMode.MULTIPLY));
+
+      coordinator.mergeLayerDown(upperId);
+
+      expect(drawingSelectors.layers()).toHaveLength(2);
+    });
+  });
+
+  describe('Partial redraw of the live stroke', () => {
+    beforeEach(() => {
+      drawingStore.getState().reset();
+    });
+
+    it('should redraw only dirty rects after the first live frame', () => {
+      const { coordinator } = createCoordinator(true);
+      coordinator.updateSymmetry(false);
+      coordinator.setBrushSize(4);
+      coordinator.handleInputEvent(penEvent('start', 20, 30, 1));
+      coordinator.handleInputEvent(penEvent('move', 24, 30, 1));
+
+      expect(coordinator.getFrameMetrics()?.dirtyRects).toBeNull();
+
+      coordinator.handleInputEvent(penEvent('move', 28, 30, 1));
+      const metrics = coordinator.getFrameMetrics();
+      expect(metrics?.dirtyRects).toHaveLength(1);
+      expect(metrics?.redrawnArea).toBeGreaterThan(0);
+      expect(metrics?.redrawnArea).toBeLessThan(0.1);
+
+      coordinator.handleInputEvent(penEvent('end', 32, 30, 1));
+      expect(coordinator.getFrameMetrics()).toMatchObject({ dirtyRects: null, redrawnArea: 1 });
+    });
+
+    it('should cover every symmetric copy', () => {
+      const { coordinator } = createCoordinator(true);
+      coordinator.updateSymmetry(true, 8);
+      coordinator.handleInputEvent(penEvent('start', 20, 30, 1));
+      coordinator.handleInputEvent(penEvent('move', 22, 30, 1));
+      coordinator.handleInputEvent(penEvent('move', 24, 30, 1));
+
+      const rects = coordinator.getFrameMetrics()?.dirtyRects ?? [];
+      for (const transform of getSymmetryTransformMatrices(drawingSelectors.symmetry())) {
+        const copy = applyTransformToPoint({ x: 24, y: 30 }, transform);
+        const covered = rects.some(rect =>
+          copy.x >= rect.x && copy.x <= rect.x + rect.width && copy.y >= rect.y && copy.y <= rect.y + rect.height
+        );
+        expect(covered, `copy at ${copy.x}, ${copy.y}`).toBe(true);
+      }
+    });
+
+    it('should match full redraws with symmetry and miter joins', () => {
+      expectSameFrames(coordinator => {
+        coordinator.updateSymmetry(true, 8);
+        coordinator.setBrush('marker');
+        coordinator.setBrushSize(5);
+      });
+    });
+
+    it('should match full redraws with rotated mirror axes and guides', () => {
+      expectSameFrames(coordinator => {
+        coordinator.setSymmetryMode(SymmetryMode.MIRROR_QUAD);
+        coordinator.setMirrorAngle(0.3);
+        coordinator.setBrushSize(5);
+      });
+    });
+
+    it('should match full redraws when many copies fall back to one scissor box', () => {
+      expectSameFrames(coordinator => {
+        coordinator.updateSymmetry(true, 64, SymmetryType.DIHEDRAL);
+        coordinator.setBrushSize(3);
+      });
+    });
+
+    it('should match full redraws for stamp brushes and shader blend modes', () => {
+      expectSameFrames(coordinator => {
+        coordinator.updateSymmetry(true, 4);
+        coordinator.setBrush('confetti');
+        coordinator.setBrushSize(6);
+        coordinator.setLayerBlendMode(drawingStore.getState().layers.activeLayerId, BlendMode.MULTIPLY);
+        coordinator.setBlendMode(BlendMode.SCREEN);
+      });
+    });
+  });
+});
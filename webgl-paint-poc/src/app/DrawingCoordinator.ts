@@ -3,12 +3,83 @@
  * 入力イベント処理、ストロークライフサイクル、対称描画の統合管理
  */
 
-import { WebGLRenderer } from '../webgl/WebGLRenderer';
-import { generateSymmetricStrokes } from '../symmetry/symmetryRenderer';
-import { drawingStore, drawingSelectors } from '../store/drawingStore';
+import { generateSymmetricStrokes, getSymmetryTransformMatrices, hasStrokeCopies } from '../symmetry/symmetryRenderer';
+import type { SymmetryConfig } from '../symmetry/symmetryRenderer';
+import { getSymmetryGuideLines } from '../symmetry/symmetryGuides';
+import { drawingStore, drawingSelectors, splitMergedLayerRuns } from '../store/drawingStore';
+import { viewStore, viewSelectors } from '../store/viewStore';
 import type { DrawingStoreState } from '../store/drawingStore';
+import { isEraserInput } from '../input/inputNormalizationUtils';
+import { WebGLContextLostError } from '../webgl/context';
+import { getBackgroundPass } from '../webgl/background';
+import { getBrushPreset } from '../webgl/brushes';
+import { clampSymmetryAxisCount, createIdentityMatrix } from '../symmetry/transform';
+import { clampWallpaperRepeat } from '../symmetry/wallpaper';
+import {
+  getBrushExtent,
+  getPointsBounds,
+  computeStrokeDirtyRects,
+  getDirtyAreaFraction,
+} from '../webgl/dirtyRegion';
 import type { NormalizedInputEvent } from '../input/InputEventHandler';
-import type { StrokeData, StrokePoint } from '../types/core';
+import type {
+  BlendMode,
+  CanvasBackground,
+  DirtyRect,
+  DrawingTool,
+  FrameMetrics,
+  ResizeAnchor,
+  StrokeData,
+  StrokePoint,
+  SymmetryMode,
+  SymmetryType,
+  WallpaperGroup,
+} from '../types/core';
+import type { LayerState } from '../types/state';
+import type { ViewTransformState } from '../types/coordinates';
+import type { RenderBackend, ImageBuffer } from '../webgl/renderBackend';
+
+/**
+ * 書き出し時のビュー変換（等倍・回転なし）
+ */
+const EXPORT_VIEW_TRANSFORM: ViewTransformState = {
+  zoom: 1.0,
+  panOffset: { canvasX: 0, canvasY: 0 },
+  rotation: 0,
+};
+
+/**
+ * 画像書き出しのオプション
+ */
+export interface ExportImageOptions {
+  /** ドキュメント背景を含めるか（既定: true。falseなら背景部分は透明） */
+  includeBackground?: boolean;
+}
+
+/**
+ * DrawingCoordinatorが使うレンダラー
+ * WebGLRenderer（画面表示）とHeadlessRenderer（ソフトウェア描画）が満たす
+ */
+export interface DrawingRenderer extends Omit<RenderBackend, 'setViewMatrix'> {
+  /** ビュー変換（ズーム・パン・回転）を描画に反映 */
+  setViewTransform(viewTransform: ViewTransformState): void;
+  /** 描画出力のサイズ（デバイスピクセル） */
+  getViewportSize(): { width: number; height: number };
+  /** 描画出力を画像のdata URLとして取得 */
+  toDataURL(type?: string): string;
+}
+
+/**
+ * 直前のライブフレーム（描画中ストロークのプレビュー）の記録
+ * 同じストロークの続きで設定も変わっていなければ、次のフレームは変化した領域だけ再描画できる
+ */
+interface LiveFrameState {
+  /** ストロークの先頭点（ストローク中は同じオブジェクトのまま点が追加される） */
+  firstPoint: StrokePoint;
+  pointCount: number;
+  /** 描画結果に影響する設定のキー */
+  settingsKey: string;
+}
 
 /**
  * 描画統合管理専門クラス
@@ -16,11 +87,18 @@ import type { StrokeData, StrokePoint } from '../types/core';
  * 入力→描画変換とレンダリング統合のみに責任を限定
  */
 export class DrawingCoordinator {
-  private renderer: WebGLRenderer;
+  private renderer: DrawingRenderer;
   private isDebugEnabled: () => boolean;
+  private isExporting = false;
+  private exportIncludesBackground = true;
+  private isContextLost = false;
+  private liveFrame: LiveFrameState | null = null;
+  private frameMetrics: FrameMetrics | null = null;
+  /** 直近のレイヤーキャッシュ更新にかかった時間（ミリ秒） */
+  private layerCacheUpdateTime = 0;
 
   constructor(
-    renderer: WebGLRenderer,
+    renderer: DrawingRenderer,
     _getDrawingState: () => DrawingStoreState,
     isDebugEnabled: () => boolean
   ) {
@@ -37,6 +115,9 @@ export class DrawingCoordinator {
       console.log('Input event:', event);
     }
 
+    // コンテキスト消失中は入力を受け付けない
+    if (this.isContextLost) return;
+
     switch (event.type) {
       case 'start':
         this.startStroke(event);
@@ -53,10 +134,11 @@ export class DrawingCoordinator {
   /**
    * ストローク開始処理
    * PaintApp.startStroke()から移植
+   * ペンの消しゴム側で描き始めた場合は選択中のツールに関わらず消しゴムになる
    */
   private startStroke(event: NormalizedInputEvent): void {
     const strokePoint = this.eventToStrokePoint(event);
-    drawingStore.getState().startDrawing(strokePoint);
+    drawingStore.getState().startDrawing(strokePoint, isEraserInput(event) || undefined);
     
     if (this.isDebugEnabled()) {
       console.log('Stroke started at:', event.position);
@@ -120,25 +202,24 @@ export class DrawingCoordinator {
    * PaintApp.renderCurrentStroke()から移植
    */
   private renderCurrentStroke(): void {
+    if (this.isContextLost) return;
+
     const state = drawingStore.getState();
     const currentStroke = state.drawingEngine.currentStroke;
     
     if (currentStroke.length < 2) return;
     
-    // 既存の描画をクリア
-    this.renderer.clear();
+    const frameStart = performance.now();
     
     // 現在のブラシサイズを設定
     this.renderer.setBrushSize(state.drawingEngine.brushSize);
     
-    // 保存済みストロークを描画
-    this.renderSavedStrokes();
-    
-    // 現在のストロークを描画
+    // 現在のストロークを描画（確定時と同じスタイルで）
     const tempStrokeData: StrokeData = {
       id: 'temp_stroke',
       points: [...currentStroke],
       timestamp: Date.now(),
+      style: drawingSelectors.strokeStyle(),
       metadata: {
         timestamp: Date.now(),
         deviceType: 'unknown',
@@ -146,33 +227,292 @@ export class DrawingCoordinator {
       },
     };
     
+    const layers = drawingSelectors.layers();
+    
+    // 現在のストロークはアクティブレイヤーのキャッシュに重ねてから合成する
+    // （消しゴム・合成モードのストロークもレイヤー内で確定後と同じ結果になる）
+    if (this.updateLayerCaches(layers)) {
+      const settingsKey = this.getLiveFrameSettingsKey();
+      const dirtyRects = this.getLiveStrokeDirtyRects(tempStrokeData, settingsKey);
+
+      if (this.renderLivePreview(layers, tempStrokeData, dirtyRects)) {
+        this.liveFrame = { firstPoint: currentStroke[0], pointCount: currentStroke.length, settingsKey };
+        this.recordFrameMetrics(frameStart, dirtyRects);
+        return;
+      }
+    }
+    
+    // キャッシュが使えない環境では保存済みストロークの上に直接重ねる
+    this.liveFrame = null;
+    this.clearToBackground();
+    this.renderSavedStrokes(layers);
     this.renderStrokeWithSymmetry(tempStrokeData);
+    this.recordFrameMetrics(frameStart, null);
   }
 
   /**
-   * 保存済みストロークを描画
-   * PaintApp.renderSavedStrokes()から移植
+   * アクティブレイヤーのプレビューに描画中のストロークを重ねて合成
+   * dirtyRectsがある場合はクリア・プレビュー・合成をその領域に限定する
+   * @returns プレビューを作成できた場合true
    */
-  private renderSavedStrokes(): void {
-    const strokes = drawingSelectors.strokes();
-    
-    for (const stroke of strokes) {
-      this.renderStrokeWithSymmetry(stroke);
+  private renderLivePreview(
+    layers: readonly LayerState[],
+    stroke: StrokeData,
+    dirtyRects: DirtyRect[] | null
+  ): boolean {
+    this.renderer.setDirtyRects(dirtyRects);
+    try {
+      this.clearToBackground();
+      if (!this.renderer.beginLayerPreview(drawingSelectors.activeLayerId(), () => this.renderStrokeWithSymmetry(stroke))) {
+        return false;
+      }
+      try {
+        this.compositeLayers(layers);
+      } finally {
+        this.renderer.endLayerPreview();
+      }
+      return true;
+    } finally {
+      this.renderer.setDirtyRects(null);
+    }
+  }
+
+  /**
+   * 直前のライブフレームから変化した領域（すべての対称コピーを含む）
+   * 変化するのは追加された点の線分・スタンプと、旧終点のキャップが結合に変わる部分だけなので
+   * 旧終点以降の点をブラシの届く範囲まで広げればよい
+   * @returns 全体を再描画する必要がある場合null
+   */
+  private getLiveStrokeDirtyRects(stroke: StrokeData, settingsKey: string): DirtyRect[] | null {
+    const previous = this.liveFrame;
+    const { points } = stroke;
+
+    if (
+      !previous ||
+      previous.firstPoint !== points[0] ||
+      previous.pointCount > points.length ||
+      previous.settingsKey !== settingsKey ||
+      this.isTilingActive() ||
+      !this.renderer.supportsPartialRedraw()
+    ) {
+      return null;
+    }
+
+    const changedPoints = points.slice(previous.pointCount - 1);
+    const extent = this.getStrokeExtent(stroke, changedPoints);
+
+    const symmetryConfig = this.getSymmetryConfig();
+    const transforms = hasStrokeCopies(symmetryConfig)
+      ? getSymmetryTransformMatrices(symmetryConfig, getPointsBounds(changedPoints, extent) ?? undefined)
+      : [createIdentityMatrix()];
+    const { width, height } = this.renderer.getDocumentSize();
+
+    return computeStrokeDirtyRects(changedPoints, extent, transforms, width, height);
+  }
+
+  /**
+   * ブラシが点から描く最大距離（ストロークのスタイル、省略時は現在のスタイル）
+   */
+  private getStrokeExtent(stroke: StrokeData, points: readonly StrokePoint[]): number {
+    const style = stroke.style ?? drawingSelectors.strokeStyle();
+    return getBrushExtent(
+      getBrushPreset(style.brushId),
+      style.size,
+      this.renderer.getAntialiasWidth(),
+      points.reduce((max, point) => Math.max(max, point.pressure), 0)
+    );
+  }
+
+  /**
+   * 描画に使う対称設定（壁紙の格子・端の折り返しの基準として現在のドキュメントサイズを含める）
+   */
+  private getSymmetryConfig(): SymmetryConfig {
+    return {
+      ...drawingSelectors.symmetry(),
+      documentSize: this.renderer.getDocumentSize(),
+      wrapEdges: drawingSelectors.wrapEdges(),
+    };
+  }
+
+  /**
+   * ライブフレームの描画結果に影響する設定のキー
+   * 変化した場合は前フレームの描画内容を再利用できない
+   */
+  private getLiveFrameSettingsKey(): string {
+    return JSON.stringify([
+      this.getStrokeCacheKey(),
+      drawingSelectors.strokeStyle(),
+      drawingSelectors.activeLayerId(),
+      drawingSelectors.layers(),
+      drawingSelectors.background(),
+      viewSelectors.transform(),
+      this.renderer.getDocumentSize(),
+      this.renderer.getViewportSize(),
+    ]);
+  }
+
+  /**
+   * フレームの計測結果を記録
+   * @param dirtyRects 再描画した領域（nullは全体を再描画）
+   */
+  private recordFrameMetrics(frameStart: number, dirtyRects: DirtyRect[] | null): void {
+    const totalFrameTime = performance.now() - frameStart;
+    const { width, height } = this.renderer.getDocumentSize();
+
+    this.frameMetrics = {
+      renderTime: Math.max(totalFrameTime - this.layerCacheUpdateTime, 0),
+      bufferUpdateTime: this.layerCacheUpdateTime,
+      totalFrameTime,
+      dirtyRects,
+      redrawnArea: dirtyRects ? getDirtyAreaFraction(dirtyRects, width, height) : 1,
+    };
+  }
+
+  /**
+   * 直近のフレームの計測結果（まだ描画していない場合null）
+   */
+  getFrameMetrics(): FrameMetrics | null {
+    return this.frameMetrics;
+  }
+
+  /**
+   * 保存済みストロークをレイヤーごとに描画
+   * 確定済みストロークはレイヤーごとのキャッシュテクスチャに焼き込み、毎フレームは合成のみ行う
+   * 履歴が末尾に追加された場合は差分のみ焼き込み、アンドゥ・クリア・対称設定の変更時は再構築される
+   * @param layers 描画するレイヤー（下から順）
+   */
+  private renderSavedStrokes(layers: readonly LayerState[] = drawingSelectors.layers()): void {
+    if (this.updateLayerCaches(layers)) {
+      this.compositeLayers(layers);
+      return;
+    }
+
+    // キャッシュが使えない環境では表示中のレイヤーを毎回すべて描画（レイヤー不透明度・タイリング表示なし）
+    for (const layer of layers) {
+      if (!layer.visible) continue;
+      this.renderLayerStrokes(drawingSelectors.layerStrokes(layer.id));
+    }
+  }
+
+  /**
+   * レイヤーのストロークを描画
+   * 下のレイヤーに統合されたストロークは統合元レイヤーのグループごとにまとめて描き、統合前の合成設定で合成する
+   * @param depth 描画中のグループの段（入れ子のグループを描く場合は1以上）
+   */
+  private renderLayerStrokes(strokes: readonly StrokeData[], depth: number = 0): void {
+    for (const run of splitMergedLayerRuns(strokes, depth)) {
+      if (run.group) {
+        this.renderer.drawLayerGroup(run.group, () => this.renderLayerStrokes(run.strokes, depth + 1));
+      } else {
+        run.strokes.forEach(stroke => this.renderStrokeWithSymmetry(stroke));
+      }
+    }
+  }
+
+  /**
+   * レイヤーキャッシュを最新の履歴に更新
+   * @returns すべてのレイヤーでキャッシュが使える場合true
+   */
+  private updateLayerCaches(layers: readonly LayerState[]): boolean {
+    const contentKey = this.getStrokeCacheKey();
+    const start = performance.now();
+
+    const updated = layers.every(layer => {
+      const strokes = drawingSelectors.layerStrokes(layer.id);
+
+      // 統合されたレイヤーのグループは先頭のストロークでまとめて描き、残りのストロークは飛ばす
+      // グループに属するストロークが増えた場合（やり直し）はグループごと描き直すため、その数をキーに含める
+      const groupRuns = new Map<StrokeData, StrokeData[]>();
+      for (const run of splitMergedLayerRuns(strokes)) {
+        if (run.group) {
+          groupRuns.set(run.strokes[0], run.strokes);
+        }
+      }
+      const groupedCount = strokes.filter(stroke => stroke.mergedLayers).length;
+
+      return this.renderer.updateLayerCache(
+        layer.id,
+        strokes,
+        `${contentKey}:${groupedCount}`,
+        (stroke) => {
+          const run = groupRuns.get(stroke);
+          if (run) {
+            this.renderLayerStrokes(run);
+          } else if (!stroke.mergedLayers) {
+            this.renderStrokeWithSymmetry(stroke);
+          }
+        }
+      );
+    });
+
+    this.layerCacheUpdateTime = performance.now() - start;
+    return updated;
+  }
+
+  /**
+   * レイヤーキャッシュをキャンバスに合成
+   * タイリング表示中はビューポート全体に繰り返す
+   * 合成後に対称ガイド線（鏡映軸・壁紙の格子）を重ねる（書き出し時は描かない）
+   */
+  private compositeLayers(layers: readonly LayerState[]): void {
+    if (this.isTilingActive()) {
+      this.renderer.compositeLayersTiled(layers, viewSelectors.showTileBorders());
+    } else {
+      this.renderer.compositeLayers(layers);
+    }
+
+    if (!this.isExporting && viewSelectors.showSymmetryGuides()) {
+      this.renderer.drawGuideLines(getSymmetryGuideLines(this.getSymmetryConfig(), this.renderer.getDocumentSize()));
     }
   }
 
+  /**
+   * キャンバスをクリアしてドキュメント背景を描画
+   * 透明なドキュメントは画面上ではチェッカーボードで表示し、書き出しでは透明のまま残す
+   */
+  private clearToBackground(): void {
+    const background = this.isExporting && !this.exportIncludesBackground
+      ? null
+      : getBackgroundPass(drawingSelectors.background(), !this.isExporting);
+
+    this.renderer.setBackground(background);
+    this.renderer.clear();
+  }
+
+  /**
+   * タイリング表示を行うか（有効かつズームアウト時のみ）
+   */
+  private isTilingActive(): boolean {
+    return !this.isExporting && viewSelectors.tilingEnabled() && viewSelectors.transform().zoom < 1.0;
+  }
+
+  /**
+   * キャッシュ内容に影響するストローク以外の設定（対称設定・端の折り返し）のキー
+   */
+  private getStrokeCacheKey(): string {
+    const { enabled, mode, axisCount, type, centerPoint, mirrorAngle, wallpaperGroup, wallpaperRepeat } = drawingSelectors.symmetry();
+    return `${enabled}:${mode}:${axisCount}:${type}:${centerPoint.x},${centerPoint.y}:${mirrorAngle}:${wallpaperGroup}:${wallpaperRepeat}:${drawingSelectors.wrapEdges()}`;
+  }
+
   /**
    * 対称変換ありでストロークを描画
    * PaintApp.renderStrokeWithSymmetry()から移植
+   * インスタンス描画が使える場合は対称コピーをGPU側で変換し、使えない場合はCPUで生成する
    */
   private renderStrokeWithSymmetry(stroke: StrokeData): void {
-    const symmetryConfig = drawingSelectors.symmetry();
+    const symmetryConfig = this.getSymmetryConfig();
+    // 壁紙モードと端の折り返しではストロークの範囲からドキュメントにかかるコピーだけを選ぶ
+    const sourceBounds = getPointsBounds(stroke.points, this.getStrokeExtent(stroke, stroke.points)) ?? undefined;
     
-    if (symmetryConfig.enabled && symmetryConfig.axisCount > 1) {
-      // 対称描画
+    if (hasStrokeCopies(symmetryConfig) && this.renderer.supportsInstancing()) {
+      // 対称描画（インスタンス描画）
+      this.renderer.renderStrokeInstanced(stroke, getSymmetryTransformMatrices(symmetryConfig, sourceBounds));
+    } else if (hasStrokeCopies(symmetryConfig)) {
+      // 対称描画（CPUフォールバック）
       const symmetryStrokes = generateSymmetricStrokes(
         stroke,
-        symmetryConfig
+        symmetryConfig,
+        sourceBounds
       ).symmetricStrokes;
       
       if (this.isDebugEnabled()) {
@@ -199,13 +539,94 @@ export class DrawingCoordinator {
    * PaintApp.render()から移植
    */
   render(): void {
+    if (this.isContextLost) return;
+
+    const frameStart = performance.now();
     const state = drawingStore.getState();
-    this.renderer.clear();
+    this.liveFrame = null;
+    this.layerCacheUpdateTime = 0;
+    this.clearToBackground();
     
     // 現在のブラシサイズを設定
     this.renderer.setBrushSize(state.drawingEngine.brushSize);
     
+    // 削除・統合されたレイヤーのキャッシュを解放
+    this.renderer.retainLayerCaches(state.layers.layers.map(layer => layer.id));
+    
     this.renderSavedStrokes();
+    this.recordFrameMetrics(frameStart, null);
+  }
+
+  /**
+   * WebGLコンテキスト消失時の処理
+   * 描画中のストロークを破棄し、復帰まで入力と描画を止める
+   */
+  handleContextLost(): void {
+    this.isContextLost = true;
+    drawingStore.getState().cancelDrawing();
+
+    if (this.isDebugEnabled()) {
+      console.log('Rendering paused: WebGL context lost');
+    }
+  }
+
+  /**
+   * WebGLコンテキスト復帰時の処理
+   * レンダラーのGPUリソースは作り直し済みなので、レイヤーキャッシュをdrawingStoreの履歴から再構築して描画する
+   */
+  handleContextRestored(): void {
+    this.isContextLost = false;
+    this.render();
+
+    if (this.isDebugEnabled()) {
+      console.log('Rendering resumed: WebGL context restored');
+    }
+  }
+
+  /**
+   * バッキングストアのサイズ変更時の処理
+   * ドキュメントとレイヤーキャッシュはそのままで、新しいサイズのCanvasに描き直す
+   */
+  handleBackingStoreResize(size: { width: number; height: number }): void {
+    this.renderer.resizeDrawingBuffer(size.width, size.height);
+    this.render();
+  }
+
+  /**
+   * ドキュメントサイズ変更時の処理
+   * ストアのサイズをレンダラーに反映し、ビュー変換を再計算して描き直す
+   * Canvas要素の論理サイズは先にCanvasManagerが更新している
+   */
+  handleCanvasSizeChange(size: { width: number; height: number }): void {
+    this.renderer.resizeDocument(size.width, size.height);
+    this.renderer.setViewTransform(viewSelectors.transform());
+    this.render();
+  }
+
+  /**
+   * 指定サイズの新規ドキュメントを作成
+   * 描画履歴は破棄され、対称中心はドキュメント中心になる
+   */
+  newDocument(size: { width: number; height: number }): void {
+    const store = drawingStore.getState();
+    store.cancelDrawing();
+    store.clearHistory();
+    store.initializeEngine(size);
+    this.render();
+  }
+
+  /**
+   * ドキュメントをリサイズ・トリミング
+   * 既存のストロークは基準位置に対して同じ場所に残る
+   */
+  resizeCanvas(size: { width: number; height: number }, anchor?: ResizeAnchor): void {
+    const store = drawingStore.getState();
+    store.cancelDrawing();
+    store.resizeCanvas(size, anchor);
+
+    if (this.isDebugEnabled()) {
+      console.log('Canvas resized:', { size, anchor });
+    }
   }
 
   /**
@@ -214,30 +635,264 @@ export class DrawingCoordinator {
    */
   clearCanvas(): void {
     drawingStore.getState().clearHistory();
-    this.renderer.clear();
+    this.clearToBackground();
     
     if (this.isDebugEnabled()) {
       console.log('Canvas cleared');
     }
   }
 
+  /**
+   * 直前のストロークまたはレイヤー操作（削除・統合・複製）を取り消す
+   */
+  undo(): void {
+    drawingStore.getState().undo();
+    this.render();
+  }
+
+  /**
+   * 取り消したストロークまたはレイヤー操作をやり直す
+   */
+  redo(): void {
+    drawingStore.getState().redo();
+    this.render();
+  }
+
+  /**
+   * アクティブレイヤーの上に新しいレイヤーを追加
+   */
+  addLayer(name?: string): void {
+    drawingStore.getState().addLayer(name);
+    this.render();
+  }
+
+  /**
+   * レイヤーを削除（レイヤー上のストロークも削除される）
+   */
+  removeLayer(layerId: string): void {
+    drawingStore.getState().removeLayer(layerId);
+    this.render();
+  }
+
+  /**
+   * レイヤーを指定位置（下から数えたインデックス）へ移動
+   */
+  moveLayer(layerId: string, toIndex: number): void {
+    drawingStore.getState().moveLayer(layerId, toIndex);
+    this.render();
+  }
+
+  /**
+   * レイヤーを下のレイヤーに統合
+   * 統合したストロークは元のレイヤーの表示・不透明度・合成モードでまとめて合成されるため、見た目は変わらない
+   */
+  mergeLayerDown(layerId: string): void {
+    drawingStore.getState().mergeLayerDown(layerId);
+    this.render();
+  }
+
+  /**
+   * レイヤーを複製
+   */
+  duplicateLayer(layerId: string): void {
+    drawingStore.getState().duplicateLayer(layerId);
+    this.render();
+  }
+
+  /**
+   * 描画先のレイヤーを設定
+   */
+  setActiveLayer(layerId: string): void {
+    drawingStore.getState().setActiveLayer(layerId);
+  }
+
+  /**
+   * レイヤーの表示/非表示を設定
+   */
+  setLayerVisible(layerId: string, visible: boolean): void {
+    drawingStore.getState().setLayerVisible(layerId, visible);
+    this.render();
+  }
+
+  /**
+   * レイヤーの不透明度を設定
+   * 合成時に適用されるため、キャッシュは再構築されない
+   */
+  setLayerOpacity(layerId: string, opacity: number): void {
+    drawingStore.getState().setLayerOpacity(layerId, opacity);
+    this.render();
+  }
+
+  /**
+   * レイヤーのロックを設定
+   */
+  setLayerLocked(layerId: string, locked: boolean): void {
+    drawingStore.getState().setLayerLocked(layerId, locked);
+  }
+
+  /**
+   * レイヤーの合成モードを設定
+   */
+  setLayerBlendMode(layerId: string, blendMode: BlendMode): void {
+    drawingStore.getState().setLayerBlendMode(layerId, blendMode);
+    this.render();
+  }
+
+  /**
+   * ビュー変換を描画に反映して再描画
+   * 確定済みストロークのキャッシュはCanvas座標のままなので再構築されない
+   */
+  setViewTransform(viewTransform: ViewTransformState): void {
+    this.renderer.setViewTransform(viewTransform);
+    this.render();
+  }
+
+  /**
+   * 画面と同じ合成処理でキャンバスを画像として書き出す
+   * ビュー変換とタイリング表示を外して再描画し、書き出し後に表示を戻す
+   * 背景を含めない場合や透明な背景では、描画のない部分が透明になる（PNGなど透明を扱える形式で使う）
+   * @returns 画像のdata URL
+   */
+  exportImage(type: string = 'image/png', options: ExportImageOptions = {}): string {
+    return this.renderForExport(options, () => this.renderer.toDataURL(type));
+  }
+
+  /**
+   * exportImageと同じ書き出し結果をピクセルとして取得（ストレートアルファ、先頭行が上端）
+   */
+  exportPixels(options: ExportImageOptions = {}): ImageBuffer {
+    return this.renderForExport(options, () => this.renderer.readPixels());
+  }
+
+  /**
+   * 書き出し用の状態で再描画してreadで結果を読み出し、表示用の状態に戻す
+   */
+  private renderForExport<T>(options: ExportImageOptions, read: () => T): T {
+    if (this.isContextLost) {
+      throw new WebGLContextLostError('export an image');
+    }
+
+    this.isExporting = true;
+    this.exportIncludesBackground = options.includeBackground ?? true;
+    // 高DPI環境のバッキングストアではなく、ドキュメントサイズで書き出す
+    const viewportSize = this.renderer.getViewportSize();
+    const documentSize = drawingSelectors.canvasSize();
+    this.renderer.resizeDrawingBuffer(documentSize.width, documentSize.height);
+    this.renderer.setViewTransform(EXPORT_VIEW_TRANSFORM);
+
+    try {
+      this.render();
+      // 描画と同じタスク内で読み出すため、preserveDrawingBufferなしでも内容が残っている
+      return read();
+    } finally {
+      this.isExporting = false;
+      this.exportIncludesBackground = true;
+      this.renderer.resizeDrawingBuffer(viewportSize.width, viewportSize.height);
+      this.renderer.setViewTransform(viewSelectors.transform());
+      this.render();
+    }
+  }
+
+  /**
+   * ズームレベルを設定
+   * ビュー状態の購読経由で再描画される
+   */
+  setZoom(zoom: number): void {
+    viewStore.getState().setZoom(zoom);
+  }
+
+  /**
+   * タイリング表示の有効/無効を設定
+   */
+  setTilingEnabled(enabled: boolean): void {
+    viewStore.getState().setTilingEnabled(enabled);
+  }
+
+  /**
+   * タイル境界線の表示を設定
+   */
+  setShowTileBorders(show: boolean): void {
+    viewStore.getState().setShowTileBorders(show);
+  }
+
   /**
    * 対称設定を更新
    * 描画設定変更のみを担当
+   * @param axisCount N回対称のN（2〜64に丸める）
+   * @param type 回転のみ（cyclic）か鏡映を含む（dihedral）か
    */
-  updateSymmetry(enabled: boolean, axisCount?: number): void {
+  updateSymmetry(enabled: boolean, axisCount?: number, type?: SymmetryType): void {
     const store = drawingStore.getState();
     store.setSymmetryEnabled(enabled);
     
     if (axisCount !== undefined) {
-      store.setAxisCount(Math.max(2, Math.min(8, axisCount)));
+      store.setAxisCount(clampSymmetryAxisCount(axisCount));
+    }
+    if (type !== undefined) {
+      store.setSymmetryType(type);
     }
     
     if (this.isDebugEnabled()) {
-      console.log('Symmetry updated:', { enabled, axisCount });
+      console.log('Symmetry updated:', { enabled, axisCount, type });
     }
   }
 
+  /**
+   * 対称モードを設定（放射対称・鏡映対称）
+   */
+  setSymmetryMode(mode: SymmetryMode): void {
+    drawingStore.getState().setSymmetryMode(mode);
+  }
+
+  /**
+   * 鏡映軸の回転角度を設定（ラジアン）
+   * 鏡映軸の位置は対称中心で決まる
+   */
+  setMirrorAngle(angle: number): void {
+    drawingStore.getState().setMirrorAngle(angle);
+  }
+
+  /**
+   * 壁紙モードの壁紙群を設定
+   */
+  setWallpaperGroup(group: WallpaperGroup): void {
+    drawingStore.getState().setWallpaperGroup(group);
+  }
+
+  /**
+   * 壁紙モードで格子が横方向に繰り返す数を設定（1〜8に丸める）
+   * 格子の原点は対称中心
+   */
+  setWallpaperRepeat(repeat: number): void {
+    drawingStore.getState().setWallpaperRepeat(clampWallpaperRepeat(repeat));
+  }
+
+  /**
+   * 端の折り返しを設定
+   * 有効時はストロークと対称コピーの端を越えた部分を反対側の端に描き、ドキュメントを継ぎ目なく繰り返すタイルにする
+   */
+  setWrapEdges(wrapEdges: boolean): void {
+    drawingStore.getState().setWrapEdges(wrapEdges);
+  }
+
+  /**
+   * 対称ガイド線（鏡映軸・壁紙の格子）の表示を設定
+   */
+  setShowSymmetryGuides(show: boolean): void {
+    viewStore.getState().setShowSymmetryGuides(show);
+  }
+
+  /**
+   * 対称中心を設定（ドキュメント座標、ドキュメント内に収める）
+   */
+  setSymmetryCenter(point: { x: number; y: number }): void {
+    const { width, height } = drawingSelectors.canvasSize();
+    drawingStore.getState().setCenterPoint({
+      x: Math.max(0, Math.min(width, point.x)),
+      y: Math.max(0, Math.min(height, point.y)),
+    });
+  }
+
   /**
    * ブラシサイズを設定
    * Task 6.6 統合: UI制御から描画エンジンへの設定伝達
@@ -253,4 +908,77 @@ export class DrawingCoordinator {
       console.log('Brush size updated:', size);
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * 描画色を設定
+   * 以降のストロークにのみ反映され、確定済みのストロークは各自のスタイルを保持する
+   */
+  setColor(color: [number, number, number, number]): void {
+    drawingStore.getState().setColor(color);
+
+    if (this.isDebugEnabled()) {
+      console.log('Color updated:', color);
+    }
+  }
+
+  /**
+   * 不透明度を設定
+   */
+  setOpacity(opacity: number): void {
+    drawingStore.getState().setOpacity(opacity);
+
+    if (this.isDebugEnabled()) {
+      console.log('Opacity updated:', opacity);
+    }
+  }
+
+  /**
+   * ドキュメント背景を設定
+   * 再描画は状態購読から行われる
+   */
+  setBackground(background: CanvasBackground): void {
+    drawingStore.getState().setBackground(background);
+
+    if (this.isDebugEnabled()) {
+      console.log('Background updated:', background);
+    }
+  }
+
+  /**
+   * ストロークの合成モードを設定
+   * 以降のストロークにのみ反映される
+   */
+  setBlendMode(blendMode: BlendMode): void {
+    drawingStore.getState().setBlendMode(blendMode);
+
+    if (this.isDebugEnabled()) {
+      console.log('Blend mode updated:', blendMode);
+    }
+  }
+
+  /**
+   * 描画ツール（ブラシ/消しゴム）を設定
+   * 消しゴムはアクティブレイヤーの描画を対称設定どおりに消去する
+   */
+  setTool(tool: DrawingTool): void {
+    drawingStore.getState().setTool(tool);
+
+    if (this.isDebugEnabled()) {
+      console.log('Tool updated:', tool);
+    }
+  }
+
+  /**
+   * ブラシを設定
+   * 以降のストロークにのみ反映される
+   */
+  setBrush(brushId: string): void {
+    // 未知のブラシIDはレンダラー側で例外になるため、先に反映してからストアを更新
+    this.renderer.setBrush(brushId);
+    drawingStore.getState().setBrushId(brushId);
+
+    if (this.isDebugEnabled()) {
+      console.log('Brush updated:', brushId);
+    }
+  }
+}
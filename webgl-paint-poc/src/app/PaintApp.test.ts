@@ -8,6 +8,7 @@ import { PaintApp } from './PaintApp';
 import { PaintAppFactory } from './PaintAppFactory';
 import { coreStore } from '../store/coreStore';
 import { drawingStore } from '../store/drawingStore';
+import { SymmetryType } from '../types/core';
 
 describe('PaintApp', () => {
   let canvasElement: HTMLCanvasElement;
@@ -144,10 +145,17 @@ describe('PaintApp', () => {
       paintApp.updateSymmetry(false);
       expect(drawingStore.getState().symmetry.enabled).toBe(false);
 
-      paintApp.updateSymmetry(true, 16);
+      paintApp.updateSymmetry(true, 16, SymmetryType.CYCLIC);
       const updatedState = drawingStore.getState().symmetry;
       expect(updatedState.enabled).toBe(true);
-      expect(updatedState.axisCount).toBe(8);
+      expect(updatedState.axisCount).toBe(16);
+      expect(updatedState.type).toBe(SymmetryType.CYCLIC);
+
+      // N回対称は2〜64に制限される
+      paintApp.updateSymmetry(true, 100);
+      expect(drawingStore.getState().symmetry.axisCount).toBe(64);
+      paintApp.updateSymmetry(true, 1);
+      expect(drawingStore.getState().symmetry.axisCount).toBe(2);
     });
   });
 
@@ -8,8 +8,13 @@ import { InputProcessor } from '../input/InputProcessor';
 import { ExtendedInputProcessor } from '../input/ExtendedInputProcessor';
 import { CanvasManager } from './CanvasManager';
 import { DrawingCoordinator } from './DrawingCoordinator';
+import type { ExportImageOptions } from './DrawingCoordinator';
 import { DebugManager } from './DebugManager';
 import { StateSubscriptionManager } from './StateSubscriptionManager';
+import type { SymmetryCenterHandle } from './SymmetryCenterHandle';
+import { drawingSelectors } from '../store/drawingStore';
+import type { LayerState } from '../types/state';
+import type { BlendMode, CanvasBackground, DrawingTool, ResizeAnchor, SymmetryMode, SymmetryType, WallpaperGroup } from '../types/core';
 
 /**
  * アプリケーション設定
@@ -19,8 +24,12 @@ export interface PaintAppConfig {
   canvasId: string;
   /** Canvas表示サイズ */
   displaySize: { width: number; height: number };
+  /** ドキュメントサイズ（省略時は1024x1024） */
+  documentSize?: { width: number; height: number };
   /** デバッグモードを有効にするか */
   enableDebug: boolean;
+  /** 描画中のストロークを変化した領域だけ再描画するか（描画バッファを保持するため毎フレームのコストが増える。省略時は無効） */
+  partialRedraw?: boolean;
 }
 
 /**
@@ -33,6 +42,8 @@ export interface PaintAppDependencies {
   stateSubscriptionManager: StateSubscriptionManager;
   inputProcessor: InputProcessor;
   renderer: WebGLRenderer;
+  /** 対称中心ハンドル（DOM上に表示する場合のみ） */
+  symmetryCenterHandle?: SymmetryCenterHandle;
 }
 
 /**
@@ -81,6 +92,34 @@ export class PaintApp {
     this.managers.canvasManager.updateDisplaySize(size);
   }
 
+  /**
+   * 指定サイズの新規ドキュメントを作成
+   */
+  newDocument(size: { width: number; height: number }): void {
+    this.managers.drawingCoordinator.newDocument(size);
+  }
+
+  /**
+   * ドキュメントをリサイズ・トリミング（anchorの位置を基準に描画を残す）
+   */
+  resizeCanvas(size: { width: number; height: number }, anchor?: ResizeAnchor): void {
+    this.managers.drawingCoordinator.resizeCanvas(size, anchor);
+  }
+
+  /**
+   * 現在のドキュメントサイズを取得
+   */
+  getCanvasSize(): { width: number; height: number } {
+    return drawingSelectors.canvasSize();
+  }
+
+  /**
+   * ドキュメント背景を設定（透明・単色・紙テクスチャ）
+   */
+  setBackground(background: CanvasBackground): void {
+    this.managers.drawingCoordinator.setBackground(background);
+  }
+
   /**
    * キャンバスをクリア
    */
@@ -91,8 +130,86 @@ export class PaintApp {
   /**
    * 対称設定を更新
    */
-  updateSymmetry(enabled: boolean, axisCount?: number): void {
-    this.managers.drawingCoordinator.updateSymmetry(enabled, axisCount);
+  updateSymmetry(enabled: boolean, axisCount?: number, type?: SymmetryType): void {
+    this.managers.drawingCoordinator.updateSymmetry(enabled, axisCount, type);
+  }
+
+  /**
+   * 対称モードを設定（放射対称・垂直／水平／四方向の鏡映・壁紙群）
+   */
+  setSymmetryMode(mode: SymmetryMode): void {
+    this.managers.drawingCoordinator.setSymmetryMode(mode);
+  }
+
+  /**
+   * 鏡映軸の回転角度を設定（ラジアン、軸の位置は対称中心）
+   */
+  setMirrorAngle(angle: number): void {
+    this.managers.drawingCoordinator.setMirrorAngle(angle);
+  }
+
+  /**
+   * 壁紙モードの壁紙群を設定
+   */
+  setWallpaperGroup(group: WallpaperGroup): void {
+    this.managers.drawingCoordinator.setWallpaperGroup(group);
+  }
+
+  /**
+   * 壁紙モードで格子が横方向に繰り返す数を設定（縦は胞の縦横比から決まる）
+   * 正方格子・六方格子では胞が縦横比どおりになるよう、近い繰り返し数に変わることがある
+   */
+  setWallpaperRepeat(repeat: number): void {
+    this.managers.drawingCoordinator.setWallpaperRepeat(repeat);
+  }
+
+  /**
+   * 端の折り返しを設定（端を越えた部分を反対側の端に描く）
+   */
+  setWrapEdges(wrapEdges: boolean): void {
+    this.managers.drawingCoordinator.setWrapEdges(wrapEdges);
+  }
+
+  /**
+   * 対称中心を設定（ドキュメント座標）
+   */
+  setSymmetryCenter(point: { x: number; y: number }): void {
+    this.managers.drawingCoordinator.setSymmetryCenter(point);
+  }
+
+  /**
+   * 中心ハンドルのドラッグ時に中心・三分割線へ吸着させるかを設定
+   */
+  setSymmetryCenterSnapping(enabled: boolean): void {
+    this.managers.symmetryCenterHandle?.setSnapping(enabled);
+  }
+
+  /**
+   * ズームレベルを設定（1.0 = 100%）
+   */
+  setZoom(zoom: number): void {
+    this.managers.drawingCoordinator.setZoom(zoom);
+  }
+
+  /**
+   * タイリング表示の有効/無効を設定（ズームアウト時のみ表示される）
+   */
+  setTilingEnabled(enabled: boolean): void {
+    this.managers.drawingCoordinator.setTilingEnabled(enabled);
+  }
+
+  /**
+   * タイル境界線の表示を設定
+   */
+  setShowTileBorders(show: boolean): void {
+    this.managers.drawingCoordinator.setShowTileBorders(show);
+  }
+
+  /**
+   * 対称ガイド線（鏡映軸・壁紙の格子）の表示を設定
+   */
+  setShowSymmetryGuides(show: boolean): void {
+    this.managers.drawingCoordinator.setShowSymmetryGuides(show);
   }
 
   /**
@@ -113,6 +230,160 @@ export class PaintApp {
     this.managers.drawingCoordinator.setBrushSize(size);
   }
 
+  /**
+   * 直前のストロークを取り消す
+   */
+  undo(): void {
+    this.managers.drawingCoordinator.undo();
+  }
+
+  /**
+   * 取り消したストロークをやり直す
+   */
+  redo(): void {
+    this.managers.drawingCoordinator.redo();
+  }
+
+  // =============================================================================
+  // レイヤーAPI
+  // =============================================================================
+
+  /**
+   * レイヤー一覧を取得（下から順）
+   */
+  getLayers(): readonly LayerState[] {
+    return drawingSelectors.layers();
+  }
+
+  /**
+   * 描画先のレイヤーIDを取得
+   */
+  getActiveLayerId(): string {
+    return drawingSelectors.activeLayerId();
+  }
+
+  /**
+   * アクティブレイヤーの上に新しいレイヤーを追加
+   */
+  addLayer(name?: string): void {
+    this.managers.drawingCoordinator.addLayer(name);
+  }
+
+  /**
+   * レイヤーを削除
+   */
+  removeLayer(layerId: string): void {
+    this.managers.drawingCoordinator.removeLayer(layerId);
+  }
+
+  /**
+   * レイヤーを指定位置（下から数えたインデックス）へ移動
+   */
+  moveLayer(layerId: string, toIndex: number): void {
+    this.managers.drawingCoordinator.moveLayer(layerId, toIndex);
+  }
+
+  /**
+   * レイヤーを下のレイヤーに統合できるか（最下層・ロック中・通常以外の合成モードのレイヤーは統合できない）
+   */
+  canMergeLayerDown(layerId: string): boolean {
+    return drawingSelectors.canMergeLayerDown(layerId);
+  }
+
+  /**
+   * レイヤーを下のレイヤーに統合（統合前と同じ見た目を保つ）
+   * 統合できないレイヤーでは何もしない
+   */
+  mergeLayerDown(layerId: string): void {
+    this.managers.drawingCoordinator.mergeLayerDown(layerId);
+  }
+
+  /**
+   * レイヤーを複製
+   */
+  duplicateLayer(layerId: string): void {
+    this.managers.drawingCoordinator.duplicateLayer(layerId);
+  }
+
+  /**
+   * 描画先のレイヤーを設定
+   */
+  setActiveLayer(layerId: string): void {
+    this.managers.drawingCoordinator.setActiveLayer(layerId);
+  }
+
+  /**
+   * レイヤーの表示/非表示を設定
+   */
+  setLayerVisible(layerId: string, visible: boolean): void {
+    this.managers.drawingCoordinator.setLayerVisible(layerId, visible);
+  }
+
+  /**
+   * レイヤーの不透明度を設定（0-1）
+   */
+  setLayerOpacity(layerId: string, opacity: number): void {
+    this.managers.drawingCoordinator.setLayerOpacity(layerId, opacity);
+  }
+
+  /**
+   * レイヤーのロックを設定
+   */
+  setLayerLocked(layerId: string, locked: boolean): void {
+    this.managers.drawingCoordinator.setLayerLocked(layerId, locked);
+  }
+
+  /**
+   * レイヤーの合成モードを設定
+   */
+  setLayerBlendMode(layerId: string, blendMode: BlendMode): void {
+    this.managers.drawingCoordinator.setLayerBlendMode(layerId, blendMode);
+  }
+
+  /**
+   * キャンバスを画像として書き出す（画面と同じ合成結果）
+   * options.includeBackgroundがfalseなら背景を含めず透明で書き出す
+   * @returns 画像のdata URL
+   */
+  exportImage(type: string = 'image/png', options: ExportImageOptions = {}): string {
+    return this.managers.drawingCoordinator.exportImage(type, options);
+  }
+
+  /**
+   * ブラシを設定
+   */
+  setBrush(brushId: string): void {
+    this.managers.drawingCoordinator.setBrush(brushId);
+  }
+
+  /**
+   * 描画色を設定（RGBA 0-1）
+   */
+  setColor(color: [number, number, number, number]): void {
+    this.managers.drawingCoordinator.setColor(color);
+  }
+
+  /**
+   * 描画ツール（ブラシ/消しゴム）を設定
+   */
+  setTool(tool: DrawingTool): void {
+    this.managers.drawingCoordinator.setTool(tool);
+  }
+
+  /**
+   * ストロークの合成モードを設定
+   */
+  setBlendMode(blendMode: BlendMode): void {
+    this.managers.drawingCoordinator.setBlendMode(blendMode);
+  }
+
+  /**
+   * 不透明度を設定（0-1）
+   */
+  setOpacity(opacity: number): void {
+    this.managers.drawingCoordinator.setOpacity(opacity);
+  }
+
   /**
    * 筆圧補正を有効/無効にする
    */
@@ -169,6 +440,7 @@ export class PaintApp {
   destroy(): void {
     // 各マネージャーのクリーンアップを実行
     this.managers.stateSubscriptionManager.cleanup();
+    this.managers.symmetryCenterHandle?.cleanup();
     this.managers.debugManager.cleanup();
     this.managers.inputProcessor.destroy();
     this.managers.renderer.cleanup();
@@ -10,12 +10,15 @@ import { CanvasManager } from './CanvasManager';
 import { DrawingCoordinator } from './DrawingCoordinator';
 import { DebugManager } from './DebugManager';
 import { StateSubscriptionManager } from './StateSubscriptionManager';
+import { SymmetryCenterHandle } from './SymmetryCenterHandle';
 import { PaintApp } from './PaintApp';
-import { drawingStore } from '../store/drawingStore';
+import { drawingStore, drawingSelectors } from '../store/drawingStore';
+import { viewSelectors } from '../store/viewStore';
 import { systemStore } from '../store/systemStore';
 import { initializeStores } from '../store/storeHelpers';
 import type { PaintAppConfig } from './PaintApp';
 import type { ViewState } from '../types/state';
+import { CANVAS_SIZE } from '../types/core';
 
 /**
  * PaintApp組み立て用のファクトリークラス
@@ -28,7 +31,7 @@ export class PaintAppFactory {
   static create(config: PaintAppConfig): PaintApp {
     // 1. ストアの初期化
     initializeStores({
-      canvasSize: { width: 1024, height: 1024 },
+      canvasSize: config.documentSize ?? { width: CANVAS_SIZE, height: CANVAS_SIZE },
       displaySize: config.displaySize,
       canvasId: config.canvasId,
       enableDebug: config.enableDebug,
@@ -36,10 +39,10 @@ export class PaintAppFactory {
 
     // 2. Canvas管理の初期化
     const canvasManager = new CanvasManager(() => systemStore.getState().appConfig);
-    const canvas = canvasManager.initializeCanvas();
+    const canvas = canvasManager.initializeCanvas(drawingSelectors.canvasSize());
 
     // 3. WebGL描画エンジンの初期化
-    const renderer = new WebGLRenderer(canvas);
+    const renderer = new WebGLRenderer(canvas, { preserveDrawingBuffer: config.partialRedraw ?? false });
 
     // 4. 入力処理の初期化（Task 6.6統合: ExtendedInputProcessor使用）
     const inputProcessor = new ExtendedInputProcessor(canvas, undefined, {
@@ -57,20 +60,44 @@ export class PaintAppFactory {
     // 6. デバッグ管理の初期化
     const debugManager = new DebugManager(
       () => systemStore.getState().appConfig.enableDebug,
-      () => inputProcessor.getStats()
+      () => inputProcessor.getStats(),
+      () => drawingCoordinator.getFrameMetrics()
+    );
+
+    // 対称中心ハンドル（ドラッグした位置はスナップ済みでストアに反映）
+    const symmetryCenterHandle = new SymmetryCenterHandle(
+      canvas,
+      (point) => drawingCoordinator.setSymmetryCenter(point)
     );
+    symmetryCenterHandle.setSymmetry(drawingSelectors.symmetry());
+    symmetryCenterHandle.setViewTransform(viewSelectors.transform());
 
     // 7. 状態購読管理の初期化
     const stateSubscriptionManager = new StateSubscriptionManager(
       {
-        onSymmetryChange: () => {
+        onCanvasSizeChange: (canvasSize) => {
+          // Canvas要素の論理サイズを先に更新してから描画側に反映
+          canvasManager.setDocumentSize(canvasSize);
+          drawingCoordinator.handleCanvasSizeChange(canvasSize);
+        },
+        onBackgroundChange: () => {
+          // 背景はクリア時に描画されるため再描画のみ
+          drawingCoordinator.render();
+        },
+        onWrapEdgesChange: () => {
+          // 端の折り返しはストロークの描画結果を変えるため再描画
+          drawingCoordinator.render();
+        },
+        onSymmetryChange: (symmetryState) => {
           // 対称設定変更時に再描画
+          symmetryCenterHandle.setSymmetry(symmetryState);
           drawingCoordinator.render();
         },
         onViewChange: (viewState: ViewState) => {
-          // ビュー変換を入力処理に反映
+          // ビュー変換を入力処理・描画・中心ハンドルに反映
           inputProcessor.updateViewTransform(viewState.transform);
-          drawingCoordinator.render();
+          drawingCoordinator.setViewTransform(viewState.transform);
+          symmetryCenterHandle.setViewTransform(viewState.transform);
         },
       },
       () => systemStore.getState().appConfig.enableDebug
@@ -79,6 +106,19 @@ export class PaintAppFactory {
     // 8. 入力イベントの配線
     inputProcessor.setEventCallback(drawingCoordinator.handleInputEvent.bind(drawingCoordinator));
 
+    // コンテキスト消失中は入力と描画を止め、復帰時にストアから描画内容を再構築
+    renderer.setContextLossCallbacks({
+      onLost: () => drawingCoordinator.handleContextLost(),
+      onRestored: () => drawingCoordinator.handleContextRestored(),
+    });
+
+    // 高DPI・レイアウト変更でバッキングストアが変わったら描き直す
+    // 表示サイズも変わるため中心ハンドルの位置も合わせる
+    canvasManager.setBackingStoreResizeCallback(size => {
+      drawingCoordinator.handleBackingStoreResize(size);
+      symmetryCenterHandle.updatePosition();
+    });
+
     // 9. PaintApp本体の組み立て
     const paintApp = new PaintApp({
       canvasManager,
@@ -87,6 +127,7 @@ export class PaintAppFactory {
       stateSubscriptionManager,
       inputProcessor,
       renderer,
+      symmetryCenterHandle,
     });
 
     // 10. 初期化完了処理
@@ -168,6 +209,9 @@ export class PaintAppFactory {
     if (!config.displaySize || config.displaySize.width <= 0 || config.displaySize.height <= 0) {
       throw new Error('Valid displaySize is required');
     }
+    if (config.documentSize && (config.documentSize.width <= 0 || config.documentSize.height <= 0)) {
+      throw new Error('documentSize must be positive');
+    }
   }
 
   /**
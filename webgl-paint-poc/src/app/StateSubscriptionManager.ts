@@ -6,11 +6,15 @@
 import { drawingStore } from '../store/drawingStore';
 import { viewStore } from '../store/viewStore';
 import type { SymmetryState, ViewState } from '../types/state';
+import type { CanvasBackground } from '../types/core';
 
 /**
  * 状態変更コールバック関数の型定義
  */
 export interface StateChangeCallbacks {
+  onCanvasSizeChange?: (canvasSize: { width: number; height: number }) => void;
+  onBackgroundChange?: (background: CanvasBackground) => void;
+  onWrapEdgesChange?: (wrapEdges: boolean) => void;
   onSymmetryChange?: (symmetryState: SymmetryState) => void;
   onViewChange?: (viewState: ViewState) => void;
 }
@@ -37,6 +41,52 @@ export class StateSubscriptionManager {
    * PaintApp.setupStateSubscriptions()から移植
    */
   setupSubscriptions(): void {
+    // ドキュメントサイズの変更を監視
+    // リサイズでは対称中心も同時に変わるため、対称設定より先に反映する
+    const canvasSizeUnsubscribe = drawingStore.subscribe(
+      (state) => state.drawingEngine.canvasSize,
+      (canvasSize) => {
+        if (this.isDebugEnabled()) {
+          console.log('Canvas size changed:', canvasSize);
+        }
+
+        if (this.callbacks.onCanvasSizeChange) {
+          this.callbacks.onCanvasSizeChange(canvasSize);
+        }
+      }
+    );
+    this.subscriptions.push(canvasSizeUnsubscribe);
+
+    // ドキュメント背景の変更を監視
+    const backgroundUnsubscribe = drawingStore.subscribe(
+      (state) => state.drawingEngine.background,
+      (background) => {
+        if (this.isDebugEnabled()) {
+          console.log('Background changed:', background);
+        }
+
+        if (this.callbacks.onBackgroundChange) {
+          this.callbacks.onBackgroundChange(background);
+        }
+      }
+    );
+    this.subscriptions.push(backgroundUnsubscribe);
+
+    // 端の折り返しの変更を監視
+    const wrapEdgesUnsubscribe = drawingStore.subscribe(
+      (state) => state.drawingEngine.wrapEdges,
+      (wrapEdges) => {
+        if (this.isDebugEnabled()) {
+          console.log('Wrap edges changed:', wrapEdges);
+        }
+
+        if (this.callbacks.onWrapEdgesChange) {
+          this.callbacks.onWrapEdgesChange(wrapEdges);
+        }
+      }
+    );
+    this.subscriptions.push(wrapEdgesUnsubscribe);
+
     // 対称設定の変更を監視
     const symmetryUnsubscribe = drawingStore.subscribe(
       (state) => state.symmetry,
@@ -0,0 +1,234 @@
+/**
+ * 対称中心ハンドル
+ * Canvas上に重ねたハンドルをドラッグして対称中心を動かす
+ * ハンドルはCanvasの兄弟要素なので、ドラッグ中の入力は描画側に届かない
+ */
+
+import type { SymmetryState } from '../types/state';
+import type { ViewTransformState } from '../types/coordinates';
+import type { Point2D } from '../symmetry/transform';
+import { snapSymmetryCenter } from '../symmetry/centerSnapping';
+import {
+  createCanvasDisplayInfo,
+  transformCanvasToPointer,
+  transformCanvasToView,
+  transformPointerToCanvas,
+  transformViewToCanvas,
+} from '../input/coordinateTransformFunctions';
+
+/**
+ * 吸着距離（画面上のCSSピクセル）
+ */
+const SNAP_DISTANCE_PX = 8;
+
+/**
+ * ハンドルの直径（CSSピクセル）
+ */
+const HANDLE_SIZE_PX = 16;
+
+/**
+ * ハンドルの枠線色（通常時・吸着時）
+ */
+const HANDLE_COLOR = '#ff4081';
+const HANDLE_SNAPPED_COLOR = '#00c853';
+
+/**
+ * 対称中心ハンドル
+ * 表示位置の計算とドラッグ操作のみを担当し、中心の保存はコールバックに任せる
+ */
+export class SymmetryCenterHandle {
+  private canvas: HTMLCanvasElement;
+  private element: HTMLDivElement;
+  private onCenterChange: (point: Point2D) => void;
+  private center: Point2D = { x: 0, y: 0 };
+  private enabled = false;
+  private viewTransform: ViewTransformState = {
+    zoom: 1.0,
+    panOffset: { canvasX: 0, canvasY: 0 },
+    rotation: 0,
+  };
+  private snapping = true;
+  private dragPointerId: number | null = null;
+
+  private handlePointerDown = (event: PointerEvent) => this.startDrag(event);
+  private handlePointerMove = (event: PointerEvent) => this.drag(event);
+  private handlePointerUp = (event: PointerEvent) => this.endDrag(event);
+
+  /**
+   * @param canvas 描画Canvas（親要素にハンドルを追加する）
+   * @param onCenterChange ドラッグで中心が動いたときのコールバック（スナップ済みのドキュメント座標）
+   */
+  constructor(canvas: HTMLCanvasElement, onCenterChange: (point: Point2D) => void) {
+    const container = canvas.parentElement;
+    if (!container) {
+      throw new Error('Canvas must be attached to a parent element');
+    }
+
+    this.canvas = canvas;
+    this.onCenterChange = onCenterChange;
+    this.element = this.createElement();
+
+    // ハンドルをCanvas基準で配置するため、親要素を配置の基準にする
+    if (getComputedStyle(container).position === 'static') {
+      container.style.position = 'relative';
+    }
+    container.appendChild(this.element);
+
+    this.element.addEventListener('pointerdown', this.handlePointerDown);
+    this.element.addEventListener('pointermove', this.handlePointerMove);
+    this.element.addEventListener('pointerup', this.handlePointerUp);
+    this.element.addEventListener('pointercancel', this.handlePointerUp);
+  }
+
+  /**
+   * 対称設定を反映（無効時はハンドルを隠す）
+   */
+  setSymmetry(symmetry: SymmetryState): void {
+    this.center = symmetry.centerPoint;
+    this.enabled = symmetry.enabled;
+    this.updatePosition();
+  }
+
+  /**
+   * ビュー変換を反映
+   */
+  setViewTransform(viewTransform: ViewTransformState): void {
+    this.viewTransform = viewTransform;
+    this.updatePosition();
+  }
+
+  /**
+   * 中心・三分割線への吸着を設定
+   */
+  setSnapping(enabled: boolean): void {
+    this.snapping = enabled;
+  }
+
+  /**
+   * 吸着が有効か
+   */
+  isSnappingEnabled(): boolean {
+    return this.snapping;
+  }
+
+  /**
+   * ハンドルの表示位置を更新
+   * Canvasの表示サイズやレイアウトが変わったときにも呼ぶ
+   */
+  updatePosition(): void {
+    const canvasDisplay = createCanvasDisplayInfo(this.canvas);
+    const view = transformCanvasToView(
+      { canvasX: this.center.x, canvasY: this.center.y },
+      canvasDisplay,
+      this.viewTransform
+    );
+
+    // ズーム・パンで中心が表示範囲外に出たら隠す
+    const insideView = view.viewX >= 0 && view.viewX <= canvasDisplay.logicalWidth
+      && view.viewY >= 0 && view.viewY <= canvasDisplay.logicalHeight;
+    if (!this.enabled || !insideView) {
+      this.element.style.display = 'none';
+      return;
+    }
+
+    const pointer = transformCanvasToPointer({ canvasX: view.viewX, canvasY: view.viewY }, canvasDisplay);
+    this.element.style.display = 'block';
+    this.element.style.left = `${this.canvas.offsetLeft + this.canvas.clientLeft + pointer.offsetX}px`;
+    this.element.style.top = `${this.canvas.offsetTop + this.canvas.clientTop + pointer.offsetY}px`;
+  }
+
+  /**
+   * ハンドルを取り除く
+   */
+  cleanup(): void {
+    this.element.removeEventListener('pointerdown', this.handlePointerDown);
+    this.element.removeEventListener('pointermove', this.handlePointerMove);
+    this.element.removeEventListener('pointerup', this.handlePointerUp);
+    this.element.removeEventListener('pointercancel', this.handlePointerUp);
+    this.element.remove();
+  }
+
+  /**
+   * ドラッグ開始（内部ヘルパー）
+   */
+  private startDrag(event: PointerEvent): void {
+    if (this.dragPointerId !== null) return;
+
+    event.preventDefault();
+    event.stopPropagation();
+    this.dragPointerId = event.pointerId;
+    this.element.setPointerCapture(event.pointerId);
+  }
+
+  /**
+   * ドラッグ中の中心更新（内部ヘルパー）
+   */
+  private drag(event: PointerEvent): void {
+    if (event.pointerId !== this.dragPointerId) return;
+
+    event.preventDefault();
+    const canvasDisplay = createCanvasDisplayInfo(this.canvas);
+    const rect = this.canvas.getBoundingClientRect();
+    const display = transformPointerToCanvas(
+      {
+        offsetX: event.clientX - rect.left - this.canvas.clientLeft,
+        offsetY: event.clientY - rect.top - this.canvas.clientTop,
+      },
+      canvasDisplay
+    );
+    const point = transformViewToCanvas(
+      { viewX: display.canvasX, viewY: display.canvasY },
+      canvasDisplay,
+      this.viewTransform
+    );
+
+    // 吸着距離は画面上で一定にする（表示倍率とズームでドキュメント座標に換算）
+    const threshold = this.snapping && canvasDisplay.offsetWidth > 0
+      ? SNAP_DISTANCE_PX * (canvasDisplay.logicalWidth / canvasDisplay.offsetWidth) / this.viewTransform.zoom
+      : 0;
+    const result = snapSymmetryCenter(
+      { x: point.canvasX, y: point.canvasY },
+      { width: canvasDisplay.logicalWidth, height: canvasDisplay.logicalHeight },
+      threshold
+    );
+
+    this.element.style.borderColor = result.snappedX || result.snappedY ? HANDLE_SNAPPED_COLOR : HANDLE_COLOR;
+    this.onCenterChange(result.point);
+  }
+
+  /**
+   * ドラッグ終了（内部ヘルパー）
+   */
+  private endDrag(event: PointerEvent): void {
+    if (event.pointerId !== this.dragPointerId) return;
+
+    this.dragPointerId = null;
+    this.element.style.borderColor = HANDLE_COLOR;
+    if (this.element.hasPointerCapture(event.pointerId)) {
+      this.element.releasePointerCapture(event.pointerId);
+    }
+  }
+
+  /**
+   * ハンドル要素を作成（内部ヘルパー）
+   */
+  private createElement(): HTMLDivElement {
+    const element = document.createElement('div');
+    element.className = 'symmetry-center-handle';
+    element.title = '対称中心（ドラッグで移動）';
+    element.style.cssText = `
+      position: absolute;
+      display: none;
+      width: ${HANDLE_SIZE_PX}px;
+      height: ${HANDLE_SIZE_PX}px;
+      margin: ${-HANDLE_SIZE_PX / 2}px 0 0 ${-HANDLE_SIZE_PX / 2}px;
+      box-sizing: border-box;
+      border: 2px solid ${HANDLE_COLOR};
+      border-radius: 50%;
+      background: rgba(255, 255, 255, 0.6);
+      cursor: move;
+      touch-action: none;
+    `;
+    return element;
+  }
+}
@@ -432,6 +432,25 @@ describe('InputEventHandler', () => {
       expect(receivedEvent.position.canvasY).toBeCloseTo(0, 4);
     });
 
+    it('should map pointer positions back through the view transform', () => {
+      inputHandler.updateViewTransform({
+        zoom: 2.0,
+        panOffset: { canvasX: 0, canvasY: 0 },
+        rotation: 0,
+      });
+
+      const event = new PointerEvent('pointerdown', { pointerId: 1 });
+      // 表示上の(256, 256)は中心(512, 512)周りに2倍ズームされた(384, 384)
+      Object.defineProperty(event, 'offsetX', { value: 50, configurable: true });
+      Object.defineProperty(event, 'offsetY', { value: 50, configurable: true });
+
+      canvasElement.dispatchEvent(event);
+
+      expect(receivedEvents).toHaveLength(1);
+      expect(receivedEvents[0].position.canvasX).toBeCloseTo(384, 4);
+      expect(receivedEvents[0].position.canvasY).toBeCloseTo(384, 4);
+    });
+
     it('should handle view transform updates', () => {
       const viewTransform: ViewTransformState = {
         zoom: 2.0,
@@ -0,0 +1,66 @@
+/**
+ * 座標変換関数のテスト
+ * 高DPI環境でのバッキングストアと論理サイズの分離を検証
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  computeBackingStoreSize,
+  createCanvasDisplayInfo,
+  createPointerCanvasTransformMatrices,
+  getCanvasLogicalSize,
+  setCanvasLogicalSize,
+} from './coordinateTransformFunctions';
+
+describe('coordinateTransformFunctions', () => {
+  describe('computeBackingStoreSize', () => {
+    it('should scale the display size by devicePixelRatio', () => {
+      expect(computeBackingStoreSize({ width: 500, height: 400 }, 2)).toEqual({ width: 1000, height: 800 });
+    });
+
+    it('should round fractional ratios to whole device pixels', () => {
+      expect(computeBackingStoreSize({ width: 500, height: 333 }, 1.25)).toEqual({ width: 625, height: 416 });
+    });
+
+    it('should treat an invalid ratio as 1 and keep at least one pixel', () => {
+      expect(computeBackingStoreSize({ width: 500, height: 0 }, 0)).toEqual({ width: 500, height: 1 });
+    });
+  });
+
+  describe('Canvas logical size', () => {
+    it('should fall back to the backing store size', () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = 300;
+      canvas.height = 200;
+
+      expect(getCanvasLogicalSize(canvas)).toEqual({ width: 300, height: 200 });
+    });
+
+    it('should keep the logical size when the backing store is scaled', () => {
+      const canvas = document.createElement('canvas');
+      setCanvasLogicalSize(canvas, { width: 1024, height: 1024 });
+      canvas.width = 1000;
+      canvas.height = 1000;
+
+      expect(getCanvasLogicalSize(canvas)).toEqual({ width: 1024, height: 1024 });
+    });
+
+    it('should map pointer coordinates to the logical size', () => {
+      const canvas = document.createElement('canvas');
+      setCanvasLogicalSize(canvas, { width: 1024, height: 1024 });
+      canvas.width = 1000;
+      canvas.height = 1000;
+      Object.defineProperty(canvas, 'offsetWidth', { value: 500 });
+      Object.defineProperty(canvas, 'offsetHeight', { value: 500 });
+
+      const displayInfo = createCanvasDisplayInfo(canvas);
+      const { pointerToCanvas } = createPointerCanvasTransformMatrices(displayInfo);
+
+      const point = pointerToCanvas.transformPoint(250, 500);
+
+      expect(displayInfo.logicalWidth).toBe(1024);
+      expect(point.x).toBeCloseTo(512, 3);
+      expect(point.y).toBeCloseTo(1024, 3);
+    });
+  });
+});
@@ -284,17 +284,64 @@ export function transformViewToCanvas(
 // ユーティリティ関数
 // =============================================================================
 
+/**
+ * Canvas要素の論理サイズ（Canvas座標系の大きさ）を取得
+ * 高DPI対応でバッキングストア(width/height)が論理サイズと異なる場合は
+ * data-logical-width/heightの値を使い、未設定ならバッキングストアのサイズを返す
+ */
+export function getCanvasLogicalSize(
+  canvasElement: HTMLCanvasElement
+): { width: number; height: number } {
+  const width = Number(canvasElement.dataset.logicalWidth);
+  const height = Number(canvasElement.dataset.logicalHeight);
+
+  return {
+    width: width > 0 ? width : canvasElement.width,
+    height: height > 0 ? height : canvasElement.height,
+  };
+}
+
+/**
+ * Canvas要素に論理サイズを記録
+ */
+export function setCanvasLogicalSize(
+  canvasElement: HTMLCanvasElement,
+  size: { width: number; height: number }
+): void {
+  canvasElement.dataset.logicalWidth = String(size.width);
+  canvasElement.dataset.logicalHeight = String(size.height);
+}
+
+/**
+ * CSS表示サイズとdevicePixelRatioからバッキングストアのサイズを計算（純粋関数）
+ * デバイスピクセル単位に丸め、最低1pxを保証する
+ */
+export function computeBackingStoreSize(
+  displaySize: { width: number; height: number },
+  devicePixelRatio: number
+): { width: number; height: number } {
+  const ratio = devicePixelRatio > 0 ? devicePixelRatio : 1;
+
+  return {
+    width: Math.max(1, Math.round(displaySize.width * ratio)),
+    height: Math.max(1, Math.round(displaySize.height * ratio)),
+  };
+}
+
 /**
  * HTMLCanvasElementからCanvasDisplayInfoを作成（純粋関数）
+ * 論理サイズはバッキングストアではなくCanvas座標系の大きさ
  */
 export function createCanvasDisplayInfo(
   canvasElement: HTMLCanvasElement
 ): CanvasDisplayInfo {
+  const logicalSize = getCanvasLogicalSize(canvasElement);
+
   return {
     offsetWidth: canvasElement.offsetWidth,
     offsetHeight: canvasElement.offsetHeight,
-    logicalWidth: canvasElement.width,
-    logicalHeight: canvasElement.height,
+    logicalWidth: logicalSize.width,
+    logicalHeight: logicalSize.height,
   };
 }
 
@@ -10,8 +10,10 @@ import type {
 } from '../types/coordinates';
 import {
   transformPointerToCanvas,
+  transformViewToCanvas,
   createCanvasDisplayInfo,
 } from './coordinateTransformFunctions';
+import type { CanvasDisplayInfo } from './coordinateTransformFunctions';
 
 /**
  * 正規化された入力イベントデータ
@@ -39,6 +41,20 @@ export interface NormalizedInputEvent {
  */
 export type InputEventCallback = (event: NormalizedInputEvent) => void;
 
+/**
+ * ペンの消しゴム側で入力中を示すbuttonsのビット（Pointer Events仕様のeraser button）
+ */
+export const PEN_ERASER_BUTTON = 32;
+
+/**
+ * ペンの消しゴム側による入力か判定（純粋関数）
+ * @param event 正規化された入力イベント
+ * @returns 消しゴム入力ならtrue
+ */
+export function isEraserInput(event: Pick<NormalizedInputEvent, 'deviceType' | 'buttons'>): boolean {
+  return event.deviceType === 'pen' && ((event.buttons ?? 0) & PEN_ERASER_BUTTON) !== 0;
+}
+
 // =============================================================================
 // PRESSURE NORMALIZATION (PURE FUNCTIONS)
 // 筆圧正規化の純粋関数
@@ -95,19 +111,36 @@ export function getMouseDeviceType(): 'mouse' {
 // イベント正規化の純粋関数
 // =============================================================================
 
+/**
+ * ポインター座標を描画対象のCanvas座標に変換（純粋関数）
+ * ポインター位置は表示上（ビュー変換後）の座標なので、viewToCanvasで元に戻す
+ */
+function pointerToDocumentCanvas(
+  pointerCoords: PointerCoordinates,
+  canvasDisplay: CanvasDisplayInfo,
+  viewTransform: ViewTransformState
+): CanvasCoordinates {
+  const displayCoords = transformPointerToCanvas(pointerCoords, canvasDisplay);
+  return transformViewToCanvas(
+    { viewX: displayCoords.canvasX, viewY: displayCoords.canvasY },
+    canvasDisplay,
+    viewTransform
+  );
+}
+
 /**
  * PointerEventからNormalizedInputEventを作成（純粋関数）
  * @param event PointerEvent
  * @param eventType イベントタイプ
  * @param canvasElement Canvas要素
- * @param viewTransform ビュー変換状態（将来のスケール・パン変換用）
+ * @param viewTransform ビュー変換状態（表示上の位置をCanvas座標に戻すために使用）
  * @returns 正規化されたイベント
  */
 export function createNormalizedEventFromPointer(
   event: PointerEvent,
   eventType: 'start' | 'move' | 'end',
   canvasElement: HTMLCanvasElement,
-  _viewTransform: ViewTransformState
+  viewTransform: ViewTransformState
 ): NormalizedInputEvent {
   const pointerCoords: PointerCoordinates = {
     offsetX: event.offsetX,
@@ -115,7 +148,7 @@ export function createNormalizedEventFromPointer(
   };
   
   const canvasDisplay = createCanvasDisplayInfo(canvasElement);
-  const canvasCoords = transformPointerToCanvas(pointerCoords, canvasDisplay);
+  const canvasCoords = pointerToDocumentCanvas(pointerCoords, canvasDisplay, viewTransform);
   
   const normalizedEvent: NormalizedInputEvent = {
     position: canvasCoords,
@@ -142,14 +175,14 @@ export function createNormalizedEventFromPointer(
  * @param event MouseEvent
  * @param eventType イベントタイプ
  * @param canvasElement Canvas要素
- * @param viewTransform ビュー変換状態（将来のスケール・パン変換用）
+ * @param viewTransform ビュー変換状態（表示上の位置をCanvas座標に戻すために使用）
  * @returns 正規化されたイベント
  */
 export function createNormalizedEventFromMouse(
   event: MouseEvent,
   eventType: 'start' | 'move' | 'end',
   canvasElement: HTMLCanvasElement,
-  _viewTransform: ViewTransformState
+  viewTransform: ViewTransformState
 ): NormalizedInputEvent {
   const pointerCoords: PointerCoordinates = {
     offsetX: event.offsetX,
@@ -157,7 +190,7 @@ export function createNormalizedEventFromMouse(
   };
   
   const canvasDisplay = createCanvasDisplayInfo(canvasElement);
-  const canvasCoords = transformPointerToCanvas(pointerCoords, canvasDisplay);
+  const canvasCoords = pointerToDocumentCanvas(pointerCoords, canvasDisplay, viewTransform);
   
   // マウスイベントの筆圧: endイベント時は0.0、それ以外はボタン押下状態に基づく
   const pressure = eventType === 'end' ? 0.0 : (event.buttons > 0 ? normalizePressure(undefined) : 0.0);
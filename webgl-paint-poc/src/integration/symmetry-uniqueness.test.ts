@@ -5,6 +5,7 @@
 
 import { describe, it, expect } from 'vitest';
 import { generateSymmetricStrokes } from '../symmetry/symmetryRenderer';
+import { SymmetryType } from '../types/core';
 import type { StrokeData } from '../types/core';
 import type { SymmetryConfig } from '../symmetry/symmetryRenderer';
 
@@ -21,6 +22,7 @@ describe('Symmetry Uniqueness Integration', () => {
   const symmetryConfig: SymmetryConfig = {
     enabled: true,
     axisCount: 8,
+    type: SymmetryType.CYCLIC,
     centerPoint: { x: 512, y: 512 }
   };
   
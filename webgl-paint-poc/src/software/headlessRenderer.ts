@@ -0,0 +1,50 @@
+// Headless renderer: the software backend behind the renderer interface DrawingCoordinator uses
+// Lets the full drawing pipeline (input events, stores, symmetry, layers, export) run
+// without a DOM canvas or WebGL, e.g. for golden-image tests.
+
+import { createCanvasViewTransformMatrices } from '../input/coordinateTransformFunctions';
+import type { DrawingRenderer } from '../app/DrawingCoordinator';
+import { createSoftwareRenderer, createSoftwareBackend } from './softwareRenderer';
+import type { SoftwareRenderer } from './softwareRenderer';
+import { encodePngBase64 } from './png';
+
+export interface HeadlessRenderer extends DrawingRenderer {
+  /** Software renderer state, for registering brush tips or inspecting buffers */
+  software: SoftwareRenderer;
+}
+
+/**
+ * Create a headless renderer for a document
+ * The drawing buffer plays the role of the canvas backing store (device pixels).
+ */
+export function createHeadlessRenderer(
+  width: number,
+  height: number,
+  drawingBufferWidth: number = width,
+  drawingBufferHeight: number = height
+): HeadlessRenderer {
+  const software = createSoftwareRenderer(width, height, drawingBufferWidth, drawingBufferHeight);
+  const backend = createSoftwareBackend(software);
+
+  return {
+    ...backend,
+    software,
+    setViewTransform: (viewTransform) => {
+      // The view rotates and zooms about the document centre, like a canvas whose logical size is the document
+      const documentSize = backend.getDocumentSize();
+      const { canvasToView } = createCanvasViewTransformMatrices(
+        {
+          offsetWidth: documentSize.width,
+          offsetHeight: documentSize.height,
+          logicalWidth: documentSize.width,
+          logicalHeight: documentSize.height,
+        },
+        viewTransform
+      );
+      backend.setViewMatrix(canvasToView);
+    },
+    getViewportSize: () => ({ width: software.output.width, height: software.output.height }),
+    // Always PNG, as canvas.toDataURL does for types it cannot encode
+    toDataURL: () => `data:image/png;base64,${encodePngBase64(backend.readPixels())}`,
+  };
+}
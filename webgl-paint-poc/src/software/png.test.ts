@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { encodePng, decodePng, encodePngBase64, decodePngBase64, PngDecodeError } from './png';
+import type { ImageBuffer } from '../webgl/renderBackend';
+
+function createGradient(width: number, height: number): ImageBuffer {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      data.set([x * 16, y * 16, (x * y) % 256, x === y ? 0 : 255], i);
+    }
+  }
+  return { width, height, data };
+}
+
+describe('PNG', () => {
+  it('should round-trip RGBA images', () => {
+    const image = createGradient(13, 9);
+    const decoded = decodePng(encodePng(image));
+
+    expect(decoded.width).toBe(13);
+    expect(decoded.height).toBe(9);
+    expect(decoded.data).toEqual(image.data);
+  });
+
+  it('should round-trip through base64', () => {
+    const image = createGradient(4, 4);
+
+    expect(decodePngBase64(encodePngBase64(image)).data).toEqual(image.data);
+  });
+
+  it('should compress flat images well', () => {
+    const image: ImageBuffer = { width: 256, height: 256, data: new Uint8ClampedArray(256 * 256 * 4).fill(255) };
+
+    expect(encodePng(image).length).toBeLessThan(4096);
+  });
+
+  it('should decode RGB images with every filter type split over several IDAT chunks', () => {
+    // 4x5 RGB written by another encoder; row y uses filter type y
+    const image = decodePngBase64(
+      'iVBORw0KGgoAAAANSUhEUgAAAAQAAAAFCAIAAADtz9qMAAAACklEQVR42mNgCF1lM/FZiLHWRwAAADNJREFUxVmlLZxxjBq1lzxhgElDQ8PU1NTJycnf3585oHqpj49PcHBwZGQkC0SmACRTAACqABOCxdm4BQAAAABJRU5ErkJggg=='
+    );
+
+    expect(image.width).toBe(4);
+    expect(image.height).toBe(5);
+    for (let y = 0; y < 5; y++) {
+      for (let x = 0; x < 4; x++) {
+        const i = (y * 4 + x) * 4;
+        const expected = [0, 1, 2].map((c) => (x * 60 + y * 40 + c * 85 + x * y * 13) & 255);
+        expect(Array.from(image.data.subarray(i, i + 4))).toEqual([...expected, 255]);
+      }
+    }
+  });
+
+  it('should reject data that is not a valid PNG', () => {
+    const png = encodePng(createGradient(2, 2));
+    const corrupted = png.slice();
+    corrupted[20] ^= 0xff;
+
+    expect(() => decodePng(new Uint8Array(16))).toThrow(PngDecodeError);
+    expect(() => decodePng(corrupted)).toThrow(PngDecodeError);
+    expect(() => decodePng(png.subarray(0, png.length - 20))).toThrow(PngDecodeError);
+  });
+});
@@ -0,0 +1,307 @@
+// PNG encoding and decoding for image buffers
+// Synchronous and independent of canvas, so baselines can be read and written
+// wherever the software renderer runs.
+
+import type { ImageBuffer } from '../webgl/renderBackend';
+import { deflate, inflate, ZlibError } from './zlib';
+
+export class PngDecodeError extends Error {
+  constructor(message: string) {
+    super(`Cannot decode PNG: ${message}`);
+    this.name = 'PngDecodeError';
+  }
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// Bytes per pixel for the 8-bit color types: grayscale, RGB, grayscale + alpha, RGBA
+const CHANNELS_BY_COLOR_TYPE: Record<number, number> = { 0: 1, 2: 3, 4: 2, 6: 4 };
+const COLOR_TYPE_RGBA = 6;
+
+const FilterType = {
+  NONE: 0,
+  SUB: 1,
+  UP: 2,
+  AVERAGE: 3,
+  PAETH: 4,
+} as const;
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function paeth(left: number, up: number, upLeft: number): number {
+  const estimate = left + up - upLeft;
+  const distanceLeft = Math.abs(estimate - left);
+  const distanceUp = Math.abs(estimate - up);
+  const distanceUpLeft = Math.abs(estimate - upLeft);
+  if (distanceLeft <= distanceUp && distanceLeft <= distanceUpLeft) {
+    return left;
+  }
+  return distanceUp <= distanceUpLeft ? up : upLeft;
+}
+
+// Value the filter predicts for byte i of a row, from the bytes left, above and above-left
+function predict(
+  filter: number,
+  row: Uint8Array,
+  previousRow: Uint8Array,
+  i: number,
+  bytesPerPixel: number
+): number {
+  const left = i >= bytesPerPixel ? row[i - bytesPerPixel] : 0;
+  const up = previousRow[i];
+  switch (filter) {
+    case FilterType.SUB:
+      return left;
+    case FilterType.UP:
+      return up;
+    case FilterType.AVERAGE:
+      return (left + up) >> 1;
+    case FilterType.PAETH:
+      return paeth(left, up, i >= bytesPerPixel ? previousRow[i - bytesPerPixel] : 0);
+    default:
+      return 0;
+  }
+}
+
+// =============================================================================
+// Encoding
+// =============================================================================
+
+function createChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(data.length + 12);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) {
+    chunk[4 + i] = type.charCodeAt(i);
+  }
+  chunk.set(data, 8);
+  view.setUint32(data.length + 8, crc32(chunk.subarray(4, data.length + 8)));
+  return chunk;
+}
+
+/**
+ * Encode an image buffer as an 8-bit RGBA PNG
+ * Each row uses the filter with the smallest sum of residuals (the usual heuristic).
+ */
+export function encodePng(image: ImageBuffer): Uint8Array {
+  const { width, height } = image;
+  const rowLength = width * 4;
+  const pixels = new Uint8Array(image.data.buffer, image.data.byteOffset, image.data.byteLength);
+
+  const filtered = new Uint8Array(height * (rowLength + 1));
+  const candidate = new Uint8Array(rowLength);
+  const best = new Uint8Array(rowLength);
+  let previousRow = new Uint8Array(rowLength);
+
+  for (let y = 0; y < height; y++) {
+    const row = pixels.subarray(y * rowLength, (y + 1) * rowLength);
+    let bestFilter: number = FilterType.NONE;
+    let bestCost = Infinity;
+
+    for (const filter of Object.values(FilterType)) {
+      let cost = 0;
+      for (let i = 0; i < rowLength; i++) {
+        const residual = (row[i] - predict(filter, row, previousRow, i, 4)) & 0xff;
+        candidate[i] = residual;
+        cost += residual < 128 ? residual : 256 - residual;
+      }
+      if (cost < bestCost) {
+        bestCost = cost;
+        bestFilter = filter;
+        best.set(candidate);
+      }
+    }
+
+    const offset = y * (rowLength + 1);
+    filtered[offset] = bestFilter;
+    filtered.set(best, offset + 1);
+    previousRow = row;
+  }
+
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, width);
+  headerView.setUint32(4, height);
+  header[8] = 8;
+  header[9] = COLOR_TYPE_RGBA;
+  // Compression, filter method and interlace are all 0
+
+  const chunks = [
+    Uint8Array.from(PNG_SIGNATURE),
+    createChunk('IHDR', header),
+    createChunk('IDAT', deflate(filtered)),
+    createChunk('IEND', new Uint8Array(0)),
+  ];
+  const output = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let position = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, position);
+    position += chunk.length;
+  }
+  return output;
+}
+
+// =============================================================================
+// Decoding
+// =============================================================================
+
+/**
+ * Decode an 8-bit, non-interlaced grayscale, RGB or RGBA PNG (with or without alpha)
+ */
+export function decodePng(bytes: Uint8Array): ImageBuffer {
+  if (bytes.length < PNG_SIGNATURE.length || PNG_SIGNATURE.some((value, i) => bytes[i] !== value)) {
+    throw new PngDecodeError('missing PNG signature');
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let width = 0;
+  let height = 0;
+  let channels = 0;
+  const dataChunks: Uint8Array[] = [];
+  let position = PNG_SIGNATURE.length;
+  let ended = false;
+
+  while (!ended) {
+    if (position + 12 > bytes.length) {
+      throw new PngDecodeError('unexpected end of file');
+    }
+    const length = view.getUint32(position);
+    const type = String.fromCharCode(...bytes.subarray(position + 4, position + 8));
+    const dataStart = position + 8;
+    const dataEnd = dataStart + length;
+    if (dataEnd + 4 > bytes.length) {
+      throw new PngDecodeError(`truncated ${type} chunk`);
+    }
+    if (crc32(bytes.subarray(position + 4, dataEnd)) !== view.getUint32(dataEnd)) {
+      throw new PngDecodeError(`CRC mismatch in ${type} chunk`);
+    }
+    const data = bytes.subarray(dataStart, dataEnd);
+
+    switch (type) {
+      case 'IHDR': {
+        width = view.getUint32(dataStart);
+        height = view.getUint32(dataStart + 4);
+        const [bitDepth, colorType, , , interlace] = data.subarray(8, 13);
+        channels = CHANNELS_BY_COLOR_TYPE[colorType] ?? 0;
+        if (bitDepth !== 8 || channels === 0) {
+          throw new PngDecodeError(`unsupported format (bit depth ${bitDepth}, color type ${colorType})`);
+        }
+        if (interlace !== 0) {
+          throw new PngDecodeError('interlaced images are not supported');
+        }
+        break;
+      }
+      case 'IDAT':
+        dataChunks.push(data);
+        break;
+      case 'IEND':
+        ended = true;
+        break;
+    }
+    position = dataEnd + 4;
+  }
+
+  if (channels === 0 || dataChunks.length === 0) {
+    throw new PngDecodeError('missing IHDR or IDAT chunk');
+  }
+
+  const compressed = new Uint8Array(dataChunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of dataChunks) {
+    compressed.set(chunk, offset);
+    offset += chunk.length;
+  }
+
+  const rowLength = width * channels;
+  let filtered: Uint8Array;
+  try {
+    filtered = inflate(compressed, height * (rowLength + 1));
+  } catch (error) {
+    if (error instanceof ZlibError) {
+      throw new PngDecodeError(error.message);
+    }
+    throw error;
+  }
+  if (filtered.length < height * (rowLength + 1)) {
+    throw new PngDecodeError('image data is shorter than the image');
+  }
+
+  const data = new Uint8ClampedArray(width * height * 4);
+  let previousRow = new Uint8Array(rowLength);
+  for (let y = 0; y < height; y++) {
+    const start = y * (rowLength + 1);
+    const filter = filtered[start];
+    if (filter > FilterType.PAETH) {
+      throw new PngDecodeError(`invalid filter type ${filter}`);
+    }
+    // Unfilter in place: predictions read bytes already restored
+    const row = filtered.subarray(start + 1, start + 1 + rowLength);
+    for (let i = 0; i < rowLength; i++) {
+      row[i] = (row[i] + predict(filter, row, previousRow, i, channels)) & 0xff;
+    }
+
+    for (let x = 0; x < width; x++) {
+      const source = x * channels;
+      const target = (y * width + x) * 4;
+      if (channels < 3) {
+        data[target] = data[target + 1] = data[target + 2] = row[source];
+        data[target + 3] = channels === 2 ? row[source + 1] : 255;
+      } else {
+        data[target] = row[source];
+        data[target + 1] = row[source + 1];
+        data[target + 2] = row[source + 2];
+        data[target + 3] = channels === 4 ? row[source + 3] : 255;
+      }
+    }
+    previousRow = row;
+  }
+
+  return { width, height, data };
+}
+
+// =============================================================================
+// Base64
+// =============================================================================
+
+/**
+ * Encode an image buffer as base64 PNG data (the payload of a data URL)
+ */
+export function encodePngBase64(image: ImageBuffer): string {
+  const bytes = encodePng(image);
+  let binary = '';
+  // Chunked so String.fromCharCode gets a bounded argument count
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Decode base64 PNG data
+ */
+export function decodePngBase64(base64: string): ImageBuffer {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return decodePng(bytes);
+}
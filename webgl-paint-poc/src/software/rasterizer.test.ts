@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createPixelBuffer,
+  fillPixelBuffer,
+  rasterizeTriangle,
+  blendPixel,
+  samplePixelBuffer,
+  sampleTexels,
+  toImageBuffer,
+} from './rasterizer';
+import type { RasterVertex } from './rasterizer';
+import * as CoreTypes from '../types/core';
+
+const vertex = (x: number, y: number, ...varyings: number[]): RasterVertex => ({ x, y, varyings });
+
+describe('Software Rasterizer', () => {
+  describe('rasterizeTriangle', () => {
+    it('should cover each pixel of two triangles sharing an edge exactly once', () => {
+      const hits = new Map<string, number>();
+      const count = (x: number, y: number) => hits.set(`${x},${y}`, (hits.get(`${x},${y}`) ?? 0) + 1);
+
+      // A 4x4 square split along its diagonal, which passes through pixel centres
+      rasterizeTriangle(8, 8, vertex(0, 0), vertex(4, 0), vertex(4, 4), count);
+      rasterizeTriangle(8, 8, vertex(0, 0), vertex(4, 4), vertex(0, 4), count);
+
+      expect(hits.size).toBe(16);
+      expect(Array.from(hits.values()).every(hitCount => hitCount === 1)).toBe(true);
+    });
+
+    it('should cover the same pixels in either winding', () => {
+      const clockwise: string[] = [];
+      const counterClockwise: string[] = [];
+
+      rasterizeTriangle(8, 8, vertex(1, 1), vertex(7, 2), vertex(3, 6), (x, y) => clockwise.push(`${x},${y}`));
+      rasterizeTriangle(8, 8, vertex(1, 1), vertex(3, 6), vertex(7, 2), (x, y) => counterClockwise.push(`${x},${y}`));
+
+      expect(counterClockwise.sort()).toEqual(clockwise.sort());
+    });
+
+    it('should interpolate varyings at pixel centres', () => {
+      const values = new Map<string, number>();
+
+      rasterizeTriangle(4, 4, vertex(0, 0, 0), vertex(4, 0, 4), vertex(0, 4, 0), (x, y, [u]) => values.set(`${x},${y}`, u));
+
+      expect(values.get('0,0')).toBeCloseTo(0.5);
+      expect(values.get('2,0')).toBeCloseTo(2.5);
+    });
+
+    it('should clip to the buffer', () => {
+      const pixels: Array<[number, number]> = [];
+
+      rasterizeTriangle(2, 2, vertex(-10, -10), vertex(12.5, -10), vertex(-10, 12.5), (x, y) => pixels.push([x, y]));
+
+      expect(pixels.every(([x, y]) => x >= 0 && x < 2 && y >= 0 && y < 2)).toBe(true);
+      expect(pixels).toHaveLength(3);
+    });
+  });
+
+  describe('blendPixel', () => {
+    it('should composite normal, additive and erase like the WebGL blend functions', () => {
+      const buffer = createPixelBuffer(1, 1);
+      fillPixelBuffer(buffer, [0, 0, 0.5, 0.5]);
+
+      blendPixel(buffer, 0, 0, [0.5, 0, 0, 0.5], CoreTypes.BlendMode.NORMAL);
+      expect(Array.from(buffer.data)).toEqual([0.5, 0, 0.25, 0.75]);
+
+      blendPixel(buffer, 0, 0, [0, 0.25, 0, 0.25], CoreTypes.BlendMode.ADDITIVE);
+      expect(buffer.data[1]).toBeCloseTo(0.25);
+      expect(buffer.data[2]).toBeCloseTo(0.25);
+
+      blendPixel(buffer, 0, 0, [0, 0, 0, 1], CoreTypes.BlendMode.ERASE);
+      expect(Array.from(buffer.data)).toEqual([0, 0, 0, 0]);
+    });
+
+    it('should use the shader formulas for other modes', () => {
+      const buffer = createPixelBuffer(1, 1);
+      fillPixelBuffer(buffer, [1, 0.5, 0, 1]);
+
+      blendPixel(buffer, 0, 0, [0.5, 0.5, 0.5, 1], CoreTypes.BlendMode.MULTIPLY);
+
+      expect(Array.from(buffer.data)).toEqual([0.5, 0.25, 0, 1]);
+    });
+  });
+
+  describe('Sampling', () => {
+    it('should return texel values exactly at texel centres', () => {
+      const buffer = createPixelBuffer(2, 1);
+      buffer.data.set([1, 0, 0, 1, 0, 0, 1, 1]);
+
+      expect(samplePixelBuffer(buffer, 0.5, 0.5)).toEqual([1, 0, 0, 1]);
+      expect(samplePixelBuffer(buffer, 1, 0.5)).toEqual([0.5, 0, 0.5, 1]);
+    });
+
+    it('should repeat texels when wrapping', () => {
+      const source = { width: 2, height: 1, pixels: new Uint8Array([255, 0, 0, 255, 0, 0, 255, 255]) };
+
+      expect(sampleTexels(source, 1.25, 0.5, { wrap: 'repeat', filter: 'nearest' })).toEqual([1, 0, 0, 1]);
+      expect(sampleTexels(source, 1.25, 0.5, { wrap: 'clamp', filter: 'nearest' })).toEqual([0, 0, 1, 1]);
+    });
+  });
+
+  it('should convert premultiplied pixels to straight-alpha bytes', () => {
+    const buffer = createPixelBuffer(1, 1);
+    fillPixelBuffer(buffer, [0.25, 0, 0, 0.5]);
+
+    expect(Array.from(toImageBuffer(buffer).data)).toEqual([128, 0, 0, 128]);
+  });
+});
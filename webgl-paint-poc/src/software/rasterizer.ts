@@ -0,0 +1,269 @@
+// CPU rasterization primitives for the software render backend
+// Mirrors what the GPU does for the WebGL backend: triangles are sampled at pixel
+// centres, shared edges are covered once, and pixels blend with the same equations.
+
+import * as CoreTypes from '../types/core';
+import { blendPremultiplied, isFixedFunctionBlendMode } from '../webgl/blending';
+import type { PremultipliedColor } from '../webgl/blending';
+import type { ImageBuffer } from '../webgl/renderBackend';
+
+type BlendMode = CoreTypes.BlendMode;
+
+/**
+ * Premultiplied RGBA pixels (0-1), row 0 at the top
+ */
+export interface PixelBuffer {
+  width: number;
+  height: number;
+  data: Float32Array;
+}
+
+/**
+ * A screen-space vertex: pixel position plus interpolated values
+ */
+export interface RasterVertex {
+  x: number;
+  y: number;
+  varyings: readonly number[];
+}
+
+/**
+ * Called for each covered pixel with the interpolated varyings
+ */
+export type FragmentCallback = (x: number, y: number, varyings: readonly number[]) => void;
+
+/**
+ * Create a transparent pixel buffer
+ */
+export function createPixelBuffer(width: number, height: number): PixelBuffer {
+  return { width, height, data: new Float32Array(width * height * 4) };
+}
+
+export function clearPixelBuffer(buffer: PixelBuffer): void {
+  buffer.data.fill(0);
+}
+
+/**
+ * Fill a buffer with one premultiplied color
+ */
+export function fillPixelBuffer(buffer: PixelBuffer, color: PremultipliedColor): void {
+  for (let i = 0; i < buffer.data.length; i += 4) {
+    buffer.data.set(color, i);
+  }
+}
+
+// Edge function: twice the signed area of (a, b, p)
+function edge(ax: number, ay: number, bx: number, by: number, px: number, py: number): number {
+  return (bx - ax) * (py - ay) - (by - ay) * (px - ax);
+}
+
+// Top-left fill rule (y down): pixels exactly on an edge belong to the triangle only
+// for top and left edges, so triangles sharing an edge never cover a pixel twice
+function isTopLeftEdge(ax: number, ay: number, bx: number, by: number): boolean {
+  return (ay === by && bx < ax) || by < ay;
+}
+
+/**
+ * Rasterize a triangle, calling fragment for each pixel whose centre it covers
+ * Varyings are interpolated linearly (WebGL positions here have w = 1).
+ */
+export function rasterizeTriangle(
+  width: number,
+  height: number,
+  v0: RasterVertex,
+  v1: RasterVertex,
+  v2: RasterVertex,
+  fragment: FragmentCallback
+): void {
+  let a = v0;
+  let b = v1;
+  let c = v2;
+  let area = edge(a.x, a.y, b.x, b.y, c.x, c.y);
+  if (area === 0 || !Number.isFinite(area)) {
+    return;
+  }
+  // Wind consistently so the fill rule sees the same edge orientation
+  if (area < 0) {
+    [b, c] = [c, b];
+    area = -area;
+  }
+
+  const minX = Math.max(0, Math.floor(Math.min(a.x, b.x, c.x)));
+  const maxX = Math.min(width - 1, Math.ceil(Math.max(a.x, b.x, c.x)));
+  const minY = Math.max(0, Math.floor(Math.min(a.y, b.y, c.y)));
+  const maxY = Math.min(height - 1, Math.ceil(Math.max(a.y, b.y, c.y)));
+
+  const topLeftA = isTopLeftEdge(b.x, b.y, c.x, c.y);
+  const topLeftB = isTopLeftEdge(c.x, c.y, a.x, a.y);
+  const topLeftC = isTopLeftEdge(a.x, a.y, b.x, b.y);
+
+  const count = a.varyings.length;
+  const varyings = new Array<number>(count);
+
+  for (let py = minY; py <= maxY; py++) {
+    const sy = py + 0.5;
+    for (let px = minX; px <= maxX; px++) {
+      const sx = px + 0.5;
+      const wa = edge(b.x, b.y, c.x, c.y, sx, sy);
+      const wb = edge(c.x, c.y, a.x, a.y, sx, sy);
+      const wc = edge(a.x, a.y, b.x, b.y, sx, sy);
+
+      const inside =
+        (wa > 0 || (wa === 0 && topLeftA)) &&
+        (wb > 0 || (wb === 0 && topLeftB)) &&
+        (wc > 0 || (wc === 0 && topLeftC));
+      if (!inside) {
+        continue;
+      }
+
+      const la = wa / area;
+      const lb = wb / area;
+      const lc = wc / area;
+      for (let i = 0; i < count; i++) {
+        varyings[i] = a.varyings[i] * la + b.varyings[i] * lb + c.varyings[i] * lc;
+      }
+      fragment(px, py, varyings);
+    }
+  }
+}
+
+/**
+ * Blend a premultiplied source color into a buffer pixel
+ * Normal, additive and erase use the WebGL backend's blendFunc equations;
+ * other modes use the same formulas as the blend shader.
+ */
+export function blendPixel(
+  buffer: PixelBuffer,
+  x: number,
+  y: number,
+  source: PremultipliedColor,
+  blendMode: BlendMode
+): void {
+  const i = (y * buffer.width + x) * 4;
+  const data = buffer.data;
+  const sourceAlpha = source[3];
+
+  if (!isFixedFunctionBlendMode(blendMode)) {
+    const backdrop: PremultipliedColor = [data[i], data[i + 1], data[i + 2], data[i + 3]];
+    data.set(blendPremultiplied(source, backdrop, blendMode), i);
+    return;
+  }
+
+  if (blendMode === CoreTypes.BlendMode.ERASE) {
+    for (let c = 0; c < 4; c++) {
+      data[i + c] *= 1 - sourceAlpha;
+    }
+    return;
+  }
+
+  // ADDITIVE keeps the whole destination color; NORMAL is source-over
+  const destinationFactor = blendMode === CoreTypes.BlendMode.ADDITIVE ? 1 : 1 - sourceAlpha;
+  for (let c = 0; c < 3; c++) {
+    data[i + c] = Math.min(source[c] + data[i + c] * destinationFactor, 1);
+  }
+  data[i + 3] = Math.min(sourceAlpha + data[i + 3] * (1 - sourceAlpha), 1);
+}
+
+/**
+ * Sample a buffer bilinearly at a texel-space position (clamped to the edges)
+ */
+export function samplePixelBuffer(buffer: PixelBuffer, x: number, y: number): PremultipliedColor {
+  const { width, height, data } = buffer;
+  const fx = Math.min(Math.max(x - 0.5, 0), width - 1);
+  const fy = Math.min(Math.max(y - 0.5, 0), height - 1);
+  const x0 = Math.floor(fx);
+  const y0 = Math.floor(fy);
+  const x1 = Math.min(x0 + 1, width - 1);
+  const y1 = Math.min(y0 + 1, height - 1);
+  const tx = fx - x0;
+  const ty = fy - y0;
+
+  const result: PremultipliedColor = [0, 0, 0, 0];
+  for (let c = 0; c < 4; c++) {
+    const top = data[(y0 * width + x0) * 4 + c] * (1 - tx) + data[(y0 * width + x1) * 4 + c] * tx;
+    const bottom = data[(y1 * width + x0) * 4 + c] * (1 - tx) + data[(y1 * width + x1) * 4 + c] * tx;
+    result[c] = top * (1 - ty) + bottom * ty;
+  }
+  return result;
+}
+
+/**
+ * RGBA byte texels, as uploaded to a WebGL texture (first row at v = 0)
+ * BrushTipPixels and PatternPixels both have this shape.
+ */
+export interface TexelSource {
+  width: number;
+  height: number;
+  pixels: Uint8Array;
+}
+
+/**
+ * How sampleTexels reads a texture, like the texture parameters of its WebGL twin
+ */
+export interface TexelSampling {
+  wrap: 'clamp' | 'repeat';
+  filter: 'nearest' | 'linear';
+}
+
+function wrapTexel(index: number, size: number, wrap: TexelSampling['wrap']): number {
+  return wrap === 'repeat'
+    ? ((index % size) + size) % size
+    : Math.min(Math.max(index, 0), size - 1);
+}
+
+/**
+ * Sample texels at normalized coordinates, returning straight RGBA (0-1)
+ */
+export function sampleTexels(
+  source: TexelSource,
+  u: number,
+  v: number,
+  sampling: TexelSampling
+): [number, number, number, number] {
+  const { width, height, pixels } = source;
+  const x = u * width;
+  const y = v * height;
+
+  const texel = (tx: number, ty: number, c: number) =>
+    pixels[(wrapTexel(ty, height, sampling.wrap) * width + wrapTexel(tx, width, sampling.wrap)) * 4 + c] / 255;
+
+  const result: [number, number, number, number] = [0, 0, 0, 0];
+
+  if (sampling.filter === 'nearest') {
+    const tx = Math.floor(x);
+    const ty = Math.floor(y);
+    for (let c = 0; c < 4; c++) {
+      result[c] = texel(tx, ty, c);
+    }
+    return result;
+  }
+
+  const x0 = Math.floor(x - 0.5);
+  const y0 = Math.floor(y - 0.5);
+  const fx = x - 0.5 - x0;
+  const fy = y - 0.5 - y0;
+  for (let c = 0; c < 4; c++) {
+    const top = texel(x0, y0, c) * (1 - fx) + texel(x0 + 1, y0, c) * fx;
+    const bottom = texel(x0, y0 + 1, c) * (1 - fx) + texel(x0 + 1, y0 + 1, c) * fx;
+    result[c] = top * (1 - fy) + bottom * fy;
+  }
+  return result;
+}
+
+/**
+ * Convert a buffer to straight-alpha RGBA bytes
+ */
+export function toImageBuffer(buffer: PixelBuffer): ImageBuffer {
+  const { width, height, data } = buffer;
+  const bytes = new Uint8ClampedArray(width * height * 4);
+
+  for (let i = 0; i < data.length; i += 4) {
+    const alpha = data[i + 3];
+    for (let c = 0; c < 3; c++) {
+      bytes[i + c] = Math.round((alpha > 0 ? data[i + c] / alpha : 0) * 255);
+    }
+    bytes[i + 3] = Math.round(alpha * 255);
+  }
+
+  return { width, height, data: bytes };
+}
@@ -0,0 +1,287 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  createSoftwareRenderer,
+  createSoftwareBackend,
+  clearCanvas,
+  setBackground,
+  setDrawingColor,
+  setBrushSize,
+  setBrush,
+  setViewMatrix,
+  renderStroke,
+  renderStrokeInstanced,
+  updateLayerCache,
+  compositeLayers,
+  beginLayerPreview,
+  endLayerPreview,
+  setDirtyRects,
+  readPixels,
+} from './softwareRenderer';
+import type { SoftwareRenderer } from './softwareRenderer';
+import { getBackgroundPass } from '../webgl/background';
+import { getSymmetryTransformMatrices } from '../symmetry/symmetryRenderer';
+import { Matrix3x3 } from '../math/Matrix3x3';
+import type { ImageBuffer } from '../webgl/renderBackend';
+import type { CompositeLayer } from '../webgl/renderer';
+import * as CoreTypes from '../types/core';
+
+type StrokeData = CoreTypes.StrokeData;
+type StrokeStyle = CoreTypes.StrokeStyle;
+
+/**
+ * Straight line stroke at full pressure with a point every 2 canvas pixels
+ */
+function line(id: string, x0: number, y0: number, x1: number, y1: number, style?: Partial<StrokeStyle>): StrokeData {
+  const steps = Math.max(Math.ceil(Math.hypot(x1 - x0, y1 - y0) / 2), 1);
+  const points = Array.from({ length: steps + 1 }, (_, i) => ({
+    x: x0 + ((x1 - x0) * i) / steps,
+    y: y0 + ((y1 - y0) * i) / steps,
+    pressure: 1,
+    timestamp: i,
+  }));
+
+  return {
+    id,
+    points,
+    timestamp: 0,
+    style: style && {
+      color: [0, 0, 0, 1],
+      size: 8,
+      opacity: 1,
+      brushId: 'round',
+      blendMode: CoreTypes.BlendMode.NORMAL,
+      ...style,
+    },
+  };
+}
+
+function pixelAt(image: ImageBuffer, x: number, y: number): number[] {
+  const offset = (y * image.width + x) * 4;
+  return Array.from(image.data.slice(offset, offset + 4));
+}
+
+const solidBackground = (color: [number, number, number, number]) =>
+  getBackgroundPass({ type: CoreTypes.BackgroundType.SOLID, color }, true);
+
+describe('Software Renderer', () => {
+  let renderer: SoftwareRenderer;
+
+  beforeEach(() => {
+    renderer = createSoftwareRenderer(64, 64);
+    setDrawingColor(renderer, 1, 0, 0, 1);
+    setBrushSize(renderer, 8);
+  });
+
+  it('should clear to the default white background', () => {
+    clearCanvas(renderer);
+
+    expect(pixelAt(readPixels(renderer), 10, 10)).toEqual([255, 255, 255, 255]);
+  });
+
+  it('should draw strokes with the brush width and an anti-aliased edge', () => {
+    setBackground(renderer, null);
+    clearCanvas(renderer);
+    renderStroke(renderer, line('stroke', 16, 32.25, 48, 32.25));
+    const image = readPixels(renderer);
+
+    expect(pixelAt(image, 32, 32)).toEqual([255, 0, 0, 255]);
+    expect(pixelAt(image, 32, 20)[3]).toBe(0);
+
+    // Half width 4 with a 1px ramp: the pixel centre 4.25px from the centreline is partly covered
+    const edgeAlpha = pixelAt(image, 32, 36)[3];
+    expect(edgeAlpha).toBeGreaterThan(0);
+    expect(edgeAlpha).toBeLessThan(255);
+  });
+
+  it('should draw every symmetric copy of an instanced stroke', () => {
+    setBackground(renderer, null);
+    clearCanvas(renderer);
+    const transforms = getSymmetryTransformMatrices({ enabled: true, axisCount: 8, centerPoint: { x: 32, y: 32 } });
+
+    renderStrokeInstanced(renderer, line('stroke', 44, 30, 52, 30), transforms);
+    const image = readPixels(renderer);
+
+    for (const matrix of transforms) {
+      const x = Math.floor(matrix.m00 * 48 + matrix.m01 * 30 + matrix.m02);
+      const y = Math.floor(matrix.m10 * 48 + matrix.m11 * 30 + matrix.m12);
+      expect(pixelAt(image, x, y)[3]).toBe(255);
+    }
+    expect(pixelAt(image, 32, 32)[3]).toBe(0);
+  });
+
+  it('should apply the view transform and drawing buffer scale', () => {
+    const scaled = createSoftwareRenderer(32, 32, 64, 64);
+    setBackground(scaled, null);
+    setDrawingColor(scaled, 0, 0, 1, 1);
+    setBrushSize(scaled, 4);
+    setViewMatrix(scaled, Matrix3x3.translation(8, 0));
+
+    renderStroke(scaled, line('stroke', 4, 16, 12, 16));
+    const image = readPixels(scaled);
+
+    expect(image.width).toBe(64);
+    // Canvas (8, 16) moves to view (16, 16), which is drawing buffer pixel (32, 32)
+    expect(pixelAt(image, 32, 32)).toEqual([0, 0, 255, 255]);
+    expect(pixelAt(image, 16, 32)[3]).toBe(0);
+  });
+
+  it('should draw a translucent stroke that turns a corner without darker joins', () => {
+    setBackground(renderer, null);
+    const across = line('across', 12, 20.25, 44, 20.25, { opacity: 0.5, size: 8 });
+    const down = line('down', 44, 20.25, 44, 52, { opacity: 0.5, size: 8 });
+    const corner: StrokeData = { ...across, id: 'corner', points: [...across.points, ...down.points.slice(1)] };
+
+    renderStroke(renderer, corner);
+    const image = readPixels(renderer);
+
+    // Every point of the polyline is a round join, and the corner overlaps itself
+    const segmentAlpha = pixelAt(image, 28, 20)[3];
+    expect(segmentAlpha).toBeCloseTo(128, -1);
+    expect(pixelAt(image, 44, 20)[3]).toBe(segmentAlpha);
+    expect(pixelAt(image, 44, 36)[3]).toBe(segmentAlpha);
+    let maxAlpha = 0;
+    for (let i = 3; i < image.data.length; i += 4) {
+      maxAlpha = Math.max(maxAlpha, image.data[i]);
+    }
+    expect(maxAlpha).toBe(segmentAlpha);
+  });
+
+  it('should not darken where translucent symmetric copies overlap', () => {
+    setBackground(renderer, null);
+    const transforms = getSymmetryTransformMatrices({
+      enabled: true,
+      axisCount: 2,
+      type: CoreTypes.SymmetryType.CYCLIC,
+      centerPoint: { x: 32, y: 32 },
+    });
+
+    // The copy rotated by 180 degrees lies on top of the original
+    renderStrokeInstanced(renderer, line('stroke', 16, 32.25, 48, 32.25, { opacity: 0.5 }), transforms);
+
+    expect(pixelAt(readPixels(renderer), 32, 32)[3]).toBeCloseTo(128, -1);
+  });
+
+  it('should draw stamp brushes with the tip mask', () => {
+    setBackground(renderer, null);
+    setBrush(renderer, 'airbrush');
+    setBrushSize(renderer, 16);
+
+    renderStroke(renderer, line('stroke', 16, 32, 48, 32));
+    const image = readPixels(renderer);
+
+    expect(pixelAt(image, 32, 32)[3]).toBeGreaterThan(0);
+    expect(pixelAt(image, 32, 8)[3]).toBe(0);
+  });
+
+  describe('Layers', () => {
+    const layer: CompositeLayer = { id: 'layer', visible: true, opacity: 1, blendMode: CoreTypes.BlendMode.NORMAL };
+
+    it('should blend and erase within a layer cache', () => {
+      const strokes = [
+        line('yellow', 8, 32, 56, 32, { color: [1, 1, 0, 1], size: 12 }),
+        line('cyan', 32, 8, 32, 56, { color: [0, 1, 1, 1], size: 12, blendMode: CoreTypes.BlendMode.MULTIPLY }),
+        line('erase', 8, 32, 16, 32, { size: 12, blendMode: CoreTypes.BlendMode.ERASE }),
+      ];
+
+      expect(updateLayerCache(renderer, layer.id, strokes, '')).toBe(true);
+      clearCanvas(renderer);
+      compositeLayers(renderer, [layer]);
+      const image = readPixels(renderer);
+
+      // Multiply of yellow and cyan where they cross, the plain colors elsewhere
+      expect(pixelAt(image, 32, 32)).toEqual([0, 255, 0, 255]);
+      expect(pixelAt(image, 44, 32)).toEqual([255, 255, 0, 255]);
+      expect(pixelAt(image, 32, 14)).toEqual([0, 255, 255, 255]);
+      // Erased back to the background
+      expect(pixelAt(image, 12, 32)).toEqual([255, 255, 255, 255]);
+    });
+
+    it('should composite layers with their opacity', () => {
+      updateLayerCache(renderer, layer.id, [line('stroke', 8, 32, 56, 32)], '');
+      clearCanvas(renderer);
+      compositeLayers(renderer, [{ ...layer, opacity: 0.5 }]);
+
+      expect(pixelAt(readPixels(renderer), 32, 32)).toEqual([255, 128, 128, 255]);
+    });
+
+    it('should only bake appended strokes and rebuild on a new content key', () => {
+      const first = line('first', 8, 16, 56, 16);
+      updateLayerCache(renderer, layer.id, [first], 'a');
+
+      const baked: string[] = [];
+      const record = (stroke: StrokeData) => {
+        baked.push(stroke.id);
+        renderStroke(renderer, stroke);
+      };
+
+      const second = line('second', 8, 48, 56, 48);
+      updateLayerCache(renderer, layer.id, [first, second], 'a', record);
+      updateLayerCache(renderer, layer.id, [first, second], 'b', record);
+
+      expect(baked).toEqual(['second', 'first', 'second']);
+    });
+
+    it('should composite a layer preview until it ends', () => {
+      setBackground(renderer, null);
+      updateLayerCache(renderer, layer.id, [], '');
+
+      beginLayerPreview(renderer, layer.id, () => renderStroke(renderer, line('live', 8, 32, 56, 32)));
+      clearCanvas(renderer);
+      compositeLayers(renderer, [layer]);
+      expect(pixelAt(readPixels(renderer), 32, 32)[3]).toBe(255);
+
+      endLayerPreview(renderer);
+      clearCanvas(renderer);
+      compositeLayers(renderer, [layer]);
+      expect(pixelAt(readPixels(renderer), 32, 32)[3]).toBe(0);
+    });
+
+    it('should redraw only inside the dirty rects', () => {
+      updateLayerCache(renderer, layer.id, [], '');
+      clearCanvas(renderer);
+
+      setDirtyRects(renderer, [{ x: 0, y: 0, width: 20, height: 64 }]);
+      beginLayerPreview(renderer, layer.id, () => renderStroke(renderer, line('live', 8, 32, 56, 32)));
+      clearCanvas(renderer);
+      compositeLayers(renderer, [layer]);
+      endLayerPreview(renderer);
+      setDirtyRects(renderer, null);
+
+      const image = readPixels(renderer);
+      expect(pixelAt(image, 12, 32)).toEqual([255, 0, 0, 255]);
+      expect(pixelAt(image, 40, 32)).toEqual([255, 255, 255, 255]);
+    });
+  });
+
+  describe('Background', () => {
+    it('should draw a solid background only inside the document', () => {
+      setBackground(renderer, solidBackground([0, 0, 1, 1]));
+      setViewMatrix(renderer, Matrix3x3.translation(32, 0));
+      clearCanvas(renderer);
+      const image = readPixels(renderer);
+
+      expect(pixelAt(image, 48, 10)).toEqual([0, 0, 255, 255]);
+      expect(pixelAt(image, 16, 10)).toEqual([0, 0, 0, 0]);
+    });
+
+    it('should leave transparent documents transparent on export', () => {
+      setBackground(renderer, getBackgroundPass({ type: CoreTypes.BackgroundType.TRANSPARENT, color: [1, 1, 1, 1] }, false));
+      clearCanvas(renderer);
+
+      expect(pixelAt(readPixels(renderer), 10, 10)).toEqual([0, 0, 0, 0]);
+    });
+  });
+
+  it('should expose the renderer as a render backend', () => {
+    const backend = createSoftwareBackend(renderer);
+
+    backend.resizeDrawingBuffer(32, 16);
+    backend.clear();
+    const image = backend.readPixels();
+
+    expect(backend.supportsInstancing()).toBe(true);
+    expect(backend.getDocumentSize()).toEqual({ width: 64, height: 64 });
+    expect([image.width, image.height]).toEqual([32, 16]);
+    expect(image.data).toHaveLength(32 * 16 * 4);
+  });
+});
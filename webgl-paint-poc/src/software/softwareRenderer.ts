@@ -0,0 +1,1002 @@
+// Software renderer: draws into CPU pixel buffers with the WebGL renderer's semantics
+// The vertex and fragment shader math is evaluated per vertex and per pixel here,
+// so output matches the GPU up to precision and texture filtering (no mipmaps).
+
+import * as CoreTypes from '../types/core';
+import { getBrushPreset, DEFAULT_BRUSH_ID } from '../webgl/brushes';
+import type { BrushPreset } from '../webgl/brushes';
+import { strokeDataToTriangleStripVertexData, STROKE_VERTEX_COMPONENTS } from '../webgl/buffers';
+import { placeStamps, stampsToVertexData, hashStringToSeed, STAMP_VERTEX_COMPONENTS } from '../webgl/stamps';
+import type { StampBrushSettings } from '../webgl/stamps';
+import {
+  generateBrushTipPixels,
+  BUILTIN_BRUSH_TIP_SHAPES,
+  BrushTipNotFoundError,
+  BrushTipCreationError,
+} from '../webgl/brushTip';
+import type { BrushTipPixels } from '../webgl/brushTip';
+import { planStrokeCacheUpdate } from '../webgl/strokeCache';
+import { isFixedFunctionBlendMode } from '../webgl/blending';
+import type { PremultipliedColor } from '../webgl/blending';
+import {
+  getBackgroundPass,
+  generateCheckerboardPixels,
+  generatePaperPixels,
+} from '../webgl/background';
+import type { BackgroundPass, BackgroundPattern, PatternPixels } from '../webgl/background';
+import {
+  computeVisibleTileRange,
+  tileRangeToPositions,
+  tileBorderVertexData,
+  TILE_BORDER_VERTEX_COMPONENTS,
+} from '../webgl/tiling';
+import { getDirtyPixelBoxes } from '../webgl/dirtyRegion';
+import { DEFAULT_AA_WIDTH, GUIDE_LINE_COLOR, TILE_BORDER_COLOR, guideLineVertexData } from '../webgl/renderer';
+import type { CompositeLayer } from '../webgl/renderer';
+import type { RenderBackend, ImageBuffer } from '../webgl/renderBackend';
+import type { TransformMatrix } from '../symmetry/transform';
+import type { GuideLine } from '../symmetry/symmetryGuides';
+import { Matrix3x3 } from '../math/Matrix3x3';
+import {
+  createPixelBuffer,
+  clearPixelBuffer,
+  rasterizeTriangle,
+  blendPixel,
+  samplePixelBuffer,
+  sampleTexels,
+  toImageBuffer,
+} from './rasterizer';
+import type { PixelBuffer, RasterVertex, TexelSampling } from './rasterizer';
+
+type StrokeData = CoreTypes.StrokeData;
+type StrokeStyle = CoreTypes.StrokeStyle;
+type BlendMode = CoreTypes.BlendMode;
+type DirtyRect = CoreTypes.DirtyRect;
+
+/**
+ * Committed strokes of a layer baked into a pixel buffer
+ */
+export interface SoftwareLayerCache {
+  target: PixelBuffer;
+  /** Strokes currently baked into the target, in draw order */
+  strokes: readonly StrokeData[];
+  /** Key for other settings that change the baked pixels (e.g. symmetry) */
+  contentKey: string;
+  /** False after invalidation; the next update rebuilds from scratch */
+  valid: boolean;
+}
+
+export interface SoftwareRenderer {
+  /** Output pixels, standing in for the canvas drawing buffer */
+  output: PixelBuffer;
+  /** Buffer draws go to: the output, a layer cache or the layer preview */
+  target: PixelBuffer;
+  /** Committed strokes of each layer, keyed by layer id */
+  layerCaches: Map<string, SoftwareLayerCache>;
+  /** A layer's cache plus in-progress strokes (created on first use) */
+  previewTarget: PixelBuffer | null;
+  /** Layer composited from previewTarget instead of its cache */
+  previewLayerId: string | null;
+  /** Document regions the next frame redraws, clipping the clear, layer preview and compositing (null redraws everything) */
+  dirtyRects: readonly DirtyRect[] | null;
+  /** Receives a stroke drawn with normal blending before a shader blend mode is applied */
+  scratch: PixelBuffer | null;
+  brush: BrushPreset;
+  /** Drawing color (RGBA 0-1) */
+  color: [number, number, number, number];
+  /** Active blend mode */
+  blendMode: BlendMode;
+  /** Brush size in canvas pixels */
+  brushSize: number;
+  /** Anti-aliasing ramp width in canvas pixels */
+  antialiasWidth: number;
+  /** Canvas-to-view transform (zoom/pan/rotation) */
+  viewMatrix: Matrix3x3;
+  /** Document background drawn by clearCanvas (null leaves the document transparent) */
+  background: BackgroundPass | null;
+  /** Tip pixels available to stamp brushes, keyed by id */
+  brushTips: Map<string, BrushTipPixels>;
+  /** Pixels of every background pattern */
+  backgroundPatterns: Record<BackgroundPattern, PatternPixels>;
+  canvasWidth: number;
+  canvasHeight: number;
+}
+
+/**
+ * Brush size the WebGL renderer starts with
+ */
+const DEFAULT_BRUSH_SIZE = 2.0;
+
+// Transform of strokes drawn without symmetry copies
+const IDENTITY_TRANSFORM: TransformMatrix = {
+  m00: 1, m01: 0, m02: 0,
+  m10: 0, m11: 1, m12: 0,
+  m20: 0, m21: 0, m22: 1,
+};
+
+// Texture parameters of the WebGL textures each sampler stands in for
+const BRUSH_TIP_SAMPLING: TexelSampling = { wrap: 'clamp', filter: 'linear' };
+const BACKGROUND_SAMPLING: Record<BackgroundPattern, TexelSampling> = {
+  solid: { wrap: 'repeat', filter: 'nearest' },
+  checkerboard: { wrap: 'repeat', filter: 'nearest' },
+  paper: { wrap: 'repeat', filter: 'linear' },
+};
+
+/**
+ * Create a software renderer for a document
+ * The output defaults to the document size; pass a larger drawing buffer to render scaled (like high-DPI canvases).
+ */
+export function createSoftwareRenderer(
+  width: number,
+  height: number,
+  drawingBufferWidth: number = width,
+  drawingBufferHeight: number = height
+): SoftwareRenderer {
+  const output = createPixelBuffer(drawingBufferWidth, drawingBufferHeight);
+
+  return {
+    output,
+    target: output,
+    layerCaches: new Map(),
+    previewTarget: null,
+    previewLayerId: null,
+    dirtyRects: null,
+    scratch: null,
+    brush: getBrushPreset(DEFAULT_BRUSH_ID),
+    color: [0.0, 0.0, 0.0, 1.0],
+    blendMode: CoreTypes.BlendMode.NORMAL,
+    brushSize: DEFAULT_BRUSH_SIZE,
+    antialiasWidth: DEFAULT_AA_WIDTH,
+    viewMatrix: Matrix3x3.identity(),
+    background: getBackgroundPass(CoreTypes.DEFAULT_CANVAS_BACKGROUND, true),
+    brushTips: new Map(BUILTIN_BRUSH_TIP_SHAPES.map(shape => [shape, generateBrushTipPixels(shape)])),
+    backgroundPatterns: {
+      solid: { width: 1, height: 1, pixels: new Uint8Array([255, 255, 255, 255]) },
+      checkerboard: generateCheckerboardPixels(),
+      paper: generatePaperPixels(),
+    },
+    canvasWidth: width,
+    canvasHeight: height,
+  };
+}
+
+/**
+ * Resize the document (canvas coordinates)
+ * Layer caches, the preview and the scratch buffer are freed; caches are
+ * rebuilt by the next updateLayerCache.
+ */
+export function resizeDocument(renderer: SoftwareRenderer, width: number, height: number): void {
+  if (renderer.canvasWidth === width && renderer.canvasHeight === height) {
+    return;
+  }
+
+  renderer.layerCaches.clear();
+  renderer.previewTarget = null;
+  renderer.previewLayerId = null;
+  renderer.scratch = null;
+  renderer.canvasWidth = width;
+  renderer.canvasHeight = height;
+}
+
+/**
+ * Resize the output (device pixels); its contents are cleared
+ */
+export function resizeDrawingBuffer(renderer: SoftwareRenderer, width: number, height: number): void {
+  const { output } = renderer;
+  if (output.width === width && output.height === height) {
+    return;
+  }
+
+  const resized = createPixelBuffer(width, height);
+  if (renderer.target === output) {
+    renderer.target = resized;
+  }
+  renderer.output = resized;
+}
+
+/**
+ * Clear the target to transparent and draw the document background through the view transform
+ */
+export function clearCanvas(renderer: SoftwareRenderer): void {
+  drawInDirtyRects(renderer, 'canvas', renderer.target, () => {
+    clearPixelBuffer(renderer.target);
+    drawBackgroundQuads(renderer, [renderer.viewMatrix]);
+  });
+}
+
+/**
+ * Limit the clear, layer preview and compositing to document regions (null redraws everything)
+ */
+export function setDirtyRects(renderer: SoftwareRenderer, rects: readonly DirtyRect[] | null): void {
+  renderer.dirtyRects = rects;
+}
+
+/**
+ * Run draw clipped to the pixel boxes of the dirty rects, like the WebGL scissor test
+ * The whole draw runs and pixels outside the boxes are put back afterwards,
+ * so a partial frame differs from a full one exactly where the rects miss a change.
+ */
+function drawInDirtyRects(
+  renderer: SoftwareRenderer,
+  space: 'document' | 'canvas',
+  target: PixelBuffer,
+  draw: () => void
+): void {
+  const { dirtyRects } = renderer;
+  if (!dirtyRects) {
+    draw();
+    return;
+  }
+
+  const pixelMatrix = space === 'canvas' ? getPixelMatrix(renderer) : Matrix3x3.identity();
+  const boxes = getDirtyPixelBoxes(dirtyRects, pixelMatrix, target.width, target.height);
+  const previous = target.data.slice();
+
+  draw();
+
+  const inside = new Uint8Array(target.width * target.height);
+  for (const box of boxes) {
+    for (let y = box.y; y < box.y + box.height; y++) {
+      inside.fill(1, y * target.width + box.x, y * target.width + box.x + box.width);
+    }
+  }
+  for (let i = 0; i < inside.length; i++) {
+    if (!inside[i]) {
+      target.data.set(previous.subarray(i * 4, i * 4 + 4), i * 4);
+    }
+  }
+}
+
+/**
+ * Set the document background drawn by clearCanvas (null for none)
+ */
+export function setBackground(renderer: SoftwareRenderer, background: BackgroundPass | null): void {
+  renderer.background = background;
+}
+
+export function setDrawingColor(
+  renderer: SoftwareRenderer,
+  red: number,
+  green: number,
+  blue: number,
+  alpha: number = 1.0
+): void {
+  renderer.color = [red, green, blue, alpha];
+}
+
+export function setBrushSize(renderer: SoftwareRenderer, size: number): void {
+  renderer.brushSize = size;
+}
+
+/**
+ * Set the canvas-to-view transform (zoom/pan/rotation) applied to everything drawn
+ */
+export function setViewMatrix(renderer: SoftwareRenderer, viewMatrix: Matrix3x3): void {
+  renderer.viewMatrix = viewMatrix;
+}
+
+/**
+ * Select the brush preset used for stroke geometry (joins and caps)
+ */
+export function setBrush(renderer: SoftwareRenderer, brushId: string): void {
+  const brush = getBrushPreset(brushId);
+
+  if (brush.kind === 'stamp' && !renderer.brushTips.has(brush.stamp.tipId)) {
+    throw new BrushTipNotFoundError(brush.stamp.tipId);
+  }
+
+  renderer.brush = brush;
+}
+
+/**
+ * Register brush tip pixels for stamp brushes, replacing any tip with the same id
+ */
+export function registerBrushTip(renderer: SoftwareRenderer, id: string, tip: BrushTipPixels): void {
+  if (tip.pixels.length !== tip.width * tip.height * 4) {
+    throw new BrushTipCreationError(`Brush tip pixel data does not match ${tip.width}x${tip.height}: ${id}`);
+  }
+  renderer.brushTips.set(id, tip);
+}
+
+/**
+ * Set the anti-aliasing ramp width in canvas pixels
+ */
+export function setAntialiasWidth(renderer: SoftwareRenderer, width: number): void {
+  renderer.antialiasWidth = Math.max(width, 1e-3);
+}
+
+export function setBlendMode(renderer: SoftwareRenderer, blendMode: BlendMode): void {
+  renderer.blendMode = blendMode;
+}
+
+/**
+ * Apply a stroke style (color, opacity, size, brush and blend mode)
+ * Unknown brush ids fall back to the default brush so older documents still render.
+ */
+export function applyStrokeStyle(renderer: SoftwareRenderer, style: StrokeStyle): void {
+  const [red, green, blue, alpha] = style.color;
+  setDrawingColor(renderer, red, green, blue, alpha * style.opacity);
+  setBrushSize(renderer, style.size);
+  setBlendMode(renderer, style.blendMode);
+
+  try {
+    setBrush(renderer, style.brushId);
+  } catch (error) {
+    console.warn(`Falling back to default brush: ${error instanceof Error ? error.message : error}`);
+    setBrush(renderer, DEFAULT_BRUSH_ID);
+  }
+}
+
+/**
+ * Render a single stroke
+ * Strokes with a style record are drawn with that style and the renderer's
+ * previous settings are restored afterwards; other strokes use the current settings.
+ */
+export function renderStroke(renderer: SoftwareRenderer, stroke: StrokeData): void {
+  renderStyledStroke(renderer, stroke, null);
+}
+
+/**
+ * Render a stroke once per transform
+ * The stroke is tessellated once and each copy is transformed per vertex,
+ * as the WebGL renderer's instanced draw does.
+ */
+export function renderStrokeInstanced(
+  renderer: SoftwareRenderer,
+  stroke: StrokeData,
+  transforms: readonly TransformMatrix[]
+): void {
+  if (transforms.length === 0) {
+    return;
+  }
+
+  renderStyledStroke(renderer, stroke, transforms);
+}
+
+/**
+ * Draw a stroke with its own style, restoring the renderer's settings afterwards
+ */
+function renderStyledStroke(
+  renderer: SoftwareRenderer,
+  stroke: StrokeData,
+  transforms: readonly TransformMatrix[] | null
+): void {
+  if (stroke.points.length === 0) {
+    return; // Nothing to draw
+  }
+
+  if (!stroke.style) {
+    drawStroke(renderer, stroke, transforms);
+    return;
+  }
+
+  const { color, brushSize, brush, blendMode } = renderer;
+  applyStrokeStyle(renderer, stroke.style);
+
+  try {
+    drawStroke(renderer, stroke, transforms);
+  } finally {
+    setDrawingColor(renderer, ...color);
+    setBrushSize(renderer, brushSize);
+    setBlendMode(renderer, blendMode);
+    renderer.brush = brush;
+  }
+}
+
+/**
+ * Draw a stroke with the current brush and blend mode
+ * Shader blend modes and translucent colors draw the stroke into the scratch
+ * buffer first, so overlapping parts of the stroke (round joins, self-overlaps
+ * and symmetric copies) do not blend with each other. A translucent stroke is
+ * drawn opaque into the scratch buffer and its alpha is applied once when it is blended back.
+ */
+function drawStroke(
+  renderer: SoftwareRenderer,
+  stroke: StrokeData,
+  transforms: readonly TransformMatrix[] | null
+): void {
+  const { target, blendMode, color } = renderer;
+  const opacity = color[3];
+  if (isFixedFunctionBlendMode(blendMode) && opacity >= 1.0) {
+    drawStrokeWithBrush(renderer, stroke, transforms, blendMode);
+    return;
+  }
+
+  const scratch = getScratchBuffer(renderer);
+  clearPixelBuffer(scratch);
+
+  renderer.target = scratch;
+  renderer.color = [color[0], color[1], color[2], 1.0];
+  try {
+    drawStrokeWithBrush(renderer, stroke, transforms, CoreTypes.BlendMode.NORMAL);
+  } finally {
+    renderer.target = target;
+    renderer.color = color;
+  }
+
+  // Transparent scratch pixels leave the backdrop unchanged in every mode
+  const { data } = scratch;
+  for (let y = 0; y < scratch.height; y++) {
+    for (let x = 0; x < scratch.width; x++) {
+      const i = (y * scratch.width + x) * 4;
+      if (data[i + 3] > 0) {
+        const source: PremultipliedColor = [
+          data[i] * opacity,
+          data[i + 1] * opacity,
+          data[i + 2] * opacity,
+          data[i + 3] * opacity
+        ];
+        blendPixel(target, x, y, source, blendMode);
+      }
+    }
+  }
+}
+
+/**
+ * Get a scratch buffer the size of the target, reusing the last one when it fits
+ */
+function getScratchBuffer(renderer: SoftwareRenderer): PixelBuffer {
+  const { target, scratch } = renderer;
+  if (scratch && scratch.width === target.width && scratch.height === target.height) {
+    return scratch;
+  }
+
+  renderer.scratch = createPixelBuffer(target.width, target.height);
+  return renderer.scratch;
+}
+
+/**
+ * Draw a stroke's geometry with the current brush
+ */
+function drawStrokeWithBrush(
+  renderer: SoftwareRenderer,
+  stroke: StrokeData,
+  transforms: readonly TransformMatrix[] | null,
+  blendMode: BlendMode
+): void {
+  const { brush } = renderer;
+
+  if (brush.kind === 'stamp') {
+    renderStampStroke(renderer, stroke, brush.stamp, transforms, blendMode);
+    return;
+  }
+
+  const { brushSize, antialiasWidth, color } = renderer;
+  const { vertices, vertexCount } = strokeDataToTriangleStripVertexData(stroke, brush.geometry);
+  const pixelMatrix = getPixelMatrix(renderer);
+
+  for (const transform of transforms ?? [IDENTITY_TRANSFORM]) {
+    // Stroke vertex shader: extrude by the pressure-dependent half width plus the AA ramp
+    const rasterVertices: RasterVertex[] = [];
+    for (let v = 0; v < vertexCount; v++) {
+      const o = v * STROKE_VERTEX_COMPONENTS;
+      const halfWidth = Math.max(vertices[o + 6] * brushSize, 1.0) * 0.5;
+      const extent = halfWidth + antialiasWidth;
+      const [cx, cy] = applyTransform(transform, vertices[o], vertices[o + 1]);
+      const [ex, ey] = applyLinear(transform, vertices[o + 2], vertices[o + 3]);
+      const position = pixelMatrix.transformPoint(cx + ex * extent, cy + ey * extent);
+
+      rasterVertices.push({
+        x: position.x,
+        y: position.y,
+        varyings: [vertices[o + 4] * extent, vertices[o + 5] * extent, halfWidth],
+      });
+    }
+
+    // Stroke fragment shader: distance-field coverage
+    drawTriangleStrip(renderer.target, rasterVertices, (x, y, [localX, localY, halfWidth]) => {
+      const distance = Math.sqrt(localX * localX + localY * localY);
+      const coverage = Math.min(Math.max((halfWidth - distance) / antialiasWidth + 0.5, 0), 1);
+      if (coverage <= 0) {
+        return;
+      }
+      const alpha = color[3] * coverage;
+      blendPixel(renderer.target, x, y, [color[0] * alpha, color[1] * alpha, color[2] * alpha, alpha], blendMode);
+    });
+  }
+}
+
+/**
+ * Render a single stroke by stamping the brush tip along it
+ * With transforms, every copy reuses the same stamps, so jitter is exactly symmetric.
+ */
+export function renderStampStroke(
+  renderer: SoftwareRenderer,
+  stroke: StrokeData,
+  settings: StampBrushSettings,
+  transforms: readonly TransformMatrix[] | null = null,
+  blendMode: BlendMode = renderer.blendMode
+): void {
+  const { brushTips, brushSize, color } = renderer;
+
+  const tip = brushTips.get(settings.tipId);
+  if (!tip) {
+    throw new BrushTipNotFoundError(settings.tipId);
+  }
+
+  // CPU-expanded symmetric copies share the seed of their source stroke so their jitter matches
+  const seed = hashStringToSeed(stroke.id.replace(/_axis_\d+$/, ''));
+  const { vertices, vertexCount } = stampsToVertexData(placeStamps(stroke.points, settings, brushSize, seed));
+  const pixelMatrix = getPixelMatrix(renderer);
+
+  for (const transform of transforms ?? [IDENTITY_TRANSFORM]) {
+    // Stamp vertex shader: corners scaled by the pressure-dependent half size
+    const rasterVertices: RasterVertex[] = [];
+    for (let v = 0; v < vertexCount; v++) {
+      const o = v * STAMP_VERTEX_COMPONENTS;
+      const halfSize = Math.max(vertices[o + 6] * brushSize, 1.0) * 0.5;
+      const [x, y] = applyTransform(
+        transform,
+        vertices[o] + vertices[o + 2] * halfSize,
+        vertices[o + 1] + vertices[o + 3] * halfSize
+      );
+      const position = pixelMatrix.transformPoint(x, y);
+
+      rasterVertices.push({ x: position.x, y: position.y, varyings: [vertices[o + 4], vertices[o + 5]] });
+    }
+
+    // Stamp fragment shader: the tip's alpha is the mask
+    for (let v = 0; v + 2 < rasterVertices.length; v += 3) {
+      rasterizeTriangle(
+        renderer.target.width,
+        renderer.target.height,
+        rasterVertices[v],
+        rasterVertices[v + 1],
+        rasterVertices[v + 2],
+        (x, y, [u, tv]) => {
+          const mask = sampleTexels(tip, u, tv, BRUSH_TIP_SAMPLING)[3];
+          if (mask <= 0) {
+            return;
+          }
+          const alpha = color[3] * mask;
+          blendPixel(renderer.target, x, y, [color[0] * alpha, color[1] * alpha, color[2] * alpha, alpha], blendMode);
+        }
+      );
+    }
+  }
+}
+
+function applyTransform(transform: TransformMatrix, x: number, y: number): [number, number] {
+  return [
+    transform.m00 * x + transform.m01 * y + transform.m02,
+    transform.m10 * x + transform.m11 * y + transform.m12,
+  ];
+}
+
+function applyLinear(transform: TransformMatrix, x: number, y: number): [number, number] {
+  return [transform.m00 * x + transform.m01 * y, transform.m10 * x + transform.m11 * y];
+}
+
+/**
+ * Rasterize a triangle strip (triangles i, i+1, i+2)
+ */
+function drawTriangleStrip(
+  target: PixelBuffer,
+  vertices: readonly RasterVertex[],
+  fragment: (x: number, y: number, varyings: readonly number[]) => void
+): void {
+  for (let v = 0; v + 2 < vertices.length; v++) {
+    rasterizeTriangle(target.width, target.height, vertices[v], vertices[v + 1], vertices[v + 2], fragment);
+  }
+}
+
+/**
+ * Canvas-to-pixel transform of the target
+ * Targets span the document like the WebGL viewport does, so a drawing
+ * buffer larger than the document scales everything up.
+ */
+function getPixelMatrix(renderer: SoftwareRenderer, viewMatrix: Matrix3x3 = renderer.viewMatrix): Matrix3x3 {
+  const { target, canvasWidth, canvasHeight } = renderer;
+  return Matrix3x3.scale(target.width / canvasWidth, target.height / canvasHeight).multiply(viewMatrix);
+}
+
+/**
+ * Call visit for every target pixel whose centre falls inside the document
+ * quad drawn with viewMatrix, with the canvas position it maps back to
+ */
+function forEachQuadPixel(
+  renderer: SoftwareRenderer,
+  viewMatrix: Matrix3x3,
+  visit: (x: number, y: number, canvasX: number, canvasY: number) => void
+): void {
+  const { target, canvasWidth, canvasHeight } = renderer;
+  const pixelMatrix = getPixelMatrix(renderer, viewMatrix);
+  const corners = [
+    pixelMatrix.transformPoint(0, 0),
+    pixelMatrix.transformPoint(canvasWidth, 0),
+    pixelMatrix.transformPoint(0, canvasHeight),
+    pixelMatrix.transformPoint(canvasWidth, canvasHeight),
+  ];
+  const xs = corners.map(corner => corner.x);
+  const ys = corners.map(corner => corner.y);
+
+  const minX = Math.max(0, Math.floor(Math.min(...xs)));
+  const maxX = Math.min(target.width - 1, Math.ceil(Math.max(...xs)));
+  const minY = Math.max(0, Math.floor(Math.min(...ys)));
+  const maxY = Math.min(target.height - 1, Math.ceil(Math.max(...ys)));
+
+  const e = pixelMatrix.inverse().elements;
+  for (let y = minY; y <= maxY; y++) {
+    for (let x = minX; x <= maxX; x++) {
+      const canvasX = e[0] * (x + 0.5) + e[1] * (y + 0.5) + e[2];
+      const canvasY = e[3] * (x + 0.5) + e[4] * (y + 0.5) + e[5];
+      if (canvasX >= 0 && canvasX < canvasWidth && canvasY >= 0 && canvasY < canvasHeight) {
+        visit(x, y, canvasX, canvasY);
+      }
+    }
+  }
+}
+
+/**
+ * Composite a document-sized premultiplied buffer once per view matrix
+ */
+function drawCompositeQuads(
+  renderer: SoftwareRenderer,
+  source: PixelBuffer,
+  viewMatrices: readonly Matrix3x3[],
+  opacity: number,
+  blendMode: BlendMode
+): void {
+  const scaleX = source.width / renderer.canvasWidth;
+  const scaleY = source.height / renderer.canvasHeight;
+
+  for (const viewMatrix of viewMatrices) {
+    forEachQuadPixel(renderer, viewMatrix, (x, y, canvasX, canvasY) => {
+      const texel = samplePixelBuffer(source, canvasX * scaleX, canvasY * scaleY);
+      // Transparent texels leave the backdrop unchanged in every mode
+      if (texel[3] <= 0) {
+        return;
+      }
+      const color = texel.map(channel => channel * opacity) as PremultipliedColor;
+      blendPixel(renderer.target, x, y, color, blendMode);
+    });
+  }
+}
+
+/**
+ * Draw the document background with each of the given view matrices
+ * The background replaces what is under it, like the WebGL pass drawn with blending off.
+ */
+function drawBackgroundQuads(renderer: SoftwareRenderer, viewMatrices: readonly Matrix3x3[]): void {
+  const { background, target } = renderer;
+  if (!background) {
+    return;
+  }
+
+  const pattern = renderer.backgroundPatterns[background.pattern];
+  const sampling = BACKGROUND_SAMPLING[background.pattern];
+
+  for (const viewMatrix of viewMatrices) {
+    forEachQuadPixel(renderer, viewMatrix, (x, y, canvasX, canvasY) => {
+      const texel = sampleTexels(pattern, canvasX / background.tileSize, canvasY / background.tileSize, sampling);
+      const i = (y * target.width + x) * 4;
+      for (let c = 0; c < 4; c++) {
+        target.data[i + c] = texel[c] * background.color[c];
+      }
+    });
+  }
+}
+
+/**
+ * Draw 1px lines in canvas coordinates with normal blending
+ */
+function drawOverlayLines(
+  renderer: SoftwareRenderer,
+  vertices: Float32Array,
+  color: [number, number, number, number]
+): void {
+  const { target } = renderer;
+  const pixelMatrix = getPixelMatrix(renderer);
+  const premultiplied: PremultipliedColor = [color[0] * color[3], color[1] * color[3], color[2] * color[3], color[3]];
+  const plot = (x: number, y: number) => blendPixel(target, x, y, premultiplied, CoreTypes.BlendMode.NORMAL);
+  const segmentComponents = TILE_BORDER_VERTEX_COMPONENTS * 2;
+
+  for (let o = 0; o + segmentComponents <= vertices.length; o += segmentComponents) {
+    const start = pixelMatrix.transformPoint(vertices[o], vertices[o + 1]);
+    const end = pixelMatrix.transformPoint(vertices[o + 2], vertices[o + 3]);
+    const length = Math.hypot(end.x - start.x, end.y - start.y);
+    if (length === 0) {
+      continue;
+    }
+
+    // A quad one pixel wide around the segment
+    const nx = (-(end.y - start.y) / length) * 0.5;
+    const ny = ((end.x - start.x) / length) * 0.5;
+    const corner = (x: number, y: number): RasterVertex => ({ x, y, varyings: [] });
+    const a = corner(start.x + nx, start.y + ny);
+    const b = corner(start.x - nx, start.y - ny);
+    const c = corner(end.x + nx, end.y + ny);
+    const d = corner(end.x - nx, end.y - ny);
+
+    rasterizeTriangle(target.width, target.height, a, b, c, plot);
+    rasterizeTriangle(target.width, target.height, b, c, d, plot);
+  }
+}
+
+/**
+ * Get a layer's stroke cache, creating it on first use
+ */
+function getLayerCache(renderer: SoftwareRenderer, layerId: string): SoftwareLayerCache {
+  const existing = renderer.layerCaches.get(layerId);
+  if (existing) {
+    return existing;
+  }
+
+  const cache: SoftwareLayerCache = {
+    target: createPixelBuffer(renderer.canvasWidth, renderer.canvasHeight),
+    strokes: [],
+    contentKey: '',
+    valid: true,
+  };
+  renderer.layerCaches.set(layerId, cache);
+  return cache;
+}
+
+/**
+ * Bake a layer's committed strokes into its cache
+ * Only strokes appended since the last update are drawn; anything else
+ * (undo, clear, a different contentKey) rebuilds the cache. drawStroke lets
+ * the caller expand strokes (e.g. symmetry) while the cache is the target.
+ * The cache holds canvas coordinates, so it is baked without the view transform.
+ * Always returns true; the signature matches the WebGL renderer, whose caches can fail to allocate.
+ */
+export function updateLayerCache(
+  renderer: SoftwareRenderer,
+  layerId: string,
+  strokes: readonly StrokeData[],
+  contentKey: string,
+  drawStroke: (stroke: StrokeData) => void = (stroke) => renderStroke(renderer, stroke)
+): boolean {
+  const cache = getLayerCache(renderer, layerId);
+  const plan = planStrokeCacheUpdate(cache, strokes, contentKey);
+
+  // Stays invalid if drawing fails part way through
+  cache.valid = false;
+
+  if (plan.rebuild) {
+    clearPixelBuffer(cache.target);
+  }
+
+  drawUntransformed(renderer, cache.target, () => {
+    for (const stroke of plan.strokesToBake) {
+      drawStroke(stroke);
+    }
+  });
+
+  cache.strokes = [...strokes];
+  cache.contentKey = contentKey;
+  cache.valid = true;
+
+  return true;
+}
+
+/**
+ * Run draw with target bound and no view transform, restoring both afterwards
+ */
+function drawUntransformed(renderer: SoftwareRenderer, target: PixelBuffer, draw: () => void): void {
+  const { target: previousTarget, viewMatrix } = renderer;
+  renderer.target = target;
+  renderer.viewMatrix = Matrix3x3.identity();
+
+  try {
+    draw();
+  } finally {
+    renderer.target = previousTarget;
+    renderer.viewMatrix = viewMatrix;
+  }
+}
+
+/**
+ * Draw a layer's cache plus in-progress strokes into the preview buffer
+ * Until endLayerPreview, compositing uses the preview in place of the layer's cache.
+ * drawStrokes is called with the preview as the target and no view transform.
+ * Returns false when the layer has no cache.
+ */
+export function beginLayerPreview(
+  renderer: SoftwareRenderer,
+  layerId: string,
+  drawStrokes: () => void
+): boolean {
+  const cache = renderer.layerCaches.get(layerId);
+  if (!cache) {
+    return false;
+  }
+
+  renderer.previewTarget ??= createPixelBuffer(renderer.canvasWidth, renderer.canvasHeight);
+  const preview = renderer.previewTarget;
+
+  // Outside the dirty rects the preview still holds the previous frame
+  drawInDirtyRects(renderer, 'document', preview, () => {
+    preview.data.set(cache.target.data);
+    drawUntransformed(renderer, preview, drawStrokes);
+  });
+
+  renderer.previewLayerId = layerId;
+  return true;
+}
+
+/**
+ * Composite layers from their caches again
+ */
+export function endLayerPreview(renderer: SoftwareRenderer): void {
+  renderer.previewLayerId = null;
+}
+
+/**
+ * Buffer a layer is composited from (its preview while one is active)
+ */
+function getLayerBuffer(renderer: SoftwareRenderer, layerId: string): PixelBuffer | null {
+  if (layerId === renderer.previewLayerId && renderer.previewTarget) {
+    return renderer.previewTarget;
+  }
+  return renderer.layerCaches.get(layerId)?.target ?? null;
+}
+
+/**
+ * Composite layer caches bottom to top onto the target
+ * Hidden layers and layers without a cache are skipped.
+ */
+export function compositeLayers(renderer: SoftwareRenderer, layers: readonly CompositeLayer[]): void {
+  drawInDirtyRects(renderer, 'canvas', renderer.target, () => {
+    for (const layer of layers) {
+      const buffer = getLayerBuffer(renderer, layer.id);
+      if (layer.visible && buffer) {
+        drawCompositeQuads(renderer, buffer, [renderer.viewMatrix], layer.opacity, layer.blendMode);
+      }
+    }
+  });
+}
+
+/**
+ * Draw into a transparent layer group, then composite the group onto the target like a layer
+ * Strokes drawn by draw blend (and erase) within the group only. Groups nest and
+ * are drawn while a layer cache is baked, so a group has the document size.
+ * Hidden groups draw nothing.
+ */
+export function drawLayerGroup(renderer: SoftwareRenderer, group: CompositeLayer, draw: () => void): void {
+  if (!group.visible) {
+    return;
+  }
+
+  const buffer = createPixelBuffer(renderer.canvasWidth, renderer.canvasHeight);
+  const previousTarget = renderer.target;
+  renderer.target = buffer;
+  try {
+    draw();
+  } finally {
+    renderer.target = previousTarget;
+  }
+
+  drawCompositeQuads(renderer, buffer, [renderer.viewMatrix], group.opacity, group.blendMode);
+}
+
+/**
+ * Composite layer caches repeated over every tile visible in the viewport
+ * The document background is repeated under them. Optionally draws the tile
+ * borders on top so seams can be checked.
+ */
+export function compositeLayersTiled(
+  renderer: SoftwareRenderer,
+  layers: readonly CompositeLayer[],
+  showBorders: boolean = false
+): void {
+  const { canvasWidth, canvasHeight, viewMatrix } = renderer;
+  const range = computeVisibleTileRange(viewMatrix, canvasWidth, canvasHeight);
+  const scale = Math.sqrt(Math.abs(viewMatrix.determinant()));
+  const tileMatrices = tileRangeToPositions(range, canvasWidth, canvasHeight, scale)
+    .map(tile => viewMatrix.multiply(Matrix3x3.translation(tile.offsetX, tile.offsetY)));
+
+  drawBackgroundQuads(renderer, tileMatrices);
+
+  for (const layer of layers) {
+    const buffer = getLayerBuffer(renderer, layer.id);
+    if (layer.visible && buffer) {
+      drawCompositeQuads(renderer, buffer, tileMatrices, layer.opacity, layer.blendMode);
+    }
+  }
+
+  if (showBorders) {
+    drawOverlayLines(renderer, tileBorderVertexData(range, canvasWidth, canvasHeight), TILE_BORDER_COLOR);
+  }
+}
+
+/**
+ * Draw guide lines over the target, limited to the dirty rects like compositing
+ */
+export function drawGuideLines(renderer: SoftwareRenderer, lines: readonly GuideLine[]): void {
+  if (lines.length === 0) return;
+
+  const vertices = guideLineVertexData(lines);
+  drawInDirtyRects(renderer, 'canvas', renderer.target, () => drawOverlayLines(renderer, vertices, GUIDE_LINE_COLOR));
+}
+
+/**
+ * Force every layer cache to rebuild on its next update
+ */
+export function invalidateLayerCaches(renderer: SoftwareRenderer): void {
+  for (const cache of renderer.layerCaches.values()) {
+    cache.valid = false;
+  }
+}
+
+/**
+ * Free the caches of layers that no longer exist
+ */
+export function retainLayerCaches(renderer: SoftwareRenderer, layerIds: readonly string[]): void {
+  for (const layerId of Array.from(renderer.layerCaches.keys())) {
+    if (!layerIds.includes(layerId)) {
+      renderer.layerCaches.delete(layerId);
+    }
+  }
+}
+
+/**
+ * Clear and render multiple strokes with the current brush
+ */
+export function renderStrokes(renderer: SoftwareRenderer, strokes: StrokeData[]): void {
+  if (strokes.length === 0) {
+    return; // Nothing to draw
+  }
+
+  clearCanvas(renderer);
+
+  for (const stroke of strokes) {
+    renderStroke(renderer, stroke);
+  }
+}
+
+/**
+ * Read the output as straight-alpha RGBA bytes, top row first
+ */
+export function readPixels(renderer: SoftwareRenderer): ImageBuffer {
+  return toImageBuffer(renderer.output);
+}
+
+/**
+ * Drop every buffer the renderer holds
+ */
+export function cleanupRenderer(renderer: SoftwareRenderer): void {
+  renderer.layerCaches.clear();
+  renderer.previewTarget = null;
+  renderer.previewLayerId = null;
+  renderer.scratch = null;
+  renderer.target = renderer.output;
+}
+
+/**
+ * Expose a software renderer as a render backend
+ */
+export function createSoftwareBackend(renderer: SoftwareRenderer): RenderBackend {
+  return {
+    clear: () => clearCanvas(renderer),
+    setBackground: (background) => setBackground(renderer, background),
+    renderStroke: (stroke) => renderStroke(renderer, stroke),
+    renderStrokeInstanced: (stroke, transforms) => renderStrokeInstanced(renderer, stroke, transforms),
+    supportsInstancing: () => true,
+    renderStrokes: (strokes) => renderStrokes(renderer, strokes),
+    updateLayerCache: (layerId, strokes, contentKey, drawStroke) =>
+      updateLayerCache(renderer, layerId, strokes, contentKey, drawStroke),
+    compositeLayers: (layers) => compositeLayers(renderer, layers),
+    compositeLayersTiled: (layers, showBorders) => compositeLayersTiled(renderer, layers, showBorders),
+    drawLayerGroup: (group, draw) => drawLayerGroup(renderer, group, draw),
+    drawGuideLines: (lines) => drawGuideLines(renderer, lines),
+    beginLayerPreview: (layerId, drawStrokes) => beginLayerPreview(renderer, layerId, drawStrokes),
+    endLayerPreview: () => endLayerPreview(renderer),
+    setDirtyRects: (rects) => setDirtyRects(renderer, rects),
+    supportsPartialRedraw: () => true,
+    invalidateLayerCaches: () => invalidateLayerCaches(renderer),
+    retainLayerCaches: (layerIds) => retainLayerCaches(renderer, layerIds),
+    setDrawingColor: (red, green, blue, alpha) => setDrawingColor(renderer, red, green, blue, alpha),
+    setBrushSize: (size) => setBrushSize(renderer, size),
+    setBrush: (brushId) => setBrush(renderer, brushId),
+    getBrush: () => renderer.brush,
+    setAntialiasWidth: (width) => setAntialiasWidth(renderer, width),
+    getAntialiasWidth: () => renderer.antialiasWidth,
+    setViewMatrix: (viewMatrix) => setViewMatrix(renderer, viewMatrix),
+    getDocumentSize: () => ({ width: renderer.canvasWidth, height: renderer.canvasHeight }),
+    resizeDocument: (width, height) => resizeDocument(renderer, width, height),
+    resizeDrawingBuffer: (width, height) => resizeDrawingBuffer(renderer, width, height),
+    readPixels: () => readPixels(renderer),
+    cleanup: () => cleanupRenderer(renderer),
+  };
+}
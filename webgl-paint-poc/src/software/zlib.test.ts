@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { deflate, inflate, adler32, ZlibError } from './zlib';
+
+const fromBase64 = (base64: string) => Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+const encode = (text: string) => new TextEncoder().encode(text);
+const decode = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+describe('zlib', () => {
+  it('should round-trip data through deflate and inflate', () => {
+    const text = 'symmetry '.repeat(200) + 'paint';
+    const compressed = deflate(encode(text));
+
+    expect(compressed.length).toBeLessThan(text.length / 4);
+    expect(decode(inflate(compressed))).toBe(text);
+  });
+
+  it('should round-trip empty and incompressible data', () => {
+    const noise = Uint8Array.from({ length: 1000 }, (_, i) => (i * 2654435761) >>> 24);
+
+    expect(inflate(deflate(new Uint8Array(0)))).toEqual(new Uint8Array(0));
+    expect(inflate(deflate(noise))).toEqual(noise);
+  });
+
+  it('should inflate stored blocks', () => {
+    expect(decode(inflate(fromBase64('eAEBBwD4/3N0b3JlZCEL7wKz')))).toBe('stored!');
+  });
+
+  it('should inflate dynamic Huffman blocks', () => {
+    // 300 bytes of "a"/"b" compressed by another zlib with Huffman-only coding
+    const expected = Array.from({ length: 300 }, (_, i) => ((i * i) % 7 > 4 ? 'b' : 'a')).join('');
+    const compressed = fromBase64('eAEFwYEAAAAAAJBW/xMAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAgNioca0=');
+
+    expect(decode(inflate(compressed))).toBe(expected);
+  });
+
+  it('should compute Adler-32 checksums', () => {
+    expect(adler32(encode('Wikipedia'))).toBe(0x11e60398);
+  });
+
+  it('should reject corrupted streams', () => {
+    const compressed = deflate(encode('symmetry paint'));
+    compressed[compressed.length - 1] ^= 0xff;
+
+    expect(() => inflate(compressed)).toThrow(ZlibError);
+    expect(() => inflate(Uint8Array.of(0x12, 0x34, 0, 0, 0, 0))).toThrow(ZlibError);
+  });
+});
@@ -0,0 +1,492 @@
+// Synchronous zlib (RFC 1950) / DEFLATE (RFC 1951) for PNG image data
+// Compression uses LZ77 with hash chains and the fixed Huffman codes, which is
+// plenty for rendered images; decompression accepts any valid stream.
+
+export class ZlibError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZlibError';
+  }
+}
+
+const LENGTH_BASE = [
+  3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258,
+];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DISTANCE_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145,
+  8193, 12289, 16385, 24577,
+];
+const DISTANCE_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+// Order in which code length code lengths are stored in a dynamic block header
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+const MIN_MATCH = 3;
+const MAX_MATCH = 258;
+const WINDOW_SIZE = 32768;
+const HASH_BITS = 15;
+const MAX_CHAIN_LENGTH = 64;
+const END_OF_BLOCK = 256;
+
+// =============================================================================
+// Byte output
+// =============================================================================
+
+interface ByteWriter {
+  bytes: Uint8Array;
+  length: number;
+}
+
+function createByteWriter(capacity: number): ByteWriter {
+  return { bytes: new Uint8Array(Math.max(capacity, 64)), length: 0 };
+}
+
+function reserve(writer: ByteWriter, count: number): void {
+  if (writer.length + count <= writer.bytes.length) {
+    return;
+  }
+  let capacity = writer.bytes.length * 2;
+  while (capacity < writer.length + count) {
+    capacity *= 2;
+  }
+  const grown = new Uint8Array(capacity);
+  grown.set(writer.bytes.subarray(0, writer.length));
+  writer.bytes = grown;
+}
+
+function writeByte(writer: ByteWriter, value: number): void {
+  reserve(writer, 1);
+  writer.bytes[writer.length++] = value;
+}
+
+function finishBytes(writer: ByteWriter): Uint8Array {
+  return writer.bytes.slice(0, writer.length);
+}
+
+// =============================================================================
+// Checksum
+// =============================================================================
+
+/**
+ * Adler-32 checksum of the uncompressed data (zlib trailer)
+ */
+export function adler32(data: Uint8Array): number {
+  let a = 1;
+  let b = 0;
+  // 5552 is the largest run that cannot overflow before the modulo
+  for (let start = 0; start < data.length; start += 5552) {
+    const end = Math.min(start + 5552, data.length);
+    for (let i = start; i < end; i++) {
+      a += data[i];
+      b += a;
+    }
+    a %= 65521;
+    b %= 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+}
+
+// =============================================================================
+// Compression
+// =============================================================================
+
+interface BitWriter {
+  output: ByteWriter;
+  buffer: number;
+  count: number;
+}
+
+// Values are packed least significant bit first
+function writeBits(writer: BitWriter, value: number, bitCount: number): void {
+  writer.buffer |= value << writer.count;
+  writer.count += bitCount;
+  while (writer.count >= 8) {
+    writeByte(writer.output, writer.buffer & 0xff);
+    writer.buffer >>>= 8;
+    writer.count -= 8;
+  }
+}
+
+function flushBits(writer: BitWriter): void {
+  if (writer.count > 0) {
+    writeByte(writer.output, writer.buffer & 0xff);
+  }
+  writer.buffer = 0;
+  writer.count = 0;
+}
+
+// Huffman codes are packed most significant bit first
+function writeHuffmanCode(writer: BitWriter, code: number, length: number): void {
+  let reversed = 0;
+  for (let i = 0; i < length; i++) {
+    reversed = (reversed << 1) | ((code >> i) & 1);
+  }
+  writeBits(writer, reversed, length);
+}
+
+function writeFixedLiteral(writer: BitWriter, symbol: number): void {
+  if (symbol < 144) {
+    writeHuffmanCode(writer, 0x30 + symbol, 8);
+  } else if (symbol < 256) {
+    writeHuffmanCode(writer, 0x190 + symbol - 144, 9);
+  } else if (symbol < 280) {
+    writeHuffmanCode(writer, symbol - 256, 7);
+  } else {
+    writeHuffmanCode(writer, 0xc0 + symbol - 280, 8);
+  }
+}
+
+function findCodeIndex(bases: readonly number[], value: number): number {
+  let index = bases.length - 1;
+  while (bases[index] > value) {
+    index--;
+  }
+  return index;
+}
+
+function writeMatch(writer: BitWriter, length: number, distance: number): void {
+  const lengthIndex = findCodeIndex(LENGTH_BASE, length);
+  writeFixedLiteral(writer, 257 + lengthIndex);
+  writeBits(writer, length - LENGTH_BASE[lengthIndex], LENGTH_EXTRA[lengthIndex]);
+
+  const distanceIndex = findCodeIndex(DISTANCE_BASE, distance);
+  writeHuffmanCode(writer, distanceIndex, 5);
+  writeBits(writer, distance - DISTANCE_BASE[distanceIndex], DISTANCE_EXTRA[distanceIndex]);
+}
+
+function hashAt(data: Uint8Array, i: number): number {
+  return ((data[i] << 10) ^ (data[i + 1] << 5) ^ data[i + 2]) & ((1 << HASH_BITS) - 1);
+}
+
+/**
+ * Compress data as one fixed-Huffman DEFLATE block
+ */
+export function deflateRaw(data: Uint8Array): Uint8Array {
+  const writer: BitWriter = { output: createByteWriter(data.length / 4), buffer: 0, count: 0 };
+  // Most recent position for each hash, and the previous position with the same hash
+  const head = new Int32Array(1 << HASH_BITS).fill(-1);
+  const previous = new Int32Array(WINDOW_SIZE).fill(-1);
+
+  const insert = (i: number) => {
+    const hash = hashAt(data, i);
+    previous[i & (WINDOW_SIZE - 1)] = head[hash];
+    head[hash] = i;
+  };
+
+  // BFINAL = 1, BTYPE = 01 (fixed Huffman)
+  writeBits(writer, 1, 1);
+  writeBits(writer, 1, 2);
+
+  let i = 0;
+  while (i < data.length) {
+    let bestLength = 0;
+    let bestDistance = 0;
+
+    if (i + MIN_MATCH <= data.length) {
+      const maxLength = Math.min(MAX_MATCH, data.length - i);
+      let candidate = head[hashAt(data, i)];
+      let chain = MAX_CHAIN_LENGTH;
+
+      while (candidate >= 0 && i - candidate <= WINDOW_SIZE && chain-- > 0) {
+        let length = 0;
+        while (length < maxLength && data[candidate + length] === data[i + length]) {
+          length++;
+        }
+        if (length > bestLength) {
+          bestLength = length;
+          bestDistance = i - candidate;
+          if (length === maxLength) {
+            break;
+          }
+        }
+        candidate = previous[candidate & (WINDOW_SIZE - 1)];
+      }
+    }
+
+    if (bestLength >= MIN_MATCH) {
+      writeMatch(writer, bestLength, bestDistance);
+      const end = Math.min(i + bestLength, data.length - MIN_MATCH + 1);
+      for (let j = i; j < end; j++) {
+        insert(j);
+      }
+      i += bestLength;
+    } else {
+      writeFixedLiteral(writer, data[i]);
+      if (i + MIN_MATCH <= data.length) {
+        insert(i);
+      }
+      i++;
+    }
+  }
+
+  writeFixedLiteral(writer, END_OF_BLOCK);
+  flushBits(writer);
+  return finishBytes(writer.output);
+}
+
+/**
+ * Compress data into a zlib stream
+ */
+export function deflate(data: Uint8Array): Uint8Array {
+  const body = deflateRaw(data);
+  const output = new Uint8Array(body.length + 6);
+  // CMF: deflate with a 32K window; FLG: no dictionary, check bits for CMF
+  output[0] = 0x78;
+  output[1] = 0x01;
+  output.set(body, 2);
+  new DataView(output.buffer).setUint32(body.length + 2, adler32(data));
+  return output;
+}
+
+// =============================================================================
+// Decompression
+// =============================================================================
+
+interface BitReader {
+  data: Uint8Array;
+  position: number;
+  buffer: number;
+  count: number;
+}
+
+function readBits(reader: BitReader, bitCount: number): number {
+  while (reader.count < bitCount) {
+    if (reader.position >= reader.data.length) {
+      throw new ZlibError('Unexpected end of compressed data');
+    }
+    reader.buffer |= reader.data[reader.position++] << reader.count;
+    reader.count += 8;
+  }
+  const value = reader.buffer & ((1 << bitCount) - 1);
+  reader.buffer >>>= bitCount;
+  reader.count -= bitCount;
+  return value;
+}
+
+/**
+ * Canonical Huffman table: number of codes per length and symbols in code order
+ */
+interface HuffmanTable {
+  counts: Uint16Array;
+  symbols: Uint16Array;
+}
+
+function buildHuffmanTable(lengths: ArrayLike<number>): HuffmanTable {
+  const counts = new Uint16Array(16);
+  for (let i = 0; i < lengths.length; i++) {
+    counts[lengths[i]]++;
+  }
+  counts[0] = 0;
+
+  const offsets = new Uint16Array(16);
+  for (let length = 1; length < 16; length++) {
+    offsets[length] = offsets[length - 1] + counts[length - 1];
+  }
+
+  const symbols = new Uint16Array(lengths.length);
+  for (let symbol = 0; symbol < lengths.length; symbol++) {
+    if (lengths[symbol] !== 0) {
+      symbols[offsets[lengths[symbol]]++] = symbol;
+    }
+  }
+  return { counts, symbols };
+}
+
+function decodeSymbol(reader: BitReader, table: HuffmanTable): number {
+  let code = 0;
+  let first = 0;
+  let index = 0;
+  for (let length = 1; length < 16; length++) {
+    code |= readBits(reader, 1);
+    const count = table.counts[length];
+    if (code - first < count) {
+      return table.symbols[index + code - first];
+    }
+    index += count;
+    first = (first + count) << 1;
+    code <<= 1;
+  }
+  throw new ZlibError('Invalid Huffman code');
+}
+
+let fixedTables: { literals: HuffmanTable; distances: HuffmanTable } | null = null;
+
+function getFixedTables(): { literals: HuffmanTable; distances: HuffmanTable } {
+  if (!fixedTables) {
+    const lengths = new Uint8Array(288);
+    lengths.fill(8, 0, 144);
+    lengths.fill(9, 144, 256);
+    lengths.fill(7, 256, 280);
+    lengths.fill(8, 280, 288);
+    fixedTables = {
+      literals: buildHuffmanTable(lengths),
+      distances: buildHuffmanTable(new Uint8Array(30).fill(5)),
+    };
+  }
+  return fixedTables;
+}
+
+function readDynamicTables(reader: BitReader): { literals: HuffmanTable; distances: HuffmanTable } {
+  const literalCount = readBits(reader, 5) + 257;
+  const distanceCount = readBits(reader, 5) + 1;
+  const codeLengthCount = readBits(reader, 4) + 4;
+
+  const codeLengthLengths = new Uint8Array(19);
+  for (let i = 0; i < codeLengthCount; i++) {
+    codeLengthLengths[CODE_LENGTH_ORDER[i]] = readBits(reader, 3);
+  }
+  const codeLengthTable = buildHuffmanTable(codeLengthLengths);
+
+  const lengths = new Uint8Array(literalCount + distanceCount);
+  let i = 0;
+  while (i < lengths.length) {
+    const symbol = decodeSymbol(reader, codeLengthTable);
+    if (symbol < 16) {
+      lengths[i++] = symbol;
+      continue;
+    }
+
+    let value = 0;
+    let repeat: number;
+    if (symbol === 16) {
+      if (i === 0) {
+        throw new ZlibError('Repeated code length without a previous length');
+      }
+      value = lengths[i - 1];
+      repeat = 3 + readBits(reader, 2);
+    } else if (symbol === 17) {
+      repeat = 3 + readBits(reader, 3);
+    } else {
+      repeat = 11 + readBits(reader, 7);
+    }
+    if (i + repeat > lengths.length) {
+      throw new ZlibError('Too many code lengths');
+    }
+    lengths.fill(value, i, i + repeat);
+    i += repeat;
+  }
+
+  return {
+    literals: buildHuffmanTable(lengths.subarray(0, literalCount)),
+    distances: buildHuffmanTable(lengths.subarray(literalCount)),
+  };
+}
+
+function inflateBlock(
+  reader: BitReader,
+  output: ByteWriter,
+  tables: { literals: HuffmanTable; distances: HuffmanTable }
+): void {
+  for (;;) {
+    const symbol = decodeSymbol(reader, tables.literals);
+    if (symbol < 256) {
+      writeByte(output, symbol);
+      continue;
+    }
+    if (symbol === END_OF_BLOCK) {
+      return;
+    }
+
+    const lengthIndex = symbol - 257;
+    if (lengthIndex >= LENGTH_BASE.length) {
+      throw new ZlibError(`Invalid length symbol: ${symbol}`);
+    }
+    const length = LENGTH_BASE[lengthIndex] + readBits(reader, LENGTH_EXTRA[lengthIndex]);
+
+    const distanceIndex = decodeSymbol(reader, tables.distances);
+    if (distanceIndex >= DISTANCE_BASE.length) {
+      throw new ZlibError(`Invalid distance symbol: ${distanceIndex}`);
+    }
+    const distance = DISTANCE_BASE[distanceIndex] + readBits(reader, DISTANCE_EXTRA[distanceIndex]);
+    if (distance > output.length) {
+      throw new ZlibError('Distance points before the start of the output');
+    }
+
+    reserve(output, length);
+    // Copy byte by byte: the source may overlap the bytes being written
+    for (let i = 0; i < length; i++) {
+      output.bytes[output.length] = output.bytes[output.length - distance];
+      output.length++;
+    }
+  }
+}
+
+function inflateStored(reader: BitReader, output: ByteWriter): void {
+  // Stored blocks start at a byte boundary
+  reader.buffer = 0;
+  reader.count = 0;
+
+  const { data } = reader;
+  if (reader.position + 4 > data.length) {
+    throw new ZlibError('Unexpected end of compressed data');
+  }
+  const length = data[reader.position] | (data[reader.position + 1] << 8);
+  const complement = data[reader.position + 2] | (data[reader.position + 3] << 8);
+  if ((length ^ 0xffff) !== complement) {
+    throw new ZlibError('Stored block length does not match its complement');
+  }
+  reader.position += 4;
+  if (reader.position + length > data.length) {
+    throw new ZlibError('Unexpected end of compressed data');
+  }
+
+  reserve(output, length);
+  output.bytes.set(data.subarray(reader.position, reader.position + length), output.length);
+  output.length += length;
+  reader.position += length;
+}
+
+/**
+ * Decompress a raw DEFLATE stream
+ * @param sizeHint expected output size, to avoid regrowing the output
+ */
+export function inflateRaw(data: Uint8Array, sizeHint: number = data.length * 4): Uint8Array {
+  const reader: BitReader = { data, position: 0, buffer: 0, count: 0 };
+  const output = createByteWriter(sizeHint);
+
+  let isFinal = false;
+  while (!isFinal) {
+    isFinal = readBits(reader, 1) === 1;
+    const type = readBits(reader, 2);
+    switch (type) {
+      case 0:
+        inflateStored(reader, output);
+        break;
+      case 1:
+        inflateBlock(reader, output, getFixedTables());
+        break;
+      case 2:
+        inflateBlock(reader, output, readDynamicTables(reader));
+        break;
+      default:
+        throw new ZlibError('Invalid block type');
+    }
+  }
+
+  return finishBytes(output);
+}
+
+/**
+ * Decompress a zlib stream, checking its header and checksum
+ */
+export function inflate(data: Uint8Array, sizeHint?: number): Uint8Array {
+  if (data.length < 6) {
+    throw new ZlibError('Data is too short for a zlib stream');
+  }
+  const cmf = data[0];
+  const flg = data[1];
+  if ((cmf & 0x0f) !== 8 || ((cmf << 8) | flg) % 31 !== 0) {
+    throw new ZlibError('Invalid zlib header');
+  }
+  if (flg & 0x20) {
+    throw new ZlibError('Preset dictionaries are not supported');
+  }
+
+  // The trailer follows the last block; the deflate stream knows where it ends
+  const output = inflateRaw(data.subarray(2, data.length - 4), sizeHint);
+  const expected = new DataView(data.buffer, data.byteOffset, data.byteLength).getUint32(data.length - 4);
+  if (adler32(output) !== expected) {
+    throw new ZlibError('Checksum mismatch');
+  }
+  return output;
+}
@@ -6,7 +6,21 @@
 import { createStore } from 'zustand/vanilla';
 import { devtools, subscribeWithSelector } from 'zustand/middleware';
 import type { CoreState } from '../types/state';
+import {
+  BlendMode,
+  DrawingTool,
+  SymmetryMode,
+  SymmetryType,
+  WallpaperGroup,
+  DEFAULT_CANVAS_BACKGROUND,
+  DEFAULT_SYMMETRY_TYPE,
+  MIN_SYMMETRY_AXIS_COUNT,
+  MAX_SYMMETRY_AXIS_COUNT,
+  MIN_WALLPAPER_REPEAT,
+  MAX_WALLPAPER_REPEAT,
+} from '../types/core';
 import type { StrokeData, StrokePoint } from '../types/core';
+import { DEFAULT_BRUSH_ID } from '../webgl/brushes';
 
 /**
  * コアステートの初期値
@@ -15,16 +29,27 @@ const initialCoreState: CoreState = {
   drawingEngine: {
     isInitialized: false,
     canvasSize: { width: 1024, height: 1024 },
+    background: DEFAULT_CANVAS_BACKGROUND,
+    wrapEdges: false,
     color: [0, 0, 0, 1], // Black
     brushSize: 2,
     opacity: 1.0,
+    brushId: DEFAULT_BRUSH_ID,
+    blendMode: BlendMode.NORMAL,
+    tool: DrawingTool.BRUSH,
+    isErasing: false,
     isDrawing: false,
     currentStroke: [],
   },
   symmetry: {
     enabled: true,
-    axisCount: 8,
+    mode: SymmetryMode.RADIAL_8,
+    axisCount: 4,
+    type: DEFAULT_SYMMETRY_TYPE,
     centerPoint: { x: 512, y: 512 },
+    mirrorAngle: 0,
+    wallpaperGroup: WallpaperGroup.P4M,
+    wallpaperRepeat: 2,
   },
   view: {
     zoom: 1.0,
@@ -35,11 +60,16 @@ const initialCoreState: CoreState = {
       panOffset: { canvasX: 0, canvasY: 0 },
       rotation: 0,
     },
+    tilingEnabled: false,
+    showTileBorders: false,
+    showSymmetryGuides: true,
   },
   history: {
     strokes: [],
     historyIndex: 0,
     maxHistorySize: 100,
+    layerOperations: [],
+    undoneLayerOperations: [],
   },
   performance: {
     fps: 0,
@@ -79,7 +109,12 @@ export interface CoreStoreState extends CoreState {
   toggleSymmetry: () => void;
   setSymmetryEnabled: (enabled: boolean) => void;
   setAxisCount: (count: number) => void;
+  setSymmetryType: (type: SymmetryType) => void;
+  setSymmetryMode: (mode: SymmetryMode) => void;
   setCenterPoint: (point: { x: number; y: number }) => void;
+  setMirrorAngle: (angle: number) => void;
+  setWallpaperGroup: (group: WallpaperGroup) => void;
+  setWallpaperRepeat: (repeat: number) => void;
 
   // View Actions
   setZoom: (zoom: number) => void;
@@ -315,7 +350,7 @@ export const coreStore = createStore<CoreStoreState>()(
           (state) => ({
             symmetry: {
               ...state.symmetry,
-              axisCount: Math.max(2, Math.min(16, axisCount)),
+              axisCount: Math.max(MIN_SYMMETRY_AXIS_COUNT, Math.min(MAX_SYMMETRY_AXIS_COUNT, Math.round(axisCount))),
             },
           }),
           false,
@@ -323,6 +358,32 @@ export const coreStore = createStore<CoreStoreState>()(
         );
       },
 
+      setSymmetryType: (type) => {
+        set(
+          (state) => ({
+            symmetry: {
+              ...state.symmetry,
+              type,
+            },
+          }),
+          false,
+          'setSymmetryType'
+        );
+      },
+
+      setSymmetryMode: (mode) => {
+        set(
+          (state) => ({
+            symmetry: {
+              ...state.symmetry,
+              mode,
+            },
+          }),
+          false,
+          'setSymmetryMode'
+        );
+      },
+
       setCenterPoint: (centerPoint) => {
         set(
           (state) => ({
@@ -336,6 +397,45 @@ export const coreStore = createStore<CoreStoreState>()(
         );
       },
 
+      setMirrorAngle: (mirrorAngle) => {
+        set(
+          (state) => ({
+            symmetry: {
+              ...state.symmetry,
+              mirrorAngle,
+            },
+          }),
+          false,
+          'setMirrorAngle'
+        );
+      },
+
+      setWallpaperGroup: (wallpaperGroup) => {
+        set(
+          (state) => ({
+            symmetry: {
+              ...state.symmetry,
+              wallpaperGroup,
+            },
+          }),
+          false,
+          'setWallpaperGroup'
+        );
+      },
+
+      setWallpaperRepeat: (wallpaperRepeat) => {
+        set(
+          (state) => ({
+            symmetry: {
+              ...state.symmetry,
+              wallpaperRepeat: Math.max(MIN_WALLPAPER_REPEAT, Math.min(MAX_WALLPAPER_REPEAT, Math.round(wallpaperRepeat))),
+            },
+          }),
+          false,
+          'setWallpaperRepeat'
+        );
+      },
+
       // =============================================================================
       // VIEW ACTIONS
       // =============================================================================
@@ -381,8 +481,9 @@ export const coreStore = createStore<CoreStoreState>()(
 
       resetView: () => {
         set(
-          () => ({
+          (state) => ({
             view: {
+              ...state.view,
               zoom: 1.0,
               pan: { x: 0, y: 0 },
               rotation: 0,
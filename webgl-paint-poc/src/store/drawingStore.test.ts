@@ -0,0 +1,470 @@
+/**
+ * 描画ストアのテスト
+ * ストロークごとのスタイル記録とレイヤー操作を検証
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { drawingStore, drawingSelectors, createStrokeStyle, splitMergedLayerRuns, DEFAULT_LAYER_ID } from './drawingStore';
+import { BackgroundType, BlendMode, DrawingTool, ResizeAnchor, DEFAULT_CANVAS_BACKGROUND } from '../types/core';
+
+const point = (x: number, y: number) => ({ x, y, pressure: 0.5, timestamp: 1000 });
+
+const drawStroke = () => {
+  const store = drawingStore.getState();
+  store.startDrawing(point(100, 100));
+  store.continueDrawing(point(150, 120));
+  store.endDrawing(point(200, 140));
+};
+
+describe('Drawing Store', () => {
+  beforeEach(() => {
+    drawingStore.getState().reset();
+  });
+
+  describe('Stroke Style', () => {
+    it('should capture the current style when a stroke ends', () => {
+      const store = drawingStore.getState();
+      store.setColor([1, 0, 0, 1]);
+      store.setBrushSize(12);
+      store.setOpacity(0.5);
+      store.setBrushId('chalk');
+
+      drawStroke();
+
+      const [stroke] = drawingSelectors.strokes();
+      expect(stroke.style).toEqual({
+        color: [1, 0, 0, 1],
+        size: 12,
+        opacity: 0.5,
+        brushId: 'chalk',
+        blendMode: BlendMode.NORMAL,
+      });
+    });
+
+    it('should keep earlier stroke styles when settings change', () => {
+      const store = drawingStore.getState();
+      store.setColor([1, 0, 0, 1]);
+      drawStroke();
+
+      store.setColor([0, 0, 1, 1]);
+      store.setBrushSize(40);
+      drawStroke();
+
+      const [first, second] = drawingSelectors.strokes();
+      expect(first.style?.color).toEqual([1, 0, 0, 1]);
+      expect(first.style?.size).toBe(20);
+      expect(second.style?.color).toEqual([0, 0, 1, 1]);
+      expect(second.style?.size).toBe(40);
+    });
+
+    it('should not share the color array with the engine state', () => {
+      const engine = drawingSelectors.drawingEngine();
+      const style = createStrokeStyle(engine);
+
+      expect(style.color).toEqual(engine.color);
+      expect(style.color).not.toBe(engine.color);
+    });
+
+    it('should expose the current style through selectors', () => {
+      const store = drawingStore.getState();
+      store.setBrushId('marker');
+      store.setBlendMode(BlendMode.NORMAL);
+
+      expect(drawingSelectors.brushId()).toBe('marker');
+      expect(drawingSelectors.strokeStyle().brushId).toBe('marker');
+      expect(drawingSelectors.blendMode()).toBe(BlendMode.NORMAL);
+    });
+  });
+
+  describe('Eraser', () => {
+    it('should record eraser strokes with the erase blend mode', () => {
+      const store = drawingStore.getState();
+      store.setBlendMode(BlendMode.MULTIPLY);
+      store.setTool(DrawingTool.ERASER);
+
+      drawStroke();
+
+      const [stroke] = drawingSelectors.strokes();
+      expect(stroke.style?.blendMode).toBe(BlendMode.ERASE);
+      expect(stroke.layerId).toBe(DEFAULT_LAYER_ID);
+      expect(drawingSelectors.isErasing()).toBe(false);
+    });
+
+    it('should erase when the stroke starts from the pen eraser', () => {
+      const store = drawingStore.getState();
+      store.startDrawing(point(100, 100), true);
+
+      expect(drawingSelectors.isErasing()).toBe(true);
+      expect(drawingSelectors.strokeStyle().blendMode).toBe(BlendMode.ERASE);
+      expect(drawingSelectors.tool()).toBe(DrawingTool.BRUSH);
+
+      store.endDrawing(point(200, 140));
+      drawStroke();
+
+      const [erased, painted] = drawingSelectors.strokes();
+      expect(erased.style?.blendMode).toBe(BlendMode.ERASE);
+      expect(painted.style?.blendMode).toBe(BlendMode.NORMAL);
+    });
+  });
+
+  describe('Document Size', () => {
+    it('should center symmetry on a new document', () => {
+      drawingStore.getState().initializeEngine({ width: 800, height: 600 });
+
+      expect(drawingSelectors.canvasSize()).toEqual({ width: 800, height: 600 });
+      expect(drawingSelectors.centerPoint()).toEqual({ x: 400, y: 300 });
+    });
+
+    it('should keep strokes in place around the center when resizing', () => {
+      drawingStore.getState().initializeEngine({ width: 1024, height: 1024 });
+      drawStroke();
+
+      drawingStore.getState().resizeCanvas({ width: 1224, height: 824 });
+
+      const [stroke] = drawingSelectors.strokes();
+      expect(drawingSelectors.canvasSize()).toEqual({ width: 1224, height: 824 });
+      expect(stroke.points[0]).toMatchObject({ x: 200, y: 0 });
+      expect(drawingSelectors.centerPoint()).toEqual({ x: 612, y: 412 });
+    });
+
+    it('should crop from the anchored corner', () => {
+      drawingStore.getState().initializeEngine({ width: 1024, height: 1024 });
+      drawStroke();
+
+      drawingStore.getState().resizeCanvas({ width: 512, height: 256 }, ResizeAnchor.BOTTOM_RIGHT);
+
+      const [stroke] = drawingSelectors.strokes();
+      expect(stroke.points[0]).toMatchObject({ x: -412, y: -668 });
+      expect(drawingSelectors.centerPoint()).toEqual({ x: 0, y: -256 });
+    });
+
+    it('should translate undone strokes too', () => {
+      drawStroke();
+      drawingStore.getState().undo();
+
+      drawingStore.getState().resizeCanvas({ width: 1224, height: 1024 });
+      drawingStore.getState().redo();
+
+      expect(drawingSelectors.strokes()[0].points[0]).toMatchObject({ x: 200, y: 100 });
+    });
+  });
+
+  describe('Background', () => {
+    it('should start with the default background', () => {
+      expect(drawingSelectors.background()).toEqual(DEFAULT_CANVAS_BACKGROUND);
+    });
+
+    it('should clamp the background color', () => {
+      drawingStore.getState().setBackground({ type: BackgroundType.PAPER, color: [1.5, 0.5, -1, 1] });
+
+      expect(drawingSelectors.background()).toEqual({ type: BackgroundType.PAPER, color: [1, 0.5, 0, 1] });
+    });
+  });
+
+  describe('Layers', () => {
+    const layerIds = () => drawingSelectors.layers().map(layer => layer.id);
+
+    it('should start with a single active layer', () => {
+      expect(layerIds()).toEqual([DEFAULT_LAYER_ID]);
+      expect(drawingSelectors.activeLayerId()).toBe(DEFAULT_LAYER_ID);
+    });
+
+    it('should tag strokes with the active layer', () => {
+      drawStroke();
+      drawingStore.getState().addLayer('上');
+      drawStroke();
+
+      const top = drawingSelectors.activeLayerId();
+      expect(drawingSelectors.layerStrokes(DEFAULT_LAYER_ID)).toHaveLength(1);
+      expect(drawingSelectors.layerStrokes(top)).toHaveLength(1);
+      expect(drawingSelectors.activeLayer().name).toBe('上');
+    });
+
+    it('should insert new layers above the active layer', () => {
+      const store = drawingStore.getState();
+      store.addLayer('B');
+      store.setActiveLayer(DEFAULT_LAYER_ID);
+      store.addLayer('A');
+
+      expect(drawingSelectors.layers().map(layer => layer.name)).toEqual(['レイヤー 1', 'A', 'B']);
+    });
+
+    it('should not draw on locked or hidden layers', () => {
+      const store = drawingStore.getState();
+      store.setLayerLocked(DEFAULT_LAYER_ID, true);
+      drawStroke();
+      store.setLayerLocked(DEFAULT_LAYER_ID, false);
+      store.setLayerVisible(DEFAULT_LAYER_ID, false);
+      drawStroke();
+
+      expect(drawingSelectors.strokes()).toHaveLength(0);
+    });
+
+    it('should remove a layer with its strokes and keep the last layer', () => {
+      const store = drawingStore.getState();
+      drawStroke();
+      store.addLayer();
+      const top = drawingSelectors.activeLayerId();
+      drawStroke();
+      drawStroke();
+
+      store.removeLayer(top);
+      expect(layerIds()).toEqual([DEFAULT_LAYER_ID]);
+      expect(drawingSelectors.activeLayerId()).toBe(DEFAULT_LAYER_ID);
+      expect(drawingSelectors.strokes()).toHaveLength(1);
+      expect(drawingSelectors.history().historyIndex).toBe(1);
+
+      store.removeLayer(DEFAULT_LAYER_ID);
+      expect(layerIds()).toEqual([DEFAULT_LAYER_ID]);
+    });
+
+    it('should reorder layers', () => {
+      const store = drawingStore.getState();
+      store.addLayer();
+      const top = drawingSelectors.activeLayerId();
+
+      store.moveLayer(top, 0);
+      expect(layerIds()).toEqual([top, DEFAULT_LAYER_ID]);
+
+      store.moveLayer(top, 99);
+      expect(layerIds()).toEqual([DEFAULT_LAYER_ID, top]);
+    });
+
+    it('should merge a layer down as a group with its compositing settings, drawing it last', () => {
+      const store = drawingStore.getState();
+      store.addLayer();
+      const top = drawingSelectors.activeLayerId();
+      store.setLayerOpacity(top, 0.5);
+      drawStroke();
+      store.setLayerVisible(top, false);
+      store.setActiveLayer(DEFAULT_LAYER_ID);
+      drawStroke();
+
+      store.mergeLayerDown(top);
+
+      const strokes = drawingSelectors.layerStrokes(DEFAULT_LAYER_ID);
+      expect(layerIds()).toEqual([DEFAULT_LAYER_ID]);
+      expect(strokes).toHaveLength(2);
+      expect(strokes[0].mergedLayers).toBeUndefined();
+      expect(strokes[1].mergedLayers).toEqual([{ id: top, visible: false, opacity: 0.5, blendMode: BlendMode.NORMAL }]);
+      // 不透明度はストロークに焼き込まない（グループとして合成する）
+      expect(strokes[1].style?.opacity).toBe(1.0);
+    });
+
+    it('should group the lower layer too when it is translucent', () => {
+      const store = drawingStore.getState();
+      store.setLayerOpacity(DEFAULT_LAYER_ID, 0.4);
+      drawStroke();
+      store.addLayer();
+      const top = drawingSelectors.activeLayerId();
+      drawStroke();
+
+      store.mergeLayerDown(top);
+
+      const [lower, upper] = drawingSelectors.layerStrokes(DEFAULT_LAYER_ID);
+      expect(drawingSelectors.activeLayer().opacity).toBe(1.0);
+      expect(lower.mergedLayers?.[0]).toMatchObject({ id: DEFAULT_LAYER_ID, opacity: 0.4 });
+      expect(upper.mergedLayers?.[0]).toMatchObject({ id: top, opacity: 1.0 });
+    });
+
+    it('should not merge layers with a non-normal blend mode', () => {
+      const store = drawingStore.getState();
+      store.addLayer();
+      const top = drawingSelectors.activeLayerId();
+      store.setLayerBlendMode(top, BlendMode.MULTIPLY);
+
+      expect(drawingSelectors.canMergeLayerDown(top)).toBe(false);
+      store.mergeLayerDown(top);
+      expect(layerIds()).toEqual([DEFAULT_LAYER_ID, top]);
+
+      store.setLayerBlendMode(top, BlendMode.NORMAL);
+      store.setLayerBlendMode(DEFAULT_LAYER_ID, BlendMode.SCREEN);
+      expect(drawingSelectors.canMergeLayerDown(top)).toBe(false);
+      expect(drawingSelectors.canMergeLayerDown(DEFAULT_LAYER_ID)).toBe(false);
+    });
+
+    it('should keep undone strokes of the merged layer for redo', () => {
+      const store = drawingStore.getState();
+      store.addLayer();
+      const top = drawingSelectors.activeLayerId();
+      drawStroke();
+      drawStroke();
+      store.undo();
+
+      store.mergeLayerDown(top);
+      expect(drawingSelectors.layerStrokes(DEFAULT_LAYER_ID)).toHaveLength(1);
+
+      drawingStore.getState().redo();
+      const strokes = drawingSelectors.layerStrokes(DEFAULT_LAYER_ID);
+      expect(strokes).toHaveLength(2);
+      expect(strokes.every(stroke => stroke.mergedLayers?.[0].id === top)).toBe(true);
+    });
+
+    it('should nest groups when a merged layer is merged again', () => {
+      const store = drawingStore.getState();
+      store.addLayer();
+      const middle = drawingSelectors.activeLayerId();
+      store.addLayer();
+      const top = drawingSelectors.activeLayerId();
+      drawStroke();
+
+      store.mergeLayerDown(top);
+      store.mergeLayerDown(middle);
+
+      const [stroke] = drawingSelectors.layerStrokes(DEFAULT_LAYER_ID);
+      expect(stroke.mergedLayers?.map(group => group.id)).toEqual([middle, top]);
+      expect(splitMergedLayerRuns([stroke], 1)[0].group?.id).toBe(top);
+    });
+
+    it('should duplicate a layer with copies of its strokes', () => {
+      const store = drawingStore.getState();
+      store.setLayerOpacity(DEFAULT_LAYER_ID, 0.3);
+      drawStroke();
+
+      store.duplicateLayer(DEFAULT_LAYER_ID);
+
+      const copy = drawingSelectors.activeLayer();
+      const [original] = drawingSelectors.layerStrokes(DEFAULT_LAYER_ID);
+      const [copied] = drawingSelectors.layerStrokes(copy.id);
+      expect(layerIds()).toEqual([DEFAULT_LAYER_ID, copy.id]);
+      expect(copy.opacity).toBe(0.3);
+      expect(copied.points).toEqual(original.points);
+      expect(copied.id).not.toBe(original.id);
+    });
+
+    it('should keep undone strokes for redo when duplicating a layer', () => {
+      const store = drawingStore.getState();
+      drawStroke();
+      drawStroke();
+      store.undo();
+
+      store.duplicateLayer(DEFAULT_LAYER_ID);
+      const copy = drawingSelectors.activeLayerId();
+      expect(drawingSelectors.layerStrokes(copy)).toHaveLength(1);
+
+      drawingStore.getState().redo();
+      expect(drawingSelectors.layerStrokes(DEFAULT_LAYER_ID)).toHaveLength(2);
+      expect(drawingSelectors.layerStrokes(copy)).toHaveLength(1);
+    });
+
+    it('should drop the oldest strokes past the history size when duplicating a layer', () => {
+      const store = drawingStore.getState();
+      const { maxHistorySize } = drawingSelectors.history();
+      for (let i = 0; i < maxHistorySize - 1; i++) {
+        drawStroke();
+      }
+
+      store.duplicateLayer(DEFAULT_LAYER_ID);
+
+      const history = drawingSelectors.history();
+      expect(history.strokes).toHaveLength(maxHistorySize);
+      expect(history.historyIndex).toBe(maxHistorySize);
+      expect(drawingSelectors.layerStrokes(drawingSelectors.activeLayerId())).toHaveLength(maxHistorySize - 1);
+    });
+
+    it('should undo a merge right after it, before the last drawn stroke', () => {
+      const store = drawingStore.getState();
+      store.addLayer();
+      const top = drawingSelectors.activeLayerId();
+      drawStroke();
+      store.setActiveLayer(DEFAULT_LAYER_ID);
+      drawStroke();
+      const [lastStroke] = drawingSelectors.layerStrokes(DEFAULT_LAYER_ID);
+
+      store.mergeLayerDown(top);
+      expect(drawingSelectors.canUndo()).toBe(true);
+
+      store.undo();
+      expect(layerIds()).toEqual([DEFAULT_LAYER_ID, top]);
+      expect(drawingSelectors.layerStrokes(top)).toHaveLength(1);
+      expect(drawingSelectors.layerStrokes(DEFAULT_LAYER_ID)).toEqual([lastStroke]);
+      expect(drawingSelectors.canRedo()).toBe(true);
+
+      store.undo();
+      expect(drawingSelectors.layerStrokes(DEFAULT_LAYER_ID)).toHaveLength(0);
+      expect(drawingSelectors.layerStrokes(top)).toHaveLength(1);
+
+      store.redo();
+      store.redo();
+      expect(layerIds()).toEqual([DEFAULT_LAYER_ID]);
+      expect(drawingSelectors.layerStrokes(DEFAULT_LAYER_ID).map(stroke => stroke.mergedLayers?.[0].id)).toEqual([
+        undefined,
+        top,
+      ]);
+    });
+
+    it('should keep strokes drawn after a layer operation for redo when it is undone', () => {
+      const store = drawingStore.getState();
+      store.addLayer();
+      const top = drawingSelectors.activeLayerId();
+      drawStroke();
+      store.mergeLayerDown(top);
+      drawStroke();
+
+      store.undo();
+      store.undo();
+      expect(layerIds()).toEqual([DEFAULT_LAYER_ID, top]);
+
+      store.redo();
+      store.redo();
+      expect(layerIds()).toEqual([DEFAULT_LAYER_ID]);
+      expect(drawingSelectors.layerStrokes(DEFAULT_LAYER_ID)).toHaveLength(2);
+      expect(drawingSelectors.canRedo()).toBe(false);
+    });
+
+    it('should undo removing a layer with its strokes', () => {
+      const store = drawingStore.getState();
+      drawStroke();
+      store.addLayer();
+      const top = drawingSelectors.activeLayerId();
+      drawStroke();
+      drawStroke();
+      store.setLayerVisible(DEFAULT_LAYER_ID, false);
+
+      store.removeLayer(top);
+      store.undo();
+
+      expect(layerIds()).toEqual([DEFAULT_LAYER_ID, top]);
+      expect(drawingSelectors.activeLayerId()).toBe(top);
+      expect(drawingSelectors.layerStrokes(top)).toHaveLength(2);
+      // 操作していないレイヤーの設定は巻き戻さない
+      expect(drawingSelectors.layers()[0].visible).toBe(false);
+
+      store.redo();
+      expect(layerIds()).toEqual([DEFAULT_LAYER_ID]);
+      expect(drawingSelectors.strokes()).toHaveLength(1);
+    });
+
+    it('should undo duplicating a layer', () => {
+      const store = drawingStore.getState();
+      drawStroke();
+
+      store.duplicateLayer(DEFAULT_LAYER_ID);
+      store.undo();
+
+      expect(layerIds()).toEqual([DEFAULT_LAYER_ID]);
+      expect(drawingSelectors.strokes()).toHaveLength(1);
+      expect(drawingSelectors.activeLayerId()).toBe(DEFAULT_LAYER_ID);
+    });
+
+    it('should drop undone layer operations when a new stroke is drawn', () => {
+      const store = drawingStore.getState();
+      store.addLayer();
+      const top = drawingSelectors.activeLayerId();
+      store.removeLayer(top);
+      store.undo();
+
+      drawStroke();
+
+      expect(drawingSelectors.canRedo()).toBe(false);
+      drawingStore.getState().redo();
+      expect(layerIds()).toEqual([DEFAULT_LAYER_ID, top]);
+    });
+
+    it('should clamp layer opacity', () => {
+      drawingStore.getState().setLayerOpacity(DEFAULT_LAYER_ID, 1.5);
+
+      expect(drawingSelectors.activeLayer().opacity).toBe(1);
+    });
+  });
+});
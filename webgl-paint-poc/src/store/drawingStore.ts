@@ -5,8 +5,312 @@
 
 import { createStore } from 'zustand/vanilla';
 import { devtools, subscribeWithSelector } from 'zustand/middleware';
-import type { DrawingEngineState, DrawingHistoryState, SymmetryState } from '../types/state';
-import type { StrokeData, StrokePoint } from '../types/core';
+import type {
+  DrawingEngineState,
+  DrawingHistoryState,
+  SymmetryState,
+  LayerOperationEntry,
+  LayerOperationSnapshot,
+  LayerState,
+  LayerStackState,
+} from '../types/state';
+import {
+  BlendMode,
+  DrawingTool,
+  ResizeAnchor,
+  SymmetryMode,
+  SymmetryType,
+  WallpaperGroup,
+  CANVAS_SIZE,
+  DEFAULT_CANVAS_BACKGROUND,
+  DEFAULT_SYMMETRY_TYPE,
+  MIN_SYMMETRY_AXIS_COUNT,
+  MAX_SYMMETRY_AXIS_COUNT,
+  MIN_WALLPAPER_REPEAT,
+  MAX_WALLPAPER_REPEAT,
+} from '../types/core';
+import type { CanvasBackground, MergedLayerGroup, StrokeData, StrokePoint, StrokeStyle } from '../types/core';
+import { DEFAULT_BRUSH_ID } from '../webgl/brushes';
+
+/**
+ * 初期レイヤーのID
+ */
+export const DEFAULT_LAYER_ID = 'layer_1';
+
+/**
+ * 既定設定のレイヤーを作成
+ */
+const createLayer = (id: string, name: string): LayerState => ({
+  id,
+  name,
+  visible: true,
+  opacity: 1.0,
+  locked: false,
+  blendMode: BlendMode.NORMAL,
+});
+
+const createLayerId = () => `layer_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+/**
+ * ストロークの所属レイヤーIDを取得
+ * layerIdのないストロークは最下層のレイヤーに属する
+ */
+export const getStrokeLayerId = (stroke: StrokeData, layers: readonly LayerState[]): string =>
+  stroke.layerId ?? layers[0].id;
+
+/**
+ * レイヤーを下のレイヤーに統合できるか
+ * 最下層・ロック中のレイヤーに加え、通常以外の合成モードのレイヤーも統合できない
+ * （合成モードは下にあるすべてのレイヤーに対して働くため、1枚のレイヤーにまとめると見た目が変わる）
+ */
+const canMergeLayerDown = (layers: readonly LayerState[], layerId: string): boolean => {
+  const index = layers.findIndex(layer => layer.id === layerId);
+  if (index <= 0) return false;
+
+  return [layers[index], layers[index - 1]].every(layer => !layer.locked && layer.blendMode === BlendMode.NORMAL);
+};
+
+/**
+ * 統合したストロークのグループに残すレイヤーの合成設定
+ */
+const toMergedLayerGroup = (layer: LayerState): MergedLayerGroup => ({
+  id: layer.id,
+  visible: layer.visible,
+  opacity: layer.opacity,
+  blendMode: layer.blendMode,
+});
+
+/**
+ * 同じ統合元レイヤーのグループに属する連続したストローク
+ */
+export interface MergedLayerRun {
+  /** 統合元レイヤーの合成設定（グループに属さないストロークはnull） */
+  group: MergedLayerGroup | null;
+  strokes: StrokeData[];
+}
+
+/**
+ * レイヤーのストロークを統合元レイヤーのグループごとの連続した範囲に分ける
+ * @param strokes レイヤーのストローク（描画順）
+ * @param depth 外側から数えたグループの段（入れ子のグループを分ける場合は1以上）
+ */
+export const splitMergedLayerRuns = (strokes: readonly StrokeData[], depth: number = 0): MergedLayerRun[] => {
+  const runs: MergedLayerRun[] = [];
+  for (const stroke of strokes) {
+    const group = stroke.mergedLayers?.[depth] ?? null;
+    const last = runs[runs.length - 1];
+    if (last && last.group?.id === group?.id) {
+      last.strokes.push(stroke);
+    } else {
+      runs.push({ group, strokes: [stroke] });
+    }
+  }
+  return runs;
+};
+
+/**
+ * 条件に合うストロークを履歴から取り除く
+ * アンドゥ位置は取り除いた後の適用済みストロークの末尾に合わせる
+ */
+const removeStrokesFromHistory = (
+  history: DrawingHistoryState,
+  predicate: (stroke: StrokeData) => boolean
+): DrawingHistoryState => {
+  const applied = history.strokes.slice(0, history.historyIndex).filter(stroke => !predicate(stroke));
+  const undone = history.strokes.slice(history.historyIndex).filter(stroke => !predicate(stroke));
+
+  return {
+    ...history,
+    strokes: [...applied, ...undone],
+    historyIndex: applied.length,
+  };
+};
+
+/**
+ * 記録したレイヤー操作の前後の状態を変換
+ */
+const mapLayerOperations = (
+  history: DrawingHistoryState,
+  transform: (snapshot: LayerOperationSnapshot) => LayerOperationSnapshot
+): Pick<DrawingHistoryState, 'layerOperations' | 'undoneLayerOperations'> => {
+  const mapEntry = (entry: LayerOperationEntry): LayerOperationEntry => ({
+    ...entry,
+    before: transform(entry.before),
+    after: transform(entry.after),
+  });
+
+  return {
+    layerOperations: history.layerOperations.map(mapEntry),
+    undoneLayerOperations: history.undoneLayerOperations.map(mapEntry),
+  };
+};
+
+/**
+ * 最大履歴数を超えた分のストロークを古いものから削除
+ * 記録したレイヤー操作の前後の履歴からも同じストロークを取り除く
+ */
+const trimHistory = (history: DrawingHistoryState): DrawingHistoryState => {
+  const excess = history.strokes.length - history.maxHistorySize;
+  if (excess <= 0) return history;
+
+  const droppedIds = new Set(history.strokes.slice(0, excess).map(stroke => stroke.id));
+  const isKept = (stroke: StrokeData) => !droppedIds.has(stroke.id);
+
+  return {
+    ...history,
+    strokes: history.strokes.slice(excess),
+    historyIndex: Math.max(0, history.historyIndex - excess),
+    ...mapLayerOperations(history, snapshot => ({
+      ...snapshot,
+      strokes: snapshot.strokes.filter(isKept),
+      historyIndex: snapshot.strokes.slice(0, snapshot.historyIndex).filter(isKept).length,
+    })),
+  };
+};
+
+/**
+ * 新しいストロークを適用済みの履歴の末尾に追加
+ * やり直し用のストロークとレイヤー操作は破棄し、最大履歴数を超えた分は古いものから削除する
+ */
+const appendStroke = (history: DrawingHistoryState, stroke: StrokeData): DrawingHistoryState => {
+  const strokes = [...history.strokes.slice(0, history.historyIndex), stroke];
+
+  return trimHistory({
+    ...history,
+    strokes,
+    historyIndex: strokes.length,
+    undoneLayerOperations: [],
+  });
+};
+
+/**
+ * レイヤー操作を履歴に記録
+ * 操作前後のストローク履歴とレイヤー構成を残し、やり直せるレイヤー操作は破棄する
+ */
+const recordLayerOperation = (
+  action: LayerOperationEntry['action'],
+  state: { history: DrawingHistoryState; layers: LayerStackState },
+  history: DrawingHistoryState,
+  layers: LayerStackState
+): { history: DrawingHistoryState; layers: LayerStackState } => {
+  const entry: LayerOperationEntry = {
+    action,
+    before: { strokes: state.history.strokes, historyIndex: state.history.historyIndex, layers: state.layers },
+    after: { strokes: history.strokes, historyIndex: history.historyIndex, layers },
+  };
+
+  return {
+    history: trimHistory({
+      ...history,
+      layerOperations: [...history.layerOperations, entry].slice(-history.maxHistorySize),
+      undoneLayerOperations: [],
+    }),
+    layers,
+  };
+};
+
+/**
+ * レイヤー操作の前後のレイヤー構成の差分を現在のレイヤー構成に適用
+ * 操作で増えた・消えた・設定が変わったレイヤーだけを入れ替え、それ以外のレイヤーの設定や並び順の変更は残す
+ * @param current 現在のレイヤー構成
+ * @param from 差分の基準（アンドゥでは操作後、リドゥでは操作前）
+ * @param to 差分の適用先（アンドゥでは操作前、リドゥでは操作後）
+ */
+const applyLayerOperation = (
+  current: LayerStackState,
+  from: LayerStackState,
+  to: LayerStackState
+): LayerStackState => {
+  const fromLayers = new Map(from.layers.map(layer => [layer.id, layer]));
+  const toLayers = new Map(to.layers.map(layer => [layer.id, layer]));
+
+  let layers = current.layers
+    .filter(layer => toLayers.has(layer.id) || !fromLayers.has(layer.id))
+    .map(layer => {
+      const before = fromLayers.get(layer.id);
+      const after = toLayers.get(layer.id);
+      return before && after && before !== after ? after : layer;
+    });
+
+  // 戻すレイヤーは差分の適用先で直下にあったレイヤーの上に置く
+  to.layers.forEach((layer, index) => {
+    if (layers.some(existing => existing.id === layer.id)) return;
+
+    const below = to.layers[index - 1];
+    const insertIndex = below ? layers.findIndex(existing => existing.id === below.id) + 1 : 0;
+    layers = [...layers.slice(0, insertIndex), layer, ...layers.slice(insertIndex)];
+  });
+
+  const activeLayerId = [to.activeLayerId, current.activeLayerId].find(id => layers.some(layer => layer.id === id));
+  return { layers, activeLayerId: activeLayerId ?? layers[0].id };
+};
+
+/**
+ * 指定レイヤーの設定を部分更新
+ */
+const patchLayer = (
+  layers: LayerStackState,
+  layerId: string,
+  patch: Partial<Omit<LayerState, 'id'>>
+): LayerStackState => ({
+  ...layers,
+  layers: layers.layers.map(layer => (layer.id === layerId ? { ...layer, ...patch } : layer)),
+});
+
+/**
+ * リサイズ基準位置ごとの固定点（ドキュメントの幅・高さに対する割合）
+ */
+const RESIZE_ANCHOR_FRACTIONS: Record<ResizeAnchor, { x: number; y: number }> = {
+  [ResizeAnchor.TOP_LEFT]: { x: 0, y: 0 },
+  [ResizeAnchor.TOP]: { x: 0.5, y: 0 },
+  [ResizeAnchor.TOP_RIGHT]: { x: 1, y: 0 },
+  [ResizeAnchor.LEFT]: { x: 0, y: 0.5 },
+  [ResizeAnchor.CENTER]: { x: 0.5, y: 0.5 },
+  [ResizeAnchor.RIGHT]: { x: 1, y: 0.5 },
+  [ResizeAnchor.BOTTOM_LEFT]: { x: 0, y: 1 },
+  [ResizeAnchor.BOTTOM]: { x: 0.5, y: 1 },
+  [ResizeAnchor.BOTTOM_RIGHT]: { x: 1, y: 1 },
+};
+
+/**
+ * ドキュメントの中心点
+ */
+export const getDocumentCenter = (size: { width: number; height: number }) => ({
+  x: size.width / 2,
+  y: size.height / 2,
+});
+
+/**
+ * リサイズ時に既存の描画を移動する量を計算
+ * 基準位置は新旧のドキュメントで同じ場所に来るため、拡大は余白の追加、縮小はトリミングになる
+ */
+export const getResizeOffset = (
+  from: { width: number; height: number },
+  to: { width: number; height: number },
+  anchor: ResizeAnchor
+) => {
+  const fraction = RESIZE_ANCHOR_FRACTIONS[anchor];
+  return {
+    x: (to.width - from.width) * fraction.x,
+    y: (to.height - from.height) * fraction.y,
+  };
+};
+
+/**
+ * ストロークを平行移動
+ */
+const translateStroke = (stroke: StrokeData, dx: number, dy: number): StrokeData => ({
+  ...stroke,
+  points: stroke.points.map(point => ({ ...point, x: point.x + dx, y: point.y + dy })),
+});
+
+/**
+ * ドキュメントサイズを整数ピクセル（最小1）に正規化
+ */
+const normalizeCanvasSize = (size: { width: number; height: number }) => ({
+  width: Math.max(1, Math.round(size.width)),
+  height: Math.max(1, Math.round(size.height)),
+});
 
 /**
  * 描画ストアの初期状態
@@ -14,11 +318,17 @@ import type { StrokeData, StrokePoint } from '../types/core';
 const initialDrawingState = {
   drawingEngine: {
     isInitialized: false,
-    canvasSize: { width: 1024, height: 1024 },
+    canvasSize: { width: CANVAS_SIZE, height: CANVAS_SIZE },
+    background: DEFAULT_CANVAS_BACKGROUND,
+    wrapEdges: false,
     color: [0, 0, 0, 1] as [number, number, number, number], // Black
     brushSize: 20,
     opacity: 1.0,
+    brushId: DEFAULT_BRUSH_ID,
+    blendMode: BlendMode.NORMAL,
+    tool: DrawingTool.BRUSH,
     isDrawing: false,
+    isErasing: false,
     currentStroke: [],
   } as DrawingEngineState,
 
@@ -26,15 +336,40 @@ const initialDrawingState = {
     strokes: [],
     historyIndex: 0,
     maxHistorySize: 100,
+    layerOperations: [],
+    undoneLayerOperations: [],
   } as DrawingHistoryState,
 
   symmetry: {
     enabled: true,
-    axisCount: 8,
-    centerPoint: { x: 512, y: 512 },
+    mode: SymmetryMode.RADIAL_8,
+    axisCount: 4,
+    type: DEFAULT_SYMMETRY_TYPE,
+    centerPoint: getDocumentCenter({ width: CANVAS_SIZE, height: CANVAS_SIZE }),
+    mirrorAngle: 0,
+    wallpaperGroup: WallpaperGroup.P4M,
+    wallpaperRepeat: 2,
   } as SymmetryState,
+
+  layers: {
+    layers: [createLayer(DEFAULT_LAYER_ID, 'レイヤー 1')],
+    activeLayerId: DEFAULT_LAYER_ID,
+  } as LayerStackState,
 };
 
+/**
+ * 現在の描画エンジン設定からストロークのスタイルを作成
+ * 確定したストロークはこのスタイルで再描画される
+ * 消しゴムのストロークは同じブラシ形状で消去（ERASE）として記録される
+ */
+export const createStrokeStyle = (drawingEngine: DrawingEngineState): StrokeStyle => ({
+  color: [...drawingEngine.color],
+  size: drawingEngine.brushSize,
+  opacity: drawingEngine.opacity,
+  brushId: drawingEngine.brushId,
+  blendMode: drawingEngine.isErasing ? BlendMode.ERASE : drawingEngine.blendMode,
+});
+
 /**
  * 描画ストアの状態とアクション定義
  */
@@ -43,16 +378,23 @@ export interface DrawingStoreState {
   drawingEngine: DrawingEngineState;
   history: DrawingHistoryState;
   symmetry: SymmetryState;
+  layers: LayerStackState;
 
   // Drawing Engine Actions
   initializeEngine: (canvasSize: { width: number; height: number }) => void;
+  resizeCanvas: (canvasSize: { width: number; height: number }, anchor?: ResizeAnchor) => void;
+  setBackground: (background: CanvasBackground) => void;
+  setWrapEdges: (wrapEdges: boolean) => void;
   setColor: (color: [number, number, number, number]) => void;
   setBrushSize: (size: number) => void;
   setOpacity: (opacity: number) => void;
+  setBrushId: (brushId: string) => void;
+  setBlendMode: (blendMode: BlendMode) => void;
+  setTool: (tool: DrawingTool) => void;
   cleanup: () => void;
 
   // Drawing Session Management
-  startDrawing: (point: StrokePoint) => void;
+  startDrawing: (point: StrokePoint, erase?: boolean) => void;
   continueDrawing: (point: StrokePoint) => void;
   endDrawing: (point: StrokePoint) => void;
   cancelDrawing: () => void;
@@ -61,7 +403,12 @@ export interface DrawingStoreState {
   toggleSymmetry: () => void;
   setSymmetryEnabled: (enabled: boolean) => void;
   setAxisCount: (count: number) => void;
+  setSymmetryType: (type: SymmetryType) => void;
+  setSymmetryMode: (mode: SymmetryMode) => void;
   setCenterPoint: (point: { x: number; y: number }) => void;
+  setMirrorAngle: (angle: number) => void;
+  setWallpaperGroup: (group: WallpaperGroup) => void;
+  setWallpaperRepeat: (repeat: number) => void;
 
   // History Actions
   addStroke: (stroke: StrokeData) => void;
@@ -69,6 +416,19 @@ export interface DrawingStoreState {
   redo: () => void;
   clearHistory: () => void;
 
+  // Layer Actions
+  addLayer: (name?: string) => void;
+  removeLayer: (layerId: string) => void;
+  moveLayer: (layerId: string, toIndex: number) => void;
+  mergeLayerDown: (layerId: string) => void;
+  duplicateLayer: (layerId: string) => void;
+  setActiveLayer: (layerId: string) => void;
+  renameLayer: (layerId: string, name: string) => void;
+  setLayerVisible: (layerId: string, visible: boolean) => void;
+  setLayerOpacity: (layerId: string, opacity: number) => void;
+  setLayerLocked: (layerId: string, locked: boolean) => void;
+  setLayerBlendMode: (layerId: string, blendMode: BlendMode) => void;
+
   // Utility Actions
   reset: () => void;
 }
@@ -87,12 +447,18 @@ export const drawingStore = createStore<DrawingStoreState>()(
       // =============================================================================
 
       initializeEngine: (canvasSize) => {
+        const size = normalizeCanvasSize(canvasSize);
         set(
           (state) => ({
             drawingEngine: {
               ...state.drawingEngine,
               isInitialized: true,
-              canvasSize,
+              canvasSize: size,
+            },
+            // 新しいドキュメントの対称中心はドキュメント中心
+            symmetry: {
+              ...state.symmetry,
+              centerPoint: getDocumentCenter(size),
             },
           }),
           false,
@@ -100,6 +466,38 @@ export const drawingStore = createStore<DrawingStoreState>()(
         );
       },
 
+      resizeCanvas: (canvasSize, anchor = ResizeAnchor.CENTER) => {
+        set(
+          (state) => {
+            const size = normalizeCanvasSize(canvasSize);
+            const offset = getResizeOffset(state.drawingEngine.canvasSize, size, anchor);
+            const { centerPoint } = state.symmetry;
+
+            // 描画と対称中心を基準位置に合わせて移動し、見た目の位置関係を保つ
+            return {
+              drawingEngine: {
+                ...state.drawingEngine,
+                canvasSize: size,
+              },
+              history: {
+                ...state.history,
+                strokes: state.history.strokes.map(stroke => translateStroke(stroke, offset.x, offset.y)),
+                ...mapLayerOperations(state.history, snapshot => ({
+                  ...snapshot,
+                  strokes: snapshot.strokes.map(stroke => translateStroke(stroke, offset.x, offset.y)),
+                })),
+              },
+              symmetry: {
+                ...state.symmetry,
+                centerPoint: { x: centerPoint.x + offset.x, y: centerPoint.y + offset.y },
+              },
+            };
+          },
+          false,
+          'resizeCanvas'
+        );
+      },
+
       setColor: (color) => {
         set(
           (state) => ({
@@ -139,6 +537,74 @@ export const drawingStore = createStore<DrawingStoreState>()(
         );
       },
 
+      setBrushId: (brushId) => {
+        set(
+          (state) => ({
+            drawingEngine: {
+              ...state.drawingEngine,
+              brushId,
+            },
+          }),
+          false,
+          'setBrushId'
+        );
+      },
+
+      setBlendMode: (blendMode) => {
+        set(
+          (state) => ({
+            drawingEngine: {
+              ...state.drawingEngine,
+              blendMode,
+            },
+          }),
+          false,
+          'setBlendMode'
+        );
+      },
+
+      setBackground: (background) => {
+        set(
+          (state) => ({
+            drawingEngine: {
+              ...state.drawingEngine,
+              background: {
+                type: background.type,
+                color: background.color.map(c => Math.max(0, Math.min(1, c))) as [number, number, number, number],
+              },
+            },
+          }),
+          false,
+          'setBackground'
+        );
+      },
+
+      setWrapEdges: (wrapEdges) => {
+        set(
+          (state) => ({
+            drawingEngine: {
+              ...state.drawingEngine,
+              wrapEdges,
+            },
+          }),
+          false,
+          'setWrapEdges'
+        );
+      },
+
+      setTool: (tool) => {
+        set(
+          (state) => ({
+            drawingEngine: {
+              ...state.drawingEngine,
+              tool,
+            },
+          }),
+          false,
+          'setTool'
+        );
+      },
+
       cleanup: () => {
         set(
           (state) => ({
@@ -156,15 +622,23 @@ export const drawingStore = createStore<DrawingStoreState>()(
       // DRAWING SESSION MANAGEMENT
       // =============================================================================
 
-      startDrawing: (point) => {
+      // eraseを省略した場合は選択中のツールに従う（ペンの消しゴム側はtrueで指定）
+      startDrawing: (point, erase) => {
         set(
-          (state) => ({
-            drawingEngine: {
-              ...state.drawingEngine,
-              isDrawing: true,
-              currentStroke: [point],
-            },
-          }),
+          (state) => {
+            // 非表示・ロック中のレイヤーには描画しない
+            const activeLayer = state.layers.layers.find(layer => layer.id === state.layers.activeLayerId);
+            if (!activeLayer || !activeLayer.visible || activeLayer.locked) return state;
+
+            return {
+              drawingEngine: {
+                ...state.drawingEngine,
+                isDrawing: true,
+                isErasing: erase ?? state.drawingEngine.tool === DrawingTool.ERASER,
+                currentStroke: [point],
+              },
+            };
+          },
           false,
           'startDrawing'
         );
@@ -196,6 +670,8 @@ export const drawingStore = createStore<DrawingStoreState>()(
               id: `stroke_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
               points: finalStroke,
               timestamp: Date.now(),
+              style: createStrokeStyle(state.drawingEngine),
+              layerId: state.layers.activeLayerId,
               metadata: {
                 timestamp: Date.now(),
                 deviceType: 'unknown',
@@ -203,24 +679,16 @@ export const drawingStore = createStore<DrawingStoreState>()(
               },
             };
 
-            // 履歴に追加（最大サイズ管理）
-            const newStrokes = [...state.history.strokes.slice(0, state.history.historyIndex), strokeData];
-            if (newStrokes.length > state.history.maxHistorySize) {
-              newStrokes.shift();
-            }
-
             return {
               ...state,
               drawingEngine: {
                 ...state.drawingEngine,
                 isDrawing: false,
+                isErasing: false,
                 currentStroke: [],
               },
-              history: {
-                ...state.history,
-                strokes: newStrokes,
-                historyIndex: newStrokes.length,
-              },
+              // 履歴に追加（最大サイズ管理）
+              history: appendStroke(state.history, strokeData),
             };
           },
           false,
@@ -234,6 +702,7 @@ export const drawingStore = createStore<DrawingStoreState>()(
             drawingEngine: {
               ...state.drawingEngine,
               isDrawing: false,
+              isErasing: false,
               currentStroke: [],
             },
           }),
@@ -277,7 +746,7 @@ export const drawingStore = createStore<DrawingStoreState>()(
           (state) => ({
             symmetry: {
               ...state.symmetry,
-              axisCount: Math.max(2, Math.min(16, axisCount)),
+              axisCount: Math.max(MIN_SYMMETRY_AXIS_COUNT, Math.min(MAX_SYMMETRY_AXIS_COUNT, Math.round(axisCount))),
             },
           }),
           false,
@@ -285,6 +754,32 @@ export const drawingStore = createStore<DrawingStoreState>()(
         );
       },
 
+      setSymmetryType: (type) => {
+        set(
+          (state) => ({
+            symmetry: {
+              ...state.symmetry,
+              type,
+            },
+          }),
+          false,
+          'setSymmetryType'
+        );
+      },
+
+      setSymmetryMode: (mode) => {
+        set(
+          (state) => ({
+            symmetry: {
+              ...state.symmetry,
+              mode,
+            },
+          }),
+          false,
+          'setSymmetryMode'
+        );
+      },
+
       setCenterPoint: (centerPoint) => {
         set(
           (state) => ({
@@ -298,6 +793,45 @@ export const drawingStore = createStore<DrawingStoreState>()(
         );
       },
 
+      setMirrorAngle: (mirrorAngle) => {
+        set(
+          (state) => ({
+            symmetry: {
+              ...state.symmetry,
+              mirrorAngle,
+            },
+          }),
+          false,
+          'setMirrorAngle'
+        );
+      },
+
+      setWallpaperGroup: (wallpaperGroup) => {
+        set(
+          (state) => ({
+            symmetry: {
+              ...state.symmetry,
+              wallpaperGroup,
+            },
+          }),
+          false,
+          'setWallpaperGroup'
+        );
+      },
+
+      setWallpaperRepeat: (wallpaperRepeat) => {
+        set(
+          (state) => ({
+            symmetry: {
+              ...state.symmetry,
+              wallpaperRepeat: Math.max(MIN_WALLPAPER_REPEAT, Math.min(MAX_WALLPAPER_REPEAT, Math.round(wallpaperRepeat))),
+            },
+          }),
+          false,
+          'setWallpaperRepeat'
+        );
+      },
+
       // =============================================================================
       // HISTORY ACTIONS
       // =============================================================================
@@ -305,19 +839,10 @@ export const drawingStore = createStore<DrawingStoreState>()(
       addStroke: (stroke) => {
         set(
           (state) => {
-            const newStrokes = [...state.history.strokes.slice(0, state.history.historyIndex), stroke];
-
-            // 最大履歴数を超えた場合、古いものから削除
-            if (newStrokes.length > state.history.maxHistorySize) {
-              newStrokes.shift();
-            }
+            const layerStroke = stroke.layerId ? stroke : { ...stroke, layerId: state.layers.activeLayerId };
 
             return {
-              history: {
-                ...state.history,
-                strokes: newStrokes,
-                historyIndex: newStrokes.length,
-              },
+              history: appendStroke(state.history, layerStroke),
             };
           },
           false,
@@ -325,27 +850,67 @@ export const drawingStore = createStore<DrawingStoreState>()(
         );
       },
 
+      // 最後のレイヤー操作の直後ではその操作を取り消し、それ以外では最後のストロークを取り消す
       undo: () => {
         set(
-          (state) => ({
-            history: {
-              ...state.history,
-              historyIndex: Math.max(0, state.history.historyIndex - 1),
-            },
-          }),
+          (state) => {
+            const { history } = state;
+            const operation = history.layerOperations[history.layerOperations.length - 1];
+
+            if (operation?.after.historyIndex === history.historyIndex) {
+              // 操作後に描いて取り消したストロークもやり直せるように、取り消した時点の履歴を操作後の状態として残す
+              const undone: LayerOperationEntry = { ...operation, after: { ...operation.after, strokes: history.strokes } };
+              return {
+                history: {
+                  ...history,
+                  strokes: operation.before.strokes,
+                  historyIndex: operation.before.historyIndex,
+                  layerOperations: history.layerOperations.slice(0, -1),
+                  undoneLayerOperations: [...history.undoneLayerOperations, undone],
+                },
+                layers: applyLayerOperation(state.layers, operation.after.layers, operation.before.layers),
+              };
+            }
+
+            return {
+              history: {
+                ...history,
+                historyIndex: Math.max(0, history.historyIndex - 1),
+              },
+            };
+          },
           false,
           'undo'
         );
       },
 
+      // 最後に取り消したレイヤー操作の直前ではその操作をやり直し、それ以外では次のストロークをやり直す
       redo: () => {
         set(
-          (state) => ({
-            history: {
-              ...state.history,
-              historyIndex: Math.min(state.history.strokes.length, state.history.historyIndex + 1),
-            },
-          }),
+          (state) => {
+            const { history } = state;
+            const operation = history.undoneLayerOperations[history.undoneLayerOperations.length - 1];
+
+            if (operation?.before.historyIndex === history.historyIndex) {
+              return {
+                history: {
+                  ...history,
+                  strokes: operation.after.strokes,
+                  historyIndex: operation.after.historyIndex,
+                  layerOperations: [...history.layerOperations, operation],
+                  undoneLayerOperations: history.undoneLayerOperations.slice(0, -1),
+                },
+                layers: applyLayerOperation(state.layers, operation.before.layers, operation.after.layers),
+              };
+            }
+
+            return {
+              history: {
+                ...history,
+                historyIndex: Math.min(history.strokes.length, history.historyIndex + 1),
+              },
+            };
+          },
           false,
           'redo'
         );
@@ -358,6 +923,8 @@ export const drawingStore = createStore<DrawingStoreState>()(
               ...state.history,
               strokes: [],
               historyIndex: 0,
+              layerOperations: [],
+              undoneLayerOperations: [],
             },
           }),
           false,
@@ -365,6 +932,229 @@ export const drawingStore = createStore<DrawingStoreState>()(
         );
       },
 
+      // =============================================================================
+      // LAYER ACTIONS
+      // =============================================================================
+
+      // 新しいレイヤーはアクティブレイヤーの上に追加し、描画先にする
+      addLayer: (name) => {
+        set(
+          (state) => {
+            const { layers, activeLayerId } = state.layers;
+            const layer = createLayer(createLayerId(), name ?? `レイヤー ${layers.length + 1}`);
+            const insertIndex = layers.findIndex(l => l.id === activeLayerId) + 1;
+
+            return {
+              layers: {
+                layers: [...layers.slice(0, insertIndex), layer, ...layers.slice(insertIndex)],
+                activeLayerId: layer.id,
+              },
+            };
+          },
+          false,
+          'addLayer'
+        );
+      },
+
+      // レイヤーのストロークも履歴から取り除く（最後の1枚は削除できない）
+      // 削除は履歴に記録し、アンドゥでレイヤーとストロークを元に戻す
+      removeLayer: (layerId) => {
+        set(
+          (state) => {
+            const { layers, activeLayerId } = state.layers;
+            const index = layers.findIndex(layer => layer.id === layerId);
+            if (index === -1 || layers.length === 1) return state;
+
+            const remaining = layers.filter(layer => layer.id !== layerId);
+            const nextActiveId = activeLayerId === layerId
+              ? remaining[Math.max(0, index - 1)].id
+              : activeLayerId;
+
+            return recordLayerOperation(
+              'removeLayer',
+              state,
+              removeStrokesFromHistory(state.history, stroke => getStrokeLayerId(stroke, layers) === layerId),
+              { layers: remaining, activeLayerId: nextActiveId }
+            );
+          },
+          false,
+          'removeLayer'
+        );
+      },
+
+      moveLayer: (layerId, toIndex) => {
+        set(
+          (state) => {
+            const { layers } = state.layers;
+            const layer = layers.find(l => l.id === layerId);
+            if (!layer) return state;
+
+            const others = layers.filter(l => l.id !== layerId);
+            const index = Math.max(0, Math.min(others.length, toIndex));
+
+            return {
+              layers: {
+                ...state.layers,
+                layers: [...others.slice(0, index), layer, ...others.slice(index)],
+              },
+            };
+          },
+          false,
+          'moveLayer'
+        );
+      },
+
+      // 上のレイヤーのストロークを下のレイヤーへ移す
+      // 移したストロークには上のレイヤーの合成設定（表示・不透明度・合成モード）をグループとして残す
+      // 描画時はグループごとにまとめて描いてから合成するため、重なったストロークや合成モード・消しゴムも統合前と同じ見た目になる
+      // 下のレイヤーが非表示・半透明の場合はそのストロークもグループにまとめ、統合後のレイヤーは表示・不透明度1にする
+      // 重なり順を保つため、移したストロークは適用済み・やり直し用の履歴それぞれで末尾に並べ直す
+      // 統合は履歴に記録し、直後のアンドゥでは並べ直す前の履歴とレイヤーに戻す
+      mergeLayerDown: (layerId) => {
+        set(
+          (state) => {
+            const { layers, activeLayerId } = state.layers;
+            if (!canMergeLayerDown(layers, layerId)) return state;
+
+            const index = layers.findIndex(layer => layer.id === layerId);
+            const upper = layers[index];
+            const lower = layers[index - 1];
+            const groupLower = !lower.visible || lower.opacity < 1;
+
+            const inGroup = (stroke: StrokeData, layer: LayerState): StrokeData => ({
+              ...stroke,
+              layerId: lower.id,
+              mergedLayers: [toMergedLayerGroup(layer), ...(stroke.mergedLayers ?? [])],
+            });
+            const isUpper = (stroke: StrokeData) => getStrokeLayerId(stroke, layers) === upper.id;
+            const isLower = (stroke: StrokeData) => getStrokeLayerId(stroke, layers) === lower.id;
+            const mergeStrokes = (strokes: StrokeData[]) => [
+              ...strokes
+                .filter(stroke => !isUpper(stroke))
+                .map(stroke => (groupLower && isLower(stroke) ? inGroup(stroke, lower) : stroke)),
+              ...strokes.filter(isUpper).map(stroke => inGroup(stroke, upper)),
+            ];
+
+            const applied = mergeStrokes(state.history.strokes.slice(0, state.history.historyIndex));
+            const undone = mergeStrokes(state.history.strokes.slice(state.history.historyIndex));
+
+            return recordLayerOperation(
+              'mergeLayerDown',
+              state,
+              { ...state.history, strokes: [...applied, ...undone], historyIndex: applied.length },
+              {
+                layers: layers
+                  .filter(layer => layer.id !== upper.id)
+                  .map(layer => (layer.id === lower.id && groupLower ? { ...layer, visible: true, opacity: 1.0 } : layer)),
+                activeLayerId: activeLayerId === upper.id ? lower.id : activeLayerId,
+              }
+            );
+          },
+          false,
+          'mergeLayerDown'
+        );
+      },
+
+      // 複製したレイヤーは元のレイヤーの上に置き、ストロークは新しいIDで適用済みの履歴の末尾に追加する
+      // やり直し用の履歴は残し、最大履歴数を超えた分は古いものから削除する（複製は履歴に記録し、アンドゥで取り消せる）
+      duplicateLayer: (layerId) => {
+        set(
+          (state) => {
+            const { layers } = state.layers;
+            const index = layers.findIndex(layer => layer.id === layerId);
+            if (index === -1) return state;
+
+            const source = layers[index];
+            const copy: LayerState = { ...source, id: createLayerId(), name: `${source.name} のコピー` };
+
+            const applied = state.history.strokes.slice(0, state.history.historyIndex);
+            const undone = state.history.strokes.slice(state.history.historyIndex);
+            const copiedStrokes = applied
+              .filter(stroke => getStrokeLayerId(stroke, layers) === source.id)
+              .map(stroke => ({
+                ...stroke,
+                id: `stroke_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+                layerId: copy.id,
+              }));
+
+            return recordLayerOperation(
+              'duplicateLayer',
+              state,
+              {
+                ...state.history,
+                strokes: [...applied, ...copiedStrokes, ...undone],
+                historyIndex: applied.length + copiedStrokes.length,
+              },
+              {
+                layers: [...layers.slice(0, index + 1), copy, ...layers.slice(index + 1)],
+                activeLayerId: copy.id,
+              }
+            );
+          },
+          false,
+          'duplicateLayer'
+        );
+      },
+
+      setActiveLayer: (layerId) => {
+        set(
+          (state) => {
+            if (!state.layers.layers.some(layer => layer.id === layerId)) return state;
+
+            return {
+              layers: {
+                ...state.layers,
+                activeLayerId: layerId,
+              },
+            };
+          },
+          false,
+          'setActiveLayer'
+        );
+      },
+
+      renameLayer: (layerId, name) => {
+        set(
+          (state) => ({ layers: patchLayer(state.layers, layerId, { name }) }),
+          false,
+          'renameLayer'
+        );
+      },
+
+      setLayerVisible: (layerId, visible) => {
+        set(
+          (state) => ({ layers: patchLayer(state.layers, layerId, { visible }) }),
+          false,
+          'setLayerVisible'
+        );
+      },
+
+      setLayerOpacity: (layerId, opacity) => {
+        set(
+          (state) => ({
+            layers: patchLayer(state.layers, layerId, { opacity: Math.max(0, Math.min(1, opacity)) }),
+          }),
+          false,
+          'setLayerOpacity'
+        );
+      },
+
+      setLayerLocked: (layerId, locked) => {
+        set(
+          (state) => ({ layers: patchLayer(state.layers, layerId, { locked }) }),
+          false,
+          'setLayerLocked'
+        );
+      },
+
+      setLayerBlendMode: (layerId, blendMode) => {
+        set(
+          (state) => ({ layers: patchLayer(state.layers, layerId, { blendMode }) }),
+          false,
+          'setLayerBlendMode'
+        );
+      },
+
       // =============================================================================
       // UTILITY ACTIONS
       // =============================================================================
@@ -389,9 +1179,16 @@ export const drawingSelectors = {
   drawingEngine: () => drawingStore.getState().drawingEngine,
   isInitialized: () => drawingStore.getState().drawingEngine.isInitialized,
   canvasSize: () => drawingStore.getState().drawingEngine.canvasSize,
+  background: () => drawingStore.getState().drawingEngine.background,
+  wrapEdges: () => drawingStore.getState().drawingEngine.wrapEdges,
   color: () => drawingStore.getState().drawingEngine.color,
   brushSize: () => drawingStore.getState().drawingEngine.brushSize,
   opacity: () => drawingStore.getState().drawingEngine.opacity,
+  brushId: () => drawingStore.getState().drawingEngine.brushId,
+  blendMode: () => drawingStore.getState().drawingEngine.blendMode,
+  tool: () => drawingStore.getState().drawingEngine.tool,
+  isErasing: () => drawingStore.getState().drawingEngine.isErasing,
+  strokeStyle: () => createStrokeStyle(drawingStore.getState().drawingEngine),
   isDrawing: () => drawingStore.getState().drawingEngine.isDrawing,
   currentStroke: () => drawingStore.getState().drawingEngine.currentStroke,
 
@@ -407,9 +1204,25 @@ export const drawingSelectors = {
     const state = drawingStore.getState();
     return state.history.strokes.slice(0, state.history.historyIndex);
   },
-  canUndo: () => drawingStore.getState().history.historyIndex > 0,
+  canUndo: () => {
+    const { history } = drawingStore.getState();
+    return history.historyIndex > 0 || history.layerOperations.length > 0;
+  },
   canRedo: () => {
-    const state = drawingStore.getState();
-    return state.history.historyIndex < state.history.strokes.length;
+    const { history } = drawingStore.getState();
+    return history.historyIndex < history.strokes.length || history.undoneLayerOperations.length > 0;
+  },
+
+  // Layer Selectors
+  layers: () => drawingStore.getState().layers.layers,
+  activeLayerId: () => drawingStore.getState().layers.activeLayerId,
+  activeLayer: () => {
+    const { layers, activeLayerId } = drawingStore.getState().layers;
+    return layers.find(layer => layer.id === activeLayerId) ?? layers[0];
+  },
+  layerStrokes: (layerId: string) => {
+    const layers = drawingStore.getState().layers.layers;
+    return drawingSelectors.strokes().filter(stroke => getStrokeLayerId(stroke, layers) === layerId);
   },
+  canMergeLayerDown: (layerId: string) => canMergeLayerDown(drawingStore.getState().layers.layers, layerId),
 };
\ No newline at end of file
@@ -0,0 +1,35 @@
+/**
+ * ビューストアのテスト
+ * タイリング表示設定の保持を検証
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { viewStore, viewSelectors } from './viewStore';
+
+describe('View Store', () => {
+  beforeEach(() => {
+    const store = viewStore.getState();
+    store.resetView();
+    store.setTilingEnabled(false);
+    store.setShowTileBorders(false);
+  });
+
+  it('should toggle tiling preview settings', () => {
+    viewStore.getState().setTilingEnabled(true);
+    viewStore.getState().setShowTileBorders(true);
+
+    expect(viewSelectors.tilingEnabled()).toBe(true);
+    expect(viewSelectors.showTileBorders()).toBe(true);
+  });
+
+  it('should keep tiling settings when the view is reset', () => {
+    const store = viewStore.getState();
+    store.setTilingEnabled(true);
+    store.setZoom(0.5);
+
+    store.resetView();
+
+    expect(viewSelectors.transform().zoom).toBe(1.0);
+    expect(viewSelectors.tilingEnabled()).toBe(true);
+  });
+});
@@ -21,6 +21,9 @@ const initialViewState = {
       panOffset: { canvasX: 0, canvasY: 0 },
       rotation: 0,
     },
+    tilingEnabled: false,
+    showTileBorders: false,
+    showSymmetryGuides: true,
   } as ViewState,
   
   inputProcessor: {
@@ -44,6 +47,9 @@ export interface ViewStoreState {
   setRotation: (rotation: number) => void;
   resetView: () => void;
   updateViewTransform: (transform: ViewState['transform']) => void;
+  setTilingEnabled: (enabled: boolean) => void;
+  setShowTileBorders: (show: boolean) => void;
+  setShowSymmetryGuides: (show: boolean) => void;
 
   // Input Processor Actions
   updateLastEvent: (event: NormalizedInputEvent) => void;
@@ -126,6 +132,7 @@ export const viewStore = createStore<ViewStoreState>()(
       },
 
       resetView: () => {
+        // タイリング表示の設定は変換のリセット対象外
         const defaultViewState = {
           zoom: 1.0,
           pan: { x: 0, y: 0 },
@@ -138,8 +145,11 @@ export const viewStore = createStore<ViewStoreState>()(
         };
         
         set(
-          () => ({
-            view: defaultViewState,
+          (state) => ({
+            view: {
+              ...state.view,
+              ...defaultViewState,
+            },
           }),
           false,
           'resetView'
@@ -163,6 +173,45 @@ export const viewStore = createStore<ViewStoreState>()(
         );
       },
 
+      setTilingEnabled: (enabled) => {
+        set(
+          (state) => ({
+            view: {
+              ...state.view,
+              tilingEnabled: enabled,
+            },
+          }),
+          false,
+          'setTilingEnabled'
+        );
+      },
+
+      setShowTileBorders: (show) => {
+        set(
+          (state) => ({
+            view: {
+              ...state.view,
+              showTileBorders: show,
+            },
+          }),
+          false,
+          'setShowTileBorders'
+        );
+      },
+
+      setShowSymmetryGuides: (show) => {
+        set(
+          (state) => ({
+            view: {
+              ...state.view,
+              showSymmetryGuides: show,
+            },
+          }),
+          false,
+          'setShowSymmetryGuides'
+        );
+      },
+
       // =============================================================================
       // INPUT PROCESSOR ACTIONS
       // =============================================================================
@@ -246,6 +295,9 @@ export const viewSelectors = {
   pan: () => viewStore.getState().view.pan,
   rotation: () => viewStore.getState().view.rotation,
   transform: () => viewStore.getState().view.transform,
+  tilingEnabled: () => viewStore.getState().view.tilingEnabled,
+  showTileBorders: () => viewStore.getState().view.showTileBorders,
+  showSymmetryGuides: () => viewStore.getState().view.showSymmetryGuides,
 
   // Input Processor Selectors
   inputProcessor: () => viewStore.getState().inputProcessor,
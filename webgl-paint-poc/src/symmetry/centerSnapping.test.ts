@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { getCenterSnapTargets, snapSymmetryCenter } from './centerSnapping';
+
+const DOCUMENT_SIZE = { width: 900, height: 600 };
+
+describe('Symmetry Center Snapping', () => {
+  it('should offer thirds and the middle as targets', () => {
+    expect(getCenterSnapTargets(900)).toEqual([300, 450, 600]);
+  });
+
+  it('should snap each axis independently', () => {
+    const result = snapSymmetryCenter({ x: 446, y: 250 }, DOCUMENT_SIZE, 8);
+
+    expect(result.point).toEqual({ x: 450, y: 250 });
+    expect(result.snappedX).toBe(true);
+    expect(result.snappedY).toBe(false);
+  });
+
+  it('should snap to the nearest third', () => {
+    expect(snapSymmetryCenter({ x: 605, y: 196 }, DOCUMENT_SIZE, 8).point).toEqual({ x: 600, y: 200 });
+  });
+
+  it('should keep the point inside the document', () => {
+    expect(snapSymmetryCenter({ x: -20, y: 700 }, DOCUMENT_SIZE, 8).point).toEqual({ x: 0, y: 600 });
+  });
+
+  it('should not snap when disabled', () => {
+    const result = snapSymmetryCenter({ x: 449, y: 301 }, DOCUMENT_SIZE, 0);
+
+    expect(result.point).toEqual({ x: 449, y: 301 });
+    expect(result.snappedX || result.snappedY).toBe(false);
+  });
+});
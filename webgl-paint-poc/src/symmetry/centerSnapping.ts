@@ -0,0 +1,63 @@
+/**
+ * 対称中心のスナップ
+ * ドキュメント中心と三分割線に、X・Yそれぞれ独立して吸着させる
+ */
+
+import type { Point2D } from './transform';
+
+/**
+ * スナップ結果
+ */
+export interface CenterSnapResult {
+  /** スナップ後の中心点（ドキュメント内に収めた値） */
+  point: Point2D;
+  /** X方向が吸着したか */
+  snappedX: boolean;
+  /** Y方向が吸着したか */
+  snappedY: boolean;
+}
+
+/**
+ * 1方向の吸着先（1/3, 1/2, 2/3）
+ */
+export function getCenterSnapTargets(length: number): number[] {
+  return [length / 3, length / 2, (length * 2) / 3];
+}
+
+/**
+ * 最も近い吸着先を返す（threshold以内になければnull）
+ */
+function findSnapTarget(value: number, targets: readonly number[], threshold: number): number | null {
+  let nearest: number | null = null;
+  for (const target of targets) {
+    const distance = Math.abs(value - target);
+    if (distance <= threshold && (nearest === null || distance < Math.abs(value - nearest))) {
+      nearest = target;
+    }
+  }
+  return nearest;
+}
+
+/**
+ * 対称中心をドキュメント内に収め、中心・三分割線の近くなら吸着させる
+ * @param point ドラッグ中の中心点（ドキュメント座標）
+ * @param documentSize ドキュメントサイズ
+ * @param threshold 吸着距離（ドキュメント座標、0以下なら吸着しない）
+ */
+export function snapSymmetryCenter(
+  point: Point2D,
+  documentSize: { width: number; height: number },
+  threshold: number
+): CenterSnapResult {
+  const x = Math.max(0, Math.min(documentSize.width, point.x));
+  const y = Math.max(0, Math.min(documentSize.height, point.y));
+
+  const snapX = threshold > 0 ? findSnapTarget(x, getCenterSnapTargets(documentSize.width), threshold) : null;
+  const snapY = threshold > 0 ? findSnapTarget(y, getCenterSnapTargets(documentSize.height), threshold) : null;
+
+  return {
+    point: { x: snapX ?? x, y: snapY ?? y },
+    snappedX: snapX !== null,
+    snappedY: snapY !== null,
+  };
+}
@@ -0,0 +1,81 @@
+/**
+ * 端の折り返し
+ * ストロークのコピーを周期的に並進し、ドキュメントにかかるものを選ぶ
+ * 周期をドキュメントサイズにとると、端を越えた部分が反対側の端に現れる（トーラス状のキャンバス）
+ */
+
+import type * as CoreTypes from '../types/core';
+import { applyTransformToPoint, createTranslationMatrix, multiplyMatrices } from './transform';
+import type { TransformMatrix } from './transform';
+
+/**
+ * 矩形範囲（ドキュメント座標）
+ */
+type Bounds = CoreTypes.DirtyRect;
+
+/**
+ * 矩形の4隅を変換した外接矩形（内部ヘルパー）
+ */
+function transformBounds(bounds: Bounds, matrix: TransformMatrix): { minX: number; minY: number; maxX: number; maxY: number } {
+  const corners = [
+    { x: bounds.x, y: bounds.y },
+    { x: bounds.x + bounds.width, y: bounds.y },
+    { x: bounds.x, y: bounds.y + bounds.height },
+    { x: bounds.x + bounds.width, y: bounds.y + bounds.height },
+  ].map(corner => applyTransformToPoint(corner, matrix));
+
+  return {
+    minX: Math.min(...corners.map(corner => corner.x)),
+    minY: Math.min(...corners.map(corner => corner.y)),
+    maxX: Math.max(...corners.map(corner => corner.x)),
+    maxY: Math.max(...corners.map(corner => corner.y)),
+  };
+}
+
+/**
+ * 変換後のコピーを周期periodで並べたもののうち、ドキュメントにかかるもの
+ * @param transform 元のコピーの変換
+ * @param sourceBounds 元のストロークが描く範囲
+ * @param period 並進の周期（横・縦）
+ * @param documentSize ドキュメントサイズ
+ * @returns 並進を合成した変換（ドキュメントにかからなければ空配列）
+ */
+export function createPeriodicTransforms(
+  transform: TransformMatrix,
+  sourceBounds: Bounds,
+  period: { width: number; height: number },
+  documentSize: { width: number; height: number }
+): TransformMatrix[] {
+  const bounds = transformBounds(sourceBounds, transform);
+
+  // コピーがドキュメントと重なる並進の範囲（接するだけのものは除く）
+  const firstColumn = Math.floor(-bounds.maxX / period.width) + 1;
+  const lastColumn = Math.ceil((documentSize.width - bounds.minX) / period.width) - 1;
+  const firstRow = Math.floor(-bounds.maxY / period.height) + 1;
+  const lastRow = Math.ceil((documentSize.height - bounds.minY) / period.height) - 1;
+
+  const transforms: TransformMatrix[] = [];
+  for (let row = firstRow; row <= lastRow; row++) {
+    for (let column = firstColumn; column <= lastColumn; column++) {
+      transforms.push(
+        multiplyMatrices(createTranslationMatrix(column * period.width, row * period.height), transform)
+      );
+    }
+  }
+  return transforms;
+}
+
+/**
+ * 各コピーの端を越えた部分を反対側の端に描くための変換
+ * ドキュメントの幅・高さずつ並進したコピーのうち、ドキュメントにかかるものをすべて返す
+ * @param transforms 折り返し前のコピーの変換
+ * @param sourceBounds 元のストロークが描く範囲
+ * @param documentSize ドキュメントサイズ
+ */
+export function wrapTransformsAtEdges(
+  transforms: readonly TransformMatrix[],
+  sourceBounds: Bounds,
+  documentSize: { width: number; height: number }
+): TransformMatrix[] {
+  return transforms.flatMap(transform => createPeriodicTransforms(transform, sourceBounds, documentSize, documentSize));
+}
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { getSymmetryGuideLines } from './symmetryGuides';
+import { DEFAULT_SYMMETRY_CONFIG } from './symmetryRenderer';
+import { SymmetryMode } from '../types/core';
+
+const DOCUMENT_SIZE = { width: 900, height: 600 };
+const CENTER = { x: 300, y: 200 };
+
+describe('Symmetry Guide Lines', () => {
+  it('should span the document through the center for each mirror axis', () => {
+    const lines = getSymmetryGuideLines(
+      { ...DEFAULT_SYMMETRY_CONFIG, mode: SymmetryMode.MIRROR_QUAD, centerPoint: CENTER },
+      DOCUMENT_SIZE
+    );
+
+    expect(lines).toHaveLength(2);
+    expect(lines[0].start.x).toBeCloseTo(300);
+    expect(lines[0].end.x).toBeCloseTo(300);
+    expect([lines[0].start.y, lines[0].end.y].sort((a, b) => a - b)).toEqual([0, 600]);
+    expect(lines[1]).toEqual({ start: { x: 0, y: 200 }, end: { x: 900, y: 200 } });
+  });
+
+  it('should clip a rotated axis to the document edges', () => {
+    const [line] = getSymmetryGuideLines(
+      { ...DEFAULT_SYMMETRY_CONFIG, mode: SymmetryMode.MIRROR_HORIZONTAL, centerPoint: CENTER, mirrorAngle: Math.PI / 4 },
+      DOCUMENT_SIZE
+    );
+
+    // y - 200 = x - 300 の直線は (100, 0) から (700, 600) まで
+    expect(line.start.x).toBeCloseTo(100);
+    expect(line.start.y).toBeCloseTo(0);
+    expect(line.end.x).toBeCloseTo(700);
+    expect(line.end.y).toBeCloseTo(600);
+  });
+
+  it('should have no guides for radial symmetry or when disabled', () => {
+    expect(getSymmetryGuideLines({ ...DEFAULT_SYMMETRY_CONFIG, mode: SymmetryMode.RADIAL_8 }, DOCUMENT_SIZE)).toEqual([]);
+    expect(getSymmetryGuideLines(
+      { ...DEFAULT_SYMMETRY_CONFIG, mode: SymmetryMode.MIRROR_VERTICAL, enabled: false },
+      DOCUMENT_SIZE
+    )).toEqual([]);
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * 対称ガイド線
+ * 鏡映モードの鏡映軸と壁紙モードの格子の境界を、ドキュメント内に収めた線分として求める
+ */
+
+import * as CoreTypes from '../types/core';
+import { getMirrorAxisAngles } from './transform';
+import type { Point2D } from './transform';
+import type { SymmetryConfig } from './symmetryRenderer';
+import { isSymmetryActive } from './symmetryRenderer';
+import { getWallpaperCellBoundaries } from './wallpaper';
+
+/**
+ * ガイド線（ドキュメント座標の線分）
+ */
+export interface GuideLine {
+  start: Point2D;
+  end: Point2D;
+}
+
+/**
+ * 点pointを通る角度angleの直線をドキュメント矩形で切り取る
+ * @returns 矩形と交わらない場合null
+ */
+function clipLineToDocument(
+  point: Point2D,
+  angle: number,
+  documentSize: { width: number; height: number }
+): GuideLine | null {
+  const direction = { x: Math.cos(angle), y: Math.sin(angle) };
+  let tMin = -Infinity;
+  let tMax = Infinity;
+
+  // 軸ごとに矩形の内側に入る媒介変数tの範囲を絞り込む
+  const axes: Array<[number, number, number]> = [
+    [point.x, direction.x, documentSize.width],
+    [point.y, direction.y, documentSize.height],
+  ];
+  for (const [origin, delta, length] of axes) {
+    if (Math.abs(delta) < 1e-12) {
+      if (origin < 0 || origin > length) return null;
+      continue;
+    }
+    const t0 = (0 - origin) / delta;
+    const t1 = (length - origin) / delta;
+    tMin = Math.max(tMin, Math.min(t0, t1));
+    tMax = Math.min(tMax, Math.max(t0, t1));
+  }
+
+  if (tMin > tMax) return null;
+
+  return {
+    start: { x: point.x + direction.x * tMin, y: point.y + direction.y * tMin },
+    end: { x: point.x + direction.x * tMax, y: point.y + direction.y * tMax },
+  };
+}
+
+/**
+ * 対称設定のガイド線（鏡映モードの鏡映軸、壁紙モードの胞の境界）
+ * @param config 対称設定
+ * @param documentSize ドキュメントサイズ
+ * @returns 無効時と放射対称では空配列
+ */
+export function getSymmetryGuideLines(
+  config: SymmetryConfig,
+  documentSize: { width: number; height: number }
+): GuideLine[] {
+  if (!isSymmetryActive(config) || config.mode === undefined) {
+    return [];
+  }
+
+  if (config.mode === CoreTypes.SymmetryMode.WALLPAPER) {
+    const { xs, ys } = getWallpaperCellBoundaries(
+      config.wallpaperGroup ?? CoreTypes.WallpaperGroup.P4M,
+      documentSize,
+      config.wallpaperRepeat ?? 2,
+      config.centerPoint
+    );
+    return [
+      ...xs.map(x => ({ start: { x, y: 0 }, end: { x, y: documentSize.height } })),
+      ...ys.map(y => ({ start: { x: 0, y }, end: { x: documentSize.width, y } })),
+    ];
+  }
+
+  const lines: GuideLine[] = [];
+  for (const angle of getMirrorAxisAngles(config.mode, config.mirrorAngle ?? 0)) {
+    const line = clipLineToDocument(config.centerPoint, angle, documentSize);
+    if (line) {
+      lines.push(line);
+    }
+  }
+  return lines;
+}
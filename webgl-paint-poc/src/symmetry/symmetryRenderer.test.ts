@@ -106,7 +106,12 @@ describe('Symmetry Renderer (Browser Mode)', () => {
     it('should generate 8 symmetric points from single point', () => {
       const originalPoint: Transform.Point2D = { x: 612, y: 412 };
       const strokePoint: StrokePoint = { x: originalPoint.x, y: originalPoint.y, pressure: 1.0, timestamp: 1000 };
-      const symmetricPoints = SymmetryRenderer.generateSymmetricPoints(strokePoint, 8);
+      const symmetricPoints = SymmetryRenderer.generateSymmetricPoints(
+        strokePoint,
+        8,
+        Transform.SYMMETRY_CENTER,
+        CoreTypes.SymmetryType.CYCLIC
+      );
       
       expect(symmetricPoints).toHaveLength(8);
       
@@ -133,7 +138,12 @@ describe('Symmetry Renderer (Browser Mode)', () => {
         timestamp: 3000
       };
       
-      const symmetricStrokePoints = SymmetryRenderer.generateSymmetricPoints(originalStrokePoint, 8);
+      const symmetricStrokePoints = SymmetryRenderer.generateSymmetricPoints(
+        originalStrokePoint,
+        8,
+        Transform.SYMMETRY_CENTER,
+        CoreTypes.SymmetryType.CYCLIC
+      );
       
       expect(symmetricStrokePoints).toHaveLength(8);
       
@@ -168,7 +178,12 @@ describe('Symmetry Renderer (Browser Mode)', () => {
       
       // Center point should generate 8 identical points
       const strokePoint: StrokePoint = { x: centerPoint.x, y: centerPoint.y, pressure: 1.0, timestamp: 1000 };
-      const symmetricPoints = SymmetryRenderer.generateSymmetricPoints(strokePoint, 8);
+      const symmetricPoints = SymmetryRenderer.generateSymmetricPoints(
+        strokePoint,
+        8,
+        Transform.SYMMETRY_CENTER,
+        CoreTypes.SymmetryType.CYCLIC
+      );
       symmetricPoints.forEach(point => {
         expect(point.x).toBeCloseTo(512, 1);
         expect(point.y).toBeCloseTo(512, 1);
@@ -184,7 +199,13 @@ describe('Symmetry Renderer (Browser Mode)', () => {
       };
 
       // Compare different axis counts
-      const comparison = SymmetryRenderer.compareAxisCountResults(testStroke, 4, 8);
+      const comparison = SymmetryRenderer.compareAxisCountResults(
+        testStroke,
+        4,
+        8,
+        Transform.SYMMETRY_CENTER,
+        CoreTypes.SymmetryType.CYCLIC
+      );
       
       expect(comparison.result1.axisCount).toBe(4);
       expect(comparison.result2.axisCount).toBe(8);
@@ -275,6 +296,39 @@ describe('Symmetry Renderer (Browser Mode)', () => {
       }).not.toThrow();
     });
 
+    it('should render all symmetric copies in one instanced draw when supported', () => {
+      const testStroke: StrokeData = {
+        id: 'instanced-test',
+        points: [
+          { x: 612, y: 512, pressure: 1.0, timestamp: 1000 },
+          { x: 612, y: 412, pressure: 0.8, timestamp: 1010 }
+        ],
+        timestamp: 1000,
+        metadata: {}
+      };
+
+      if (!renderer.instancedArrays) {
+        return; // CPU fallback is covered above
+      }
+
+      const ext = renderer.instancedArrays;
+      const original = ext.drawArraysInstancedANGLE.bind(ext);
+      const instanceCounts: number[] = [];
+      ext.drawArraysInstancedANGLE = (mode, first, count, primcount) => {
+        instanceCounts.push(primcount);
+        original(mode, first, count, primcount);
+      };
+
+      try {
+        SymmetryRenderer.renderStrokeWithSymmetry(renderer, testStroke);
+      } finally {
+        ext.drawArraysInstancedANGLE = original;
+      }
+
+      expect(instanceCounts).toEqual([8]);
+      expect(renderer.gl.getError()).toBe(renderer.gl.NO_ERROR);
+    });
+
     it('should handle empty stroke arrays', () => {
       expect(() => {
         SymmetryRenderer.renderStrokesWithSymmetry(renderer, []);
@@ -312,7 +366,12 @@ describe('Symmetry Renderer (Browser Mode)', () => {
     it('should generate unique positions for non-center points', () => {
       const testPoint: Transform.Point2D = { x: 612, y: 412 }; // Off-center
       const strokePoint: StrokePoint = { x: testPoint.x, y: testPoint.y, pressure: 1.0, timestamp: 1000 };
-      const symmetricPoints = SymmetryRenderer.generateSymmetricPoints(strokePoint, 8);
+      const symmetricPoints = SymmetryRenderer.generateSymmetricPoints(
+        strokePoint,
+        8,
+        Transform.SYMMETRY_CENTER,
+        CoreTypes.SymmetryType.CYCLIC
+      );
       
       // Convert to rounded coordinates for uniqueness check
       const uniqueCoords = new Set(
@@ -324,4 +383,179 @@ describe('Symmetry Renderer (Browser Mode)', () => {
       expect(uniqueCoords.size).toBeLessThanOrEqual(8);
     });
   });
-});
\ No newline at end of file
+});
+
+describe('Symmetry Transform Matrices', () => {
+  it('should match the CPU-generated symmetric strokes axis by axis', () => {
+    const stroke: StrokeData = {
+      id: 'matrix-test',
+      points: [
+        { x: 600, y: 450, pressure: 1.0, timestamp: 1000 },
+        { x: 640, y: 420, pressure: 0.5, timestamp: 1010 }
+      ],
+      timestamp: 1000
+    };
+
+    const matrices = SymmetryRenderer.getSymmetryTransformMatrices(SymmetryRenderer.DEFAULT_SYMMETRY_CONFIG);
+    const { symmetricStrokes } = SymmetryRenderer.generateSymmetricStrokes(stroke);
+
+    expect(matrices).toHaveLength(symmetricStrokes.length);
+    matrices.forEach((matrix, axisIndex) => {
+      stroke.points.forEach((point, i) => {
+        const transformed = Transform.applyTransformToPoint(point, matrix);
+        expect(Transform.arePointsNearlyEqual(transformed, symmetricStrokes[axisIndex].points[i], 1e-9)).toBe(true);
+      });
+    });
+  });
+
+  it('should return only the identity when symmetry is disabled', () => {
+    const matrices = SymmetryRenderer.getSymmetryTransformMatrices({
+      ...SymmetryRenderer.DEFAULT_SYMMETRY_CONFIG,
+      enabled: false
+    });
+
+    expect(matrices).toEqual([Transform.createIdentityMatrix()]);
+  });
+
+  it('should generate N copies for cyclic and 2N for dihedral symmetry', () => {
+    const config = { ...SymmetryRenderer.DEFAULT_SYMMETRY_CONFIG, axisCount: 12 };
+
+    expect(SymmetryRenderer.getSymmetryTransformMatrices({ ...config, type: CoreTypes.SymmetryType.CYCLIC })).toHaveLength(12);
+    expect(SymmetryRenderer.getSymmetryTransformMatrices({ ...config, type: CoreTypes.SymmetryType.DIHEDRAL })).toHaveLength(24);
+    expect(SymmetryRenderer.getSymmetryTransformMatrices({ ...config, axisCount: 100 })).toHaveLength(128);
+  });
+
+  it('should match the CPU-generated strokes for large dihedral counts', () => {
+    const config = { ...SymmetryRenderer.DEFAULT_SYMMETRY_CONFIG, axisCount: 37, type: CoreTypes.SymmetryType.DIHEDRAL };
+    const stroke: StrokeData = {
+      id: 'dihedral-test',
+      points: [{ x: 600, y: 450, pressure: 0.7, timestamp: 1000 }],
+      timestamp: 1000
+    };
+
+    const matrices = SymmetryRenderer.getSymmetryTransformMatrices(config);
+    const { symmetricStrokes, axisCount } = SymmetryRenderer.generateSymmetricStrokes(stroke, config);
+
+    expect(axisCount).toBe(74);
+    matrices.forEach((matrix, axisIndex) => {
+      const transformed = Transform.applyTransformToPoint(stroke.points[0], matrix);
+      expect(Transform.arePointsNearlyEqual(transformed, symmetricStrokes[axisIndex].points[0], 1e-9)).toBe(true);
+    });
+  });
+
+  it('should transform around the configured center point', () => {
+    const config = { ...SymmetryRenderer.DEFAULT_SYMMETRY_CONFIG, centerPoint: { x: 400, y: 150 } };
+    const stroke: StrokeData = {
+      id: 'center-test',
+      points: [{ x: 500, y: 150, pressure: 1.0, timestamp: 1000 }],
+      timestamp: 1000
+    };
+
+    const matrices = SymmetryRenderer.getSymmetryTransformMatrices(config);
+    const { symmetricStrokes } = SymmetryRenderer.generateSymmetricStrokes(stroke, config);
+
+    // 軸5（45度の反射軸による鏡映）: 中心(400, 150)から右に100の点は下に100へ
+    expect(Transform.arePointsNearlyEqual(symmetricStrokes[5].points[0], { x: 400, y: 250 }, 1e-9)).toBe(true);
+    expect(Transform.arePointsNearlyEqual(
+      Transform.applyTransformToPoint(config.centerPoint, matrices[2]),
+      config.centerPoint,
+      1e-9
+    )).toBe(true);
+  });
+
+  it('should generate mirror copies for the mirror modes', () => {
+    const config = { ...SymmetryRenderer.DEFAULT_SYMMETRY_CONFIG, mirrorAngle: 0.3 };
+
+    expect(SymmetryRenderer.getSymmetryTransformMatrices({ ...config, mode: CoreTypes.SymmetryMode.MIRROR_VERTICAL })).toHaveLength(2);
+    expect(SymmetryRenderer.getSymmetryTransformMatrices({ ...config, mode: CoreTypes.SymmetryMode.MIRROR_HORIZONTAL })).toHaveLength(2);
+    expect(SymmetryRenderer.getSymmetryTransformMatrices({ ...config, mode: CoreTypes.SymmetryMode.MIRROR_QUAD })).toHaveLength(4);
+    expect(SymmetryRenderer.getSymmetryTransformMatrices({ ...config, mode: CoreTypes.SymmetryMode.RADIAL_8 })).toHaveLength(8);
+  });
+
+  it('should keep only the original stroke in NONE mode', () => {
+    const config = { ...SymmetryRenderer.DEFAULT_SYMMETRY_CONFIG, mode: CoreTypes.SymmetryMode.NONE };
+    const stroke: StrokeData = {
+      id: 'none-test',
+      points: [{ x: 600, y: 450, pressure: 1.0, timestamp: 1000 }],
+      timestamp: 1000
+    };
+
+    expect(SymmetryRenderer.getSymmetryTransformMatrices(config)).toEqual([Transform.createIdentityMatrix()]);
+    expect(SymmetryRenderer.generateSymmetricStrokes(stroke, config).symmetricStrokes).toEqual([stroke]);
+  });
+
+  it('should wrap a stroke crossing the document edge onto the opposite edge', () => {
+    const config = {
+      ...SymmetryRenderer.DEFAULT_SYMMETRY_CONFIG,
+      enabled: false,
+      wrapEdges: true,
+      documentSize: { width: 200, height: 100 }
+    };
+    const stroke: StrokeData = {
+      id: 'wrap-test',
+      points: [{ x: 195, y: 50, pressure: 1.0, timestamp: 1000 }],
+      timestamp: 1000
+    };
+    // 右端をまたぐ範囲
+    const sourceBounds = { x: 190, y: 45, width: 20, height: 10 };
+
+    const matrices = SymmetryRenderer.getSymmetryTransformMatrices(config, sourceBounds);
+    const { symmetricStrokes } = SymmetryRenderer.generateSymmetricStrokes(stroke, config, sourceBounds);
+
+    const offsets = matrices.map(matrix => ({ x: matrix.m02, y: matrix.m12 }));
+    expect(offsets).toHaveLength(2);
+    expect(offsets).toContainEqual({ x: 0, y: 0 });
+    expect(offsets).toContainEqual({ x: -200, y: 0 });
+    expect(symmetricStrokes.map(symmetricStroke => symmetricStroke.points[0].x).sort((a, b) => a - b)).toEqual([-5, 195]);
+
+    // ドキュメント内に収まるストロークは折り返さない
+    expect(SymmetryRenderer.getSymmetryTransformMatrices(config, { x: 50, y: 45, width: 20, height: 10 })).toHaveLength(1);
+  });
+
+  it('should give CPU-generated copies the width of instanced copies in stretched wallpaper cells', () => {
+    const config = {
+      ...SymmetryRenderer.DEFAULT_SYMMETRY_CONFIG,
+      mode: CoreTypes.SymmetryMode.WALLPAPER,
+      wallpaperGroup: CoreTypes.WallpaperGroup.P6,
+      wallpaperRepeat: 3,
+      documentSize: { width: 600, height: 400 }
+    };
+    const stroke: StrokeData = {
+      id: 'wallpaper-width',
+      points: [
+        { x: 100, y: 100, pressure: 0.5, timestamp: 0 },
+        { x: 130, y: 110, pressure: 0.5, timestamp: 10 }
+      ],
+      timestamp: 0
+    };
+    const sourceBounds = { x: 90, y: 90, width: 50, height: 30 };
+    const direction = { x: 3 / Math.sqrt(10), y: 1 / Math.sqrt(10) };
+
+    const matrices = SymmetryRenderer.getSymmetryTransformMatrices(config, sourceBounds);
+    const { symmetricStrokes } = SymmetryRenderer.generateSymmetricStrokes(stroke, config, sourceBounds);
+
+    // インスタンス描画は押し出しベクトルを変換するので、太さは進行方向に垂直な幅の倍率で変わる
+    matrices.forEach((matrix, i) => {
+      expect(symmetricStrokes[i].points[0].pressure).toBeCloseTo(0.5 * Transform.getStrokeWidthScale(matrix, direction), 9);
+    });
+  });
+
+  it('should wrap each symmetric copy independently', () => {
+    const config = {
+      ...SymmetryRenderer.DEFAULT_SYMMETRY_CONFIG,
+      mode: CoreTypes.SymmetryMode.MIRROR_VERTICAL,
+      centerPoint: { x: 100, y: 100 },
+      wrapEdges: true,
+      documentSize: { width: 200, height: 200 }
+    };
+
+    // 左上の角をまたぐストロークは元・鏡映のコピーとも4隅に現れる
+    const matrices = SymmetryRenderer.getSymmetryTransformMatrices(config, { x: -5, y: -5, width: 10, height: 10 });
+    expect(matrices).toHaveLength(8);
+
+    // 壁紙モードは格子の並進で既に折り返すため、コピーは増えない
+    const wallpaper = { ...config, mode: CoreTypes.SymmetryMode.WALLPAPER, wallpaperGroup: CoreTypes.WallpaperGroup.P1 };
+    expect(SymmetryRenderer.getSymmetryTransformMatrices(wallpaper, { x: 50, y: 50, width: 10, height: 10 }))
+      .toEqual(SymmetryRenderer.getSymmetryTransformMatrices({ ...wallpaper, wrapEdges: false }, { x: 50, y: 50, width: 10, height: 10 }));
+  });
+});
@@ -1,12 +1,21 @@
 /**
  * 対称ストローク生成と描画統合システム
- * 単一ストロークから8軸放射対称の複数ストロークを生成し、WebGL描画システムに統合
+ * 単一ストロークからN回対称（回転のみ／回転と鏡映）・線対称（鏡映軸）・壁紙群の複数ストロークを生成し、WebGL描画システムに統合
+ * 端の折り返しが有効な場合は、各コピーの端を越えた部分を反対側の端にも描く
  */
 
 import * as CoreTypes from '../types/core';
 import * as Transform from './transform';
+import { createWallpaperTransforms } from './wallpaper';
+import { wrapTransformsAtEdges } from './edgeWrap';
 import type { WebGLRenderer } from '../webgl/renderer';
-import { renderStroke, renderStrokes } from '../webgl/renderer';
+import {
+  clearCanvas,
+  renderStroke,
+  renderStrokes,
+  renderStrokeInstanced,
+  supportsInstancing
+} from '../webgl/renderer';
 
 type StrokeData = CoreTypes.StrokeData;
 type StrokePoint = CoreTypes.StrokePoint;
@@ -17,10 +26,24 @@ type StrokePoint = CoreTypes.StrokePoint;
 export interface SymmetryConfig {
   /** 対称描画を有効にするか */
   enabled: boolean;
-  /** 軸数（8軸固定） */
+  /** 対称モード（省略時は放射対称） */
+  mode?: CoreTypes.SymmetryMode;
+  /** N回対称のN（2〜64） */
   axisCount: number;
-  /** 対称中心点 */
+  /** 対称の種類（省略時はDEFAULT_SYMMETRY_TYPE、回転と鏡映） */
+  type?: CoreTypes.SymmetryType;
+  /** 対称中心点（鏡映モードでは鏡映軸が通る点） */
   centerPoint: Transform.Point2D;
+  /** 鏡映軸の回転角度（ラジアン、省略時は0） */
+  mirrorAngle?: number;
+  /** 壁紙モードの壁紙群（省略時はp4m） */
+  wallpaperGroup?: CoreTypes.WallpaperGroup;
+  /** 壁紙モードの横方向の繰り返し数（省略時は2） */
+  wallpaperRepeat?: number;
+  /** 格子・端の折り返しの基準となるドキュメントサイズ（省略時は既定サイズ） */
+  documentSize?: { width: number; height: number };
+  /** 端を越えた部分を反対側の端に描くか（省略時はfalse、対称描画が無効でも働く） */
+  wrapEdges?: boolean;
 }
 
 /**
@@ -31,49 +54,141 @@ export interface SymmetricStrokes {
   original: StrokeData;
   /** 対称変換されたストローク配列 */
   symmetricStrokes: StrokeData[];
-  /** 使用された軸数 */
+  /** 生成したコピー数（cyclicはN、dihedralは2N） */
   axisCount: number;
 }
 
 /**
- * デフォルト対称設定（8軸放射対称）
+ * デフォルト対称設定（4回の二面体対称 = 8コピー）
  */
 export const DEFAULT_SYMMETRY_CONFIG: SymmetryConfig = {
   enabled: true,
-  axisCount: 8,
+  axisCount: 4,
+  type: CoreTypes.DEFAULT_SYMMETRY_TYPE,
   centerPoint: Transform.SYMMETRY_CENTER
 };
 
 
+/**
+ * 対称コピーを生成するか（無効時とNONEモードでは元のストロークのみ描画する）
+ */
+export function isSymmetryActive(config: SymmetryConfig): boolean {
+  return config.enabled && config.mode !== CoreTypes.SymmetryMode.NONE;
+}
+
+/**
+ * 元のストローク以外のコピーを描くか（対称コピーまたは端の折り返し）
+ */
+export function hasStrokeCopies(config: SymmetryConfig): boolean {
+  return isSymmetryActive(config) || config.wrapEdges === true;
+}
+
 /**
  * 単一ストロークポイントから対称ポイント配列を生成
  * @param point 元のストロークポイント
- * @param axisCount 対称軸数
+ * @param axisCount N回対称のN
+ * @param centerPoint 対称中心
+ * @param type 対称の種類
  * @returns 対称変換されたポイント配列
  */
-export function generateSymmetricPoints(point: StrokePoint, axisCount: number): StrokePoint[] {
-  const symmetricPoints: StrokePoint[] = [];
-  
-  // 軸0から軸(axisCount-1)まで変換
-  for (let axisIndex = 0; axisIndex < axisCount; axisIndex++) {
-    const transformedPoint = Transform.transformStrokePointByAxis(point, axisIndex);
-    symmetricPoints.push(transformedPoint);
+export function generateSymmetricPoints(
+  point: StrokePoint,
+  axisCount: number,
+  centerPoint: Transform.Point2D = Transform.SYMMETRY_CENTER,
+  type: CoreTypes.SymmetryType = CoreTypes.DEFAULT_SYMMETRY_TYPE
+): StrokePoint[] {
+  return Transform.createSymmetryTransforms(axisCount, type, centerPoint).map(transform =>
+    Transform.applyTransformToStrokePoint(point, transform.matrix)
+  );
+}
+
+/**
+ * 対称コピーごとの変換行列を生成
+ * generateSymmetricStrokesと同じ軸順で、インスタンス描画の各インスタンスに対応する
+ * @param config 対称設定
+ * @param sourceBounds 元のストロークが描く範囲（壁紙モードと端の折り返しでドキュメントにかかるコピーだけを選ぶ、省略時はドキュメント全体）
+ * @returns 変換行列配列（無効時は単位行列のみ、鏡映モードは恒等変換と鏡映、端の折り返しでは各コピーの並進を続けて並べる）
+ */
+export function getSymmetryTransformMatrices(
+  config: SymmetryConfig = DEFAULT_SYMMETRY_CONFIG,
+  sourceBounds?: CoreTypes.DirtyRect
+): Transform.TransformMatrix[] {
+  const documentSize = config.documentSize ?? { width: CoreTypes.CANVAS_SIZE, height: CoreTypes.CANVAS_SIZE };
+
+  if (isSymmetryActive(config) && config.mode === CoreTypes.SymmetryMode.WALLPAPER) {
+    // 壁紙群の格子はドキュメントの周期を含むため、端の折り返しは不要
+    return createWallpaperTransforms(
+      config.wallpaperGroup ?? CoreTypes.WallpaperGroup.P4M,
+      documentSize,
+      config.wallpaperRepeat ?? 2,
+      config.centerPoint,
+      sourceBounds
+    );
   }
-  
-  return symmetricPoints;
+
+  const matrices = getBaseTransformMatrices(config);
+  if (!config.wrapEdges) {
+    return matrices;
+  }
+
+  return wrapTransformsAtEdges(
+    matrices,
+    sourceBounds ?? { x: 0, y: 0, width: documentSize.width, height: documentSize.height },
+    documentSize
+  );
+}
+
+/**
+ * 端の折り返し前の対称コピーの変換行列（壁紙モード以外、内部ヘルパー）
+ */
+function getBaseTransformMatrices(config: SymmetryConfig): Transform.TransformMatrix[] {
+  if (!isSymmetryActive(config)) {
+    return [Transform.createIdentityMatrix()];
+  }
+
+  if (config.mode !== undefined && Transform.isMirrorSymmetryMode(config.mode)) {
+    return Transform.createMirrorTransforms(config.mode, config.mirrorAngle ?? 0, config.centerPoint)
+      .map(transform => transform.matrix);
+  }
+
+  return Transform.createSymmetryTransforms(
+    config.axisCount,
+    config.type ?? CoreTypes.DEFAULT_SYMMETRY_TYPE,
+    config.centerPoint
+  ).map(transform => transform.matrix);
+}
+
+/**
+ * 太さの倍率を1とみなす誤差（回転行列の丸め誤差で筆圧が変わらないように）
+ */
+const WIDTH_SCALE_EPSILON = 1e-9;
+
+/**
+ * 各点でのストロークの進行方向（前後の点を結ぶ単位ベクトル、内部ヘルパー）
+ * 長さのないストロークでは長さ0のベクトルになる
+ */
+function getStrokeTangents(points: readonly StrokePoint[]): Transform.Point2D[] {
+  return points.map((_, i) => {
+    const from = points[Math.max(0, i - 1)];
+    const to = points[Math.min(points.length - 1, i + 1)];
+    const length = Math.hypot(to.x - from.x, to.y - from.y);
+    return length > 0 ? { x: (to.x - from.x) / length, y: (to.y - from.y) / length } : { x: 0, y: 0 };
+  });
 }
 
 /**
  * 単一ストロークから対称ストローク配列を生成
  * @param originalStroke 元のストローク
  * @param config 対称設定
+ * @param sourceBounds 元のストロークが描く範囲（getSymmetryTransformMatricesを参照）
  * @returns 対称ストローク生成結果
  */
 export function generateSymmetricStrokes(
   originalStroke: StrokeData, 
-  config: SymmetryConfig = DEFAULT_SYMMETRY_CONFIG
+  config: SymmetryConfig = DEFAULT_SYMMETRY_CONFIG,
+  sourceBounds?: CoreTypes.DirtyRect
 ): SymmetricStrokes {
-  if (!config.enabled) {
+  if (!hasStrokeCopies(config)) {
     return {
       original: originalStroke,
       symmetricStrokes: [originalStroke],
@@ -83,17 +198,23 @@ export function generateSymmetricStrokes(
 
   const pointCount = originalStroke.points.length;
   const symmetricStrokes: StrokeData[] = [];
+  const tangents = getStrokeTangents(originalStroke.points);
   
-  // 各対称軸についてストローク全体を変換
-  // 8軸対称では軸数は最大8まで
-  const actualAxisCount = Math.min(config.axisCount, 8);
-  for (let axisIndex = 0; axisIndex < actualAxisCount; axisIndex++) {
+  // 各対称変換についてストローク全体を変換
+  // インスタンス描画と同じ変換行列・同じ順序を使う
+  const matrices = getSymmetryTransformMatrices(config, sourceBounds);
+  for (let axisIndex = 0; axisIndex < matrices.length; axisIndex++) {
     // Pre-allocate array for better performance
     const transformedPoints: StrokePoint[] = new Array(pointCount);
     
     // Transform each point in the stroke
     for (let i = 0; i < pointCount; i++) {
-      transformedPoints[i] = Transform.transformStrokePointByAxis(originalStroke.points[i], axisIndex);
+      const point = Transform.applyTransformToStrokePoint(originalStroke.points[i], matrices[axisIndex]);
+      // 伸縮を含む変換（壁紙群の胞のわずかな伸縮）ではインスタンス描画と同じ太さになるよう筆圧を補正する
+      const widthScale = Transform.getStrokeWidthScale(matrices[axisIndex], tangents[i]);
+      transformedPoints[i] = Math.abs(widthScale - 1) < WIDTH_SCALE_EPSILON
+        ? point
+        : { ...point, pressure: point.pressure * widthScale };
     }
 
     // Create new stroke data with transformed points
@@ -101,6 +222,7 @@ export function generateSymmetricStrokes(
       id: `${originalStroke.id}_axis_${axisIndex}`,
       points: transformedPoints,
       timestamp: originalStroke.timestamp,
+      style: originalStroke.style,
       metadata: {
         ...originalStroke.metadata,
         symmetryAxis: axisIndex,
@@ -114,7 +236,7 @@ export function generateSymmetricStrokes(
   return {
     original: originalStroke,
     symmetricStrokes,
-    axisCount: config.axisCount
+    axisCount: symmetricStrokes.length
   };
 }
 
@@ -128,12 +250,12 @@ export function generateAllSymmetricStrokes(
   originalStrokes: StrokeData[], 
   config: SymmetryConfig = DEFAULT_SYMMETRY_CONFIG
 ): StrokeData[] {
-  if (!config.enabled) {
+  if (!hasStrokeCopies(config)) {
     return originalStrokes;
   }
 
   // Pre-allocate array for better performance
-  const totalSymmetricStrokes = originalStrokes.length * config.axisCount;
+  const totalSymmetricStrokes = originalStrokes.length * getSymmetryTransformMatrices(config).length;
   const allStrokes: StrokeData[] = new Array(totalSymmetricStrokes);
   let strokeIndex = 0;
   
@@ -151,17 +273,24 @@ export function generateAllSymmetricStrokes(
 
 /**
  * 単一ストローク対称描画
+ * インスタンス描画が使える場合はストロークを1回だけ転送し、全対称コピーを1回の描画で行う
+ * 使えない場合はCPUで対称ストロークを生成して個別に描画する
  */
 export function renderStrokeWithSymmetry(
   renderer: WebGLRenderer, 
   stroke: StrokeData, 
   config: SymmetryConfig = DEFAULT_SYMMETRY_CONFIG
 ): void {
-  if (!config.enabled) {
+  if (!hasStrokeCopies(config)) {
     renderStroke(renderer, stroke);
     return;
   }
 
+  if (supportsInstancing(renderer)) {
+    renderStrokeInstanced(renderer, stroke, getSymmetryTransformMatrices(config));
+    return;
+  }
+
   const result = generateSymmetricStrokes(stroke, config);
   renderStrokes(renderer, result.symmetricStrokes);
 }
@@ -174,11 +303,16 @@ export function renderStrokesWithSymmetry(
   strokes: StrokeData[], 
   config: SymmetryConfig = DEFAULT_SYMMETRY_CONFIG
 ): void {
-  if (!config.enabled) {
+  if (!hasStrokeCopies(config)) {
     renderStrokes(renderer, strokes);
     return;
   }
 
+  if (supportsInstancing(renderer)) {
+    renderStrokesInstanced(renderer, strokes, config);
+    return;
+  }
+
   const symmetricStrokes = generateAllSymmetricStrokes(strokes, config);
   renderStrokes(renderer, symmetricStrokes);
 }
@@ -192,11 +326,17 @@ export function renderStrokesWithSymmetryOptimized(
   strokes: StrokeData[], 
   config: SymmetryConfig = DEFAULT_SYMMETRY_CONFIG
 ): void {
-  if (!config.enabled) {
+  if (!hasStrokeCopies(config)) {
     renderStrokes(renderer, strokes);
     return;
   }
 
+  // インスタンス描画では対称ストロークを生成しないためバッチ分割は不要
+  if (supportsInstancing(renderer)) {
+    renderStrokesInstanced(renderer, strokes, config);
+    return;
+  }
+
   // バッチ処理のためのパフォーマンス最適化
   const batchSize = 100; // 一度に処理するストローク数
   const totalBatches = Math.ceil(strokes.length / batchSize);
@@ -211,24 +351,48 @@ export function renderStrokesWithSymmetryOptimized(
   }
 }
 
+/**
+ * 複数ストロークをインスタンス描画（renderStrokesと同様に先にクリアする）
+ */
+function renderStrokesInstanced(
+  renderer: WebGLRenderer,
+  strokes: StrokeData[],
+  config: SymmetryConfig
+): void {
+  if (strokes.length === 0) {
+    return;
+  }
+
+  const matrices = getSymmetryTransformMatrices(config);
+  clearCanvas(renderer);
+
+  for (const stroke of strokes) {
+    renderStrokeInstanced(renderer, stroke, matrices);
+  }
+}
+
 /**
  * 対称軸数変更時の動作確認用関数
  * @param stroke テストストローク
  * @param axisCount1 最初の軸数
  * @param axisCount2 変更後の軸数
+ * @param centerPoint 対称中心
+ * @param type 対称の種類
  * @returns 軸数変更結果の比較
  */
 export function compareAxisCountResults(
   stroke: StrokeData, 
   axisCount1: number, 
-  axisCount2: number
+  axisCount2: number,
+  centerPoint: Transform.Point2D = Transform.SYMMETRY_CENTER,
+  type: CoreTypes.SymmetryType = CoreTypes.DEFAULT_SYMMETRY_TYPE
 ): {
   result1: SymmetricStrokes;
   result2: SymmetricStrokes;
   different: boolean;
 } {
-  const config1: SymmetryConfig = { axisCount: axisCount1, enabled: true, centerPoint: Transform.SYMMETRY_CENTER };
-  const config2: SymmetryConfig = { axisCount: axisCount2, enabled: true, centerPoint: Transform.SYMMETRY_CENTER };
+  const config1: SymmetryConfig = { axisCount: axisCount1, enabled: true, type, centerPoint };
+  const config2: SymmetryConfig = { axisCount: axisCount2, enabled: true, type, centerPoint };
   
   const result1 = generateSymmetricStrokes(stroke, config1);
   const result2 = generateSymmetricStrokes(stroke, config2);
@@ -243,20 +407,24 @@ export function compareAxisCountResults(
 /**
  * 対称性の一貫性テスト
  */
-export function testSymmetryConsistency(testPoint: Transform.Point2D, epsilon: number = 1e-6): boolean {
+export function testSymmetryConsistency(
+  testPoint: Transform.Point2D,
+  epsilon: number = 1e-6,
+  centerPoint: Transform.Point2D = Transform.SYMMETRY_CENTER
+): boolean {
   const strokePoint: StrokePoint = { x: testPoint.x, y: testPoint.y, pressure: 1.0, timestamp: 1000 };
-  const symmetricPoints = generateSymmetricPoints(strokePoint, 8);
+  const symmetricPoints = generateSymmetricPoints(strokePoint, 8, centerPoint);
   
   // All symmetric points should be equidistant from center
   const originalDistance = Math.sqrt(
-    Math.pow(testPoint.x - Transform.SYMMETRY_CENTER.x, 2) + 
-    Math.pow(testPoint.y - Transform.SYMMETRY_CENTER.y, 2)
+    Math.pow(testPoint.x - centerPoint.x, 2) + 
+    Math.pow(testPoint.y - centerPoint.y, 2)
   );
 
   return symmetricPoints.every(point => {
     const distance = Math.sqrt(
-      Math.pow(point.x - Transform.SYMMETRY_CENTER.x, 2) + 
-      Math.pow(point.y - Transform.SYMMETRY_CENTER.y, 2)
+      Math.pow(point.x - centerPoint.x, 2) + 
+      Math.pow(point.y - centerPoint.y, 2)
     );
     return Math.abs(distance - originalDistance) < epsilon;
   });
@@ -264,8 +432,9 @@ export function testSymmetryConsistency(testPoint: Transform.Point2D, epsilon: n
 
 /**
  * 対称情報取得（デバッグ用）
+ * @param centerPoint 対称中心（ストアの設定を渡す）
  */
-export function getSymmetryInfo(): {
+export function getSymmetryInfo(centerPoint: Transform.Point2D = Transform.SYMMETRY_CENTER): {
   axisCount: number;
   axisAngles: number[];
   centerPoint: Transform.Point2D;
@@ -273,6 +442,6 @@ export function getSymmetryInfo(): {
   return {
     axisCount: Transform.AXIS_COUNT,
     axisAngles: Transform.getAllSymmetryAxisAngles(),
-    centerPoint: Transform.SYMMETRY_CENTER
+    centerPoint
   };
 }
\ No newline at end of file
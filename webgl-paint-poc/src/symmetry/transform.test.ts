@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import * as Transform from './transform';
 import * as CoreTypes from '../types/core';
+import { DEFAULT_SYMMETRY_CONFIG, getSymmetryTransformMatrices } from './symmetryRenderer';
 
 type StrokePoint = CoreTypes.StrokePoint;
 type Point2D = Transform.Point2D;
@@ -112,6 +113,16 @@ describe('Symmetry Transform (Browser Mode)', () => {
       expect(translation.m22).toBe(1);
     });
 
+    it('should create identity matrix', () => {
+      const identity = Transform.createIdentityMatrix();
+      const point = { x: 123, y: 456 };
+      expect(Transform.applyTransformToPoint(point, identity)).toEqual(point);
+      expect(Transform.areMatricesNearlyEqual(
+        Transform.multiplyMatrices(identity, Transform.createRotationMatrix(1)),
+        Transform.createRotationMatrix(1)
+      )).toBe(true);
+    });
+
     it('should create correct reflection matrix', () => {
       // Default parameter should create Y-axis reflection (vertical line)
       const reflectionY = Transform.createReflectionMatrix();
@@ -282,6 +293,24 @@ describe('Symmetry Transform (Browser Mode)', () => {
     });
   });
 
+  describe('Stroke Width Scale', () => {
+    it('should keep the width under rotations and reflections', () => {
+      const direction = { x: 0.6, y: 0.8 };
+
+      expect(Transform.getStrokeWidthScale(Transform.createRotationMatrix(1.1), direction)).toBeCloseTo(1, 9);
+      expect(Transform.getStrokeWidthScale(Transform.createReflectionMatrix(0.3), direction)).toBeCloseTo(1, 9);
+    });
+
+    it('should scale the width across the stroke direction', () => {
+      const stretchY = { ...Transform.createIdentityMatrix(), m11: 1.5 };
+
+      // 横に進むストロークは縦の伸縮で太くなり、縦に進むストロークは変わらない
+      expect(Transform.getStrokeWidthScale(stretchY, { x: 1, y: 0 })).toBeCloseTo(1.5, 9);
+      expect(Transform.getStrokeWidthScale(stretchY, { x: 0, y: 1 })).toBeCloseTo(1, 9);
+      expect(Transform.getStrokeWidthScale(stretchY, { x: 0, y: 0 })).toBeCloseTo(Math.sqrt(1.5), 9);
+    });
+  });
+
   describe('Mathematical Accuracy Tests', () => {
     it('should satisfy symmetry properties', () => {
       const testPoint: Point2D = { x: 600, y: 400 };
@@ -376,6 +405,135 @@ describe('Symmetry Transform (Browser Mode)', () => {
     });
   });
 
+  describe('Custom Symmetry Center', () => {
+    it('should transform around the given center', () => {
+      const center: Point2D = { x: 100, y: 80 };
+      const points = Transform.transformPointToAllSymmetries({ x: 150, y: 80 }, center);
+
+      expect(points).toHaveLength(8);
+      points.forEach(p => expect(Math.hypot(p.x - center.x, p.y - center.y)).toBeCloseTo(50, 9));
+      expect(points.some(p => Transform.arePointsNearlyEqual(p, { x: 100, y: 130 }, 1e-9))).toBe(true);
+    });
+
+    it('should keep pressure and timestamp around the given center', () => {
+      const strokePoint: StrokePoint = { x: 10, y: 20, pressure: 0.3, timestamp: 42 };
+      const points = Transform.transformStrokePointToAllSymmetries(strokePoint, { x: 10, y: 10 });
+
+      expect(points.some(p => Transform.arePointsNearlyEqual(p, { x: 10, y: 0 }, 1e-9))).toBe(true);
+      points.forEach(p => {
+        expect(p.pressure).toBe(0.3);
+        expect(p.timestamp).toBe(42);
+      });
+    });
+  });
+
+  describe('N-fold Symmetry Transforms', () => {
+    const center: Point2D = { x: 300, y: 200 };
+    const testPoint: Point2D = { x: 340, y: 170 };
+
+    const uniquePositions = (points: Point2D[]) =>
+      new Set(points.map(p => `${p.x.toFixed(6)},${p.y.toFixed(6)}`)).size;
+
+    it('should rotate by 360/N degrees for cyclic symmetry', () => {
+      const transforms = Transform.createSymmetryTransforms(5, CoreTypes.SymmetryType.CYCLIC, center);
+
+      expect(transforms).toHaveLength(5);
+      expect(Transform.areMatricesNearlyEqual(transforms[0].matrix, Transform.createIdentityMatrix())).toBe(true);
+      transforms.forEach((transform, k) => {
+        expect(transform.angle).toBeCloseTo(k * 2 * Math.PI / 5);
+      });
+
+      // 5回適用すると元に戻る
+      let point = testPoint;
+      for (let i = 0; i < 5; i++) {
+        point = Transform.applyTransformToPoint(point, transforms[1].matrix);
+      }
+      expect(Transform.arePointsNearlyEqual(point, testPoint, 1e-9)).toBe(true);
+    });
+
+    it('should add N mirror axes for dihedral symmetry', () => {
+      const transforms = Transform.createSymmetryTransforms(7, CoreTypes.SymmetryType.DIHEDRAL, center);
+      const points = transforms.map(transform => Transform.applyTransformToPoint(testPoint, transform.matrix));
+
+      expect(transforms).toHaveLength(14);
+      expect(uniquePositions(points)).toBe(14);
+
+      // 鏡映は2回適用すると恒等変換になる
+      transforms.slice(7).forEach(transform => {
+        const twice = Transform.multiplyMatrices(transform.matrix, transform.matrix);
+        expect(Transform.areMatricesNearlyEqual(twice, Transform.createIdentityMatrix(), 1e-9)).toBe(true);
+      });
+    });
+
+    it('should keep every copy at the same distance from the center', () => {
+      const distance = (p: Point2D) => Math.hypot(p.x - center.x, p.y - center.y);
+      const transforms = Transform.createSymmetryTransforms(64, CoreTypes.SymmetryType.DIHEDRAL, center);
+      const points = transforms.map(transform => Transform.applyTransformToPoint(testPoint, transform.matrix));
+
+      expect(uniquePositions(points)).toBe(128);
+      points.forEach(p => expect(distance(p)).toBeCloseTo(distance(testPoint), 9));
+    });
+
+    it('should clamp N to 2-64', () => {
+      expect(Transform.createSymmetryTransforms(1, CoreTypes.SymmetryType.CYCLIC)).toHaveLength(2);
+      expect(Transform.createSymmetryTransforms(100, CoreTypes.SymmetryType.CYCLIC)).toHaveLength(64);
+      expect(Transform.clampSymmetryAxisCount(12.4)).toBe(12);
+    });
+
+    it('should default to the same symmetry type as the default config', () => {
+      expect(DEFAULT_SYMMETRY_CONFIG.type).toBe(CoreTypes.DEFAULT_SYMMETRY_TYPE);
+      expect(Transform.createSymmetryTransforms(4)).toHaveLength(8);
+      expect(getSymmetryTransformMatrices({ ...DEFAULT_SYMMETRY_CONFIG, type: undefined })).toHaveLength(8);
+    });
+  });
+
+  describe('Mirror Symmetry Transforms', () => {
+    const center: Point2D = { x: 300, y: 200 };
+    const testPoint: Point2D = { x: 340, y: 170 };
+    const transformAll = (transforms: Transform.SymmetryTransform[]) =>
+      transforms.map(transform => Transform.applyTransformToPoint(testPoint, transform.matrix));
+
+    it('should mirror left/right across a vertical axis through the center', () => {
+      const points = transformAll(Transform.createMirrorTransforms(CoreTypes.SymmetryMode.MIRROR_VERTICAL, 0, center));
+
+      expect(points).toHaveLength(2);
+      expect(Transform.arePointsNearlyEqual(points[0], testPoint)).toBe(true);
+      expect(Transform.arePointsNearlyEqual(points[1], { x: 260, y: 170 }, 1e-9)).toBe(true);
+    });
+
+    it('should mirror top/bottom across a horizontal axis through the center', () => {
+      const points = transformAll(Transform.createMirrorTransforms(CoreTypes.SymmetryMode.MIRROR_HORIZONTAL, 0, center));
+
+      expect(points).toHaveLength(2);
+      expect(Transform.arePointsNearlyEqual(points[1], { x: 340, y: 230 }, 1e-9)).toBe(true);
+    });
+
+    it('should mirror across both axes for quad symmetry', () => {
+      const points = transformAll(Transform.createMirrorTransforms(CoreTypes.SymmetryMode.MIRROR_QUAD, 0, center));
+
+      expect(points).toHaveLength(4);
+      expect(Transform.arePointsNearlyEqual(points[1], { x: 260, y: 170 }, 1e-9)).toBe(true);
+      expect(Transform.arePointsNearlyEqual(points[2], { x: 340, y: 230 }, 1e-9)).toBe(true);
+      expect(Transform.arePointsNearlyEqual(points[3], { x: 260, y: 230 }, 1e-9)).toBe(true);
+    });
+
+    it('should rotate the mirror axes by the mirror angle', () => {
+      // 水平軸を45度回転すると y = x 方向の軸になり、x と y の差分が入れ替わる
+      const [, mirrored] = transformAll(
+        Transform.createMirrorTransforms(CoreTypes.SymmetryMode.MIRROR_HORIZONTAL, Math.PI / 4, center)
+      );
+
+      expect(Transform.arePointsNearlyEqual(mirrored, { x: 270, y: 240 }, 1e-9)).toBe(true);
+    });
+
+    it('should return only the identity for non-mirror modes', () => {
+      expect(Transform.createMirrorTransforms(CoreTypes.SymmetryMode.RADIAL_8)).toHaveLength(1);
+      expect(Transform.getMirrorAxisAngles(CoreTypes.SymmetryMode.NONE)).toEqual([]);
+      expect(Transform.isMirrorSymmetryMode(CoreTypes.SymmetryMode.MIRROR_QUAD)).toBe(true);
+      expect(Transform.isMirrorSymmetryMode(CoreTypes.SymmetryMode.RADIAL_8)).toBe(false);
+    });
+  });
+
   describe('Utility Functions', () => {
     it('should check numeric equality with epsilon', () => {
       expect(Transform.isNearlyEqual(1.0, 1.0000001, 1e-6)).toBe(true);
@@ -23,6 +23,7 @@ export interface SymmetryTransform {
 }
 
 // 定数
+// 既定の対称中心（既定サイズ1024x1024のドキュメント中心）。実際の中心はストアのcenterPointを渡す
 export const SYMMETRY_CENTER: Point2D = { x: 512, y: 512 };
 export const AXIS_COUNT = 8;
 export const ANGLE_INCREMENT = Math.PI / 4; // 45度 = π/4 ラジアン（反射軸用）
@@ -71,6 +72,17 @@ export function getAllSymmetryAxisAngles(): number[] {
   return angles;
 }
 
+/**
+ * 単位行列を作成
+ */
+export function createIdentityMatrix(): TransformMatrix {
+  return {
+    m00: 1, m01: 0, m02: 0,
+    m10: 0, m11: 1, m12: 0,
+    m20: 0, m21: 0, m22: 1
+  };
+}
+
 /**
  * 2D回転行列を作成
  */
@@ -142,8 +154,13 @@ export function applyTransformToPoint(point: Point2D, matrix: TransformMatrix):
 /**
  * 8軸対称の変換行列を生成 (二面体群 D8)
  * 軸0-3: 反射変換, 軸4-7: 回転変換
+ * 任意のN回対称はcreateSymmetryTransformsを使う
+ * @param center 対称中心（ドキュメントサイズに応じてストアから渡す）
  */
-export function create8AxisSymmetryTransform(axisIndex: number): SymmetryTransform {
+export function create8AxisSymmetryTransform(
+  axisIndex: number,
+  center: Point2D = SYMMETRY_CENTER
+): SymmetryTransform {
   if (axisIndex < 0 || axisIndex >= AXIS_COUNT) {
     throw new Error(`Invalid axis index: ${axisIndex}. Must be 0-${AXIS_COUNT - 1}`);
   }
@@ -155,7 +172,7 @@ export function create8AxisSymmetryTransform(axisIndex: number): SymmetryTransfo
   // 2. 反射または回転を適用
   // 3. 中心点を元の位置に戻す
   
-  const centerToOrigin = createTranslationMatrix(-SYMMETRY_CENTER.x, -SYMMETRY_CENTER.y);
+  const centerToOrigin = createTranslationMatrix(-center.x, -center.y);
   let transformation: TransformMatrix;
   
   if (axisIndex < 4) {
@@ -166,7 +183,7 @@ export function create8AxisSymmetryTransform(axisIndex: number): SymmetryTransfo
     transformation = createRotationMatrix(angle);
   }
   
-  const originToCenter = createTranslationMatrix(SYMMETRY_CENTER.x, SYMMETRY_CENTER.y);
+  const originToCenter = createTranslationMatrix(center.x, center.y);
   
   // 行列の合成（右から左に適用される）
   let matrix = centerToOrigin;
@@ -182,28 +199,153 @@ export function create8AxisSymmetryTransform(axisIndex: number): SymmetryTransfo
 
 /**
  * 全8軸の対称変換を生成
+ * @param center 対称中心
  */
-export function createAll8AxisSymmetryTransforms(): SymmetryTransform[] {
+export function createAll8AxisSymmetryTransforms(center: Point2D = SYMMETRY_CENTER): SymmetryTransform[] {
   const transforms = [];
   for (let i = 0; i < AXIS_COUNT; i++) {
-    transforms.push(create8AxisSymmetryTransform(i));
+    transforms.push(create8AxisSymmetryTransform(i, center));
+  }
+  return transforms;
+}
+
+/**
+ * N回対称のNを有効範囲（2〜64の整数）に収める
+ */
+export function clampSymmetryAxisCount(axisCount: number): number {
+  return Math.max(
+    CoreTypes.MIN_SYMMETRY_AXIS_COUNT,
+    Math.min(CoreTypes.MAX_SYMMETRY_AXIS_COUNT, Math.round(axisCount))
+  );
+}
+
+/**
+ * 中心点まわりの変換行列を作成（中心を原点へ移動 → 変換 → 中心へ戻す）
+ */
+function createCenteredMatrix(transformation: TransformMatrix, center: Point2D): TransformMatrix {
+  const centerToOrigin = createTranslationMatrix(-center.x, -center.y);
+  const originToCenter = createTranslationMatrix(center.x, center.y);
+  return multiplyMatrices(originToCenter, multiplyMatrices(transformation, centerToOrigin));
+}
+
+/**
+ * N回対称の変換を生成
+ * 0〜N-1: k·360°/N の回転（k=0は恒等変換）
+ * N〜2N-1: k·180°/N の反射軸による鏡映（dihedralのみ）
+ * CPUでのストローク生成とインスタンス描画は共にこの順序を使う
+ * @param axisCount N（2〜64に丸める）
+ * @param type cyclicはN個、dihedralは2N個の変換を返す
+ * @param center 対称中心
+ */
+export function createSymmetryTransforms(
+  axisCount: number,
+  type: CoreTypes.SymmetryType = CoreTypes.DEFAULT_SYMMETRY_TYPE,
+  center: Point2D = SYMMETRY_CENTER
+): SymmetryTransform[] {
+  const foldCount = clampSymmetryAxisCount(axisCount);
+  const transforms: SymmetryTransform[] = [];
+
+  for (let k = 0; k < foldCount; k++) {
+    const angle = k * 2 * Math.PI / foldCount;
+    transforms.push({
+      axisIndex: k,
+      angle,
+      matrix: createCenteredMatrix(createRotationMatrix(angle), center)
+    });
+  }
+
+  if (type === CoreTypes.SymmetryType.DIHEDRAL) {
+    for (let k = 0; k < foldCount; k++) {
+      const angle = k * Math.PI / foldCount;
+      transforms.push({
+        axisIndex: foldCount + k,
+        angle,
+        matrix: createCenteredMatrix(createReflectionMatrix(angle), center)
+      });
+    }
+  }
+
+  return transforms;
+}
+
+/**
+ * 鏡映モードの鏡映軸の角度（ラジアン）
+ * 垂直軸は π/2 + mirrorAngle、水平軸は mirrorAngle（quadは垂直軸・水平軸の順）
+ * @returns 鏡映モード以外は空配列
+ */
+export function getMirrorAxisAngles(mode: CoreTypes.SymmetryMode, mirrorAngle: number = 0): number[] {
+  switch (mode) {
+    case CoreTypes.SymmetryMode.MIRROR_VERTICAL:
+      return [Math.PI / 2 + mirrorAngle];
+    case CoreTypes.SymmetryMode.MIRROR_HORIZONTAL:
+      return [mirrorAngle];
+    case CoreTypes.SymmetryMode.MIRROR_QUAD:
+      return [Math.PI / 2 + mirrorAngle, mirrorAngle];
+    default:
+      return [];
+  }
+}
+
+/**
+ * 鏡映モードの変換を生成
+ * 0: 恒等変換、1〜: 各鏡映軸による鏡映、quadのみ最後に両軸の合成（中心まわりの180°回転）
+ * @param mode 鏡映モード（それ以外は恒等変換のみ）
+ * @param mirrorAngle 鏡映軸の回転角度
+ * @param center 鏡映軸が通る点
+ */
+export function createMirrorTransforms(
+  mode: CoreTypes.SymmetryMode,
+  mirrorAngle: number = 0,
+  center: Point2D = SYMMETRY_CENTER
+): SymmetryTransform[] {
+  const transforms: SymmetryTransform[] = [{ axisIndex: 0, angle: 0, matrix: createIdentityMatrix() }];
+  const axisAngles = getMirrorAxisAngles(mode, mirrorAngle);
+
+  for (const angle of axisAngles) {
+    transforms.push({
+      axisIndex: transforms.length,
+      angle,
+      matrix: createCenteredMatrix(createReflectionMatrix(angle), center)
+    });
   }
+
+  // 直交する2軸の鏡映を合成すると180°回転になる
+  if (axisAngles.length === 2) {
+    transforms.push({
+      axisIndex: transforms.length,
+      angle: Math.PI,
+      matrix: createCenteredMatrix(createRotationMatrix(Math.PI), center)
+    });
+  }
+
   return transforms;
 }
 
+/**
+ * 鏡映モードか
+ */
+export function isMirrorSymmetryMode(mode: CoreTypes.SymmetryMode): boolean {
+  return getMirrorAxisAngles(mode).length > 0;
+}
+
 /**
  * 点を指定軸で対称変換
  */
-export function transformPointByAxis(point: Point2D, axisIndex: number): Point2D {
-  const transform = create8AxisSymmetryTransform(axisIndex);
+export function transformPointByAxis(
+  point: Point2D,
+  axisIndex: number,
+  center: Point2D = SYMMETRY_CENTER
+): Point2D {
+  const transform = create8AxisSymmetryTransform(axisIndex, center);
   return applyTransformToPoint(point, transform.matrix);
 }
 
 /**
  * 点を全軸で対称変換（8つの対称点を生成）
  * 注: 軸4（0度回転）は恒等変換なので除外し、元の点を含めて8つにする
+ * @param center 対称中心
  */
-export function transformPointToAllSymmetries(point: Point2D): Point2D[] {
+export function transformPointToAllSymmetries(point: Point2D, center: Point2D = SYMMETRY_CENTER): Point2D[] {
   const symmetricPoints = [];
   
   // 元の点を含める
@@ -213,7 +355,7 @@ export function transformPointToAllSymmetries(point: Point2D): Point2D[] {
   for (let i = 0; i < AXIS_COUNT; i++) {
     if (i === 4) continue; // 軸4（0度回転）は恒等変換なので除外
     
-    const transformedPoint = transformPointByAxis(point, i);
+    const transformedPoint = transformPointByAxis(point, i, center);
     symmetricPoints.push(transformedPoint);
   }
   
@@ -223,10 +365,15 @@ export function transformPointToAllSymmetries(point: Point2D): Point2D[] {
 /**
  * StrokePointを指定軸で対称変換（圧力とタイムスタンプは保持）
  */
-export function transformStrokePointByAxis(strokePoint: StrokePoint, axisIndex: number): StrokePoint {
+export function transformStrokePointByAxis(
+  strokePoint: StrokePoint,
+  axisIndex: number,
+  center: Point2D = SYMMETRY_CENTER
+): StrokePoint {
   const transformedPoint = transformPointByAxis(
     { x: strokePoint.x, y: strokePoint.y },
-    axisIndex
+    axisIndex,
+    center
   );
   
   return {
@@ -237,11 +384,44 @@ export function transformStrokePointByAxis(strokePoint: StrokePoint, axisIndex:
   };
 }
 
+/**
+ * 方向directionに進むストロークの太さが変換で何倍になるか
+ * 変換後の進行方向に垂直な幅の倍率で、回転・鏡映・並進では1になる
+ * インスタンス描画は押し出しベクトルごと変換するため、伸縮・せん断を含む変換ではこの倍率で太さが変わる
+ * @param direction 進行方向の単位ベクトル（長さ0なら面積の倍率の平方根）
+ */
+export function getStrokeWidthScale(matrix: TransformMatrix, direction: Point2D): number {
+  const determinant = Math.abs(matrix.m00 * matrix.m11 - matrix.m01 * matrix.m10);
+  const length = Math.hypot(
+    matrix.m00 * direction.x + matrix.m01 * direction.y,
+    matrix.m10 * direction.x + matrix.m11 * direction.y
+  );
+  return length > 0 ? determinant / length : Math.sqrt(determinant);
+}
+
+/**
+ * ストロークポイントに変換行列を適用（筆圧とタイムスタンプは保持）
+ */
+export function applyTransformToStrokePoint(strokePoint: StrokePoint, matrix: TransformMatrix): StrokePoint {
+  const transformedPoint = applyTransformToPoint(strokePoint, matrix);
+
+  return {
+    x: transformedPoint.x,
+    y: transformedPoint.y,
+    pressure: strokePoint.pressure,
+    timestamp: strokePoint.timestamp
+  };
+}
+
 /**
  * StrokePointを全軸で対称変換
  * 注: 軸4（0度回転）は恒等変換なので除外し、元の点を含めて8つにする
+ * @param center 対称中心
  */
-export function transformStrokePointToAllSymmetries(strokePoint: StrokePoint): StrokePoint[] {
+export function transformStrokePointToAllSymmetries(
+  strokePoint: StrokePoint,
+  center: Point2D = SYMMETRY_CENTER
+): StrokePoint[] {
   const symmetricPoints = [];
   
   // 元の点を含める
@@ -251,7 +431,7 @@ export function transformStrokePointToAllSymmetries(strokePoint: StrokePoint): S
   for (let i = 0; i < AXIS_COUNT; i++) {
     if (i === 4) continue; // 軸4（0度回転）は恒等変換なので除外
     
-    const transformedPoint = transformStrokePointByAxis(strokePoint, i);
+    const transformedPoint = transformStrokePointByAxis(strokePoint, i, center);
     symmetricPoints.push(transformedPoint);
   }
   
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createWallpaperCellTransforms,
+  createWallpaperTransforms,
+  getWallpaperCellBoundaries,
+  getWallpaperLattice,
+} from './wallpaper';
+import { applyTransformToPoint, multiplyMatrices } from './transform';
+import type { Point2D } from './transform';
+import { WallpaperGroup } from '../types/core';
+
+const DOCUMENT_SIZE = { width: 600, height: 400 };
+const ORIGIN = { x: 30, y: 20 };
+
+// 単位胞あたりのコピー数（点群の位数 × 面心格子の格子点数）
+const CELL_COPY_COUNTS: Record<WallpaperGroup, number> = {
+  p1: 1, p2: 2, pm: 2, pg: 2, cm: 4, pmm: 4, pmg: 4, pgg: 4, cmm: 8,
+  p4: 4, p4m: 8, p4g: 8, p3: 6, p3m1: 12, p31m: 12, p6: 12, p6m: 24,
+};
+
+/**
+ * 点を格子の並進で基本の胞に戻したキー（同じ軌道の点は同じキーになる）
+ */
+function latticeKey(point: Point2D, cellWidth: number, cellHeight: number): string {
+  const wrap = (value: number, period: number) => {
+    const wrapped = ((value % period) + period) % period;
+    return Math.abs(wrapped - period) < 1e-6 ? 0 : wrapped;
+  };
+  return `${wrap(point.x - ORIGIN.x, cellWidth).toFixed(4)},${wrap(point.y - ORIGIN.y, cellHeight).toFixed(4)}`;
+}
+
+describe('Wallpaper Groups', () => {
+  it('should cover all 17 wallpaper groups', () => {
+    expect(Object.values(WallpaperGroup)).toHaveLength(17);
+  });
+
+  it.each(Object.values(WallpaperGroup))('%s should have the expected number of copies per cell', (group) => {
+    expect(createWallpaperCellTransforms(group, DOCUMENT_SIZE, 3, ORIGIN)).toHaveLength(CELL_COPY_COUNTS[group]);
+  });
+
+  it.each(Object.values(WallpaperGroup))('%s should be closed under composition modulo the lattice', (group) => {
+    const { cellWidth, cellHeight } = getWallpaperLattice(group, DOCUMENT_SIZE, 3);
+    const transforms = createWallpaperCellTransforms(group, DOCUMENT_SIZE, 3, ORIGIN);
+    const point = { x: 71.3, y: 52.9 };
+    const orbit = new Set(transforms.map(transform => latticeKey(applyTransformToPoint(point, transform), cellWidth, cellHeight)));
+
+    // 一般の位置の点は重ならないコピーになる
+    expect(orbit.size).toBe(transforms.length);
+    for (const a of transforms) {
+      for (const b of transforms) {
+        const composed = applyTransformToPoint(point, multiplyMatrices(a, b));
+        expect(orbit.has(latticeKey(composed, cellWidth, cellHeight))).toBe(true);
+      }
+    }
+  });
+
+  it('should fit a whole number of cells into the document', () => {
+    expect(getWallpaperLattice(WallpaperGroup.P4M, DOCUMENT_SIZE, 3)).toEqual({
+      cellWidth: 200, cellHeight: 200, columns: 3, rows: 2,
+    });
+
+    // 矩形格子は縦横比が自由なので、指定した繰り返し数をそのまま使う
+    expect(getWallpaperLattice(WallpaperGroup.PMM, DOCUMENT_SIZE, 5)).toMatchObject({ columns: 5, rows: 3 });
+    expect(getWallpaperLattice(WallpaperGroup.P1, DOCUMENT_SIZE, 100).columns).toBe(8);
+  });
+
+  it.each([
+    { group: WallpaperGroup.P6, documentSize: DOCUMENT_SIZE },
+    { group: WallpaperGroup.P3M1, documentSize: { width: 512, height: 512 } },
+    { group: WallpaperGroup.P4, documentSize: { width: 700, height: 400 } },
+  ])('$group should keep cells conformal on a $documentSize.width x $documentSize.height document', ({ group, documentSize }) => {
+    // 胞が縦横比どおりなら、回転の線形部分は直交行列（せん断を含まない）になる
+    const { cellWidth, cellHeight, columns, rows } = getWallpaperLattice(group, documentSize, 3);
+    const aspect = group === WallpaperGroup.P4 ? 1 : Math.sqrt(3);
+
+    expect(columns * cellWidth).toBeCloseTo(documentSize.width, 9);
+    expect(rows * cellHeight).toBeCloseTo(documentSize.height, 9);
+    expect(Math.abs(cellHeight / (cellWidth * aspect) - 1)).toBeLessThan(0.03);
+
+    const [, rotation] = createWallpaperCellTransforms(group, documentSize, 3, ORIGIN);
+    expect(rotation.m00).toBeCloseTo(rotation.m11, 1);
+    expect(rotation.m01).toBeCloseTo(-rotation.m10, 1);
+    expect(Math.hypot(rotation.m00, rotation.m10)).toBeCloseTo(1, 1);
+  });
+
+  it('should keep the requested repeat when the cells fit it', () => {
+    // 600×400に横3個の正方形の胞はちょうど収まる
+    expect(getWallpaperLattice(WallpaperGroup.P4M, DOCUMENT_SIZE, 3).columns).toBe(3);
+    // 六方格子は縦横比√3に近い胞になる横の個数を選ぶ
+    expect(getWallpaperLattice(WallpaperGroup.P6M, { width: 96, height: 84 }, 6)).toEqual({
+      cellWidth: 16, cellHeight: 28, columns: 6, rows: 3,
+    });
+    expect(getWallpaperLattice(WallpaperGroup.P6M, { width: 512, height: 512 }, 3).columns).toBe(7);
+  });
+
+  it('should wrap copies that leave one edge onto the opposite edge', () => {
+    // 右端をまたぐストローク
+    const sourceBounds = { x: 590, y: 100, width: 20, height: 10 };
+    const transforms = createWallpaperTransforms(WallpaperGroup.P1, DOCUMENT_SIZE, 3, { x: 0, y: 0 }, sourceBounds);
+    const offsets = transforms.map(transform => ({ x: transform.m02, y: transform.m12 }));
+
+    expect(offsets).toContainEqual({ x: 0, y: 0 });
+    expect(offsets).toContainEqual({ x: -600, y: 0 });
+    expect(offsets).toContainEqual({ x: -200, y: 200 });
+    // 並進したコピーはすべてドキュメントにかかる
+    offsets.forEach(offset => {
+      expect(sourceBounds.x + offset.x).toBeLessThan(DOCUMENT_SIZE.width);
+      expect(sourceBounds.x + sourceBounds.width + offset.x).toBeGreaterThan(0);
+    });
+  });
+
+  it('should copy a small stroke once per cell for p1', () => {
+    const transforms = createWallpaperTransforms(
+      WallpaperGroup.P1, DOCUMENT_SIZE, 3, { x: 0, y: 0 }, { x: 50, y: 50, width: 10, height: 10 }
+    );
+
+    expect(transforms).toHaveLength(6);
+  });
+
+  it('should place cell boundaries relative to the lattice origin', () => {
+    expect(getWallpaperCellBoundaries(WallpaperGroup.P4M, DOCUMENT_SIZE, 3, ORIGIN)).toEqual({
+      xs: [30, 230, 430],
+      ys: [20, 220],
+    });
+  });
+});
@@ -0,0 +1,307 @@
+/**
+ * 壁紙群による平面充填
+ * 17種の壁紙群の対称操作を格子の単位胞ごとに並べ、ドキュメント全体を周期的に埋める
+ * ドキュメントの幅・高さは格子の周期の整数倍にとるため、端をはみ出したコピーは反対側の端に現れ、
+ * ドキュメントそのものが継ぎ目なく繰り返すタイルになる
+ */
+
+import * as CoreTypes from '../types/core';
+import {
+  createIdentityMatrix,
+  createReflectionMatrix,
+  createRotationMatrix,
+  createTranslationMatrix,
+  multiplyMatrices
+} from './transform';
+import type { Point2D, TransformMatrix } from './transform';
+import { createPeriodicTransforms } from './edgeWrap';
+
+type WallpaperGroup = CoreTypes.WallpaperGroup;
+
+/**
+ * 格子の形
+ */
+type LatticeShape = 'rectangular' | 'square' | 'hexagonal';
+
+/**
+ * 壁紙群の定義
+ * 対称操作は単位胞座標（胞の横幅を1とし、原点を格子点に置く）で表す
+ */
+interface WallpaperGroupDefinition {
+  lattice: LatticeShape;
+  /** 胞の中心にも格子点がある（面心格子）か */
+  centered: boolean;
+  /** 格子の並進を除いた対称操作（先頭は恒等変換） */
+  operations: TransformMatrix[];
+}
+
+/**
+ * ドキュメント上の格子
+ */
+export interface WallpaperLattice {
+  /** 胞の幅・高さ（ドキュメント座標） */
+  cellWidth: number;
+  cellHeight: number;
+  /** ドキュメントに並ぶ胞の数 */
+  columns: number;
+  rows: number;
+}
+
+/**
+ * 矩形範囲（ドキュメント座標）
+ */
+type Bounds = CoreTypes.DirtyRect;
+
+/**
+ * 六方格子の単位胞の縦横比（横1に対して√3の矩形に格子点が2つ入る）
+ */
+const HEXAGONAL_CELL_ASPECT = Math.sqrt(3);
+
+/**
+ * 正方格子・六方格子で許す胞の縦横比のずれ（本来の縦横比に対する割合）
+ * 胞が伸縮すると回転・鏡映がせん断を含む変換になり、コピーの形と太さが変わる
+ */
+const MAX_CELL_STRETCH = 0.02;
+
+/**
+ * 線形部分と並進から変換行列を作成（内部ヘルパー）
+ */
+function affine(m00: number, m01: number, m10: number, m11: number, tx: number = 0, ty: number = 0): TransformMatrix {
+  return {
+    m00, m01, m02: tx,
+    m10, m11, m12: ty,
+    m20: 0, m21: 0, m22: 1
+  };
+}
+
+const IDENTITY = affine(1, 0, 0, 1);
+const ROTATE_180 = affine(-1, 0, 0, -1);
+const MIRROR_X = affine(-1, 0, 0, 1); // 縦の鏡映軸（x → -x）
+const MIRROR_Y = affine(1, 0, 0, -1); // 横の鏡映軸（y → -y）
+const ROTATE_90 = affine(0, -1, 1, 0);
+const ROTATE_270 = affine(0, 1, -1, 0);
+const MIRROR_DIAGONAL = affine(0, 1, 1, 0); // y = x の鏡映軸
+const MIRROR_ANTI_DIAGONAL = affine(0, -1, -1, 0); // y = -x の鏡映軸
+
+/**
+ * 対称操作の後に並進する（映進・軸をずらした鏡映用、内部ヘルパー）
+ */
+function shifted(operation: TransformMatrix, tx: number, ty: number): TransformMatrix {
+  return { ...operation, m02: operation.m02 + tx, m12: operation.m12 + ty };
+}
+
+/**
+ * 360°/countずつの回転（六方格子用、内部ヘルパー）
+ */
+function rotations(count: number): TransformMatrix[] {
+  return Array.from({ length: count }, (_, k) => (k === 0 ? IDENTITY : createRotationMatrix(k * 2 * Math.PI / count)));
+}
+
+/**
+ * 指定角度の鏡映軸による鏡映（六方格子用、内部ヘルパー）
+ */
+function reflections(angles: number[]): TransformMatrix[] {
+  return angles.map(angle => createReflectionMatrix(angle));
+}
+
+const DEG_30 = Math.PI / 6;
+
+const WALLPAPER_GROUPS: Record<WallpaperGroup, WallpaperGroupDefinition> = {
+  // 斜方格子（矩形で近似）
+  p1: { lattice: 'rectangular', centered: false, operations: [IDENTITY] },
+  p2: { lattice: 'rectangular', centered: false, operations: [IDENTITY, ROTATE_180] },
+  // 矩形格子
+  pm: { lattice: 'rectangular', centered: false, operations: [IDENTITY, MIRROR_X] },
+  pg: { lattice: 'rectangular', centered: false, operations: [IDENTITY, shifted(MIRROR_X, 0, 0.5)] },
+  cm: { lattice: 'rectangular', centered: true, operations: [IDENTITY, MIRROR_X] },
+  pmm: { lattice: 'rectangular', centered: false, operations: [IDENTITY, ROTATE_180, MIRROR_X, MIRROR_Y] },
+  pmg: {
+    lattice: 'rectangular',
+    centered: false,
+    operations: [IDENTITY, ROTATE_180, shifted(MIRROR_X, 0.5, 0), shifted(MIRROR_Y, 0.5, 0)],
+  },
+  pgg: {
+    lattice: 'rectangular',
+    centered: false,
+    operations: [IDENTITY, ROTATE_180, shifted(MIRROR_X, 0.5, 0.5), shifted(MIRROR_Y, 0.5, 0.5)],
+  },
+  cmm: { lattice: 'rectangular', centered: true, operations: [IDENTITY, ROTATE_180, MIRROR_X, MIRROR_Y] },
+  // 正方格子
+  p4: { lattice: 'square', centered: false, operations: [IDENTITY, ROTATE_90, ROTATE_180, ROTATE_270] },
+  p4m: {
+    lattice: 'square',
+    centered: false,
+    operations: [
+      IDENTITY, ROTATE_90, ROTATE_180, ROTATE_270,
+      MIRROR_X, MIRROR_Y, MIRROR_DIAGONAL, MIRROR_ANTI_DIAGONAL,
+    ],
+  },
+  p4g: {
+    lattice: 'square',
+    centered: false,
+    operations: [
+      IDENTITY, ROTATE_90, ROTATE_180, ROTATE_270,
+      ...[MIRROR_X, MIRROR_Y, MIRROR_DIAGONAL, MIRROR_ANTI_DIAGONAL].map(mirror => shifted(mirror, 0.5, 0.5)),
+    ],
+  },
+  // 六方格子（格子ベクトル (1, 0) と (1/2, √3/2)）
+  p3: { lattice: 'hexagonal', centered: true, operations: rotations(3) },
+  p3m1: { lattice: 'hexagonal', centered: true, operations: [...rotations(3), ...reflections([DEG_30, 3 * DEG_30, 5 * DEG_30])] },
+  p31m: { lattice: 'hexagonal', centered: true, operations: [...rotations(3), ...reflections([0, 2 * DEG_30, 4 * DEG_30])] },
+  p6: { lattice: 'hexagonal', centered: true, operations: rotations(6) },
+  p6m: {
+    lattice: 'hexagonal',
+    centered: true,
+    operations: [...rotations(6), ...reflections([0, 1, 2, 3, 4, 5].map(k => k * DEG_30))],
+  },
+};
+
+/**
+ * 壁紙の横方向の繰り返し数を有効範囲（1〜8の整数）に収める
+ */
+export function clampWallpaperRepeat(repeat: number): number {
+  return Math.max(CoreTypes.MIN_WALLPAPER_REPEAT, Math.min(CoreTypes.MAX_WALLPAPER_REPEAT, Math.round(repeat)));
+}
+
+/**
+ * 胞の本来の縦横比（縦/横）
+ */
+function getCellAspect(lattice: LatticeShape): number {
+  return lattice === 'hexagonal' ? HEXAGONAL_CELL_ASPECT : 1;
+}
+
+/**
+ * 横にcolumns個の胞を並べ、縦は本来の縦横比に最も近くなる個数を並べた格子（内部ヘルパー）
+ */
+function fitLattice(
+  documentSize: { width: number; height: number },
+  columns: number,
+  aspect: number
+): WallpaperLattice & { stretch: number } {
+  const cellWidth = documentSize.width / columns;
+  const rows = Math.max(1, Math.round(documentSize.height / (cellWidth * aspect)));
+  const cellHeight = documentSize.height / rows;
+  return { cellWidth, cellHeight, columns, rows, stretch: Math.abs(cellHeight / (cellWidth * aspect) - 1) };
+}
+
+/**
+ * ドキュメント上の格子を求める
+ * 幅・高さを胞の整数倍にとるため、縦の個数は胞の本来の縦横比に最も近くなるように選ぶ
+ * 矩形格子は胞の縦横比が自由なので、横にrepeat個の胞を並べる
+ * 正方格子・六方格子は胞が伸縮すると回転・鏡映がせん断になるため、
+ * 縦横比のずれがMAX_CELL_STRETCH以内に収まる横の個数のうちrepeatに最も近いものを選ぶ
+ * （収まる個数がなければずれが最も小さいもの。六方格子の縦横比√3は無理数のため、完全には一致しない）
+ */
+export function getWallpaperLattice(
+  group: WallpaperGroup,
+  documentSize: { width: number; height: number },
+  repeat: number
+): WallpaperLattice {
+  const { lattice } = WALLPAPER_GROUPS[group];
+  const aspect = getCellAspect(lattice);
+  const requested = clampWallpaperRepeat(repeat);
+
+  let best = fitLattice(documentSize, requested, aspect);
+  if (lattice !== 'rectangular' && best.stretch > MAX_CELL_STRETCH) {
+    // repeatに近い順に試す
+    const candidates = Array.from(
+      { length: CoreTypes.MAX_WALLPAPER_REPEAT - CoreTypes.MIN_WALLPAPER_REPEAT + 1 },
+      (_, i) => fitLattice(documentSize, CoreTypes.MIN_WALLPAPER_REPEAT + i, aspect)
+    ).sort((a, b) => Math.abs(a.columns - requested) - Math.abs(b.columns - requested));
+    best = candidates.find(candidate => candidate.stretch <= MAX_CELL_STRETCH)
+      ?? candidates.reduce((a, b) => (b.stretch < a.stretch ? b : a));
+  }
+
+  const { cellWidth, cellHeight, columns, rows } = best;
+  return { cellWidth, cellHeight, columns, rows };
+}
+
+/**
+ * 単位胞あたりの対称操作（ドキュメント座標、格子の並進を除く）
+ * 面心格子では胞の中心への並進を合成した操作も含む
+ * @param group 壁紙群
+ * @param documentSize ドキュメントサイズ
+ * @param repeat 横方向の繰り返し数（getWallpaperLatticeを参照）
+ * @param origin 格子の原点（ドキュメント座標）
+ */
+export function createWallpaperCellTransforms(
+  group: WallpaperGroup,
+  documentSize: { width: number; height: number },
+  repeat: number,
+  origin: Point2D = { x: 0, y: 0 }
+): TransformMatrix[] {
+  const definition = WALLPAPER_GROUPS[group];
+  const aspect = getCellAspect(definition.lattice);
+  const { cellWidth, cellHeight } = getWallpaperLattice(group, documentSize, repeat);
+
+  // 単位胞座標 → ドキュメント座標（原点を格子の原点に置き、胞の大きさに拡大）
+  const cellToDocument = multiplyMatrices(
+    createTranslationMatrix(origin.x, origin.y),
+    affine(cellWidth, 0, 0, cellHeight / aspect)
+  );
+  const documentToCell = multiplyMatrices(
+    affine(1 / cellWidth, 0, 0, aspect / cellHeight),
+    createTranslationMatrix(-origin.x, -origin.y)
+  );
+
+  const centerings = definition.centered
+    ? [createIdentityMatrix(), createTranslationMatrix(0.5, aspect / 2)]
+    : [createIdentityMatrix()];
+
+  return centerings.flatMap(centering =>
+    definition.operations.map(operation =>
+      multiplyMatrices(cellToDocument, multiplyMatrices(multiplyMatrices(centering, operation), documentToCell))
+    )
+  );
+}
+
+/**
+ * 壁紙群の全コピーの変換行列（ドキュメント座標）
+ * 各対称操作について、格子の並進のうちsourceBoundsのコピーがドキュメントにかかるものをすべて返す
+ * 端をまたぐストロークは反対側の端にもコピーされる
+ * @param group 壁紙群
+ * @param documentSize ドキュメントサイズ
+ * @param repeat 横方向の繰り返し数（getWallpaperLatticeを参照）
+ * @param origin 格子の原点
+ * @param sourceBounds 元のストロークが描く範囲（省略時はドキュメント全体）
+ */
+export function createWallpaperTransforms(
+  group: WallpaperGroup,
+  documentSize: { width: number; height: number },
+  repeat: number,
+  origin: Point2D = { x: 0, y: 0 },
+  sourceBounds: Bounds = { x: 0, y: 0, width: documentSize.width, height: documentSize.height }
+): TransformMatrix[] {
+  const { cellWidth, cellHeight } = getWallpaperLattice(group, documentSize, repeat);
+  const period = { width: cellWidth, height: cellHeight };
+
+  return createWallpaperCellTransforms(group, documentSize, repeat, origin).flatMap(cellTransform =>
+    createPeriodicTransforms(cellTransform, sourceBounds, period, documentSize)
+  );
+}
+
+/**
+ * 格子の胞の境界線の位置（ドキュメント内、端は除く）
+ */
+export function getWallpaperCellBoundaries(
+  group: WallpaperGroup,
+  documentSize: { width: number; height: number },
+  repeat: number,
+  origin: Point2D = { x: 0, y: 0 }
+): { xs: number[]; ys: number[] } {
+  const { cellWidth, cellHeight } = getWallpaperLattice(group, documentSize, repeat);
+  const positions = (start: number, step: number, length: number) => {
+    const values: number[] = [];
+    for (let value = start - Math.floor(start / step) * step; value < length; value += step) {
+      if (value > 0) {
+        values.push(value);
+      }
+    }
+    return values;
+  };
+
+  return {
+    xs: positions(origin.x, cellWidth, documentSize.width),
+    ys: positions(origin.y, cellHeight, documentSize.height),
+  };
+}
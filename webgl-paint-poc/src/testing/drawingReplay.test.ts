@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import {
+  replaySession,
+  strokesToInputSteps,
+  parseDrawingSession,
+  InvalidDrawingSessionError,
+} from './drawingReplay';
+import type { DrawingSession } from './drawingReplay';
+import { horizontalLineStroke } from '../data/testStrokes';
+import { drawingStore } from '../store/drawingStore';
+import { DEFAULT_INPUT_CORRECTION_CONFIG } from '../input/inputCorrection';
+import { SymmetryType } from '../types/core';
+import type { ImageBuffer } from '../webgl/renderBackend';
+
+function pixelAt(image: ImageBuffer, x: number, y: number): number[] {
+  const i = (y * image.width + x) * 4;
+  return Array.from(image.data.subarray(i, i + 4));
+}
+
+// Horizontal fixture line at half size: y = 256, x from 100 to 400
+const lineSession = (symmetry: boolean): DrawingSession => ({
+  name: 'line',
+  canvasSize: { width: 512, height: 512 },
+  steps: [
+    { type: 'settings', settings: { symmetry: { enabled: symmetry, axisCount: 4, type: SymmetryType.DIHEDRAL }, brushSize: 8 } },
+    ...strokesToInputSteps([horizontalLineStroke], { scale: 0.5 }),
+  ],
+});
+
+describe('Drawing Replay', () => {
+  it('should turn strokes into start, move and end events', () => {
+    const steps = strokesToInputSteps([horizontalLineStroke], { scale: 0.5 });
+    const events = steps.flatMap(step => (step.type === 'input' ? [step.event] : []));
+
+    expect(events.map(event => event.type)).toEqual(['start', 'move', 'move', 'move', 'move', 'move', 'end']);
+    expect(events[0].position).toEqual({ canvasX: 100, canvasY: 256 });
+    expect(events[0].timestamp).toBe(0);
+    expect(events[6].timestamp).toBe(60);
+  });
+
+  it('should replay input through the coordinator into the document', () => {
+    const image = replaySession(lineSession(false));
+
+    expect(image.width).toBe(512);
+    expect(pixelAt(image, 250, 256)).toEqual([0, 0, 0, 255]);
+    expect(pixelAt(image, 256, 150)).toEqual([255, 255, 255, 255]);
+    expect(drawingStore.getState().history.strokes).toHaveLength(1);
+  });
+
+  it('should draw symmetry copies', () => {
+    const image = replaySession(lineSession(true));
+
+    // The 4-fold copy of the horizontal line is vertical through the centre
+    expect(pixelAt(image, 256, 150)).toEqual([0, 0, 0, 255]);
+  });
+
+  it('should apply input correction before drawing', () => {
+    const session = {
+      ...lineSession(false),
+      inputCorrection: DEFAULT_INPUT_CORRECTION_CONFIG,
+    };
+
+    expect(pixelAt(replaySession(session), 250, 256)[3]).toBe(255);
+  });
+
+  it('should add layers with their blend settings', () => {
+    const session = lineSession(false);
+    session.steps.push({ type: 'addLayer', name: 'overlay', opacity: 0.5 });
+    replaySession(session);
+
+    const { layers } = drawingStore.getState().layers;
+    expect(layers).toHaveLength(2);
+    expect(layers.find(layer => layer.name === 'overlay')?.opacity).toBe(0.5);
+  });
+
+  it('should parse sessions from JSON', () => {
+    const session = lineSession(false);
+
+    expect(parseDrawingSession(JSON.stringify(session))).toEqual(session);
+    expect(() => parseDrawingSession('{"name":"empty"}')).toThrow(InvalidDrawingSessionError);
+    expect(() =>
+      parseDrawingSession(JSON.stringify({ ...session, steps: [{ type: 'unknown' }] }))
+    ).toThrow(InvalidDrawingSessionError);
+    expect(() =>
+      parseDrawingSession(
+        JSON.stringify({ ...session, steps: [{ type: 'settings', settings: { symmetry: { enabled: true, axisCount: 6 } } }] })
+      )
+    ).toThrow(InvalidDrawingSessionError);
+  });
+});
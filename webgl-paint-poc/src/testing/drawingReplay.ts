@@ -0,0 +1,242 @@
+// Replays drawing sessions through the full DrawingCoordinator pipeline on the headless renderer
+// Input events go through the same correction, stores, symmetry and layer compositing as
+// in the app, so the exported pixels catch regressions unit tests cannot see.
+
+import { DrawingCoordinator } from '../app/DrawingCoordinator';
+import type { ExportImageOptions } from '../app/DrawingCoordinator';
+import { drawingStore, drawingSelectors } from '../store/drawingStore';
+import { viewStore, viewSelectors } from '../store/viewStore';
+import { createStreamingCorrector } from '../input/correctionPipeline';
+import type { InputCorrectionConfig } from '../input/inputCorrection';
+import type { NormalizedInputEvent } from '../input/InputEventHandler';
+import { createHeadlessRenderer } from '../software/headlessRenderer';
+import type { ImageBuffer } from '../webgl/renderBackend';
+import type { BlendMode, CanvasBackground, DrawingTool, StrokeData, SymmetryMode, SymmetryType, WallpaperGroup } from '../types/core';
+
+/**
+ * Drawing settings changed between strokes (unset fields keep their value)
+ */
+export interface SessionSettings {
+  symmetry?: {
+    enabled: boolean;
+    mode?: SymmetryMode;
+    axisCount?: number;
+    type?: SymmetryType;
+    center?: { x: number; y: number };
+    mirrorAngle?: number;
+    wallpaperGroup?: WallpaperGroup;
+    wallpaperRepeat?: number;
+  };
+  brushSize?: number;
+  brushId?: string;
+  color?: [number, number, number, number];
+  opacity?: number;
+  blendMode?: BlendMode;
+  tool?: DrawingTool;
+  background?: CanvasBackground;
+  wrapEdges?: boolean;
+}
+
+export type SessionStep =
+  | { type: 'input'; event: NormalizedInputEvent }
+  | { type: 'settings'; settings: SessionSettings }
+  | { type: 'addLayer'; name?: string; blendMode?: BlendMode; opacity?: number };
+
+const SESSION_STEP_TYPES: readonly SessionStep['type'][] = ['input', 'settings', 'addLayer'];
+
+/**
+ * A recorded or scripted drawing session (plain JSON)
+ */
+export interface DrawingSession {
+  name: string;
+  /** Document size in canvas pixels */
+  canvasSize: { width: number; height: number };
+  /** Correction applied to input events before drawing, as the app's input processor does */
+  inputCorrection?: InputCorrectionConfig;
+  steps: SessionStep[];
+}
+
+export class InvalidDrawingSessionError extends Error {
+  constructor(message: string) {
+    super(`Invalid drawing session: ${message}`);
+    this.name = 'InvalidDrawingSessionError';
+  }
+}
+
+/**
+ * Parse a session from JSON, checking the parts replay depends on
+ */
+export function parseDrawingSession(json: string): DrawingSession {
+  const session = JSON.parse(json) as Partial<DrawingSession>;
+  if (typeof session.name !== 'string') {
+    throw new InvalidDrawingSessionError('missing name');
+  }
+  if (!(session.canvasSize && session.canvasSize.width > 0 && session.canvasSize.height > 0)) {
+    throw new InvalidDrawingSessionError(`${session.name} has no canvas size`);
+  }
+  if (!Array.isArray(session.steps)) {
+    throw new InvalidDrawingSessionError(`${session.name} has no steps`);
+  }
+  for (const step of session.steps as Array<{ type?: unknown; settings?: SessionSettings }>) {
+    if (!SESSION_STEP_TYPES.includes(step.type as SessionStep['type'])) {
+      throw new InvalidDrawingSessionError(`${session.name} has an unknown step type: ${String(step.type)}`);
+    }
+    // The default symmetry type may change; an axis count alone would silently change the copies
+    const symmetry = step.settings?.symmetry;
+    if (symmetry?.axisCount !== undefined && symmetry.type === undefined) {
+      throw new InvalidDrawingSessionError(`${session.name} sets an axis count without a symmetry type`);
+    }
+  }
+  return session as DrawingSession;
+}
+
+/**
+ * Turn strokes into a session of pen input events (start, moves, end per stroke)
+ * Timestamps are rebased so the session does not depend on when the strokes were created.
+ */
+export function strokesToInputSteps(
+  strokes: readonly StrokeData[],
+  options: { scale?: number } = {}
+): SessionStep[] {
+  const scale = options.scale ?? 1;
+  const steps: SessionStep[] = [];
+  let time = 0;
+
+  for (const stroke of strokes) {
+    const start = stroke.points[0]?.timestamp ?? 0;
+    stroke.points.forEach((point, i) => {
+      const type = i === 0 ? 'start' : i === stroke.points.length - 1 ? 'end' : 'move';
+      steps.push({
+        type: 'input',
+        event: {
+          position: { canvasX: point.x * scale, canvasY: point.y * scale },
+          pressure: point.pressure,
+          timestamp: time + point.timestamp - start,
+          type,
+          deviceType: 'pen',
+          buttons: type === 'end' ? 0 : 1,
+        },
+      });
+    });
+    time += 1000;
+  }
+
+  return steps;
+}
+
+function applySettings(coordinator: DrawingCoordinator, settings: SessionSettings): void {
+  if (settings.symmetry) {
+    coordinator.updateSymmetry(settings.symmetry.enabled, settings.symmetry.axisCount, settings.symmetry.type);
+    if (settings.symmetry.mode !== undefined) {
+      coordinator.setSymmetryMode(settings.symmetry.mode);
+    }
+    if (settings.symmetry.center) {
+      drawingStore.getState().setCenterPoint(settings.symmetry.center);
+    }
+    if (settings.symmetry.mirrorAngle !== undefined) {
+      coordinator.setMirrorAngle(settings.symmetry.mirrorAngle);
+    }
+    if (settings.symmetry.wallpaperGroup !== undefined) {
+      coordinator.setWallpaperGroup(settings.symmetry.wallpaperGroup);
+    }
+    if (settings.symmetry.wallpaperRepeat !== undefined) {
+      coordinator.setWallpaperRepeat(settings.symmetry.wallpaperRepeat);
+    }
+  }
+  if (settings.wrapEdges !== undefined) {
+    coordinator.setWrapEdges(settings.wrapEdges);
+  }
+  if (settings.brushSize !== undefined) {
+    coordinator.setBrushSize(settings.brushSize);
+  }
+  if (settings.brushId !== undefined) {
+    coordinator.setBrush(settings.brushId);
+  }
+  if (settings.color) {
+    coordinator.setColor(settings.color);
+  }
+  if (settings.opacity !== undefined) {
+    coordinator.setOpacity(settings.opacity);
+  }
+  if (settings.blendMode !== undefined) {
+    coordinator.setBlendMode(settings.blendMode);
+  }
+  if (settings.tool !== undefined) {
+    coordinator.setTool(settings.tool);
+  }
+  if (settings.background) {
+    coordinator.setBackground(settings.background);
+  }
+}
+
+/**
+ * Replay a session on a fresh document and export it at document size
+ * Resets the drawing and view stores. Stroke ids (which seed stamp brush jitter) come from
+ * Date.now and Math.random, so pin both when a session uses stamp brushes.
+ */
+export function replaySession(session: DrawingSession, options: ExportImageOptions = {}): ImageBuffer {
+  drawingStore.getState().reset();
+  viewStore.getState().reset();
+  drawingStore.getState().initializeEngine(session.canvasSize);
+
+  const { width, height } = session.canvasSize;
+  const renderer = createHeadlessRenderer(width, height);
+  const coordinator = new DrawingCoordinator(renderer, () => drawingStore.getState(), () => false);
+  renderer.setViewTransform(viewSelectors.transform());
+
+  // Smoothing falls back to a faster method when it runs over its time budget;
+  // replay must not depend on machine speed
+  const corrector = session.inputCorrection
+    ? createStreamingCorrector({
+        ...session.inputCorrection,
+        smoothing: { ...session.inputCorrection.smoothing, maxProcessingTime: Infinity },
+        enablePerformanceMonitoring: false,
+      })
+    : null;
+
+  for (const step of session.steps) {
+    switch (step.type) {
+      case 'input': {
+        const { event } = step;
+        if (!corrector) {
+          coordinator.handleInputEvent(event);
+          break;
+        }
+        if (event.type === 'start') {
+          corrector.reset();
+        }
+        const corrected = corrector.processPoint({
+          x: event.position.canvasX,
+          y: event.position.canvasY,
+          pressure: event.pressure,
+          timestamp: event.timestamp,
+        });
+        for (const point of corrected) {
+          coordinator.handleInputEvent({
+            ...event,
+            position: { canvasX: point.x, canvasY: point.y },
+            pressure: point.pressure,
+            timestamp: point.timestamp,
+          });
+        }
+        break;
+      }
+      case 'settings':
+        applySettings(coordinator, step.settings);
+        break;
+      case 'addLayer': {
+        coordinator.addLayer(step.name);
+        const layerId = drawingSelectors.activeLayerId();
+        if (step.blendMode !== undefined) {
+          coordinator.setLayerBlendMode(layerId, step.blendMode);
+        }
+        if (step.opacity !== undefined) {
+          coordinator.setLayerOpacity(layerId, step.opacity);
+        }
+        break;
+      }
+    }
+  }
+
+  return coordinator.exportPixels(options);
+}
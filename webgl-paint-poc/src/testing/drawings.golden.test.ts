@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { commands } from '@vitest/browser/context';
+import { replaySession, parseDrawingSession } from './drawingReplay';
+import type { DrawingSession } from './drawingReplay';
+import { scriptedGoldenSessions, recordedGoldenSessions } from './goldenSessions';
+import { compareImages } from './goldenImage';
+import { encodePngBase64, decodePngBase64 } from '../software/png';
+import type { ImageBuffer } from '../webgl/renderBackend';
+
+// Run with VITE_UPDATE_GOLDEN=true to rewrite the baselines after an intended rendering change
+const UPDATE_GOLDEN = import.meta.env.VITE_UPDATE_GOLDEN === 'true';
+const GOLDEN_DIR = './__golden__';
+// A replay takes seconds (about 12 s per session under Node), well past the 5 s default
+const REPLAY_TIMEOUT_MS = 60000;
+
+async function readBaseline(path: string): Promise<ImageBuffer | null> {
+  let base64: string;
+  try {
+    base64 = await commands.readFile(path, 'base64');
+  } catch {
+    return null;
+  }
+  return decodePngBase64(base64);
+}
+
+/**
+ * Compare against the baseline PNG; on mismatch write <name>.actual.png and <name>.diff.png next to it
+ * A missing baseline is written and the test fails, so new baselines are always reviewed.
+ */
+async function expectToMatchGolden(name: string, image: ImageBuffer): Promise<void> {
+  const baselinePath = `${GOLDEN_DIR}/${name}.png`;
+  const baseline = UPDATE_GOLDEN ? null : await readBaseline(baselinePath);
+
+  if (!baseline) {
+    await commands.writeFile(baselinePath, encodePngBase64(image), 'base64');
+    if (!UPDATE_GOLDEN) {
+      expect.fail(`No golden image for ${name}; wrote ${baselinePath} for review`);
+    }
+    return;
+  }
+
+  const comparison = compareImages(image, baseline);
+  if (!comparison.matches) {
+    await commands.writeFile(`${GOLDEN_DIR}/${name}.actual.png`, encodePngBase64(image), 'base64');
+    await commands.writeFile(`${GOLDEN_DIR}/${name}.diff.png`, encodePngBase64(comparison.diff), 'base64');
+  }
+
+  expect(
+    comparison.matches,
+    `${name}: ${comparison.mismatchedPixels} pixels differ (max ${comparison.maxDifference}, ` +
+      `sizes ${image.width}x${image.height} vs ${baseline.width}x${baseline.height}); see ${name}.diff.png`
+  ).toBe(true);
+}
+
+async function loadRecordedSession(name: string): Promise<DrawingSession> {
+  return parseDrawingSession(await commands.readFile(`./sessions/${name}.json`));
+}
+
+describe('Golden Images (Browser Mode)', () => {
+  beforeEach(() => {
+    // Stroke ids seed stamp brush jitter
+    vi.useFakeTimers({ toFake: ['Date'], now: 0 });
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('Stroke fixtures', () => {
+    for (const session of scriptedGoldenSessions) {
+      it(`should render ${session.name}`, async () => {
+        await expectToMatchGolden(session.name, replaySession(session));
+      }, REPLAY_TIMEOUT_MS);
+    }
+  });
+
+  describe('Recorded sessions', () => {
+    for (const name of recordedGoldenSessions) {
+      it(`should render ${name}`, async () => {
+        await expectToMatchGolden(name, replaySession(await loadRecordedSession(name)));
+      }, REPLAY_TIMEOUT_MS);
+    }
+  });
+
+  it('should render the same session identically twice', () => {
+    const [session] = scriptedGoldenSessions;
+
+    expect(compareImages(replaySession(session), replaySession(session), { tolerance: 0 }).matches).toBe(true);
+  }, 2 * REPLAY_TIMEOUT_MS);
+});
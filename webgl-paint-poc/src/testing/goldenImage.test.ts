@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { compareImages } from './goldenImage';
+import type { ImageBuffer } from '../webgl/renderBackend';
+
+function createImage(width: number, height: number, rgba: readonly number[]): ImageBuffer {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) {
+    data.set(rgba, i);
+  }
+  return { width, height, data };
+}
+
+function setPixel(image: ImageBuffer, x: number, y: number, rgba: readonly number[]): void {
+  image.data.set(rgba, (y * image.width + x) * 4);
+}
+
+describe('Golden Image Comparison', () => {
+  it('should match identical images', () => {
+    const image = createImage(4, 4, [10, 20, 30, 255]);
+    const comparison = compareImages(image, createImage(4, 4, [10, 20, 30, 255]));
+
+    expect(comparison.matches).toBe(true);
+    expect(comparison.mismatchedPixels).toBe(0);
+  });
+
+  it('should allow differences within the tolerance', () => {
+    const expected = createImage(4, 4, [100, 100, 100, 255]);
+    const actual = createImage(4, 4, [100, 100, 100, 255]);
+    setPixel(actual, 1, 1, [102, 100, 99, 255]);
+
+    expect(compareImages(actual, expected).matches).toBe(true);
+    expect(compareImages(actual, expected, { tolerance: 1 }).mismatchedPixels).toBe(1);
+  });
+
+  it('should mark mismatched pixels in red in the diff', () => {
+    const expected = createImage(3, 3, [255, 255, 255, 255]);
+    const actual = createImage(3, 3, [255, 255, 255, 255]);
+    setPixel(actual, 2, 1, [0, 0, 0, 255]);
+
+    const comparison = compareImages(actual, expected);
+    const diffPixel = (x: number, y: number) => Array.from(comparison.diff.data.subarray((y * 3 + x) * 4, (y * 3 + x) * 4 + 4));
+
+    expect(comparison.matches).toBe(false);
+    expect(comparison.maxDifference).toBe(255);
+    expect(diffPixel(2, 1)).toEqual([255, 0, 0, 255]);
+    expect(diffPixel(0, 0)).toEqual([255, 255, 255, 255]);
+  });
+
+  it('should ignore the color of fully transparent pixels', () => {
+    const comparison = compareImages(createImage(2, 2, [255, 0, 0, 0]), createImage(2, 2, [0, 0, 255, 0]));
+
+    expect(comparison.matches).toBe(true);
+  });
+
+  it('should allow a number of mismatched pixels', () => {
+    const expected = createImage(4, 4, [0, 0, 0, 255]);
+    const actual = createImage(4, 4, [0, 0, 0, 255]);
+    setPixel(actual, 0, 0, [255, 255, 255, 255]);
+
+    expect(compareImages(actual, expected, { maxMismatchedPixels: 1 }).matches).toBe(true);
+  });
+
+  it('should not match images of different sizes', () => {
+    const comparison = compareImages(createImage(4, 3, [0, 0, 0, 255]), createImage(4, 4, [0, 0, 0, 255]));
+
+    expect(comparison.matches).toBe(false);
+    expect(comparison.sizeMatches).toBe(false);
+    expect(comparison.mismatchedPixels).toBe(4);
+    expect(comparison.diff.height).toBe(4);
+  });
+});
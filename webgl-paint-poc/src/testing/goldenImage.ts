@@ -0,0 +1,92 @@
+// Golden-image comparison: rendered drawings checked against PNG baselines
+
+import type { ImageBuffer } from '../webgl/renderBackend';
+
+export interface ImageComparisonOptions {
+  /** Largest per-channel difference (0-255, premultiplied) still counted as a match */
+  tolerance?: number;
+  /** Number of pixels allowed to exceed the tolerance */
+  maxMismatchedPixels?: number;
+}
+
+export interface ImageComparison {
+  matches: boolean;
+  /** Pixels over the tolerance, including pixels outside the other image */
+  mismatchedPixels: number;
+  /** Largest per-channel difference found (0-255) */
+  maxDifference: number;
+  sizeMatches: boolean;
+  /** Expected image faded to gray, with mismatched pixels in red (brighter for larger differences) */
+  diff: ImageBuffer;
+}
+
+export const DEFAULT_IMAGE_TOLERANCE = 2;
+
+// Premultiplied channel c of pixel (x, y), or transparent outside the image
+function premultipliedChannel(image: ImageBuffer, x: number, y: number, c: number): number {
+  if (x >= image.width || y >= image.height) {
+    return 0;
+  }
+  const i = (y * image.width + x) * 4;
+  const alpha = image.data[i + 3];
+  return c === 3 ? alpha : (image.data[i + c] * alpha) / 255;
+}
+
+/**
+ * Compare two images pixel by pixel
+ * Colors are compared premultiplied, so fully transparent pixels match whatever color they hold.
+ */
+export function compareImages(
+  actual: ImageBuffer,
+  expected: ImageBuffer,
+  options: ImageComparisonOptions = {}
+): ImageComparison {
+  const tolerance = options.tolerance ?? DEFAULT_IMAGE_TOLERANCE;
+  const maxMismatchedPixels = options.maxMismatchedPixels ?? 0;
+  const width = Math.max(actual.width, expected.width);
+  const height = Math.max(actual.height, expected.height);
+  const diffData = new Uint8ClampedArray(width * height * 4);
+
+  let mismatchedPixels = 0;
+  let maxDifference = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const inBoth = x < actual.width && y < actual.height && x < expected.width && y < expected.height;
+      let difference = 0;
+      for (let c = 0; c < 4; c++) {
+        difference = Math.max(
+          difference,
+          Math.abs(premultipliedChannel(actual, x, y, c) - premultipliedChannel(expected, x, y, c))
+        );
+      }
+      maxDifference = Math.max(maxDifference, difference);
+
+      const o = (y * width + x) * 4;
+      if (!inBoth || difference > tolerance) {
+        mismatchedPixels++;
+        diffData.set([128 + Math.min(difference, 127), 0, 0, 255], o);
+        continue;
+      }
+
+      // Expected luminance over white, faded so the red stands out
+      const luminance =
+        0.299 * premultipliedChannel(expected, x, y, 0) +
+        0.587 * premultipliedChannel(expected, x, y, 1) +
+        0.114 * premultipliedChannel(expected, x, y, 2) +
+        (255 - premultipliedChannel(expected, x, y, 3));
+      const faded = 255 - (255 - luminance) * 0.25;
+      diffData.set([faded, faded, faded, 255], o);
+    }
+  }
+
+  const sizeMatches = actual.width === expected.width && actual.height === expected.height;
+
+  return {
+    matches: sizeMatches && mismatchedPixels <= maxMismatchedPixels,
+    mismatchedPixels,
+    maxDifference,
+    sizeMatches,
+    diff: { width, height, data: diffData },
+  };
+}
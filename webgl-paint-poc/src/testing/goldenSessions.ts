@@ -0,0 +1,107 @@
+// Sessions checked against golden images
+// Scripted sessions replay the stroke fixtures (drawn for a 1024px document) at half size
+// to keep baselines small; recorded sessions are JSON files in ./sessions.
+
+import * as CoreTypes from '../types/core';
+import { testPatterns } from '../data/testStrokes';
+import { DEFAULT_INPUT_CORRECTION_CONFIG } from '../input/inputCorrection';
+import { strokesToInputSteps } from './drawingReplay';
+import type { DrawingSession } from './drawingReplay';
+
+const GOLDEN_CANVAS_SIZE = { width: 512, height: 512 };
+const FIXTURE_SCALE = GOLDEN_CANVAS_SIZE.width / 1024;
+
+const fixtureSteps = (strokes: readonly CoreTypes.StrokeData[]) =>
+  strokesToInputSteps(strokes, { scale: FIXTURE_SCALE });
+
+export const scriptedGoldenSessions: DrawingSession[] = [
+  {
+    name: 'single-strokes-radial-8',
+    canvasSize: GOLDEN_CANVAS_SIZE,
+    steps: [
+      { type: 'settings', settings: { symmetry: { enabled: true, axisCount: 8, type: CoreTypes.SymmetryType.CYCLIC }, brushSize: 6 } },
+      ...fixtureSteps(testPatterns.singleStrokes),
+    ],
+  },
+  {
+    // No symmetry settings, so this covers the app's default symmetry (dihedral, N = 4);
+    // curved strokes are not mirror-symmetric, so mirrored copies show up as distinct strokes
+    name: 'curved-strokes-default-symmetry',
+    canvasSize: GOLDEN_CANVAS_SIZE,
+    steps: [{ type: 'settings', settings: { brushSize: 4 } }, ...fixtureSteps(testPatterns.curvedStrokes)],
+  },
+  {
+    name: 'curved-strokes-dihedral-6-marker',
+    canvasSize: GOLDEN_CANVAS_SIZE,
+    steps: [
+      {
+        type: 'settings',
+        settings: {
+          symmetry: { enabled: true, axisCount: 6, type: CoreTypes.SymmetryType.DIHEDRAL },
+          brushSize: 5,
+          brushId: 'marker',
+          color: [0.1, 0.3, 0.8, 1],
+        },
+      },
+      ...fixtureSteps(testPatterns.curvedStrokes),
+    ],
+  },
+  {
+    name: 'angular-strokes-smoothed',
+    canvasSize: GOLDEN_CANVAS_SIZE,
+    inputCorrection: {
+      ...DEFAULT_INPUT_CORRECTION_CONFIG,
+      smoothing: { ...DEFAULT_INPUT_CORRECTION_CONFIG.smoothing, strength: 0.6, method: 'catmull-rom', realtimeMode: false },
+    },
+    steps: [
+      { type: 'settings', settings: { symmetry: { enabled: false }, brushSize: 8, brushId: 'chisel' } },
+      ...fixtureSteps(testPatterns.angularStrokes),
+      ...fixtureSteps(testPatterns.singleStrokes),
+    ],
+  },
+  {
+    name: 'layers-blend-erase',
+    canvasSize: GOLDEN_CANVAS_SIZE,
+    steps: [
+      {
+        type: 'settings',
+        settings: {
+          symmetry: { enabled: true, axisCount: 4, type: CoreTypes.SymmetryType.DIHEDRAL },
+          brushSize: 10,
+          color: [0.9, 0.2, 0.1, 1],
+          background: { type: CoreTypes.BackgroundType.SOLID, color: [0.96, 0.92, 0.84, 1] },
+        },
+      },
+      ...fixtureSteps(testPatterns.singleStrokes),
+      { type: 'addLayer', blendMode: CoreTypes.BlendMode.MULTIPLY, opacity: 0.7 },
+      { type: 'settings', settings: { color: [0.2, 0.4, 0.9, 1], opacity: 0.8 } },
+      ...fixtureSteps(testPatterns.curvedStrokes),
+      { type: 'settings', settings: { tool: CoreTypes.DrawingTool.ERASER, brushSize: 14 } },
+      ...fixtureSteps([testPatterns.angularStrokes[0]]),
+    ],
+  },
+  {
+    // Stamp jitter is seeded by stroke ids: replay with Date.now and Math.random pinned
+    name: 'stamp-brushes-cyclic-3',
+    canvasSize: GOLDEN_CANVAS_SIZE,
+    steps: [
+      {
+        type: 'settings',
+        settings: {
+          symmetry: { enabled: true, axisCount: 3, type: CoreTypes.SymmetryType.CYCLIC },
+          brushSize: 12,
+          brushId: 'airbrush',
+          color: [0.2, 0.6, 0.3, 1],
+        },
+      },
+      ...fixtureSteps(testPatterns.singleStrokes),
+      { type: 'settings', settings: { brushSize: 8, brushId: 'confetti', color: [0.8, 0.2, 0.6, 1] } },
+      ...fixtureSteps(testPatterns.curvedStrokes),
+    ],
+  },
+];
+
+/**
+ * Recorded sessions in ./sessions (without the .json extension)
+ */
+export const recordedGoldenSessions = ['pen-rosette'];
@@ -21,14 +21,14 @@ export interface PointerCoordinates {
  * Canvas座標系（内部データ保存用の論理座標）
  * - 原点: キャンバス左上角
  * - 単位: 論理ピクセル
- * - 範囲: 0 ～ 1024
+ * - 範囲: 0 ～ ドキュメントの幅・高さ（既定 1024x1024）
  * - Y軸: 下向きが正
- * - 対称中心: (512, 512)
+ * - 対称中心: 対称設定のcenterPoint（既定はドキュメント中心）
  */
 export interface CanvasCoordinates {
-  /** Canvas X座標（0-1024） */
+  /** Canvas X座標（0-ドキュメント幅） */
   canvasX: number;
-  /** Canvas Y座標（0-1024） */
+  /** Canvas Y座標（0-ドキュメント高さ） */
   canvasY: number;
 }
 
@@ -81,10 +81,10 @@ export interface ViewTransformState {
 
 // 定数定義
 
-/** Canvas座標系のサイズ（固定値） */
+/** Canvas座標系の既定サイズ（実際のサイズはドキュメントごとに設定される） */
 export const CANVAS_SIZE = 1024;
 
-/** Canvas座標系の中心点（対称変換の基準） */
+/** 既定サイズのCanvas座標系の中心点 */
 export const CANVAS_CENTER: CanvasCoordinates = {
   canvasX: 512,
   canvasY: 512,
@@ -122,12 +122,15 @@ export const CoordinateValidation = {
   /**
    * Canvas座標が有効範囲内かチェック
    */
-  isValidCanvasCoordinates(coords: CanvasCoordinates): boolean {
+  isValidCanvasCoordinates(
+    coords: CanvasCoordinates,
+    canvasSize: { width: number; height: number } = { width: CANVAS_SIZE, height: CANVAS_SIZE }
+  ): boolean {
     return (
       coords.canvasX >= 0 &&
-      coords.canvasX <= CANVAS_SIZE &&
+      coords.canvasX <= canvasSize.width &&
       coords.canvasY >= 0 &&
-      coords.canvasY <= CANVAS_SIZE
+      coords.canvasY <= canvasSize.height
     );
   },
 
@@ -174,6 +174,8 @@ describe('Core Types', () => {
             renderTime: 8,
             bufferUpdateTime: 2,
             totalFrameTime: 16,
+            dirtyRects: null,
+            redrawnArea: 1,
           },
         },
       };
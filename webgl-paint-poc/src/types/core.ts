@@ -3,8 +3,8 @@
 import type { ViewTransformState } from './coordinates';
 
 export interface StrokePoint {
-  x: number; // Canvas座標 (0-1024)
-  y: number; // Canvas座標 (0-1024)
+  x: number; // Canvas座標 (0-ドキュメント幅)
+  y: number; // Canvas座標 (0-ドキュメント高さ)
   pressure: number; // 筆圧 (0.0-1.0)
   timestamp: number; // ミリ秒タイムスタンプ
 }
@@ -16,25 +16,142 @@ export interface StrokeData {
   timestamp: number;
   completed?: boolean;
   metadata?: Record<string, unknown>;
+  style?: StrokeStyle; // 描画時のスタイル（未設定なら現在の設定で描画）
+  layerId?: string; // 所属レイヤー（未設定なら最下層のレイヤー）
+  mergedLayers?: MergedLayerGroup[]; // 下のレイヤーに統合される前に属していたレイヤー（外側のグループから順）
 }
 
+// 統合されたレイヤーの合成設定
+// 同じグループのストロークはまとめて描いてから合成するため、統合前と同じ見た目になる
+export interface MergedLayerGroup {
+  id: string; // 統合元のレイヤーID
+  visible: boolean;
+  opacity: number;
+  blendMode: BlendMode;
+}
+
+export const BlendMode = {
+  NORMAL: 'normal', // 通常（source-over）
+  MULTIPLY: 'multiply', // 乗算
+  SCREEN: 'screen', // スクリーン
+  ADDITIVE: 'additive', // 加算
+  DARKEN: 'darken', // 比較（暗）
+  LIGHTEN: 'lighten', // 比較（明）
+  OVERLAY: 'overlay', // オーバーレイ
+  ERASE: 'erase', // 消去（destination-out、消しゴムのストローク用）
+} as const;
+
+export type BlendMode = typeof BlendMode[keyof typeof BlendMode];
+
+export const DrawingTool = {
+  BRUSH: 'brush', // ブラシ
+  ERASER: 'eraser', // 消しゴム
+} as const;
+
+export type DrawingTool = typeof DrawingTool[keyof typeof DrawingTool];
+
+// ドキュメントのリサイズ・トリミング時に固定する位置（既存の描画はこの位置を基準に残る）
+export const ResizeAnchor = {
+  TOP_LEFT: 'top-left',
+  TOP: 'top',
+  TOP_RIGHT: 'top-right',
+  LEFT: 'left',
+  CENTER: 'center',
+  RIGHT: 'right',
+  BOTTOM_LEFT: 'bottom-left',
+  BOTTOM: 'bottom',
+  BOTTOM_RIGHT: 'bottom-right',
+} as const;
+
+export type ResizeAnchor = typeof ResizeAnchor[keyof typeof ResizeAnchor];
+
+// ドキュメント背景の種類（背景はレイヤーとは別のパスで描画され、書き出しに含めるか選べる）
+export const BackgroundType = {
+  TRANSPARENT: 'transparent', // 透明（表示時はチェッカーボード）
+  SOLID: 'solid', // 単色
+  PAPER: 'paper', // 紙テクスチャのタイル
+} as const;
+
+export type BackgroundType = typeof BackgroundType[keyof typeof BackgroundType];
+
+export interface CanvasBackground {
+  type: BackgroundType;
+  color: [number, number, number, number]; // 単色の色・紙の色味 RGBA (0.0-1.0)
+}
+
+export interface StrokeStyle {
+  color: [number, number, number, number]; // RGBA (0.0-1.0)
+  size: number; // ブラシサイズ (ピクセル)
+  opacity: number; // 不透明度 (0.0-1.0)
+  brushId: string; // ブラシプリセットID
+  blendMode: BlendMode; // 合成モード
+}
+
+/**
+ * 対称モード
+ * RADIAL_8: 中心まわりの放射対称（N回対称、回転のみ／回転と鏡映はSymmetryTypeで選ぶ）
+ * MIRROR_*: 中心を通る鏡映軸による線対称（軸の角度はmirrorAngleで回転できる）
+ * WALLPAPER: 17種の壁紙群による平面充填（ドキュメント全体が継ぎ目なく繰り返すタイルになる）
+ */
 export const SymmetryMode = {
   NONE: 'none',
-  RADIAL_8: 'radial_8', // 8軸放射対称
+  RADIAL_8: 'radial_8', // 放射対称（歴史的経緯で8軸の名前のまま）
+  MIRROR_VERTICAL: 'mirror_vertical', // 垂直軸で左右に鏡映（2コピー）
+  MIRROR_HORIZONTAL: 'mirror_horizontal', // 水平軸で上下に鏡映（2コピー）
+  MIRROR_QUAD: 'mirror_quad', // 垂直軸と水平軸の両方で鏡映（4コピー）
+  WALLPAPER: 'wallpaper', // 壁紙群（群はWallpaperGroupで選ぶ）
 } as const;
 
 export type SymmetryMode = typeof SymmetryMode[keyof typeof SymmetryMode];
 
+/**
+ * 壁紙群（国際記号の短縮形）
+ * 格子の形: p1・p2は斜方（矩形で近似）、pm〜cmmは矩形、p4〜p4gは正方形、p3〜p6mは六方
+ */
+export const WallpaperGroup = {
+  P1: 'p1',
+  P2: 'p2',
+  PM: 'pm',
+  PG: 'pg',
+  CM: 'cm',
+  PMM: 'pmm',
+  PMG: 'pmg',
+  PGG: 'pgg',
+  CMM: 'cmm',
+  P4: 'p4',
+  P4M: 'p4m',
+  P4G: 'p4g',
+  P3: 'p3',
+  P3M1: 'p3m1',
+  P31M: 'p31m',
+  P6: 'p6',
+  P6M: 'p6m',
+} as const;
+
+export type WallpaperGroup = typeof WallpaperGroup[keyof typeof WallpaperGroup];
+
+/**
+ * N回対称の種類
+ * CYCLIC: 回転のみ（巡回群 C_N、N個のコピー）
+ * DIHEDRAL: 回転と鏡映（二面体群 D_N、2N個のコピー）
+ */
+export const SymmetryType = {
+  CYCLIC: 'cyclic',
+  DIHEDRAL: 'dihedral',
+} as const;
+
+export type SymmetryType = typeof SymmetryType[keyof typeof SymmetryType];
+
 export interface SymmetryConfig {
   mode: SymmetryMode;
-  origin: { x: number; y: number }; // 対称原点 (固定: 512, 512)
+  origin: { x: number; y: number }; // 対称原点 (既定: ドキュメント中心)
   axisCount: number; // 対称軸数 (固定: 8)
 }
 
 export interface ViewState {
   zoomLevel: number; // ズームレベル (0.1-2.0)
   panOffset: { x: number; y: number }; // パン オフセット
-  canvasSize: { width: number; height: number }; // Canvas サイズ (固定: 1024x1024)
+  canvasSize: { width: number; height: number }; // Canvas サイズ (既定: 1024x1024)
   tilingEnabled: boolean; // タイリング表示有効/無効
   transform: ViewTransformState; // ビュー変換状態
 }
@@ -64,6 +181,18 @@ export interface FrameMetrics {
   renderTime: number; // 描画時間 (ミリ秒)
   bufferUpdateTime: number; // バッファ更新時間 (ミリ秒)
   totalFrameTime: number; // 総フレーム時間 (ミリ秒)
+  dirtyRects: DirtyRect[] | null; // 再描画した領域 (統合済み、nullは全体を再描画)
+  redrawnArea: number; // 再描画した面積のドキュメントに対する割合 (0.0-1.0)
+}
+
+/**
+ * 再描画が必要な矩形領域（キャンバス座標、整数ピクセル）
+ */
+export interface DirtyRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
 }
 
 export interface PerformanceMetrics {
@@ -93,9 +222,14 @@ export interface TilePosition {
 }
 
 // Constants
-export const CANVAS_SIZE = 1024;
-export const SYMMETRY_ORIGIN = { x: 512, y: 512 };
+export const CANVAS_SIZE = 1024; // 新規ドキュメントの既定サイズ（実際のサイズはdrawingStoreのcanvasSize）
+export const SYMMETRY_ORIGIN = { x: 512, y: 512 }; // 既定サイズのドキュメント中心
 export const SYMMETRY_AXIS_COUNT = 8;
+export const DEFAULT_SYMMETRY_TYPE: SymmetryType = SymmetryType.DIHEDRAL; // 種類を省略したN回対称の既定（ストアの初期値と同じ）
+export const MIN_SYMMETRY_AXIS_COUNT = 2; // N回対称のNの下限
+export const MAX_SYMMETRY_AXIS_COUNT = 64; // N回対称のNの上限
+export const MIN_WALLPAPER_REPEAT = 1; // 壁紙の横方向の繰り返し数の下限
+export const MAX_WALLPAPER_REPEAT = 8; // 壁紙の横方向の繰り返し数の上限
 export const TARGET_FPS = 60;
 export const MAX_INPUT_LATENCY_MS = 16;
 
@@ -106,6 +240,11 @@ export const DEFAULT_SYMMETRY_CONFIG: SymmetryConfig = {
   axisCount: SYMMETRY_AXIS_COUNT,
 };
 
+export const DEFAULT_CANVAS_BACKGROUND: CanvasBackground = {
+  type: BackgroundType.SOLID,
+  color: [1, 1, 1, 1],
+};
+
 export const DEFAULT_VIEW_STATE: ViewState = {
   zoomLevel: 1.0,
   panOffset: { x: 0, y: 0 },
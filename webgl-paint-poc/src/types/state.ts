@@ -3,7 +3,7 @@
  * コアステートとUIステートを明確に分離
  */
 
-import type { StrokeData, StrokePoint } from './core';
+import type { BlendMode, CanvasBackground, DrawingTool, StrokeData, StrokePoint, SymmetryMode, SymmetryType, WallpaperGroup } from './core';
 import type { ViewTransformState } from './coordinates';
 import type { NormalizedInputEvent } from '../input/InputEventHandler';
 
@@ -18,16 +18,28 @@ import type { NormalizedInputEvent } from '../input/InputEventHandler';
 export interface DrawingEngineState {
   /** WebGLレンダラーが初期化済みか */
   isInitialized: boolean;
-  /** キャンバスサイズ */
+  /** ドキュメントサイズ（Canvas座標系の幅・高さ） */
   canvasSize: { width: number; height: number };
+  /** ドキュメント背景（レイヤーとは別に描画され、書き出しに含めるか選べる） */
+  background: CanvasBackground;
+  /** ストロークが端を越えた部分を反対側の端に描くか（継ぎ目なく繰り返すタイル用） */
+  wrapEdges: boolean;
   /** 現在の描画色（RGBA 0-1） */
   color: [number, number, number, number];
   /** ブラシサイズ（ピクセル） */
   brushSize: number;
   /** ブラシの不透明度（0-1） */
   opacity: number;
+  /** ブラシプリセットID */
+  brushId: string;
+  /** 合成モード */
+  blendMode: BlendMode;
+  /** 選択中のツール */
+  tool: DrawingTool;
   /** 現在描画中かどうか */
   isDrawing: boolean;
+  /** 描画中のストロークが消しゴムか（ツール選択またはペンの消しゴム側） */
+  isErasing: boolean;
   /** 現在描画中のストローク */
   currentStroke: StrokePoint[];
 }
@@ -38,10 +50,20 @@ export interface DrawingEngineState {
 export interface SymmetryState {
   /** 対称描画が有効か */
   enabled: boolean;
-  /** 対称軸数 */
+  /** 対称モード（放射対称・鏡映対称） */
+  mode: SymmetryMode;
+  /** N回対称のN（2〜64） */
   axisCount: number;
-  /** 対称の中心点 */
+  /** 回転のみ（cyclic）か鏡映を含む（dihedral）か */
+  type: SymmetryType;
+  /** 対称の中心点（鏡映モードでは鏡映軸が通る点） */
   centerPoint: { x: number; y: number };
+  /** 鏡映軸の回転角度（ラジアン、0で垂直軸・水平軸が画面の縦横に揃う） */
+  mirrorAngle: number;
+  /** 壁紙モードの壁紙群 */
+  wallpaperGroup: WallpaperGroup;
+  /** 壁紙モードで格子がドキュメントの横方向に繰り返す数（1〜8） */
+  wallpaperRepeat: number;
 }
 
 /**
@@ -56,6 +78,65 @@ export interface ViewState {
   rotation: number;
   /** ビュー変換状態 */
   transform: ViewTransformState;
+  /** ズームアウト時（zoom < 1.0）にキャンバスをタイル状に繰り返し表示するか */
+  tilingEnabled: boolean;
+  /** タイル境界線を表示するか */
+  showTileBorders: boolean;
+  /** 対称ガイド線（鏡映軸・壁紙の格子）を表示するか（書き出しには含まれない） */
+  showSymmetryGuides: boolean;
+}
+
+/**
+ * レイヤーの状態
+ */
+export interface LayerState {
+  /** レイヤーID（ストロークの layerId と対応） */
+  id: string;
+  /** 表示名 */
+  name: string;
+  /** 表示/非表示 */
+  visible: boolean;
+  /** 不透明度 (0.0-1.0) */
+  opacity: number;
+  /** ロック中のレイヤーには描画できない */
+  locked: boolean;
+  /** 下のレイヤーへの合成モード */
+  blendMode: BlendMode;
+}
+
+/**
+ * レイヤー構成の状態
+ */
+export interface LayerStackState {
+  /** 下から上の順に並んだレイヤー（常に1枚以上） */
+  layers: LayerState[];
+  /** 描画先のレイヤーID */
+  activeLayerId: string;
+}
+
+/**
+ * レイヤー操作の前後どちらかの時点の履歴とレイヤー構成
+ */
+export interface LayerOperationSnapshot {
+  /** ストローク履歴（やり直し用の末尾を含む） */
+  strokes: StrokeData[];
+  /** その時点のヒストリーインデックス */
+  historyIndex: number;
+  /** レイヤー構成 */
+  layers: LayerStackState;
+}
+
+/**
+ * 履歴に記録したレイヤー操作（削除・統合・複製）
+ * アンドゥで操作前、リドゥで操作後の状態に戻す
+ */
+export interface LayerOperationEntry {
+  /** 操作したアクション名 */
+  action: 'removeLayer' | 'mergeLayerDown' | 'duplicateLayer';
+  /** 操作前の状態 */
+  before: LayerOperationSnapshot;
+  /** 操作後の状態（取り消した操作では取り消した時点のやり直し用の履歴を含む） */
+  after: LayerOperationSnapshot;
 }
 
 /**
@@ -68,6 +149,10 @@ export interface DrawingHistoryState {
   historyIndex: number;
   /** ヒストリーの最大保持数 */
   maxHistorySize: number;
+  /** 取り消せるレイヤー操作（古い順、ヒストリーインデックスが最後の操作の直後にあればアンドゥはその操作を取り消す） */
+  layerOperations: LayerOperationEntry[];
+  /** やり直せるレイヤー操作（最後に取り消したものが末尾） */
+  undoneLayerOperations: LayerOperationEntry[];
 }
 
 /**
@@ -219,6 +304,8 @@ export interface DrawingEngineActions {
   setColor: (color: [number, number, number, number]) => void;
   setBrushSize: (size: number) => void;
   setOpacity: (opacity: number) => void;
+  setBrushId: (brushId: string) => void;
+  setBlendMode: (blendMode: BlendMode) => void;
   cleanup: () => void;
   // 描画セッション管理
   startDrawing: (point: StrokePoint) => void;
@@ -234,7 +321,12 @@ export interface SymmetryActions {
   toggleSymmetry: () => void;
   setSymmetryEnabled: (enabled: boolean) => void;
   setAxisCount: (count: number) => void;
+  setSymmetryType: (type: SymmetryType) => void;
+  setSymmetryMode: (mode: SymmetryMode) => void;
   setCenterPoint: (point: { x: number; y: number }) => void;
+  setMirrorAngle: (angle: number) => void;
+  setWallpaperGroup: (group: WallpaperGroup) => void;
+  setWallpaperRepeat: (repeat: number) => void;
 }
 
 /**
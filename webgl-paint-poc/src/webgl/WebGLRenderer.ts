@@ -5,25 +5,39 @@
 
 import { 
   initializeRenderer, 
-  clearCanvas as clearCanvasFunc, 
-  renderStroke as renderStrokeFunc,
-  renderStrokes as renderStrokesFunc,
   renderStrokesAsPoints as renderStrokesAsPointsFunc,
-  setDrawingColor as setDrawingColorFunc,
-  setBrushSize as setBrushSizeFunc,
-  cleanupRenderer as cleanupRendererFunc,
+  registerBrushTip as registerBrushTipFunc,
+  isContextLost as isContextLostFunc,
+  restoreRenderer as restoreRendererFunc,
+  type CompositeLayer,
   type WebGLRenderer as WebGLRendererInterface 
 } from './renderer';
-import type { StrokeData } from '../types/core';
+import type { DirtyRect, StrokeData } from '../types/core';
+import type { TransformMatrix } from '../symmetry/transform';
+import type { GuideLine } from '../symmetry/symmetryGuides';
+import type { ViewTransformState } from '../types/coordinates';
+import { createCanvasDisplayInfo, createCanvasViewTransformMatrices } from '../input/coordinateTransformFunctions';
+import { getAvailableBrushes, type BrushPreset } from './brushes';
+import { createBrushTip, type BrushTip, type BrushTipPixels } from './brushTip';
+import type { BackgroundPass } from './background';
+import type { ShaderRegistry } from './shaderRegistry';
+import { createWebGLBackend, type RenderBackend, type ImageBuffer } from './renderBackend';
+import { watchContextLoss, type ContextLossHandlers, type WebGLBackend, type WebGLContextOptions } from './context';
 
 /**
  * WebGLレンダラークラス
  */
 export class WebGLRenderer {
   private renderer: WebGLRendererInterface;
+  /** 描画操作の実装（ソフトウェアラスタライザと共通のインターフェース） */
+  private backend: RenderBackend;
   private canvas: HTMLCanvasElement;
+  /** 登録されたブラシ先端の元データ（コンテキスト復帰時に再登録する） */
+  private brushTipSources = new Map<string, BrushTipPixels | TexImageSource>();
+  private contextLossCallbacks: Partial<ContextLossHandlers> = {};
+  private stopWatchingContext: () => void;
 
-  constructor(canvas: HTMLCanvasElement) {
+  constructor(canvas: HTMLCanvasElement, contextOptions: WebGLContextOptions = {}) {
     this.canvas = canvas;
     
     // Canvas要素にIDを設定（関数型レンダラーがIDを要求するため）
@@ -31,28 +45,185 @@ export class WebGLRenderer {
       canvas.id = `webgl-canvas-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
     }
     
-    this.renderer = initializeRenderer(canvas.id);
+    // 描画バッファの保持（部分再描画に必要）はcontextOptionsで指定した場合のみ
+    this.renderer = initializeRenderer(canvas.id, contextOptions);
+    this.backend = createWebGLBackend(this.renderer);
+    this.stopWatchingContext = watchContextLoss(canvas, {
+      onLost: () => this.handleContextLost(),
+      onRestored: () => this.handleContextRestored(),
+    });
+  }
+
+  /**
+   * コンテキスト消失・復帰時のコールバックを設定
+   * onRestoredはGPUリソースの再作成後に呼ばれるので、描画内容の再構築に使う
+   */
+  setContextLossCallbacks(callbacks: Partial<ContextLossHandlers>): void {
+    this.contextLossCallbacks = callbacks;
+  }
+
+  /**
+   * WebGLコンテキストが消失中か
+   */
+  isContextLost(): boolean {
+    return isContextLostFunc(this.renderer);
+  }
+
+  /**
+   * コンテキスト消失時の処理
+   * 消失中のGPUハンドルは無効なので、復帰まで描画を止めるよう通知のみ行う
+   */
+  private handleContextLost(): void {
+    console.warn('WebGL context lost, rendering paused until it is restored');
+    this.contextLossCallbacks.onLost?.();
+  }
+
+  /**
+   * コンテキスト復帰時の処理
+   * シェーダー・バッファ・ブラシ先端を作り直してから通知する
+   */
+  private handleContextRestored(): void {
+    restoreRendererFunc(this.renderer);
+
+    for (const [id, source] of this.brushTipSources) {
+      registerBrushTipFunc(this.renderer, createBrushTip(this.renderer.gl, id, source));
+    }
+
+    this.contextLossCallbacks.onRestored?.();
   }
 
   /**
    * キャンバスをクリア
+   * 透明にクリアしてからドキュメント背景を描画する
    */
   clear(): void {
-    clearCanvasFunc(this.renderer);
+    this.backend.clear();
+  }
+
+  /**
+   * クリア時に描画するドキュメント背景を設定（nullで背景なし）
+   */
+  setBackground(background: BackgroundPass | null): void {
+    this.backend.setBackground(background);
   }
 
   /**
    * 単一ストロークを描画
    */
   renderStroke(stroke: StrokeData): void {
-    renderStrokeFunc(this.renderer, stroke);
+    this.backend.renderStroke(stroke);
+  }
+
+  /**
+   * 単一ストロークを変換行列ごとに複製してインスタンス描画
+   * 頂点データは1回だけ転送し、対称コピーはGPU側で変換する
+   */
+  renderStrokeInstanced(stroke: StrokeData, transforms: readonly TransformMatrix[]): void {
+    this.backend.renderStrokeInstanced(stroke, transforms);
+  }
+
+  /**
+   * インスタンス描画（ANGLE_instanced_arrays）が使えるか
+   */
+  supportsInstancing(): boolean {
+    return this.backend.supportsInstancing();
   }
 
   /**
    * 複数ストロークを描画
    */
   renderStrokes(strokes: StrokeData[]): void {
-    renderStrokesFunc(this.renderer, strokes);
+    this.backend.renderStrokes(strokes);
+  }
+
+  /**
+   * レイヤーの確定済みストロークをレイヤーごとのキャッシュ（オフスクリーンテクスチャ）に焼き込む
+   * 追加分のみ描画し、それ以外の変化（アンドゥ・クリア・contentKeyの変更）では再構築する
+   * キャッシュが使えない場合はfalseを返すので、呼び出し側で直接描画すること
+   */
+  updateLayerCache(
+    layerId: string,
+    strokes: readonly StrokeData[],
+    contentKey: string,
+    drawStroke?: (stroke: StrokeData) => void
+  ): boolean {
+    return this.backend.updateLayerCache(layerId, strokes, contentKey, drawStroke);
+  }
+
+  /**
+   * レイヤーキャッシュを下から順に不透明度を適用してキャンバスに合成
+   */
+  compositeLayers(layers: readonly CompositeLayer[]): void {
+    this.backend.compositeLayers(layers);
+  }
+
+  /**
+   * レイヤーキャッシュをビューポート全体にタイル状に繰り返して合成
+   * showBordersがtrueの場合はタイル境界線も描画する
+   */
+  compositeLayersTiled(layers: readonly CompositeLayer[], showBorders: boolean = false): void {
+    this.backend.compositeLayersTiled(layers, showBorders);
+  }
+
+  /**
+   * drawで描いたストロークをレイヤーグループにまとめ、レイヤーと同じ設定で描画先に合成
+   * 下のレイヤーに統合されたレイヤーのストロークを統合前と同じ見た目で描くために使う
+   */
+  drawLayerGroup(group: CompositeLayer, draw: () => void): void {
+    this.backend.drawLayerGroup(group, draw);
+  }
+
+  /**
+   * ガイド線（鏡映軸など、ドキュメント座標）をキャンバスに重ねて描画
+   */
+  drawGuideLines(lines: readonly GuideLine[]): void {
+    this.backend.drawGuideLines(lines);
+  }
+
+  /**
+   * レイヤーキャッシュに描画中のストロークを重ねたプレビューを作成
+   * endLayerPreview()までの合成ではキャッシュの代わりにプレビューを使う
+   * @returns プレビューを作成できた場合true
+   */
+  beginLayerPreview(layerId: string, drawStrokes: () => void): boolean {
+    return this.backend.beginLayerPreview(layerId, drawStrokes);
+  }
+
+  /**
+   * プレビューを終了し、キャッシュから合成する状態に戻す
+   */
+  endLayerPreview(): void {
+    this.backend.endLayerPreview();
+  }
+
+  /**
+   * 次のフレームで再描画する領域を設定（キャンバス座標、nullで全体を再描画）
+   * クリア・レイヤープレビュー・合成がシザーテストでこの領域に限定される
+   */
+  setDirtyRects(rects: readonly DirtyRect[] | null): void {
+    this.backend.setDirtyRects(rects);
+  }
+
+  /**
+   * 描画バッファがフレーム間で保持され、部分再描画が使えるか
+   * preserveDrawingBufferを指定せずに作った場合はfalse（常に全体を再描画する）
+   */
+  supportsPartialRedraw(): boolean {
+    return this.backend.supportsPartialRedraw();
+  }
+
+  /**
+   * すべてのレイヤーキャッシュを無効化（次回更新時に再構築）
+   */
+  invalidateLayerCaches(): void {
+    this.backend.invalidateLayerCaches();
+  }
+
+  /**
+   * 削除されたレイヤーのキャッシュを解放
+   */
+  retainLayerCaches(layerIds: readonly string[]): void {
+    this.backend.retainLayerCaches(layerIds);
   }
 
   /**
@@ -66,14 +237,79 @@ export class WebGLRenderer {
    * 描画色を設定
    */
   setDrawingColor(r: number, g: number, b: number, a: number = 1.0): void {
-    setDrawingColorFunc(this.renderer, r, g, b, a);
+    this.backend.setDrawingColor(r, g, b, a);
   }
 
   /**
    * ブラシサイズを設定
    */
   setBrushSize(size: number): void {
-    setBrushSizeFunc(this.renderer, size);
+    this.backend.setBrushSize(size);
+  }
+
+  /**
+   * ブラシ（線の結合・端点形状）を選択
+   */
+  setBrush(brushId: string): void {
+    this.backend.setBrush(brushId);
+  }
+
+  /**
+   * 現在のブラシを取得
+   */
+  getBrush(): BrushPreset {
+    return this.backend.getBrush();
+  }
+
+  /**
+   * 利用可能なブラシ一覧を取得
+   */
+  getAvailableBrushes(): BrushPreset[] {
+    return getAvailableBrushes();
+  }
+
+  /**
+   * ブラシ先端テクスチャを登録（スタンプブラシ用）
+   * 画像のアルファチャンネルがスタンプの形状として使われる
+   */
+  registerBrushTip(id: string, source: BrushTipPixels | TexImageSource): BrushTip {
+    const tip = createBrushTip(this.renderer.gl, id, source);
+    registerBrushTipFunc(this.renderer, tip);
+    this.brushTipSources.set(id, source);
+    return tip;
+  }
+
+  /**
+   * 登録済みのブラシ先端IDを取得
+   */
+  getBrushTipIds(): string[] {
+    return Array.from(this.renderer.brushTips.keys());
+  }
+
+  /**
+   * アンチエイリアスの幅（キャンバスピクセル）を設定
+   */
+  setAntialiasWidth(width: number): void {
+    this.backend.setAntialiasWidth(width);
+  }
+
+  /**
+   * アンチエイリアスの幅（キャンバスピクセル）を取得
+   */
+  getAntialiasWidth(): number {
+    return this.backend.getAntialiasWidth();
+  }
+
+  /**
+   * ビュー変換（ズーム・パン・回転）を描画に反映
+   * 入力側と同じcanvasToView行列を使うため、表示位置と入力位置が一致する
+   */
+  setViewTransform(viewTransform: ViewTransformState): void {
+    const { canvasToView } = createCanvasViewTransformMatrices(
+      createCanvasDisplayInfo(this.canvas),
+      viewTransform
+    );
+    this.backend.setViewMatrix(canvasToView);
   }
 
   /**
@@ -83,6 +319,38 @@ export class WebGLRenderer {
     return this.canvas;
   }
 
+  /**
+   * このコンテキストのシェーダーレジストリを取得
+   * 登録したプログラムは初回使用時にコンパイルされ、cleanup時にまとめて破棄される
+   */
+  getShaderRegistry(): ShaderRegistry {
+    return this.renderer.shaderRegistry;
+  }
+
+  /**
+   * 描画バックエンドを取得
+   * 同じ操作をソフトウェアラスタライザ（createSoftwareBackend）でも実行できる
+   */
+  getBackend(): RenderBackend {
+    return this.backend;
+  }
+
+  /**
+   * 描画結果をストレートアルファのRGBA（上の行から）で読み出す
+   * 描画バッファを保持しない場合（既定）は、描画と同じタスク内で呼ぶこと
+   */
+  readPixels(): ImageBuffer {
+    return this.backend.readPixels();
+  }
+
+  /**
+   * 描画内容を画像のdata URLとして取得
+   * 描画バッファを保持しない場合（既定）は、描画と同じタスク内で呼ぶ
+   */
+  toDataURL(type: string = 'image/png'): string {
+    return this.canvas.toDataURL(type);
+  }
+
   /**
    * 内部WebGLレンダラーを取得（デバッグ用）
    */
@@ -91,7 +359,7 @@ export class WebGLRenderer {
   }
 
   /**
-   * レンダラーのビューポートサイズを取得
+   * レンダラーのビューポートサイズ（バッキングストアのデバイスピクセル）を取得
    */
   getViewportSize(): { width: number; height: number } {
     return {
@@ -100,25 +368,57 @@ export class WebGLRenderer {
     };
   }
 
+  /**
+   * 描画ドキュメントのサイズ（Canvas座標系）を取得
+   * 高DPI環境ではビューポートサイズと異なる
+   */
+  getDocumentSize(): { width: number; height: number } {
+    return this.backend.getDocumentSize();
+  }
+
+  /**
+   * 描画ドキュメントのサイズを変更
+   * レイヤーキャッシュは破棄されて次の描画で再構築される。ビュー変換は呼び出し側で再設定すること
+   */
+  resizeDocument(width: number, height: number): void {
+    this.backend.resizeDocument(width, height);
+  }
+
+  /**
+   * バッキングストアのサイズを変更し、ビューポートを合わせる
+   * Canvasの内容は消えるため、呼び出し側で再描画すること
+   */
+  resizeDrawingBuffer(width: number, height: number): void {
+    this.backend.resizeDrawingBuffer(width, height);
+  }
+
   /**
    * WebGLコンテキストの情報を取得
+   * backendは起動時に選ばれた描画バックエンド（WebGL2が使えない環境ではwebgl1）
    */
   getContextInfo(): {
+    backend: WebGLBackend;
     vendor: string;
     renderer: string;
     version: string;
     maxTextureSize: number;
+    instancing: boolean;
+    vertexArrays: boolean;
+    msaaSamples: number;
+    floatRenderTargets: boolean;
   } {
-    const gl = this.canvas.getContext('webgl') || this.canvas.getContext('experimental-webgl') as WebGLRenderingContext | null;
-    if (!gl) {
-      throw new Error('WebGL context not available');
-    }
+    const { gl, features } = this.renderer;
 
     return {
+      backend: features.backend,
       vendor: gl.getParameter(gl.VENDOR) || 'Unknown',
       renderer: gl.getParameter(gl.RENDERER) || 'Unknown',
       version: gl.getParameter(gl.VERSION) || 'Unknown',
       maxTextureSize: gl.getParameter(gl.MAX_TEXTURE_SIZE) || 0,
+      instancing: features.instancedArrays !== null,
+      vertexArrays: features.vertexArrays !== null,
+      msaaSamples: features.msaaSamples,
+      floatRenderTargets: features.floatRenderTargets,
     };
   }
 
@@ -126,6 +426,7 @@ export class WebGLRenderer {
    * リソースをクリーンアップ
    */
   cleanup(): void {
-    cleanupRendererFunc(this.renderer);
+    this.stopWatchingContext();
+    this.backend.cleanup();
   }
 }
\ No newline at end of file
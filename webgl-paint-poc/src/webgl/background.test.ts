@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getBackgroundPass,
+  generateCheckerboardPixels,
+  generatePaperPixels,
+  CHECKERBOARD_CELL_SIZE,
+  PAPER_TEXTURE_SIZE,
+} from './background';
+import { BackgroundType } from '../types/core';
+
+describe('Document Background', () => {
+  describe('getBackgroundPass', () => {
+    it('should premultiply a solid color', () => {
+      const pass = getBackgroundPass({ type: BackgroundType.SOLID, color: [1, 0.5, 0, 0.5] }, true);
+
+      expect(pass).toEqual({ pattern: 'solid', color: [0.5, 0.25, 0, 0.5], tileSize: 1 });
+    });
+
+    it('should show a checkerboard for a transparent document on screen', () => {
+      const pass = getBackgroundPass({ type: BackgroundType.TRANSPARENT, color: [1, 1, 1, 1] }, true);
+
+      expect(pass?.pattern).toBe('checkerboard');
+      expect(pass?.tileSize).toBe(CHECKERBOARD_CELL_SIZE * 2);
+    });
+
+    it('should draw nothing for a transparent document on export', () => {
+      expect(getBackgroundPass({ type: BackgroundType.TRANSPARENT, color: [1, 1, 1, 1] }, false)).toBeNull();
+    });
+
+    it('should keep solid and paper backgrounds on export', () => {
+      const paper = getBackgroundPass({ type: BackgroundType.PAPER, color: [1, 0.9, 0.8, 1] }, false);
+
+      expect(paper).toEqual({ pattern: 'paper', color: [1, 0.9, 0.8, 1], tileSize: PAPER_TEXTURE_SIZE });
+    });
+  });
+
+  describe('Pattern pixels', () => {
+    it('should alternate checkerboard cells', () => {
+      const { width, height, pixels } = generateCheckerboardPixels();
+
+      expect(width).toBe(2);
+      expect(height).toBe(2);
+      expect(pixels[0]).toBe(pixels[12]);
+      expect(pixels[4]).toBe(pixels[8]);
+      expect(pixels[0]).not.toBe(pixels[4]);
+    });
+
+    it('should generate opaque, light paper grain', () => {
+      const { pixels } = generatePaperPixels(32);
+      let min = 255;
+
+      for (let i = 0; i < pixels.length; i += 4) {
+        expect(pixels[i + 3]).toBe(255);
+        min = Math.min(min, pixels[i]);
+      }
+
+      expect(min).toBeGreaterThanOrEqual(Math.floor(0.88 * 255));
+      expect(min).toBeLessThan(255);
+    });
+
+    it('should be deterministic for a seed', () => {
+      expect(generatePaperPixels(32, 7).pixels).toEqual(generatePaperPixels(32, 7).pixels);
+    });
+  });
+});
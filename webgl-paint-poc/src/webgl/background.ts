@@ -0,0 +1,226 @@
+// Document background: drawn as its own pass beneath the layers
+
+import * as CoreTypes from '../types/core';
+import type { PremultipliedColor } from './blending';
+import { createSeededRandom } from './stamps';
+
+type CanvasBackground = CoreTypes.CanvasBackground;
+
+/**
+ * Texture patterns the background pass can repeat
+ * 'solid' is a 1x1 white texture, so the pass color alone decides the output.
+ */
+export type BackgroundPattern = 'solid' | 'checkerboard' | 'paper';
+
+/**
+ * What the background pass draws
+ */
+export interface BackgroundPass {
+  pattern: BackgroundPattern;
+  /** Premultiplied tint multiplied into the pattern */
+  color: PremultipliedColor;
+  /** Canvas pixels covered by one repeat of the pattern texture */
+  tileSize: number;
+}
+
+/**
+ * Textures for every background pattern
+ */
+export type BackgroundTextures = Record<BackgroundPattern, WebGLTexture>;
+
+/**
+ * Raw RGBA pixels for a pattern texture
+ */
+export interface PatternPixels {
+  width: number;
+  height: number;
+  pixels: Uint8Array;
+}
+
+/**
+ * Size of one checkerboard cell in canvas pixels
+ */
+export const CHECKERBOARD_CELL_SIZE = 8;
+
+/**
+ * Size of the paper texture (power of two so it can repeat and mipmap in WebGL 1)
+ */
+export const PAPER_TEXTURE_SIZE = 256;
+
+// Checkerboard cell shades (0-255)
+const CHECKERBOARD_LIGHT = 255;
+const CHECKERBOARD_DARK = 204;
+
+// Lightest and darkest paper shades (0-1)
+const PAPER_MIN_SHADE = 0.88;
+const PAPER_MAX_SHADE = 1.0;
+
+// Noise lattice sizes (cells per texture) and their weights, coarse to fine
+const PAPER_OCTAVES: ReadonlyArray<[number, number]> = [
+  [8, 0.4],
+  [32, 0.35],
+  [128, 0.25],
+];
+
+export class BackgroundTextureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackgroundTextureError';
+  }
+}
+
+/**
+ * Decide what the background pass draws for a document background
+ * Transparent documents show a checkerboard on screen; with showTransparency
+ * false (export) they have no background pass at all.
+ */
+export function getBackgroundPass(
+  background: CanvasBackground,
+  showTransparency: boolean
+): BackgroundPass | null {
+  const [r, g, b, a] = background.color;
+  const color: PremultipliedColor = [r * a, g * a, b * a, a];
+
+  switch (background.type) {
+    case CoreTypes.BackgroundType.TRANSPARENT:
+      return showTransparency
+        ? { pattern: 'checkerboard', color: [1, 1, 1, 1], tileSize: CHECKERBOARD_CELL_SIZE * 2 }
+        : null;
+    case CoreTypes.BackgroundType.SOLID:
+      return { pattern: 'solid', color, tileSize: 1 };
+    case CoreTypes.BackgroundType.PAPER:
+      return { pattern: 'paper', color, tileSize: PAPER_TEXTURE_SIZE };
+  }
+}
+
+/**
+ * Generate a 2x2 checkerboard; one texel per cell
+ */
+export function generateCheckerboardPixels(): PatternPixels {
+  const light = [CHECKERBOARD_LIGHT, CHECKERBOARD_LIGHT, CHECKERBOARD_LIGHT, 255];
+  const dark = [CHECKERBOARD_DARK, CHECKERBOARD_DARK, CHECKERBOARD_DARK, 255];
+
+  return {
+    width: 2,
+    height: 2,
+    pixels: new Uint8Array([...light, ...dark, ...dark, ...light]),
+  };
+}
+
+/**
+ * Generate opaque grayscale paper grain
+ * Value noise on lattices that divide the texture size, wrapped at the
+ * edges, so the texture repeats without seams.
+ */
+export function generatePaperPixels(size: number = PAPER_TEXTURE_SIZE, seed: number = 1): PatternPixels {
+  const random = createSeededRandom(seed);
+  const octaves = PAPER_OCTAVES.map(([cells, weight]) => {
+    const lattice = new Float32Array(cells * cells);
+    for (let i = 0; i < lattice.length; i++) {
+      lattice[i] = random();
+    }
+    return { cells, weight, lattice };
+  });
+
+  const pixels = new Uint8Array(size * size * 4);
+
+  for (let py = 0; py < size; py++) {
+    for (let px = 0; px < size; px++) {
+      let noise = 0;
+
+      for (const { cells, weight, lattice } of octaves) {
+        const x = (px / size) * cells;
+        const y = (py / size) * cells;
+        const x0 = Math.floor(x);
+        const y0 = Math.floor(y);
+        const x1 = (x0 + 1) % cells;
+        const y1 = (y0 + 1) % cells;
+        // Smoothstep so lattice lines do not show
+        const tx = (x - x0) * (x - x0) * (3 - 2 * (x - x0));
+        const ty = (y - y0) * (y - y0) * (3 - 2 * (y - y0));
+
+        const top = lattice[y0 * cells + x0] * (1 - tx) + lattice[y0 * cells + x1] * tx;
+        const bottom = lattice[y1 * cells + x0] * (1 - tx) + lattice[y1 * cells + x1] * tx;
+        noise += (top * (1 - ty) + bottom * ty) * weight;
+      }
+
+      const shade = Math.round((PAPER_MIN_SHADE + noise * (PAPER_MAX_SHADE - PAPER_MIN_SHADE)) * 255);
+      const offset = (py * size + px) * 4;
+      pixels[offset] = shade;
+      pixels[offset + 1] = shade;
+      pixels[offset + 2] = shade;
+      pixels[offset + 3] = 255;
+    }
+  }
+
+  return { width: size, height: size, pixels };
+}
+
+/**
+ * Upload a repeating pattern texture
+ * Sizes must be powers of two for REPEAT wrapping in WebGL 1.
+ */
+function createPatternTexture(
+  gl: WebGLRenderingContext,
+  source: PatternPixels,
+  smooth: boolean
+): WebGLTexture {
+  const texture = gl.createTexture();
+  if (!texture) {
+    throw new BackgroundTextureError('Failed to create background texture');
+  }
+
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, source.width, source.height, 0, gl.RGBA, gl.UNSIGNED_BYTE, source.pixels);
+
+  if (smooth) {
+    // Zoomed out the grain is drawn smaller than the texture
+    gl.generateMipmap(gl.TEXTURE_2D);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR_MIPMAP_LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+  } else {
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+  }
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.REPEAT);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.REPEAT);
+
+  gl.bindTexture(gl.TEXTURE_2D, null);
+  return texture;
+}
+
+/**
+ * Create the textures for every background pattern
+ */
+export function createBackgroundTextures(gl: WebGLRenderingContext): BackgroundTextures {
+  const white: PatternPixels = { width: 1, height: 1, pixels: new Uint8Array([255, 255, 255, 255]) };
+  const created: WebGLTexture[] = [];
+
+  try {
+    const create = (source: PatternPixels, smooth: boolean) => {
+      const texture = createPatternTexture(gl, source, smooth);
+      created.push(texture);
+      return texture;
+    };
+
+    return {
+      solid: create(white, false),
+      checkerboard: create(generateCheckerboardPixels(), false),
+      paper: create(generatePaperPixels(), true),
+    };
+  } catch (error) {
+    created.forEach(texture => gl.deleteTexture(texture));
+    throw error;
+  }
+}
+
+/**
+ * Delete background pattern textures
+ */
+export function deleteBackgroundTextures(gl: WebGLRenderingContext, textures: BackgroundTextures): void {
+  for (const texture of Object.values(textures)) {
+    if (gl.isTexture(texture)) {
+      gl.deleteTexture(texture);
+    }
+  }
+}
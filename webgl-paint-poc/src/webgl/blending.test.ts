@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import {
+  blendPremultiplied,
+  blendChannel,
+  isFixedFunctionBlendMode,
+  BLEND_MODE_SHADER_IDS,
+} from './blending';
+import type { PremultipliedColor } from './blending';
+import { BlendMode } from '../types/core';
+
+const expectColor = (actual: PremultipliedColor, expected: PremultipliedColor) => {
+  actual.forEach((value, i) => expect(value).toBeCloseTo(expected[i], 5));
+};
+
+describe('Blend Modes', () => {
+  const white: PremultipliedColor = [1, 1, 1, 1];
+  const grey: PremultipliedColor = [0.5, 0.5, 0.5, 1];
+  const red: PremultipliedColor = [1, 0, 0, 1];
+  const transparent: PremultipliedColor = [0, 0, 0, 0];
+
+  it('should give every mode a distinct shader id', () => {
+    const ids = Object.values(BlendMode).map(mode => BLEND_MODE_SHADER_IDS[mode]);
+
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(BLEND_MODE_SHADER_IDS[BlendMode.NORMAL]).toBe(0);
+  });
+
+  it('should only use fixed-function blending for normal, additive and erase', () => {
+    expect(isFixedFunctionBlendMode(BlendMode.NORMAL)).toBe(true);
+    expect(isFixedFunctionBlendMode(BlendMode.ADDITIVE)).toBe(true);
+    expect(isFixedFunctionBlendMode(BlendMode.ERASE)).toBe(true);
+    expect(isFixedFunctionBlendMode(BlendMode.MULTIPLY)).toBe(false);
+    expect(isFixedFunctionBlendMode(BlendMode.OVERLAY)).toBe(false);
+  });
+
+  it('should composite opaque colors', () => {
+    expectColor(blendPremultiplied(grey, red, BlendMode.NORMAL), grey);
+    expectColor(blendPremultiplied(grey, red, BlendMode.MULTIPLY), [0.5, 0, 0, 1]);
+    expectColor(blendPremultiplied(grey, red, BlendMode.SCREEN), [1, 0.5, 0.5, 1]);
+    expectColor(blendPremultiplied(grey, red, BlendMode.ADDITIVE), [1, 0.5, 0.5, 1]);
+    expectColor(blendPremultiplied(grey, red, BlendMode.DARKEN), [0.5, 0, 0, 1]);
+    expectColor(blendPremultiplied(grey, red, BlendMode.LIGHTEN), [1, 0.5, 0.5, 1]);
+  });
+
+  it('should keep the source over a transparent backdrop in every painting mode', () => {
+    for (const mode of Object.values(BlendMode).filter(mode => mode !== BlendMode.ERASE)) {
+      expectColor(blendPremultiplied(grey, transparent, mode), grey);
+    }
+  });
+
+  it('should keep the backdrop under a transparent source', () => {
+    expectColor(blendPremultiplied(transparent, red, BlendMode.MULTIPLY), red);
+  });
+
+  it('should scale the blended result by source coverage', () => {
+    // Half-covered black multiplied over white
+    expectColor(blendPremultiplied([0, 0, 0, 0.5], white, BlendMode.MULTIPLY), [0.5, 0.5, 0.5, 1]);
+  });
+
+  it('should remove the backdrop by source coverage when erasing', () => {
+    expectColor(blendPremultiplied(grey, red, BlendMode.ERASE), transparent);
+    expectColor(blendPremultiplied([0, 0, 0, 0.25], red, BlendMode.ERASE), [0.75, 0, 0, 0.75]);
+    expectColor(blendPremultiplied(transparent, red, BlendMode.ERASE), red);
+  });
+
+  it('should pick multiply or screen for overlay from the backdrop', () => {
+    expect(blendChannel(BlendMode.OVERLAY, 0.5, 0.25)).toBeCloseTo(0.25);
+    expect(blendChannel(BlendMode.OVERLAY, 0.5, 0.75)).toBeCloseTo(0.75);
+    expect(blendChannel(BlendMode.OVERLAY, 1, 0.5)).toBeCloseTo(1);
+  });
+});
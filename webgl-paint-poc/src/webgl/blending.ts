@@ -0,0 +1,141 @@
+// Blend modes: fixed-function blending where it can express the mode, shader compositing otherwise
+
+import * as CoreTypes from '../types/core';
+import { isWebGL2 } from './context';
+import type { RenderTarget } from './framebuffer';
+
+type BlendMode = CoreTypes.BlendMode;
+
+/**
+ * Premultiplied RGBA (0-1)
+ */
+export type PremultipliedColor = [number, number, number, number];
+
+/**
+ * Modes that glBlendFunc can express exactly
+ * Every other mode needs the backdrop color in the shader.
+ */
+export const FIXED_FUNCTION_BLEND_MODES: readonly BlendMode[] = [
+  CoreTypes.BlendMode.NORMAL,
+  CoreTypes.BlendMode.ADDITIVE,
+  CoreTypes.BlendMode.ERASE,
+];
+
+/**
+ * Values of the blend shader's u_mode uniform
+ */
+export const BLEND_MODE_SHADER_IDS: Record<BlendMode, number> = {
+  [CoreTypes.BlendMode.NORMAL]: 0,
+  [CoreTypes.BlendMode.MULTIPLY]: 1,
+  [CoreTypes.BlendMode.SCREEN]: 2,
+  [CoreTypes.BlendMode.ADDITIVE]: 3,
+  [CoreTypes.BlendMode.DARKEN]: 4,
+  [CoreTypes.BlendMode.LIGHTEN]: 5,
+  [CoreTypes.BlendMode.OVERLAY]: 6,
+  [CoreTypes.BlendMode.ERASE]: 7,
+};
+
+export function isFixedFunctionBlendMode(blendMode: BlendMode): boolean {
+  return FIXED_FUNCTION_BLEND_MODES.includes(blendMode);
+}
+
+/**
+ * Set glBlendFunc for a mode
+ * premultipliedSource is true for composited textures and false for brush
+ * shaders, which output straight color with coverage in alpha. Modes that need
+ * shader compositing get normal blending, which is what their offscreen pass uses.
+ */
+export function applyFixedFunctionBlend(
+  gl: WebGLRenderingContext,
+  blendMode: BlendMode,
+  premultipliedSource: boolean
+): void {
+  const sourceFactor = premultipliedSource ? gl.ONE : gl.SRC_ALPHA;
+
+  if (blendMode === CoreTypes.BlendMode.ADDITIVE) {
+    gl.blendFuncSeparate(sourceFactor, gl.ONE, gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+  } else if (blendMode === CoreTypes.BlendMode.ERASE) {
+    // destination-out: only the source coverage matters
+    gl.blendFuncSeparate(gl.ZERO, gl.ONE_MINUS_SRC_ALPHA, gl.ZERO, gl.ONE_MINUS_SRC_ALPHA);
+  } else {
+    gl.blendFuncSeparate(sourceFactor, gl.ONE_MINUS_SRC_ALPHA, gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+  }
+}
+
+/**
+ * Blend function B(source, backdrop) for one straight-alpha channel
+ * Mirrors blendColor() in the blend fragment shader.
+ */
+export function blendChannel(blendMode: BlendMode, source: number, backdrop: number): number {
+  switch (blendMode) {
+    case CoreTypes.BlendMode.MULTIPLY:
+      return source * backdrop;
+    case CoreTypes.BlendMode.SCREEN:
+      return source + backdrop - source * backdrop;
+    case CoreTypes.BlendMode.ADDITIVE:
+      return Math.min(source + backdrop, 1);
+    case CoreTypes.BlendMode.DARKEN:
+      return Math.min(source, backdrop);
+    case CoreTypes.BlendMode.LIGHTEN:
+      return Math.max(source, backdrop);
+    case CoreTypes.BlendMode.OVERLAY:
+      return backdrop < 0.5
+        ? 2 * source * backdrop
+        : 1 - 2 * (1 - source) * (1 - backdrop);
+    default:
+      return source;
+  }
+}
+
+/**
+ * Composite a premultiplied source over a premultiplied backdrop
+ * Separable blending from the W3C compositing spec (erase is destination-out);
+ * mirrors the blend fragment shader.
+ */
+export function blendPremultiplied(
+  source: PremultipliedColor,
+  backdrop: PremultipliedColor,
+  blendMode: BlendMode
+): PremultipliedColor {
+  const sourceAlpha = source[3];
+  const backdropAlpha = backdrop[3];
+
+  if (blendMode === CoreTypes.BlendMode.ERASE) {
+    return backdrop.map(channel => channel * (1 - sourceAlpha)) as PremultipliedColor;
+  }
+
+  const result: PremultipliedColor = [0, 0, 0, sourceAlpha + backdropAlpha * (1 - sourceAlpha)];
+
+  for (let i = 0; i < 3; i++) {
+    const straightSource = sourceAlpha > 0 ? source[i] / sourceAlpha : 0;
+    const straightBackdrop = backdropAlpha > 0 ? backdrop[i] / backdropAlpha : 0;
+
+    result[i] =
+      (1 - backdropAlpha) * source[i] +
+      (1 - sourceAlpha) * backdrop[i] +
+      sourceAlpha * backdropAlpha * blendChannel(blendMode, straightSource, straightBackdrop);
+  }
+
+  return result;
+}
+
+/**
+ * Copy the bound framebuffer into a render target of the same size and format
+ * The blend shader samples the copy, since a target cannot be read while it is drawn to.
+ * On WebGL2 offscreen framebuffers are blitted, which also resolves multisampled ones.
+ */
+export function copyFramebufferToTarget(gl: WebGLRenderingContext, target: RenderTarget): void {
+  const framebuffer = gl.getParameter(gl.FRAMEBUFFER_BINDING) as WebGLFramebuffer | null;
+  const { width, height } = target;
+
+  if (framebuffer && isWebGL2(gl)) {
+    gl.bindFramebuffer(gl.DRAW_FRAMEBUFFER, target.framebuffer);
+    gl.blitFramebuffer(0, 0, width, height, 0, 0, width, height, gl.COLOR_BUFFER_BIT, gl.NEAREST);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+    return;
+  }
+
+  gl.bindTexture(gl.TEXTURE_2D, target.texture);
+  gl.copyTexSubImage2D(gl.TEXTURE_2D, 0, 0, 0, 0, 0, width, height);
+  gl.bindTexture(gl.TEXTURE_2D, null);
+}
@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  generateBrushTipPixels,
+  createBrushTip,
+  createProceduralBrushTip,
+  createDefaultBrushTips,
+  deleteBrushTip,
+  BrushTipCreationError,
+  BUILTIN_BRUSH_TIP_SHAPES,
+  BRUSH_TIP_TEXTURE_SIZE,
+} from './brushTip';
+import { initializeWebGL } from './context';
+
+// Alpha at pixel (x, y) of a square tip
+const alphaAt = (pixels: Uint8Array, size: number, x: number, y: number) => pixels[(y * size + x) * 4 + 3];
+
+describe('Brush Tip Pixels', () => {
+  it('should generate white RGBA pixels for every built-in shape', () => {
+    for (const shape of BUILTIN_BRUSH_TIP_SHAPES) {
+      const tip = generateBrushTipPixels(shape);
+
+      expect(tip.width).toBe(BRUSH_TIP_TEXTURE_SIZE);
+      expect(tip.height).toBe(BRUSH_TIP_TEXTURE_SIZE);
+      expect(tip.pixels.length).toBe(BRUSH_TIP_TEXTURE_SIZE * BRUSH_TIP_TEXTURE_SIZE * 4);
+      expect(tip.pixels[0]).toBe(255);
+    }
+  });
+
+  it('should be opaque in the centre and transparent in the corners of round tips', () => {
+    const size = 32;
+    const { pixels } = generateBrushTipPixels('hard-round', size);
+
+    expect(alphaAt(pixels, size, 16, 16)).toBe(255);
+    expect(alphaAt(pixels, size, 0, 0)).toBe(0);
+  });
+
+  it('should fade soft tips towards the edge', () => {
+    const size = 32;
+    const { pixels } = generateBrushTipPixels('soft-round', size);
+
+    expect(alphaAt(pixels, size, 16, 16)).toBeGreaterThan(alphaAt(pixels, size, 24, 16));
+    expect(alphaAt(pixels, size, 24, 16)).toBeGreaterThan(alphaAt(pixels, size, 31, 16));
+  });
+
+  it('should generate the same grain every time', () => {
+    expect(generateBrushTipPixels('chalk', 16).pixels).toEqual(generateBrushTipPixels('chalk', 16).pixels);
+  });
+});
+
+describe('Brush Tip Textures (Browser Mode)', () => {
+  let gl: WebGLRenderingContext;
+
+  beforeEach(() => {
+    const canvas = document.createElement('canvas');
+    canvas.id = 'brush-tip-test-canvas';
+    canvas.width = 256;
+    canvas.height = 256;
+    document.body.appendChild(canvas);
+
+    gl = initializeWebGL('brush-tip-test-canvas').gl;
+  });
+
+  it('should create a texture from procedural pixels', () => {
+    const tip = createProceduralBrushTip(gl, 'soft-round');
+
+    expect(tip.id).toBe('soft-round');
+    expect(gl.isTexture(tip.texture)).toBe(true);
+    expect(tip.width).toBe(BRUSH_TIP_TEXTURE_SIZE);
+    expect(gl.getError()).toBe(gl.NO_ERROR);
+
+    deleteBrushTip(gl, tip);
+    expect(gl.isTexture(tip.texture)).toBe(false);
+  });
+
+  it('should create a texture from a non power of two image source', () => {
+    const image = document.createElement('canvas');
+    image.width = 30;
+    image.height = 20;
+
+    const tip = createBrushTip(gl, 'custom', image);
+
+    expect(tip.width).toBe(30);
+    expect(tip.height).toBe(20);
+    expect(gl.getError()).toBe(gl.NO_ERROR);
+  });
+
+  it('should reject pixel data that does not match its size', () => {
+    expect(() => {
+      createBrushTip(gl, 'broken', { width: 4, height: 4, pixels: new Uint8Array(8) });
+    }).toThrow(BrushTipCreationError);
+  });
+
+  it('should create all built-in tips', () => {
+    const tips = createDefaultBrushTips(gl);
+
+    expect(Array.from(tips.keys())).toEqual([...BUILTIN_BRUSH_TIP_SHAPES]);
+  });
+});
@@ -0,0 +1,187 @@
+// Brush tip textures for stamp brushes
+
+import { createSeededRandom } from './stamps';
+
+/**
+ * A brush tip texture
+ * Only the alpha channel is used as the stamp mask; the color comes from the drawing color.
+ */
+export interface BrushTip {
+  id: string;
+  texture: WebGLTexture;
+  width: number;
+  height: number;
+}
+
+/**
+ * Raw RGBA pixels for a brush tip
+ */
+export interface BrushTipPixels {
+  width: number;
+  height: number;
+  pixels: Uint8Array;
+}
+
+/**
+ * Built-in procedural tip shapes
+ */
+export type BrushTipShape = 'hard-round' | 'soft-round' | 'square' | 'chalk';
+
+export const BUILTIN_BRUSH_TIP_SHAPES: readonly BrushTipShape[] = ['hard-round', 'soft-round', 'square', 'chalk'];
+
+/**
+ * Default size for procedural tips (power of two so mipmaps are available in WebGL 1)
+ */
+export const BRUSH_TIP_TEXTURE_SIZE = 64;
+
+export class BrushTipCreationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BrushTipCreationError';
+  }
+}
+
+export class BrushTipNotFoundError extends Error {
+  public readonly tipId: string;
+
+  constructor(tipId: string) {
+    super(`Brush tip not found: ${tipId}`);
+    this.name = 'BrushTipNotFoundError';
+    this.tipId = tipId;
+  }
+}
+
+/**
+ * Alpha (0-1) of a procedural tip at a distance from the centre, in radius units
+ */
+function tipAlpha(shape: BrushTipShape, x: number, y: number, pixelSize: number, random: () => number): number {
+  const distance = Math.sqrt(x * x + y * y);
+
+  switch (shape) {
+    case 'hard-round':
+      // 1px anti-aliased edge
+      return Math.min(Math.max((1 - distance) / pixelSize + 0.5, 0), 1);
+    case 'soft-round': {
+      const falloff = Math.max(1 - distance * distance, 0);
+      return falloff * falloff;
+    }
+    case 'square': {
+      const edge = Math.max(Math.abs(x), Math.abs(y));
+      return Math.min(Math.max((1 - edge) / pixelSize - 0.5, 0), 1);
+    }
+    case 'chalk': {
+      // Grainy disc: speckles thin out towards the edge
+      const base = Math.min(Math.max((1 - distance) / pixelSize + 0.5, 0), 1);
+      return random() < 0.85 - distance * 0.5 ? base : 0;
+    }
+  }
+}
+
+/**
+ * Generate RGBA pixels for a procedural brush tip
+ */
+export function generateBrushTipPixels(
+  shape: BrushTipShape,
+  size: number = BRUSH_TIP_TEXTURE_SIZE
+): BrushTipPixels {
+  const pixels = new Uint8Array(size * size * 4);
+  const random = createSeededRandom(size);
+  const pixelSize = 2 / size;
+
+  for (let py = 0; py < size; py++) {
+    for (let px = 0; px < size; px++) {
+      // Pixel centre in [-1, 1]
+      const x = ((px + 0.5) / size) * 2 - 1;
+      const y = ((py + 0.5) / size) * 2 - 1;
+      const alpha = tipAlpha(shape, x, y, pixelSize, random);
+
+      const offset = (py * size + px) * 4;
+      pixels[offset] = 255;
+      pixels[offset + 1] = 255;
+      pixels[offset + 2] = 255;
+      pixels[offset + 3] = Math.round(alpha * 255);
+    }
+  }
+
+  return { width: size, height: size, pixels };
+}
+
+function isPowerOfTwo(value: number): boolean {
+  return value > 0 && (value & (value - 1)) === 0;
+}
+
+/**
+ * Create a brush tip from raw pixels or an image source
+ */
+export function createBrushTip(
+  gl: WebGLRenderingContext,
+  id: string,
+  source: BrushTipPixels | TexImageSource
+): BrushTip {
+  const texture = gl.createTexture();
+  if (!texture) {
+    throw new BrushTipCreationError(`Failed to create texture for brush tip: ${id}`);
+  }
+
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+
+  let width: number;
+  let height: number;
+
+  if ('pixels' in source) {
+    ({ width, height } = source);
+    if (source.pixels.length !== width * height * 4) {
+      gl.deleteTexture(texture);
+      throw new BrushTipCreationError(`Brush tip pixel data does not match ${width}x${height}: ${id}`);
+    }
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, width, height, 0, gl.RGBA, gl.UNSIGNED_BYTE, source.pixels);
+  } else {
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, source);
+    width = 'width' in source ? Number(source.width) : 0;
+    height = 'height' in source ? Number(source.height) : 0;
+  }
+
+  // Stamps are drawn smaller than the tip, so use mipmaps when WebGL 1 allows it
+  if (isPowerOfTwo(width) && isPowerOfTwo(height)) {
+    gl.generateMipmap(gl.TEXTURE_2D);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR_MIPMAP_LINEAR);
+  } else {
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+  }
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+
+  gl.bindTexture(gl.TEXTURE_2D, null);
+
+  return { id, texture, width, height };
+}
+
+/**
+ * Create a brush tip from a built-in procedural shape
+ */
+export function createProceduralBrushTip(
+  gl: WebGLRenderingContext,
+  shape: BrushTipShape,
+  size: number = BRUSH_TIP_TEXTURE_SIZE
+): BrushTip {
+  return createBrushTip(gl, shape, generateBrushTipPixels(shape, size));
+}
+
+/**
+ * Create all built-in brush tips, keyed by id
+ */
+export function createDefaultBrushTips(gl: WebGLRenderingContext): Map<string, BrushTip> {
+  return new Map(
+    BUILTIN_BRUSH_TIP_SHAPES.map(shape => [shape, createProceduralBrushTip(gl, shape)] as const)
+  );
+}
+
+/**
+ * Delete a brush tip texture
+ */
+export function deleteBrushTip(gl: WebGLRenderingContext, tip: BrushTip): void {
+  if (gl.isTexture(tip.texture)) {
+    gl.deleteTexture(tip.texture);
+  }
+}
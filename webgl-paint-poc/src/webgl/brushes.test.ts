@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BRUSH_PRESETS,
+  DEFAULT_BRUSH_ID,
+  UnknownBrushError,
+  getBrushPreset,
+  getAvailableBrushes,
+} from './brushes';
+import { BUILTIN_BRUSH_TIP_SHAPES } from './brushTip';
+
+describe('Brush Presets', () => {
+  it('should provide a round default brush', () => {
+    const brush = getBrushPreset(DEFAULT_BRUSH_ID);
+
+    expect(brush.kind).toBe('stroke');
+    if (brush.kind === 'stroke') {
+      expect(brush.geometry.join).toBe('round');
+      expect(brush.geometry.cap).toBe('round');
+    }
+  });
+
+  it('should key presets by their id', () => {
+    for (const [id, preset] of Object.entries(BRUSH_PRESETS)) {
+      expect(preset.id).toBe(id);
+    }
+  });
+
+  it('should cover every join style', () => {
+    const joins = new Set(
+      getAvailableBrushes().flatMap(brush => (brush.kind === 'stroke' ? [brush.geometry.join] : []))
+    );
+
+    expect(joins).toEqual(new Set(['round', 'miter', 'bevel']));
+  });
+
+  it('should only reference built-in tips from stamp presets', () => {
+    for (const brush of getAvailableBrushes()) {
+      if (brush.kind === 'stamp') {
+        expect(BUILTIN_BRUSH_TIP_SHAPES).toContain(brush.stamp.tipId);
+      }
+    }
+  });
+
+  it('should throw for unknown brushes', () => {
+    expect(() => getBrushPreset('does-not-exist')).toThrow(UnknownBrushError);
+  });
+});
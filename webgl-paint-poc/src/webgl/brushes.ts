@@ -0,0 +1,121 @@
+// Brush presets for stroke rendering
+
+import { MITER_LIMIT } from './buffers';
+import type { StrokeGeometryStyle } from './buffers';
+import type { StampBrushSettings } from './stamps';
+
+interface BrushPresetBase {
+  id: string;
+  name: string;
+}
+
+/**
+ * Brush drawn as continuous tessellated geometry
+ */
+export interface StrokeBrushPreset extends BrushPresetBase {
+  kind: 'stroke';
+  geometry: StrokeGeometryStyle;
+}
+
+/**
+ * Brush drawn by stamping a tip texture along the stroke
+ */
+export interface StampBrushPreset extends BrushPresetBase {
+  kind: 'stamp';
+  stamp: StampBrushSettings;
+}
+
+export type BrushPreset = StrokeBrushPreset | StampBrushPreset;
+
+/**
+ * Built-in brush presets
+ */
+export const BRUSH_PRESETS: Readonly<Record<string, BrushPreset>> = {
+  round: {
+    id: 'round',
+    name: 'Round Pen',
+    kind: 'stroke',
+    geometry: { join: 'round', cap: 'round', miterLimit: MITER_LIMIT },
+  },
+  marker: {
+    id: 'marker',
+    name: 'Marker',
+    kind: 'stroke',
+    geometry: { join: 'miter', cap: 'butt', miterLimit: MITER_LIMIT },
+  },
+  chisel: {
+    id: 'chisel',
+    name: 'Chisel',
+    kind: 'stroke',
+    geometry: { join: 'bevel', cap: 'butt', miterLimit: MITER_LIMIT },
+  },
+  airbrush: {
+    id: 'airbrush',
+    name: 'Airbrush',
+    kind: 'stamp',
+    stamp: {
+      tipId: 'soft-round',
+      spacing: 0.1,
+      scatter: 0,
+      rotationJitter: 0,
+      sizeJitter: 0,
+      followDirection: false,
+    },
+  },
+  chalk: {
+    id: 'chalk',
+    name: 'Chalk',
+    kind: 'stamp',
+    stamp: {
+      tipId: 'chalk',
+      spacing: 0.2,
+      scatter: 0.1,
+      rotationJitter: Math.PI,
+      sizeJitter: 0.2,
+      followDirection: false,
+    },
+  },
+  confetti: {
+    id: 'confetti',
+    name: 'Confetti',
+    kind: 'stamp',
+    stamp: {
+      tipId: 'square',
+      spacing: 1.5,
+      scatter: 1.0,
+      rotationJitter: Math.PI / 4,
+      sizeJitter: 0.6,
+      followDirection: true,
+    },
+  },
+};
+
+export const DEFAULT_BRUSH_ID = 'round';
+
+export class UnknownBrushError extends Error {
+  public readonly brushId: string;
+
+  constructor(brushId: string) {
+    super(`Unknown brush: ${brushId}`);
+    this.name = 'UnknownBrushError';
+    this.brushId = brushId;
+  }
+}
+
+/**
+ * Look up a brush preset by id
+ */
+export function getBrushPreset(brushId: string): BrushPreset {
+  const preset = BRUSH_PRESETS[brushId];
+  if (!preset) {
+    throw new UnknownBrushError(brushId);
+  }
+  return preset;
+}
+
+/**
+ * List all available brush presets
+ */
+export function getAvailableBrushes(): BrushPreset[] {
+  return Object.values(BRUSH_PRESETS);
+}
@@ -3,6 +3,7 @@ import {
   strokePointsToVertexData,
   strokeDataToVertexData,
   multipleStrokesToVertexData,
+  strokePointsToTriangleStripVertexData,
   createVertexBuffer,
   updateVertexBuffer,
   bindVertexBuffer,
@@ -10,13 +11,19 @@ import {
   deleteVertexBuffer,
   drawVertexBuffer,
   drawVertexBufferAsLineStrip,
+  drawVertexBufferAsTriangleStrip,
+  bindStrokeVertexBuffer,
+  unbindStrokeVertexAttributes,
   validateVertexData,
   calculateVertexDataMemoryUsage,
   getVertexDataStats,
   BufferCreationError,
+  STROKE_VERTEX_COMPONENTS,
+  MITER_LIMIT,
 } from './buffers';
+import type { StrokeGeometryStyle } from './buffers';
 import { initializeWebGL } from './context';
-import { createBasicShaderProgram } from './shaders';
+import { createBasicShaderProgram, createStrokeShaderProgram } from './shaders';
 import { horizontalLineStroke, arcStroke, allTestStrokes } from '../data/testStrokes';
 import * as CoreTypes from '../types/core';
 
@@ -117,6 +124,193 @@ describe('WebGL Buffers (Browser Mode)', () => {
     });
   });
 
+  describe('Triangle Strip Tessellation', () => {
+    // Read vertex i as { extrude, local, pressure }
+    const vertexAt = (vertices: Float32Array, i: number) => {
+      const offset = i * STROKE_VERTEX_COMPONENTS;
+      return {
+        x: vertices[offset],
+        y: vertices[offset + 1],
+        extrude: [vertices[offset + 2], vertices[offset + 3]],
+        local: [vertices[offset + 4], vertices[offset + 5]],
+        pressure: vertices[offset + 6],
+      };
+    };
+
+    const extrudeLengths = (vertexData: { vertices: Float32Array; vertexCount: number }) =>
+      Array.from({ length: vertexData.vertexCount }, (_, i) => {
+        const [ex, ey] = vertexAt(vertexData.vertices, i).extrude;
+        return Math.sqrt(ex * ex + ey * ey);
+      });
+
+    const miterButt: StrokeGeometryStyle = { join: 'miter', cap: 'butt', miterLimit: MITER_LIMIT };
+    const bevelButt: StrokeGeometryStyle = { join: 'bevel', cap: 'butt', miterLimit: MITER_LIMIT };
+
+    const corner: StrokePoint[] = [
+      { x: 100, y: 100, pressure: 1.0, timestamp: 1000 },
+      { x: 200, y: 100, pressure: 1.0, timestamp: 1010 },
+      { x: 200, y: 200, pressure: 1.0, timestamp: 1020 },
+    ];
+
+    it('should expand a segment into a quad on either side of the stroke', () => {
+      const vertexData = strokePointsToTriangleStripVertexData([
+        { x: 100, y: 100, pressure: 0.5, timestamp: 1000 },
+        { x: 200, y: 100, pressure: 0.8, timestamp: 1010 },
+      ], miterButt);
+
+      expect(vertexData.vertexCount).toBe(4);
+      expect(vertexData.vertices.length).toBe(4 * STROKE_VERTEX_COMPONENTS);
+      expect(validateVertexData(vertexData, STROKE_VERTEX_COMPONENTS)).toBe(true);
+
+      // Horizontal stroke: extrude vectors point straight up/down
+      const first = vertexAt(vertexData.vertices, 0);
+      expect(first.x).toBeCloseTo(100);
+      expect(first.y).toBeCloseTo(100);
+      expect(first.extrude[0]).toBeCloseTo(0);
+      expect(Math.abs(first.extrude[1])).toBeCloseTo(1);
+      expect(first.local[0]).toBeCloseTo(0);
+      expect(Math.abs(first.local[1])).toBeCloseTo(1);
+      expect(first.pressure).toBeCloseTo(0.5);
+
+      // Second vertex is mirrored to the other side
+      expect(vertexAt(vertexData.vertices, 1).extrude[1]).toBeCloseTo(-first.extrude[1]);
+      expect(vertexAt(vertexData.vertices, 3).pressure).toBeCloseTo(0.8);
+    });
+
+    it('should add round caps at both ends by default', () => {
+      const vertexData = strokePointsToTriangleStripVertexData([
+        { x: 100, y: 100, pressure: 1.0, timestamp: 1000 },
+        { x: 200, y: 100, pressure: 1.0, timestamp: 1010 },
+      ]);
+
+      // cap + segment + cap, stitched with two degenerate vertices each
+      expect(vertexData.vertexCount).toBe(4 + 2 + 4 + 2 + 4);
+
+      // Start cap extends backwards along the stroke, end cap forwards
+      expect(vertexAt(vertexData.vertices, 2).local[0]).toBeCloseTo(-1);
+      expect(vertexAt(vertexData.vertices, 2).extrude[0]).toBeCloseTo(-1);
+      expect(vertexAt(vertexData.vertices, vertexData.vertexCount - 1).local[0]).toBeCloseTo(1);
+      expect(vertexAt(vertexData.vertices, vertexData.vertexCount - 1).extrude[0]).toBeCloseTo(1);
+    });
+
+    it('should cover joints with a disc for round joins', () => {
+      const vertexData = strokePointsToTriangleStripVertexData(corner, {
+        join: 'round',
+        cap: 'butt',
+        miterLimit: MITER_LIMIT,
+      });
+
+      // segment + disc + segment
+      expect(vertexData.vertexCount).toBe(4 + 2 + 4 + 2 + 4);
+
+      const disc = Array.from({ length: 4 }, (_, i) => vertexAt(vertexData.vertices, 6 + i));
+      for (const vertex of disc) {
+        expect(vertex.x).toBeCloseTo(200);
+        expect(vertex.y).toBeCloseTo(100);
+        expect(Math.abs(vertex.local[0])).toBeCloseTo(1);
+        expect(Math.abs(vertex.local[1])).toBeCloseTo(1);
+      }
+    });
+
+    it('should extend miter joins to keep constant width through corners', () => {
+      const vertexData = strokePointsToTriangleStripVertexData(corner, miterButt);
+
+      // segment + miter wedge + segment
+      expect(vertexData.vertexCount).toBe(4 + 2 + 4 + 2 + 4);
+
+      // 90 degree corner: miter length is sqrt(2) half widths
+      expect(Math.max(...extrudeLengths(vertexData))).toBeCloseTo(Math.SQRT2);
+    });
+
+    it('should fall back to bevel joins beyond the miter limit', () => {
+      const sharp: StrokePoint[] = [
+        { x: 100, y: 100, pressure: 1.0, timestamp: 1000 },
+        { x: 200, y: 100, pressure: 1.0, timestamp: 1010 },
+        { x: 100, y: 101, pressure: 1.0, timestamp: 1020 },
+      ];
+
+      const vertexData = strokePointsToTriangleStripVertexData(sharp, miterButt);
+
+      expect(Math.max(...extrudeLengths(vertexData))).toBeLessThanOrEqual(1 + 1e-6);
+      expect(vertexData.vertexCount).toBe(4 + 2 + 3 + 2 + 4);
+    });
+
+    it('should fill the outer side of corners with a bevel triangle', () => {
+      const vertexData = strokePointsToTriangleStripVertexData(corner, bevelButt);
+
+      expect(vertexData.vertexCount).toBe(4 + 2 + 3 + 2 + 4);
+      expect(Math.max(...extrudeLengths(vertexData))).toBeLessThanOrEqual(1 + 1e-6);
+
+      // Stroke turns towards +y, so the gap opens on the -y / +x side
+      const wedge = Array.from({ length: 3 }, (_, i) => vertexAt(vertexData.vertices, 6 + i));
+      expect(wedge[0].extrude[1]).toBeCloseTo(-1);
+      expect(wedge[1].extrude).toEqual([0, 0]);
+      expect(wedge[2].extrude[0]).toBeCloseTo(1);
+    });
+
+    it('should not add join geometry for straight continuations', () => {
+      const vertexData = strokePointsToTriangleStripVertexData([
+        { x: 100, y: 100, pressure: 1.0, timestamp: 1000 },
+        { x: 200, y: 100, pressure: 1.0, timestamp: 1010 },
+        { x: 300, y: 100, pressure: 1.0, timestamp: 1020 },
+      ], bevelButt);
+
+      expect(vertexData.vertexCount).toBe(4 + 2 + 4);
+    });
+
+    it('should expand a single point into a quad', () => {
+      const point: StrokePoint[] = [{ x: 512, y: 512, pressure: 0.7, timestamp: 1000 }];
+
+      const round = strokePointsToTriangleStripVertexData(point);
+      expect(round.vertexCount).toBe(4);
+      expect(validateVertexData(round, STROKE_VERTEX_COMPONENTS)).toBe(true);
+      expect(Math.abs(vertexAt(round.vertices, 0).local[0])).toBeCloseTo(1);
+
+      // Butt caps give a square dot
+      const square = strokePointsToTriangleStripVertexData(point, miterButt);
+      expect(square.vertexCount).toBe(4);
+      expect(vertexAt(square.vertices, 0).local[0]).toBeCloseTo(0);
+    });
+
+    it('should ignore consecutive duplicate points', () => {
+      const vertexData = strokePointsToTriangleStripVertexData([
+        { x: 100, y: 100, pressure: 0.5, timestamp: 1000 },
+        { x: 100, y: 100, pressure: 0.6, timestamp: 1005 },
+        { x: 200, y: 100, pressure: 0.8, timestamp: 1010 },
+      ], miterButt);
+
+      expect(vertexData.vertexCount).toBe(4);
+      expect(validateVertexData(vertexData, STROKE_VERTEX_COMPONENTS)).toBe(true);
+    });
+
+    it('should handle empty stroke points', () => {
+      const vertexData = strokePointsToTriangleStripVertexData([]);
+
+      expect(vertexData.vertexCount).toBe(0);
+      expect(vertexData.vertices.length).toBe(0);
+    });
+
+    it('should draw tessellated stroke as triangle strip', () => {
+      const strokeProgram = createStrokeShaderProgram(gl);
+      const vertexData = strokePointsToTriangleStripVertexData(arcStroke.points);
+      const vertexBuffer = createVertexBuffer(gl, vertexData, STROKE_VERTEX_COMPONENTS);
+
+      expect(vertexBuffer.attributeSize).toBe(STROKE_VERTEX_COMPONENTS * 4);
+
+      gl.useProgram(strokeProgram.program);
+      bindStrokeVertexBuffer(gl, vertexBuffer, strokeProgram.attributes);
+
+      expect(() => {
+        drawVertexBufferAsTriangleStrip(gl, vertexBuffer);
+      }).not.toThrow();
+      expect(gl.getError()).toBe(gl.NO_ERROR);
+
+      unbindStrokeVertexAttributes(gl, strokeProgram.attributes);
+      deleteVertexBuffer(gl, vertexBuffer);
+      gl.deleteProgram(strokeProgram.program);
+    });
+  });
+
   describe('WebGL Buffer Operations', () => {
     it('should create vertex buffer successfully', () => {
       const vertexData = strokeDataToVertexData(horizontalLineStroke);
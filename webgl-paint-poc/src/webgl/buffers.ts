@@ -104,12 +104,302 @@ export function multipleStrokesToVertexData(strokes: StrokeData[]): StrokeVertex
   };
 }
 
+/**
+ * Components per vertex for triangle-strip stroke geometry
+ * Format: [x, y, extrudeX, extrudeY, localX, localY, pressure, ...]
+ *
+ * extrude is the offset from the stroke centre line in half-width units.
+ * local is the same offset in the stroke's own frame, used by the fragment
+ * shader as a distance field: length(local) == 1 is the stroke edge.
+ */
+export const STROKE_VERTEX_COMPONENTS = 7;
+
+/**
+ * Default maximum miter length (in half-width units) before a miter join
+ * falls back to a bevel join
+ */
+export const MITER_LIMIT = 4.0;
+
+/**
+ * How consecutive segments are connected
+ */
+export type StrokeLineJoin = 'round' | 'miter' | 'bevel';
+
+/**
+ * How the ends of a stroke are finished
+ */
+export type StrokeLineCap = 'round' | 'butt';
+
+/**
+ * Geometry options for stroke tessellation
+ */
+export interface StrokeGeometryStyle {
+  join: StrokeLineJoin;
+  cap: StrokeLineCap;
+  /** Miter length limit in half-width units (only used by miter joins) */
+  miterLimit: number;
+}
+
+/**
+ * Default stroke geometry - round joins and caps
+ */
+export const DEFAULT_STROKE_GEOMETRY_STYLE: StrokeGeometryStyle = {
+  join: 'round',
+  cap: 'round',
+  miterLimit: MITER_LIMIT,
+};
+
+// Points closer than this are treated as duplicates when tessellating
+const DUPLICATE_POINT_EPSILON = 1e-4;
+
+// A single vertex of the stroke strip
+type StripVertex = [number, number, number, number, number, number, number];
+
+/**
+ * Remove consecutive duplicate points (they have no direction)
+ */
+function removeConsecutiveDuplicates(points: StrokePoint[]): StrokePoint[] {
+  const result: StrokePoint[] = [];
+
+  for (const point of points) {
+    const last = result[result.length - 1];
+    if (
+      last &&
+      Math.abs(point.x - last.x) < DUPLICATE_POINT_EPSILON &&
+      Math.abs(point.y - last.y) < DUPLICATE_POINT_EPSILON
+    ) {
+      // Keep the latest pressure for the merged point
+      result[result.length - 1] = { ...last, pressure: point.pressure };
+      continue;
+    }
+    result.push(point);
+  }
+
+  return result;
+}
+
+/**
+ * Unit tangent of the segment a -> b
+ */
+function segmentTangent(a: StrokePoint, b: StrokePoint): [number, number] {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const length = Math.sqrt(dx * dx + dy * dy);
+  return [dx / length, dy / length];
+}
+
+/**
+ * Create a vertex offset from a point along tangent t and normal n
+ * The offset is (along * t + across * n) in half-width units.
+ */
+function offsetVertex(
+  point: StrokePoint,
+  [tx, ty]: [number, number],
+  along: number,
+  across: number
+): StripVertex {
+  const nx = -ty;
+  const ny = tx;
+  return [
+    point.x,
+    point.y,
+    along * tx + across * nx,
+    along * ty + across * ny,
+    along,
+    across,
+    point.pressure,
+  ];
+}
+
+/**
+ * Append a piece of geometry to the strip
+ * Separate pieces are stitched together with degenerate triangles so the
+ * whole stroke can still be drawn with a single TRIANGLE_STRIP call.
+ */
+function appendStripPiece(strip: StripVertex[], piece: StripVertex[]): void {
+  if (piece.length === 0) return;
+  if (strip.length > 0) {
+    strip.push(strip[strip.length - 1], piece[0]);
+  }
+  strip.push(...piece);
+}
+
+/**
+ * Rectangle around a segment, flat at both ends
+ */
+function segmentPiece(a: StrokePoint, b: StrokePoint): StripVertex[] {
+  const tangent = segmentTangent(a, b);
+  return [
+    offsetVertex(a, tangent, 0, 1),
+    offsetVertex(a, tangent, 0, -1),
+    offsetVertex(b, tangent, 0, 1),
+    offsetVertex(b, tangent, 0, -1),
+  ];
+}
+
+/**
+ * Square around a point; with the distance field it renders as a disc
+ */
+function discPiece(point: StrokePoint, tangent: [number, number]): StripVertex[] {
+  return [
+    offsetVertex(point, tangent, -1, -1),
+    offsetVertex(point, tangent, 1, -1),
+    offsetVertex(point, tangent, -1, 1),
+    offsetVertex(point, tangent, 1, 1),
+  ];
+}
+
+/**
+ * Square around a point, anti-aliased on its top and bottom edges only
+ * Used for single-point strokes with butt caps, which have no length of their own.
+ */
+function squareDotPiece(point: StrokePoint): StripVertex[] {
+  return discPiece(point, [1, 0]).map(
+    ([x, y, extrudeX, extrudeY, , localY, pressure]): StripVertex => [x, y, extrudeX, extrudeY, 0, localY, pressure]
+  );
+}
+
+/**
+ * Half-disc cap extending from the point in the given direction (+1 / -1)
+ */
+function roundCapPiece(
+  point: StrokePoint,
+  tangent: [number, number],
+  direction: number
+): StripVertex[] {
+  return [
+    offsetVertex(point, tangent, 0, 1),
+    offsetVertex(point, tangent, 0, -1),
+    offsetVertex(point, tangent, direction, 1),
+    offsetVertex(point, tangent, direction, -1),
+  ];
+}
+
+/**
+ * Wedge filling the gap on the outer side of a join
+ * Returns a bevel triangle, or a miter quad when the miter is within the limit.
+ */
+function joinWedgePiece(
+  point: StrokePoint,
+  incoming: [number, number],
+  outgoing: [number, number],
+  style: StrokeGeometryStyle
+): StripVertex[] {
+  // Outer side is opposite the turning direction
+  const cross = incoming[0] * outgoing[1] - incoming[1] * outgoing[0];
+  if (Math.abs(cross) < DUPLICATE_POINT_EPSILON && incoming[0] * outgoing[0] + incoming[1] * outgoing[1] > 0) {
+    // Straight continuation - the segment rectangles already meet
+    return [];
+  }
+  const side = cross > 0 ? -1 : 1;
+
+  const n0: [number, number] = [-incoming[1] * side, incoming[0] * side];
+  const n1: [number, number] = [-outgoing[1] * side, outgoing[0] * side];
+  const { pressure } = point;
+
+  // Wedge edges lie on the stroke outline, so their local distance is 1
+  const centre: StripVertex = [point.x, point.y, 0, 0, 0, 0, pressure];
+  const outer0: StripVertex = [point.x, point.y, n0[0], n0[1], 0, 1, pressure];
+  const outer1: StripVertex = [point.x, point.y, n1[0], n1[1], 0, 1, pressure];
+
+  if (style.join === 'miter') {
+    const mx = n0[0] + n1[0];
+    const my = n0[1] + n1[1];
+    const miterLength = Math.sqrt(mx * mx + my * my);
+
+    if (miterLength > DUPLICATE_POINT_EPSILON) {
+      const unitX = mx / miterLength;
+      const unitY = my / miterLength;
+      const scale = 1 / Math.max(unitX * n0[0] + unitY * n0[1], DUPLICATE_POINT_EPSILON);
+
+      if (scale <= style.miterLimit) {
+        const tip: StripVertex = [point.x, point.y, unitX * scale, unitY * scale, 0, 1, pressure];
+        return [outer0, centre, tip, outer1];
+      }
+    }
+  }
+
+  // Bevel join (also the fallback when the miter is too long)
+  return [outer0, centre, outer1];
+}
+
+/**
+ * Convert stroke points to triangle-strip vertex data
+ * Each segment becomes a rectangle, with join and cap pieces added according
+ * to the geometry style. The extrude vector is in half-width units; the vertex
+ * shader scales it by pressure * brushSize so the same geometry can be reused
+ * for any brush size.
+ */
+export function strokePointsToTriangleStripVertexData(
+  points: StrokePoint[],
+  style: StrokeGeometryStyle = DEFAULT_STROKE_GEOMETRY_STYLE
+): StrokeVertexData {
+  const uniquePoints = removeConsecutiveDuplicates(points);
+  const strip: StripVertex[] = [];
+
+  if (uniquePoints.length === 1) {
+    const point = uniquePoints[0];
+    if (style.cap === 'round') {
+      appendStripPiece(strip, discPiece(point, [1, 0]));
+    } else {
+      appendStripPiece(strip, squareDotPiece(point));
+    }
+  } else if (uniquePoints.length > 1) {
+    const last = uniquePoints.length - 1;
+
+    if (style.cap === 'round') {
+      appendStripPiece(strip, roundCapPiece(uniquePoints[0], segmentTangent(uniquePoints[0], uniquePoints[1]), -1));
+    }
+
+    for (let i = 0; i < last; i++) {
+      appendStripPiece(strip, segmentPiece(uniquePoints[i], uniquePoints[i + 1]));
+
+      if (i + 1 < last) {
+        const joint = uniquePoints[i + 1];
+        const incoming = segmentTangent(uniquePoints[i], joint);
+        const outgoing = segmentTangent(joint, uniquePoints[i + 2]);
+
+        if (style.join === 'round') {
+          appendStripPiece(strip, discPiece(joint, incoming));
+        } else {
+          appendStripPiece(strip, joinWedgePiece(joint, incoming, outgoing, style));
+        }
+      }
+    }
+
+    if (style.cap === 'round') {
+      appendStripPiece(strip, roundCapPiece(uniquePoints[last], segmentTangent(uniquePoints[last - 1], uniquePoints[last]), 1));
+    }
+  }
+
+  const vertices = new Float32Array(strip.length * STROKE_VERTEX_COMPONENTS);
+  strip.forEach((vertex, i) => {
+    vertices.set(vertex, i * STROKE_VERTEX_COMPONENTS);
+  });
+
+  return {
+    vertices,
+    vertexCount: strip.length,
+  };
+}
+
+/**
+ * Convert stroke data to triangle-strip vertex data
+ */
+export function strokeDataToTriangleStripVertexData(
+  stroke: StrokeData,
+  style: StrokeGeometryStyle = DEFAULT_STROKE_GEOMETRY_STYLE
+): StrokeVertexData {
+  return strokePointsToTriangleStripVertexData(stroke.points, style);
+}
+
 /**
  * Create a WebGL vertex buffer from vertex data
  */
 export function createVertexBuffer(
   gl: WebGLRenderingContext,
-  vertexData: StrokeVertexData
+  vertexData: StrokeVertexData,
+  componentsPerVertex: number = 3
 ): VertexBuffer {
   const buffer = gl.createBuffer();
   if (!buffer) {
@@ -133,13 +423,13 @@ export function createVertexBuffer(
   console.log('Vertex buffer created:', {
     vertexCount: vertexData.vertexCount,
     bufferSize,
-    componentsPerVertex: 3,
+    componentsPerVertex,
   });
 
   return {
     buffer,
     vertexCount: vertexData.vertexCount,
-    attributeSize: 3 * 4, // 3 floats * 4 bytes per float
+    attributeSize: componentsPerVertex * 4, // floats * 4 bytes per float
   };
 }
 
@@ -213,6 +503,107 @@ export function unbindVertexAttributes(
   gl.disableVertexAttribArray(pressureLocation);
 }
 
+/**
+ * Attribute locations used by triangle-strip stroke geometry
+ */
+export interface StrokeAttributeLocations {
+  position: number;
+  extrude: number;
+  local: number;
+  pressure: number;
+}
+
+/**
+ * Bind a triangle-strip stroke vertex buffer and configure vertex attributes
+ */
+export function bindStrokeVertexBuffer(
+  gl: WebGLRenderingContext,
+  vertexBuffer: VertexBuffer,
+  locations: StrokeAttributeLocations
+): void {
+  gl.bindBuffer(gl.ARRAY_BUFFER, vertexBuffer.buffer);
+
+  const stride = STROKE_VERTEX_COMPONENTS * 4; // 4 bytes per float
+
+  // Position attribute (x, y)
+  gl.enableVertexAttribArray(locations.position);
+  gl.vertexAttribPointer(locations.position, 2, gl.FLOAT, false, stride, 0);
+
+  // Extrude attribute (extrudeX, extrudeY)
+  gl.enableVertexAttribArray(locations.extrude);
+  gl.vertexAttribPointer(locations.extrude, 2, gl.FLOAT, false, stride, 2 * 4);
+
+  // Local distance-field coordinate (localX, localY)
+  gl.enableVertexAttribArray(locations.local);
+  gl.vertexAttribPointer(locations.local, 2, gl.FLOAT, false, stride, 4 * 4);
+
+  // Pressure attribute
+  gl.enableVertexAttribArray(locations.pressure);
+  gl.vertexAttribPointer(locations.pressure, 1, gl.FLOAT, false, stride, 6 * 4);
+}
+
+/**
+ * Unbind triangle-strip stroke vertex attributes
+ */
+export function unbindStrokeVertexAttributes(
+  gl: WebGLRenderingContext,
+  locations: StrokeAttributeLocations
+): void {
+  gl.disableVertexAttribArray(locations.position);
+  gl.disableVertexAttribArray(locations.extrude);
+  gl.disableVertexAttribArray(locations.local);
+  gl.disableVertexAttribArray(locations.pressure);
+}
+
+/**
+ * Attribute locations used by stamp geometry
+ */
+export interface StampAttributeLocations {
+  position: number;
+  corner: number;
+  texCoord: number;
+  pressure: number;
+}
+
+/**
+ * Bind a stamp vertex buffer and configure vertex attributes
+ * Layout matches STAMP_VERTEX_COMPONENTS: [x, y, cornerX, cornerY, u, v, pressure]
+ */
+export function bindStampVertexBuffer(
+  gl: WebGLRenderingContext,
+  vertexBuffer: VertexBuffer,
+  locations: StampAttributeLocations
+): void {
+  gl.bindBuffer(gl.ARRAY_BUFFER, vertexBuffer.buffer);
+
+  const stride = vertexBuffer.attributeSize;
+
+  gl.enableVertexAttribArray(locations.position);
+  gl.vertexAttribPointer(locations.position, 2, gl.FLOAT, false, stride, 0);
+
+  gl.enableVertexAttribArray(locations.corner);
+  gl.vertexAttribPointer(locations.corner, 2, gl.FLOAT, false, stride, 2 * 4);
+
+  gl.enableVertexAttribArray(locations.texCoord);
+  gl.vertexAttribPointer(locations.texCoord, 2, gl.FLOAT, false, stride, 4 * 4);
+
+  gl.enableVertexAttribArray(locations.pressure);
+  gl.vertexAttribPointer(locations.pressure, 1, gl.FLOAT, false, stride, 6 * 4);
+}
+
+/**
+ * Unbind stamp vertex attributes
+ */
+export function unbindStampVertexAttributes(
+  gl: WebGLRenderingContext,
+  locations: StampAttributeLocations
+): void {
+  gl.disableVertexAttribArray(locations.position);
+  gl.disableVertexAttribArray(locations.corner);
+  gl.disableVertexAttribArray(locations.texCoord);
+  gl.disableVertexAttribArray(locations.pressure);
+}
+
 /**
  * Delete a vertex buffer and free GPU memory
  */
@@ -250,16 +641,43 @@ export function drawVertexBufferAsLineStrip(
   }
 }
 
+/**
+ * Draw vertices as triangle strip (for thick stroke rendering)
+ */
+export function drawVertexBufferAsTriangleStrip(
+  gl: WebGLRenderingContext,
+  vertexBuffer: VertexBuffer
+): void {
+  if (vertexBuffer.vertexCount > 2) {
+    gl.drawArrays(gl.TRIANGLE_STRIP, 0, vertexBuffer.vertexCount);
+  }
+}
+
+/**
+ * Draw vertices as independent triangles (for stamp quads)
+ */
+export function drawVertexBufferAsTriangles(
+  gl: WebGLRenderingContext,
+  vertexBuffer: VertexBuffer
+): void {
+  if (vertexBuffer.vertexCount >= 3) {
+    gl.drawArrays(gl.TRIANGLES, 0, vertexBuffer.vertexCount);
+  }
+}
+
 /**
  * Validate vertex data integrity
  */
-export function validateVertexData(vertexData: StrokeVertexData): boolean {
+export function validateVertexData(
+  vertexData: StrokeVertexData,
+  componentsPerVertex: number = 3
+): boolean {
   if (vertexData.vertexCount === 0 && vertexData.vertices.length === 0) {
     return true; // Empty data is valid
   }
 
   // Check if vertex count matches array length
-  const expectedLength = vertexData.vertexCount * 3; // 3 components per vertex
+  const expectedLength = vertexData.vertexCount * componentsPerVertex;
   if (vertexData.vertices.length !== expectedLength) {
     console.error('Vertex data validation failed: length mismatch', {
       expected: expectedLength,
@@ -1,5 +1,15 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { initializeWebGL, testWebGLFeatures, WebGLInitializationError } from './context';
+import {
+  initializeWebGL,
+  testWebGLFeatures,
+  watchContextLoss,
+  queryWebGLFeatures,
+  WebGLInitializationError,
+} from './context';
+
+// WebGL2 is preferred but not required; the WebGL2-only tests skip without it
+const hasWebGL2 =
+  typeof WebGL2RenderingContext !== 'undefined' && document.createElement('canvas').getContext('webgl2') !== null;
 
 describe('WebGL Context (Browser Mode)', () => {
   let canvas: HTMLCanvasElement;
@@ -18,7 +28,7 @@ describe('WebGL Context (Browser Mode)', () => {
     
     expect(result.gl).toBeDefined();
     expect(result.canvas).toBe(canvas);
-    expect(result.gl).toBeInstanceOf(WebGLRenderingContext);
+    expect(['webgl1', 'webgl2']).toContain(result.backend);
     expect(typeof result.hasInstancedArrays).toBe('boolean');
     
     // Verify canvas dimensions
@@ -26,6 +36,35 @@ describe('WebGL Context (Browser Mode)', () => {
     expect(result.canvas.height).toBe(1024);
   });
 
+  it.skipIf(!hasWebGL2)('should prefer WebGL2 with instancing and vertex arrays', () => {
+    const result = initializeWebGL('test-canvas');
+
+    expect(result.backend).toBe('webgl2');
+    expect(result.gl).toBeInstanceOf(WebGL2RenderingContext);
+    expect(result.hasInstancedArrays).toBe(true);
+    expect(result.features.vertexArrays).not.toBeNull();
+  });
+
+  it('should fall back to WebGL1 with extensions', () => {
+    const result = initializeWebGL('test-canvas', { backends: ['webgl1'] });
+
+    expect(result.backend).toBe('webgl1');
+    expect(result.gl).toBeInstanceOf(WebGLRenderingContext);
+    expect(result.hasInstancedArrays).toBe(result.features.instancedArrays !== null);
+    expect(result.features.msaaSamples).toBe(0);
+    expect(result.features.floatRenderTargets).toBe(false);
+  });
+
+  it.skipIf(!hasWebGL2)('should draw instanced through the native WebGL2 adapter', () => {
+    const { gl, features } = initializeWebGL('test-canvas');
+    const ext = features.instancedArrays!;
+
+    ext.vertexAttribDivisorANGLE(1, 1);
+    expect(gl.getVertexAttrib(1, ext.VERTEX_ATTRIB_ARRAY_DIVISOR_ANGLE)).toBe(1);
+    ext.vertexAttribDivisorANGLE(1, 0);
+    expect(gl.getError()).toBe(gl.NO_ERROR);
+  });
+
   it('should throw error when canvas not found', () => {
     expect(() => {
       initializeWebGL('nonexistent-canvas');
@@ -89,4 +128,49 @@ describe('WebGL Context (Browser Mode)', () => {
     const clearColor = result.gl.getParameter(result.gl.COLOR_CLEAR_VALUE);
     expect(Array.from(clearColor)).toEqual([1.0, 1.0, 1.0, 1.0]);
   });
-});
\ No newline at end of file
+});
+
+describe('WebGL Context Loss Events', () => {
+  it('should allow restoration and notify on loss and restore', () => {
+    const canvas = document.createElement('canvas');
+    const onLost = vi.fn();
+    const onRestored = vi.fn();
+    watchContextLoss(canvas, { onLost, onRestored });
+
+    const lost = new Event('webglcontextlost', { cancelable: true });
+    canvas.dispatchEvent(lost);
+    canvas.dispatchEvent(new Event('webglcontextrestored'));
+
+    expect(lost.defaultPrevented).toBe(true);
+    expect(onLost).toHaveBeenCalledTimes(1);
+    expect(onRestored).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop notifying once unwatched', () => {
+    const canvas = document.createElement('canvas');
+    const onLost = vi.fn();
+    const unwatch = watchContextLoss(canvas, { onLost, onRestored: vi.fn() });
+
+    unwatch();
+    canvas.dispatchEvent(new Event('webglcontextlost', { cancelable: true }));
+
+    expect(onLost).not.toHaveBeenCalled();
+  });
+});
+
+describe('WebGL Feature Detection', () => {
+  it('should use WebGL1 extensions when the context is not WebGL2', () => {
+    const instancing = {} as ANGLE_instanced_arrays;
+    const gl = {
+      getExtension: (name: string) => (name === 'ANGLE_instanced_arrays' ? instancing : null),
+    } as unknown as WebGLRenderingContext;
+
+    expect(queryWebGLFeatures(gl)).toEqual({
+      backend: 'webgl1',
+      instancedArrays: instancing,
+      vertexArrays: null,
+      msaaSamples: 0,
+      floatRenderTargets: false,
+    });
+  });
+});
@@ -1,10 +1,51 @@
+/**
+ * Rendering backend picked at startup
+ */
+export type WebGLBackend = 'webgl2' | 'webgl1';
+
+/**
+ * Backends tried in order when none are specified
+ */
+export const DEFAULT_WEBGL_BACKENDS: readonly WebGLBackend[] = ['webgl2', 'webgl1'];
+
+/**
+ * Samples used for multisampled render targets when the backend allows it
+ */
+export const PREFERRED_MSAA_SAMPLES = 4;
+
+/**
+ * Optional GPU features, exposed through the WebGL 1 extension interfaces
+ * On WebGL2 the native functions are adapted to the same interfaces, so
+ * drawing code does not branch on the backend.
+ */
+export interface WebGLFeatures {
+  backend: WebGLBackend;
+  /** Instanced drawing (native on WebGL2, ANGLE_instanced_arrays on WebGL1) */
+  instancedArrays: ANGLE_instanced_arrays | null;
+  /** Vertex array objects (native on WebGL2, OES_vertex_array_object on WebGL1) */
+  vertexArrays: OES_vertex_array_object | null;
+  /** Samples for multisampled render targets (0 when unsupported, always on WebGL1) */
+  msaaSamples: number;
+  /** Whether half-float render targets are available (WebGL2 with EXT_color_buffer_float) */
+  floatRenderTargets: boolean;
+}
+
 export interface WebGLContextResult {
   gl: WebGLRenderingContext;
   canvas: HTMLCanvasElement;
+  backend: WebGLBackend;
+  features: WebGLFeatures;
   hasInstancedArrays: boolean;
   instancedArraysExt?: ANGLE_instanced_arrays | null;
 }
 
+export interface WebGLContextOptions {
+  /** Backends to try, in order */
+  backends?: readonly WebGLBackend[];
+  /** Keep the drawing buffer between frames, so a frame can redraw only part of the canvas */
+  preserveDrawingBuffer?: boolean;
+}
+
 export class WebGLInitializationError extends Error {
   public readonly cause?: unknown;
   
@@ -15,7 +56,22 @@ export class WebGLInitializationError extends Error {
   }
 }
 
-export function initializeWebGL(canvasId: string): WebGLContextResult {
+/**
+ * Callbacks for WebGL context loss and restoration
+ */
+export interface ContextLossHandlers {
+  onLost: () => void;
+  onRestored: () => void;
+}
+
+export class WebGLContextLostError extends Error {
+  constructor(operation: string) {
+    super(`Cannot ${operation} while the WebGL context is lost`);
+    this.name = 'WebGLContextLostError';
+  }
+}
+
+export function initializeWebGL(canvasId: string, options: WebGLContextOptions = {}): WebGLContextResult {
   const canvas = document.getElementById(canvasId) as HTMLCanvasElement;
   if (!canvas) {
     throw new WebGLInitializationError(`Canvas element with id "${canvasId}" not found`);
@@ -25,23 +81,26 @@ export function initializeWebGL(canvasId: string): WebGLContextResult {
     throw new WebGLInitializationError(`Element with id "${canvasId}" is not a canvas`);
   }
 
-  // Try to get WebGL context with explicit type
-  const gl = canvas.getContext('webgl') as WebGLRenderingContext | null || 
-             canvas.getContext('experimental-webgl') as WebGLRenderingContext | null;
+  const backends = options.backends ?? DEFAULT_WEBGL_BACKENDS;
+  const gl = createContext(canvas, backends, { preserveDrawingBuffer: options.preserveDrawingBuffer ?? false });
   if (!gl) {
-    throw new WebGLInitializationError('WebGL is not supported in this browser');
+    throw new WebGLInitializationError(`WebGL is not supported in this browser (tried ${backends.join(', ')})`);
   }
 
-  // Check for instanced arrays extension (required for efficient symmetry drawing)
-  const instancedArraysExt = gl.getExtension('ANGLE_instanced_arrays');
-  const hasInstancedArrays = instancedArraysExt !== null;
+  // Optional features (instancing is required for efficient symmetry drawing)
+  const features = queryWebGLFeatures(gl);
+  const hasInstancedArrays = features.instancedArrays !== null;
 
   // Log WebGL capabilities
   console.log('WebGL Context initialized:', {
+    backend: features.backend,
     renderer: gl.getParameter(gl.RENDERER),
     vendor: gl.getParameter(gl.VENDOR),
     version: gl.getParameter(gl.VERSION),
     hasInstancedArrays,
+    hasVertexArrays: features.vertexArrays !== null,
+    msaaSamples: features.msaaSamples,
+    floatRenderTargets: features.floatRenderTargets,
     maxTextureSize: gl.getParameter(gl.MAX_TEXTURE_SIZE),
     maxVertexAttribs: gl.getParameter(gl.MAX_VERTEX_ATTRIBS),
   });
@@ -55,8 +114,93 @@ export function initializeWebGL(canvasId: string): WebGLContextResult {
   return {
     gl,
     canvas,
+    backend: features.backend,
+    features,
     hasInstancedArrays,
-    instancedArraysExt,
+    instancedArraysExt: features.instancedArrays,
+  };
+}
+
+/**
+ * Get a context for the first backend the browser supports
+ */
+function createContext(
+  canvas: HTMLCanvasElement,
+  backends: readonly WebGLBackend[],
+  attributes: WebGLContextAttributes
+): WebGLRenderingContext | null {
+  for (const backend of backends) {
+    const gl = backend === 'webgl2'
+      ? canvas.getContext('webgl2', attributes)
+      : canvas.getContext('webgl', attributes) as WebGLRenderingContext | null ||
+        canvas.getContext('experimental-webgl', attributes) as WebGLRenderingContext | null;
+
+    if (gl) {
+      return gl;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Whether a context is WebGL2
+ */
+export function isWebGL2(gl: WebGLRenderingContext): gl is WebGL2RenderingContext {
+  return typeof WebGL2RenderingContext !== 'undefined' && gl instanceof WebGL2RenderingContext;
+}
+
+/**
+ * Detect optional features of a context
+ * Must be called again after a context restore, since extension objects do not survive it.
+ */
+export function queryWebGLFeatures(gl: WebGLRenderingContext): WebGLFeatures {
+  if (isWebGL2(gl)) {
+    const floatRenderTargets = gl.getExtension('EXT_color_buffer_float') !== null;
+    const maxSamples = gl.getParameter(gl.MAX_SAMPLES) as number;
+
+    return {
+      backend: 'webgl2',
+      instancedArrays: createNativeInstancedArrays(gl),
+      vertexArrays: createNativeVertexArrays(gl),
+      msaaSamples: Math.min(PREFERRED_MSAA_SAMPLES, maxSamples),
+      floatRenderTargets,
+    };
+  }
+
+  return {
+    backend: 'webgl1',
+    instancedArrays: gl.getExtension('ANGLE_instanced_arrays'),
+    vertexArrays: gl.getExtension('OES_vertex_array_object'),
+    msaaSamples: 0,
+    floatRenderTargets: false,
+  };
+}
+
+/**
+ * Expose WebGL2 instancing through the ANGLE_instanced_arrays interface
+ */
+function createNativeInstancedArrays(gl: WebGL2RenderingContext): ANGLE_instanced_arrays {
+  return {
+    VERTEX_ATTRIB_ARRAY_DIVISOR_ANGLE: gl.VERTEX_ATTRIB_ARRAY_DIVISOR,
+    drawArraysInstancedANGLE: (mode, first, count, primcount) =>
+      gl.drawArraysInstanced(mode, first, count, primcount),
+    drawElementsInstancedANGLE: (mode, count, type, offset, primcount) =>
+      gl.drawElementsInstanced(mode, count, type, offset, primcount),
+    vertexAttribDivisorANGLE: (index, divisor) => gl.vertexAttribDivisor(index, divisor),
+  };
+}
+
+/**
+ * Expose WebGL2 vertex array objects through the OES_vertex_array_object interface
+ */
+function createNativeVertexArrays(gl: WebGL2RenderingContext): OES_vertex_array_object {
+  return {
+    VERTEX_ARRAY_BINDING_OES: gl.VERTEX_ARRAY_BINDING,
+    createVertexArrayOES: () => gl.createVertexArray(),
+    bindVertexArrayOES: (vertexArray) => gl.bindVertexArray(vertexArray),
+    deleteVertexArrayOES: (vertexArray) => gl.deleteVertexArray(vertexArray),
+    isVertexArrayOES: (vertexArray) => gl.isVertexArray(vertexArray),
   };
 }
 
@@ -137,4 +281,27 @@ export function testWebGLFeatures(gl: WebGLRenderingContext): boolean {
     console.error('WebGL feature test failed:', error);
     return false;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Listen for webglcontextlost / webglcontextrestored on a canvas
+ * Loss is default-prevented, otherwise the browser never restores the context.
+ * Returns a function that removes the listeners.
+ */
+export function watchContextLoss(canvas: HTMLCanvasElement, handlers: ContextLossHandlers): () => void {
+  const handleLost = (event: Event) => {
+    event.preventDefault();
+    handlers.onLost();
+  };
+  const handleRestored = () => {
+    handlers.onRestored();
+  };
+
+  canvas.addEventListener('webglcontextlost', handleLost);
+  canvas.addEventListener('webglcontextrestored', handleRestored);
+
+  return () => {
+    canvas.removeEventListener('webglcontextlost', handleLost);
+    canvas.removeEventListener('webglcontextrestored', handleRestored);
+  };
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getBrushExtent,
+  getPointsBounds,
+  transformDirtyRect,
+  snapDirtyRect,
+  mergeDirtyRects,
+  computeStrokeDirtyRects,
+  getDirtyAreaFraction,
+  getDirtyPixelBoxes,
+  MAX_DIRTY_PIXEL_BOXES,
+} from './dirtyRegion';
+import { getBrushPreset } from './brushes';
+import { createIdentityMatrix, createReflectionMatrix } from '../symmetry/transform';
+import { Matrix3x3 } from '../math/Matrix3x3';
+import type { StrokePoint } from '../types/core';
+
+const point = (x: number, y: number, pressure: number = 1): StrokePoint => ({ x, y, pressure, timestamp: 0 });
+
+describe('Dirty Regions', () => {
+  it('should reach miter tips and stamp scatter in the brush extent', () => {
+    expect(getBrushExtent(getBrushPreset('round'), 10, 1)).toBeCloseTo(6 * Math.SQRT2);
+    expect(getBrushExtent(getBrushPreset('marker'), 10, 1)).toBeCloseTo(24);
+    expect(getBrushExtent(getBrushPreset('round'), 10, 1, 2)).toBeCloseTo(11 * Math.SQRT2);
+
+    const confetti = getBrushPreset('confetti');
+    const scatter = confetti.kind === 'stamp' ? confetti.stamp.scatter : 0;
+    expect(getBrushExtent(confetti, 10, 0)).toBeCloseTo(5 * Math.SQRT2 + scatter * 10);
+  });
+
+  it('should expand point bounds by the extent', () => {
+    expect(getPointsBounds([point(10, 20), point(30, 5)], 2)).toEqual({ x: 8, y: 3, width: 24, height: 19 });
+    expect(getPointsBounds([], 2)).toBeNull();
+  });
+
+  it('should bound a rect after a symmetry transform', () => {
+    const mirrored = transformDirtyRect({ x: 10, y: 20, width: 5, height: 5 }, createReflectionMatrix(Math.PI / 2));
+    expect(mirrored.x).toBeCloseTo(-15);
+    expect(mirrored.y).toBeCloseTo(20);
+    expect(mirrored.width).toBeCloseTo(5);
+  });
+
+  it('should snap rects out to whole pixels inside the document', () => {
+    expect(snapDirtyRect({ x: 1.5, y: -3, width: 2, height: 10 }, 100, 100)).toEqual({ x: 1, y: 0, width: 3, height: 7 });
+    expect(snapDirtyRect({ x: 95, y: 95, width: 10, height: 10 }, 100, 100)).toEqual({ x: 95, y: 95, width: 5, height: 5 });
+    expect(snapDirtyRect({ x: 120, y: 0, width: 10, height: 10 }, 100, 100)).toBeNull();
+  });
+
+  it('should merge overlapping and touching rects only', () => {
+    const merged = mergeDirtyRects([
+      { x: 0, y: 0, width: 10, height: 10 },
+      { x: 10, y: 0, width: 10, height: 10 },
+      { x: 50, y: 50, width: 5, height: 5 },
+      { x: 5, y: 5, width: 20, height: 20 },
+    ]);
+
+    expect(merged).toEqual([
+      { x: 0, y: 0, width: 25, height: 25 },
+      { x: 50, y: 50, width: 5, height: 5 },
+    ]);
+  });
+
+  it('should cover every symmetric copy of the changed points', () => {
+    // Mirror across x = 50
+    const mirror = [createIdentityMatrix(), { ...createIdentityMatrix(), m00: -1, m02: 100 }];
+    const rects = computeStrokeDirtyRects([point(10, 10), point(20, 10)], 2, mirror, 100, 100);
+
+    expect(rects).toEqual([
+      { x: 8, y: 8, width: 14, height: 4 },
+      { x: 78, y: 8, width: 14, height: 4 },
+    ]);
+    expect(getDirtyAreaFraction(rects, 100, 100)).toBeCloseTo(0.0112);
+  });
+
+  it('should map rects to padded pixel boxes of a scaled target', () => {
+    const boxes = getDirtyPixelBoxes([{ x: 10, y: 10, width: 10, height: 10 }], Matrix3x3.scale(2, 2), 100, 100);
+    expect(boxes).toEqual([{ x: 19, y: 19, width: 22, height: 22 }]);
+
+    expect(getDirtyPixelBoxes([{ x: 0, y: 0, width: 10, height: 10 }], Matrix3x3.translation(-50, 0), 100, 100)).toEqual([]);
+  });
+
+  it('should keep a few sparse boxes separate', () => {
+    const rects = [{ x: 10, y: 10, width: 4, height: 4 }, { x: 80, y: 80, width: 4, height: 4 }];
+
+    expect(getDirtyPixelBoxes(rects, Matrix3x3.identity(), 100, 100)).toHaveLength(2);
+  });
+
+  it('should fall back to one union box when there are too many boxes', () => {
+    // 64-fold dihedral symmetry: one small rect per copy around the center
+    const rects = Array.from({ length: 128 }, (_, i) => {
+      const angle = (i / 128) * Math.PI * 2;
+      return { x: 500 + Math.cos(angle) * 400, y: 500 + Math.sin(angle) * 400, width: 4, height: 4 };
+    });
+    const boxes = getDirtyPixelBoxes(rects, Matrix3x3.identity(), 1000, 1000);
+
+    expect(rects.length).toBeGreaterThan(MAX_DIRTY_PIXEL_BOXES);
+    expect(boxes).toEqual([{ x: 99, y: 99, width: 806, height: 806 }]);
+  });
+
+  it('should fall back to one union box when the boxes fill most of it', () => {
+    const rects = [{ x: 11, y: 11, width: 8, height: 8 }, { x: 23, y: 11, width: 8, height: 8 }];
+
+    expect(getDirtyPixelBoxes(rects, Matrix3x3.identity(), 100, 100)).toEqual([{ x: 10, y: 10, width: 22, height: 10 }]);
+  });
+});
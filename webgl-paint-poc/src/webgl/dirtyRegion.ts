@@ -0,0 +1,215 @@
+// Dirty regions for redrawing only the part of the canvas a live stroke changed
+
+import type { DirtyRect, StrokePoint } from '../types/core';
+import type { Matrix3x3 } from '../math/Matrix3x3';
+import type { TransformMatrix } from '../symmetry/transform';
+import { applyTransformToPoint } from '../symmetry/transform';
+import type { BrushPreset } from './brushes';
+
+/**
+ * Farthest a brush draws from a stroke point, in canvas pixels
+ * Stroke geometry is extruded by halfWidth + aa, up to miterLimit times at
+ * miter joins and √2 times at square cap corners. Stamps are rotated squares
+ * offset by up to scatter diameters across the stroke.
+ */
+export function getBrushExtent(
+  brush: BrushPreset,
+  brushSize: number,
+  antialiasWidth: number,
+  maxPressure: number = 1.0
+): number {
+  const diameter = Math.max(maxPressure * brushSize, 1.0);
+
+  if (brush.kind === 'stamp') {
+    return diameter * 0.5 * Math.SQRT2 + brush.stamp.scatter * diameter + antialiasWidth;
+  }
+
+  const { join, miterLimit } = brush.geometry;
+  const reach = Math.max(join === 'miter' ? miterLimit : 1.0, Math.SQRT2);
+  return (diameter * 0.5 + antialiasWidth) * reach;
+}
+
+/**
+ * Bounds of the points expanded by extent on every side (null without points)
+ */
+export function getPointsBounds(points: readonly StrokePoint[], extent: number): DirtyRect | null {
+  if (points.length === 0) {
+    return null;
+  }
+
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const { x, y } of points) {
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x);
+    maxY = Math.max(maxY, y);
+  }
+
+  return {
+    x: minX - extent,
+    y: minY - extent,
+    width: maxX - minX + extent * 2,
+    height: maxY - minY + extent * 2,
+  };
+}
+
+/**
+ * Bounds of a rect after a symmetry transform
+ */
+export function transformDirtyRect(rect: DirtyRect, transform: TransformMatrix): DirtyRect {
+  return boundsOfPoints(rectCorners(rect).map(corner => applyTransformToPoint(corner, transform)));
+}
+
+/**
+ * Expand a rect to whole pixels and clip it to width x height (null when nothing is left)
+ */
+export function snapDirtyRect(rect: DirtyRect, width: number, height: number): DirtyRect | null {
+  const minX = Math.max(0, Math.floor(rect.x));
+  const minY = Math.max(0, Math.floor(rect.y));
+  const maxX = Math.min(width, Math.ceil(rect.x + rect.width));
+  const maxY = Math.min(height, Math.ceil(rect.y + rect.height));
+
+  if (maxX <= minX || maxY <= minY) {
+    return null;
+  }
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+/**
+ * Merge rects that overlap or touch until none do
+ * The result covers the same pixels (and possibly more), with no pixel in two rects.
+ */
+export function mergeDirtyRects(rects: readonly DirtyRect[]): DirtyRect[] {
+  const merged = rects.map(rect => ({ ...rect }));
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (let i = 0; i < merged.length && !changed; i++) {
+      for (let j = i + 1; j < merged.length; j++) {
+        if (rectsTouch(merged[i], merged[j])) {
+          merged[i] = unionRects(merged[i], merged[j]);
+          merged.splice(j, 1);
+          changed = true;
+          break;
+        }
+      }
+    }
+  }
+
+  return merged;
+}
+
+function rectsTouch(a: DirtyRect, b: DirtyRect): boolean {
+  return a.x <= b.x + b.width && b.x <= a.x + a.width && a.y <= b.y + b.height && b.y <= a.y + a.height;
+}
+
+function unionRects(a: DirtyRect, b: DirtyRect): DirtyRect {
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  return {
+    x,
+    y,
+    width: Math.max(a.x + a.width, b.x + b.width) - x,
+    height: Math.max(a.y + a.height, b.y + b.height) - y,
+  };
+}
+
+/**
+ * Document region changed by a stroke's points and all of their symmetric copies
+ * Returns merged whole-pixel rects inside the document.
+ */
+export function computeStrokeDirtyRects(
+  points: readonly StrokePoint[],
+  extent: number,
+  transforms: readonly TransformMatrix[],
+  documentWidth: number,
+  documentHeight: number
+): DirtyRect[] {
+  const bounds = getPointsBounds(points, extent);
+  if (!bounds) {
+    return [];
+  }
+
+  const rects = transforms
+    .map(transform => snapDirtyRect(transformDirtyRect(bounds, transform), documentWidth, documentHeight))
+    .filter((rect): rect is DirtyRect => rect !== null);
+
+  return mergeDirtyRects(rects);
+}
+
+/**
+ * Fraction of the document covered by merged (non-overlapping) rects
+ */
+export function getDirtyAreaFraction(rects: readonly DirtyRect[], documentWidth: number, documentHeight: number): number {
+  const area = rects.reduce((sum, rect) => sum + rect.width * rect.height, 0);
+  return Math.min(area / (documentWidth * documentHeight), 1.0);
+}
+
+/**
+ * Most scissor boxes drawn separately; every box reruns the whole draw
+ * (tessellation, all symmetric copies and compositing), so many boxes cost more than their union.
+ */
+export const MAX_DIRTY_PIXEL_BOXES = 8;
+
+/**
+ * Boxes covering more than this fraction of their union are drawn as the union
+ */
+export const MAX_SEPARATE_BOX_COVERAGE = 0.5;
+
+/**
+ * Pixel boxes of a target that document rects map to through pixelMatrix (top row first)
+ * Boxes are padded by one pixel because filtered sampling reaches a texel
+ * beyond the rect, then clipped to the target and merged.
+ * When there are more than MAX_DIRTY_PIXEL_BOXES boxes, or they fill most of their
+ * union, the single union box is returned so the draw runs once.
+ */
+export function getDirtyPixelBoxes(
+  rects: readonly DirtyRect[],
+  pixelMatrix: Matrix3x3,
+  width: number,
+  height: number
+): DirtyRect[] {
+  const boxes = rects
+    .map(rect => {
+      const bounds = boundsOfPoints(rectCorners(rect).map(corner => pixelMatrix.transformPoint(corner.x, corner.y)));
+      return snapDirtyRect(
+        { x: bounds.x - 1, y: bounds.y - 1, width: bounds.width + 2, height: bounds.height + 2 },
+        width,
+        height
+      );
+    })
+    .filter((box): box is DirtyRect => box !== null);
+
+  const merged = mergeDirtyRects(boxes);
+  if (merged.length <= 1) {
+    return merged;
+  }
+
+  const union = merged.reduce(unionRects);
+  const area = merged.reduce((sum, box) => sum + box.width * box.height, 0);
+  if (merged.length > MAX_DIRTY_PIXEL_BOXES || area > union.width * union.height * MAX_SEPARATE_BOX_COVERAGE) {
+    return [union];
+  }
+  return merged;
+}
+
+function rectCorners(rect: DirtyRect): Array<{ x: number; y: number }> {
+  return [
+    { x: rect.x, y: rect.y },
+    { x: rect.x + rect.width, y: rect.y },
+    { x: rect.x, y: rect.y + rect.height },
+    { x: rect.x + rect.width, y: rect.y + rect.height },
+  ];
+}
+
+function boundsOfPoints(points: ReadonlyArray<{ x: number; y: number }>): DirtyRect {
+  const xs = points.map(point => point.x);
+  const ys = points.map(point => point.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
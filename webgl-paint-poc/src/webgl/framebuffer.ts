@@ -0,0 +1,247 @@
+// Offscreen render targets (framebuffer + color texture)
+
+import { isWebGL2 } from './context';
+
+/**
+ * Color format of a render target
+ * 'rgba16f' keeps precision when many translucent strokes accumulate (WebGL2 only).
+ */
+export type RenderTargetFormat = 'rgba8' | 'rgba16f';
+
+export interface RenderTargetOptions {
+  format?: RenderTargetFormat;
+  /** Multisample count; 0 renders straight into the texture (WebGL2 only when > 0) */
+  samples?: number;
+}
+
+/**
+ * Multisampled color storage of a render target
+ */
+export interface MultisampleStorage {
+  renderbuffer: WebGLRenderbuffer;
+  /** Texture-backed framebuffer the samples are resolved into */
+  resolveFramebuffer: WebGLFramebuffer;
+}
+
+export interface RenderTarget {
+  /** Framebuffer drawn into (backed by a multisampled renderbuffer when multisampled) */
+  framebuffer: WebGLFramebuffer;
+  /** Color texture; for multisampled targets it holds the last resolve */
+  texture: WebGLTexture;
+  width: number;
+  height: number;
+  format: RenderTargetFormat;
+  multisample: MultisampleStorage | null;
+}
+
+export class FramebufferCreationError extends Error {
+  public readonly status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'FramebufferCreationError';
+    this.status = status;
+  }
+}
+
+/**
+ * Create an RGBA render target of the given size
+ * The texture is cleared to transparent black. Multisampled targets draw into
+ * a renderbuffer and must be resolved (resolveRenderTarget) before the texture is sampled.
+ */
+export function createRenderTarget(
+  gl: WebGLRenderingContext,
+  width: number,
+  height: number,
+  options: RenderTargetOptions = {}
+): RenderTarget {
+  const format = options.format ?? 'rgba8';
+  const samples = options.samples ?? 0;
+
+  if ((format !== 'rgba8' || samples > 0) && !isWebGL2(gl)) {
+    throw new FramebufferCreationError(`${format} render targets with ${samples} samples require WebGL2`);
+  }
+
+  const texture = gl.createTexture();
+  if (!texture) {
+    throw new FramebufferCreationError('Failed to create render target texture');
+  }
+
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  if (format === 'rgba16f' && isWebGL2(gl)) {
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA16F, width, height, 0, gl.RGBA, gl.HALF_FLOAT, null);
+  } else {
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, width, height, 0, gl.RGBA, gl.UNSIGNED_BYTE, null);
+  }
+  // Sampled 1:1, so no mipmaps; NPOT sizes need CLAMP_TO_EDGE in WebGL 1
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+  gl.bindTexture(gl.TEXTURE_2D, null);
+
+  let textureFramebuffer: WebGLFramebuffer;
+  try {
+    textureFramebuffer = createFramebuffer(gl, () => {
+      gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, texture, 0);
+    });
+  } catch (error) {
+    gl.deleteTexture(texture);
+    throw error;
+  }
+
+  let target: RenderTarget = {
+    framebuffer: textureFramebuffer,
+    texture,
+    width,
+    height,
+    format,
+    multisample: null,
+  };
+
+  if (samples > 0 && isWebGL2(gl)) {
+    try {
+      target = addMultisampleStorage(gl, target, samples);
+    } catch (error) {
+      deleteRenderTarget(gl, target);
+      throw error;
+    }
+  }
+
+  clearRenderTarget(gl, target);
+  gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+
+  return target;
+}
+
+/**
+ * Draw into a multisampled renderbuffer, keeping the texture framebuffer for resolves
+ * Samples are clamped to what the format supports; the target stays single-sampled if it supports none.
+ */
+function addMultisampleStorage(
+  gl: WebGL2RenderingContext,
+  target: RenderTarget,
+  samples: number
+): RenderTarget {
+  const internalFormat = target.format === 'rgba16f' ? gl.RGBA16F : gl.RGBA8;
+
+  // Supported sample counts for the format, highest first (empty when it cannot be multisampled)
+  const supported = gl.getInternalformatParameter(gl.RENDERBUFFER, internalFormat, gl.SAMPLES) as Int32Array | null;
+  const sampleCount = Math.min(samples, supported?.[0] ?? 0);
+  if (sampleCount === 0) {
+    return target;
+  }
+
+  const renderbuffer = gl.createRenderbuffer();
+  if (!renderbuffer) {
+    throw new FramebufferCreationError('Failed to create multisample renderbuffer');
+  }
+
+  gl.bindRenderbuffer(gl.RENDERBUFFER, renderbuffer);
+  gl.renderbufferStorageMultisample(gl.RENDERBUFFER, sampleCount, internalFormat, target.width, target.height);
+  gl.bindRenderbuffer(gl.RENDERBUFFER, null);
+
+  try {
+    const framebuffer = createFramebuffer(gl, () => {
+      gl.framebufferRenderbuffer(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.RENDERBUFFER, renderbuffer);
+    });
+    return { ...target, framebuffer, multisample: { renderbuffer, resolveFramebuffer: target.framebuffer } };
+  } catch (error) {
+    gl.deleteRenderbuffer(renderbuffer);
+    throw error;
+  }
+}
+
+/**
+ * Create a framebuffer and check that it is complete after attaching its color buffer
+ * Leaves the framebuffer bound.
+ */
+function createFramebuffer(gl: WebGLRenderingContext, attach: () => void): WebGLFramebuffer {
+  const framebuffer = gl.createFramebuffer();
+  if (!framebuffer) {
+    throw new FramebufferCreationError('Failed to create framebuffer');
+  }
+
+  gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+  attach();
+
+  const status = gl.checkFramebufferStatus(gl.FRAMEBUFFER);
+  if (status !== gl.FRAMEBUFFER_COMPLETE) {
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    gl.deleteFramebuffer(framebuffer);
+    throw new FramebufferCreationError(`Framebuffer is incomplete (status 0x${status.toString(16)})`, status);
+  }
+
+  return framebuffer;
+}
+
+/**
+ * Bind a render target (or the canvas when null) and match the viewport to it
+ */
+export function bindRenderTarget(
+  gl: WebGLRenderingContext,
+  target: RenderTarget | null
+): void {
+  if (target) {
+    gl.bindFramebuffer(gl.FRAMEBUFFER, target.framebuffer);
+    gl.viewport(0, 0, target.width, target.height);
+  } else {
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    gl.viewport(0, 0, gl.drawingBufferWidth, gl.drawingBufferHeight);
+  }
+}
+
+/**
+ * Clear a render target to transparent black, keeping the canvas clear color
+ * Multisampled targets clear their resolved texture too. Leaves the target bound.
+ */
+export function clearRenderTarget(gl: WebGLRenderingContext, target: RenderTarget): void {
+  const clearColor = gl.getParameter(gl.COLOR_CLEAR_VALUE) as Float32Array;
+
+  gl.clearColor(0, 0, 0, 0);
+  if (target.multisample) {
+    gl.bindFramebuffer(gl.FRAMEBUFFER, target.multisample.resolveFramebuffer);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+  }
+  gl.bindFramebuffer(gl.FRAMEBUFFER, target.framebuffer);
+  gl.clear(gl.COLOR_BUFFER_BIT);
+  gl.clearColor(clearColor[0], clearColor[1], clearColor[2], clearColor[3]);
+}
+
+/**
+ * Resolve a multisampled target into its texture
+ * No-op for single-sampled targets. Keeps the current framebuffer bound.
+ */
+export function resolveRenderTarget(gl: WebGLRenderingContext, target: RenderTarget): void {
+  if (!target.multisample || !isWebGL2(gl)) {
+    return;
+  }
+
+  const framebuffer = gl.getParameter(gl.FRAMEBUFFER_BINDING) as WebGLFramebuffer | null;
+  const { width, height } = target;
+
+  gl.bindFramebuffer(gl.READ_FRAMEBUFFER, target.framebuffer);
+  gl.bindFramebuffer(gl.DRAW_FRAMEBUFFER, target.multisample.resolveFramebuffer);
+  gl.blitFramebuffer(0, 0, width, height, 0, 0, width, height, gl.COLOR_BUFFER_BIT, gl.NEAREST);
+  gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+}
+
+/**
+ * Delete a render target and free GPU memory
+ */
+export function deleteRenderTarget(gl: WebGLRenderingContext, target: RenderTarget): void {
+  if (gl.isFramebuffer(target.framebuffer)) {
+    gl.deleteFramebuffer(target.framebuffer);
+  }
+  if (target.multisample) {
+    if (gl.isFramebuffer(target.multisample.resolveFramebuffer)) {
+      gl.deleteFramebuffer(target.multisample.resolveFramebuffer);
+    }
+    if (gl.isRenderbuffer(target.multisample.renderbuffer)) {
+      gl.deleteRenderbuffer(target.multisample.renderbuffer);
+    }
+  }
+  if (gl.isTexture(target.texture)) {
+    gl.deleteTexture(target.texture);
+  }
+}
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { transformMatricesToInstanceData, INSTANCE_TRANSFORM_COMPONENTS } from './instancing';
+import * as Transform from '../symmetry/transform';
+
+describe('Instance Transforms', () => {
+  it('should pack the affine rows of each matrix', () => {
+    const data = transformMatricesToInstanceData([
+      Transform.createIdentityMatrix(),
+      Transform.createTranslationMatrix(10, 20),
+    ]);
+
+    expect(data.length).toBe(2 * INSTANCE_TRANSFORM_COMPONENTS);
+    expect(Array.from(data)).toEqual([1, 0, 0, 0, 1, 0, 1, 0, 10, 0, 1, 20]);
+  });
+
+  it('should transform points like applyTransformToPoint', () => {
+    const { matrix } = Transform.create8AxisSymmetryTransform(1);
+    const [m00, m01, m02, m10, m11, m12] = transformMatricesToInstanceData([matrix]);
+    const point = { x: 600, y: 450 };
+    const expected = Transform.applyTransformToPoint(point, matrix);
+
+    expect(m00 * point.x + m01 * point.y + m02).toBeCloseTo(expected.x, 3);
+    expect(m10 * point.x + m11 * point.y + m12).toBeCloseTo(expected.y, 3);
+  });
+
+  it('should return empty data for no matrices', () => {
+    expect(transformMatricesToInstanceData([]).length).toBe(0);
+  });
+});
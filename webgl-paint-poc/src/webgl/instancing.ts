@@ -0,0 +1,93 @@
+// Per-instance affine transforms for drawing symmetric copies in one call
+
+import { createIdentityMatrix } from '../symmetry/transform';
+import type { TransformMatrix } from '../symmetry/transform';
+
+/**
+ * Floats per instance: the top two rows of the affine matrix
+ * [m00, m01, m02, m10, m11, m12]
+ */
+export const INSTANCE_TRANSFORM_COMPONENTS = 6;
+
+/**
+ * Attribute locations of the per-instance transform rows
+ */
+export interface InstanceTransformAttributeLocations {
+  transformX: number;
+  transformY: number;
+}
+
+export class InstancingUnsupportedError extends Error {
+  constructor() {
+    super('ANGLE_instanced_arrays is not available');
+    this.name = 'InstancingUnsupportedError';
+  }
+}
+
+/**
+ * Pack affine matrices into per-instance attribute data
+ * The projective row (m20, m21, m22) is dropped; symmetry transforms are affine.
+ */
+export function transformMatricesToInstanceData(matrices: readonly TransformMatrix[]): Float32Array {
+  const data = new Float32Array(matrices.length * INSTANCE_TRANSFORM_COMPONENTS);
+
+  matrices.forEach((matrix, i) => {
+    data.set(
+      [matrix.m00, matrix.m01, matrix.m02, matrix.m10, matrix.m11, matrix.m12],
+      i * INSTANCE_TRANSFORM_COMPONENTS
+    );
+  });
+
+  return data;
+}
+
+/**
+ * Upload instance transforms and bind them as per-instance attributes
+ */
+export function bindInstanceTransforms(
+  gl: WebGLRenderingContext,
+  ext: ANGLE_instanced_arrays,
+  buffer: WebGLBuffer,
+  locations: InstanceTransformAttributeLocations,
+  instanceData: Float32Array
+): void {
+  gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+  gl.bufferData(gl.ARRAY_BUFFER, instanceData, gl.DYNAMIC_DRAW);
+
+  const stride = INSTANCE_TRANSFORM_COMPONENTS * 4;
+
+  gl.enableVertexAttribArray(locations.transformX);
+  gl.vertexAttribPointer(locations.transformX, 3, gl.FLOAT, false, stride, 0);
+  ext.vertexAttribDivisorANGLE(locations.transformX, 1);
+
+  gl.enableVertexAttribArray(locations.transformY);
+  gl.vertexAttribPointer(locations.transformY, 3, gl.FLOAT, false, stride, 3 * 4);
+  ext.vertexAttribDivisorANGLE(locations.transformY, 1);
+}
+
+/**
+ * Reset instance transform attributes so other draws see per-vertex defaults
+ */
+export function unbindInstanceTransforms(
+  gl: WebGLRenderingContext,
+  ext: ANGLE_instanced_arrays,
+  locations: InstanceTransformAttributeLocations
+): void {
+  ext.vertexAttribDivisorANGLE(locations.transformX, 0);
+  ext.vertexAttribDivisorANGLE(locations.transformY, 0);
+  gl.disableVertexAttribArray(locations.transformX);
+  gl.disableVertexAttribArray(locations.transformY);
+}
+
+/**
+ * Use a single transform for every vertex of a non-instanced draw
+ * Sets the constant attribute value, so the attribute arrays must be disabled.
+ */
+export function setConstantTransform(
+  gl: WebGLRenderingContext,
+  locations: InstanceTransformAttributeLocations,
+  matrix: TransformMatrix = createIdentityMatrix()
+): void {
+  gl.vertexAttrib3f(locations.transformX, matrix.m00, matrix.m01, matrix.m02);
+  gl.vertexAttrib3f(locations.transformY, matrix.m10, matrix.m11, matrix.m12);
+}
@@ -0,0 +1,174 @@
+// Rendering operations shared by the WebGL renderer and the software rasterizer
+
+import type { DirtyRect, StrokeData } from '../types/core';
+import type { TransformMatrix } from '../symmetry/transform';
+import type { GuideLine } from '../symmetry/symmetryGuides';
+import type { Matrix3x3 } from '../math/Matrix3x3';
+import {
+  clearCanvas,
+  setBackground,
+  renderStroke,
+  renderStrokeInstanced,
+  supportsInstancing,
+  renderStrokes,
+  updateLayerCache,
+  compositeLayers,
+  compositeLayersTiled,
+  drawLayerGroup,
+  drawGuideLines,
+  beginLayerPreview,
+  endLayerPreview,
+  setDirtyRects,
+  supportsPartialRedraw,
+  invalidateLayerCaches,
+  retainLayerCaches,
+  setDrawingColor,
+  setBrushSize,
+  setBrush,
+  setAntialiasWidth,
+  setViewMatrix,
+  resizeDocument,
+  resizeDrawingBuffer,
+  cleanupRenderer,
+} from './renderer';
+import type { WebGLRenderer, CompositeLayer } from './renderer';
+import type { BackgroundPass } from './background';
+import type { BrushPreset } from './brushes';
+
+/**
+ * Straight-alpha RGBA bytes, first row at the top (the layout of ImageData)
+ */
+export interface ImageBuffer {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+/**
+ * Where a renderer draws: a WebGL canvas or a CPU pixel buffer
+ * Both produce the same strokes, blending, symmetry copies and layer
+ * compositing, so drawing code and tests can run against either.
+ */
+export interface RenderBackend {
+  /** Clear the output to transparent and draw the document background */
+  clear(): void;
+  /** Set the document background drawn by clear (null for none) */
+  setBackground(background: BackgroundPass | null): void;
+  /** Draw a stroke (with its own style when it has one) */
+  renderStroke(stroke: StrokeData): void;
+  /** Draw a stroke once per transform */
+  renderStrokeInstanced(stroke: StrokeData, transforms: readonly TransformMatrix[]): void;
+  supportsInstancing(): boolean;
+  /** Clear and draw the strokes */
+  renderStrokes(strokes: StrokeData[]): void;
+  /** Bake a layer's committed strokes into its cache; false when the caller must draw directly */
+  updateLayerCache(
+    layerId: string,
+    strokes: readonly StrokeData[],
+    contentKey: string,
+    drawStroke?: (stroke: StrokeData) => void
+  ): boolean;
+  /** Composite layer caches bottom to top onto the output */
+  compositeLayers(layers: readonly CompositeLayer[]): void;
+  /** Composite layer caches repeated over every visible tile */
+  compositeLayersTiled(layers: readonly CompositeLayer[], showBorders?: boolean): void;
+  /** Draw into a layer group and composite it onto the target like a layer (layers merged into the one below) */
+  drawLayerGroup(group: CompositeLayer, draw: () => void): void;
+  /** Draw guide lines (document coordinates) over the output, limited to the dirty rects */
+  drawGuideLines(lines: readonly GuideLine[]): void;
+  /** Composite a layer from its cache plus strokes drawn by drawStrokes until endLayerPreview */
+  beginLayerPreview(layerId: string, drawStrokes: () => void): boolean;
+  endLayerPreview(): void;
+  /** Limit the clear, layer preview and compositing to document regions (null redraws everything) */
+  setDirtyRects(rects: readonly DirtyRect[] | null): void;
+  /** Whether the output keeps its content between frames, so a frame can redraw only its dirty rects */
+  supportsPartialRedraw(): boolean;
+  invalidateLayerCaches(): void;
+  retainLayerCaches(layerIds: readonly string[]): void;
+  setDrawingColor(red: number, green: number, blue: number, alpha?: number): void;
+  setBrushSize(size: number): void;
+  setBrush(brushId: string): void;
+  getBrush(): BrushPreset;
+  setAntialiasWidth(width: number): void;
+  getAntialiasWidth(): number;
+  /** Set the canvas-to-view transform (zoom/pan/rotation) */
+  setViewMatrix(viewMatrix: Matrix3x3): void;
+  /** Document size in canvas pixels */
+  getDocumentSize(): { width: number; height: number };
+  resizeDocument(width: number, height: number): void;
+  /** Resize the output in device pixels */
+  resizeDrawingBuffer(width: number, height: number): void;
+  /** Read the output back */
+  readPixels(): ImageBuffer;
+  cleanup(): void;
+}
+
+/**
+ * Read the WebGL drawing buffer as straight-alpha rows, top row first
+ * The canvas holds premultiplied alpha with the first row at the bottom.
+ * Without preserveDrawingBuffer, read in the same task as drawing.
+ */
+export function readCanvasPixels(renderer: WebGLRenderer): ImageBuffer {
+  const { gl } = renderer;
+  const width = gl.drawingBufferWidth;
+  const height = gl.drawingBufferHeight;
+  const pixels = new Uint8Array(width * height * 4);
+
+  gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+  gl.readPixels(0, 0, width, height, gl.RGBA, gl.UNSIGNED_BYTE, pixels);
+
+  const data = new Uint8ClampedArray(width * height * 4);
+  const rowLength = width * 4;
+  for (let y = 0; y < height; y++) {
+    const sourceRow = (height - 1 - y) * rowLength;
+    for (let x = 0; x < rowLength; x += 4) {
+      const i = sourceRow + x;
+      const alpha = pixels[i + 3];
+      const o = y * rowLength + x;
+      for (let c = 0; c < 3; c++) {
+        data[o + c] = alpha > 0 ? Math.round((pixels[i + c] * 255) / alpha) : 0;
+      }
+      data[o + 3] = alpha;
+    }
+  }
+
+  return { width, height, data };
+}
+
+/**
+ * Expose a WebGL renderer as a render backend
+ */
+export function createWebGLBackend(renderer: WebGLRenderer): RenderBackend {
+  return {
+    clear: () => clearCanvas(renderer),
+    setBackground: (background) => setBackground(renderer, background),
+    renderStroke: (stroke) => renderStroke(renderer, stroke),
+    renderStrokeInstanced: (stroke, transforms) => renderStrokeInstanced(renderer, stroke, transforms),
+    supportsInstancing: () => supportsInstancing(renderer),
+    renderStrokes: (strokes) => renderStrokes(renderer, strokes),
+    updateLayerCache: (layerId, strokes, contentKey, drawStroke) =>
+      updateLayerCache(renderer, layerId, strokes, contentKey, drawStroke),
+    compositeLayers: (layers) => compositeLayers(renderer, layers),
+    compositeLayersTiled: (layers, showBorders) => compositeLayersTiled(renderer, layers, showBorders),
+    drawLayerGroup: (group, draw) => drawLayerGroup(renderer, group, draw),
+    drawGuideLines: (lines) => drawGuideLines(renderer, lines),
+    beginLayerPreview: (layerId, drawStrokes) => beginLayerPreview(renderer, layerId, drawStrokes),
+    endLayerPreview: () => endLayerPreview(renderer),
+    setDirtyRects: (rects) => setDirtyRects(renderer, rects),
+    supportsPartialRedraw: () => supportsPartialRedraw(renderer),
+    invalidateLayerCaches: () => invalidateLayerCaches(renderer),
+    retainLayerCaches: (layerIds) => retainLayerCaches(renderer, layerIds),
+    setDrawingColor: (red, green, blue, alpha) => setDrawingColor(renderer, red, green, blue, alpha),
+    setBrushSize: (size) => setBrushSize(renderer, size),
+    setBrush: (brushId) => setBrush(renderer, brushId),
+    getBrush: () => renderer.brush,
+    setAntialiasWidth: (width) => setAntialiasWidth(renderer, width),
+    getAntialiasWidth: () => renderer.antialiasWidth,
+    setViewMatrix: (viewMatrix) => setViewMatrix(renderer, viewMatrix),
+    getDocumentSize: () => ({ width: renderer.canvasWidth, height: renderer.canvasHeight }),
+    resizeDocument: (width, height) => resizeDocument(renderer, width, height),
+    resizeDrawingBuffer: (width, height) => resizeDrawingBuffer(renderer, width, height),
+    readPixels: () => readCanvasPixels(renderer),
+    cleanup: () => cleanupRenderer(renderer),
+  };
+}
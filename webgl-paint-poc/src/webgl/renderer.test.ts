@@ -8,9 +8,31 @@ import {
   renderStrokesAsPoints,
   renderTestPattern,
   cleanupRenderer,
+  setBrush,
+  setBrushSize,
+  registerBrushTip,
+  applyStrokeStyle,
+  setViewMatrix,
+  updateLayerCache,
+  compositeLayers,
+  compositeLayersTiled,
+  retainLayerCaches,
+  beginLayerPreview,
+  endLayerPreview,
+  isContextLost,
+  restoreRenderer,
+  resizeDrawingBuffer,
+  resizeDocument,
+  setBackground,
+  supportsPartialRedraw,
   RendererInitializationError,
 } from './renderer';
-import type { WebGLRenderer } from './renderer';
+import { getBackgroundPass, CHECKERBOARD_CELL_SIZE } from './background';
+import { watchContextLoss } from './context';
+import { Matrix3x3 } from '../math/Matrix3x3';
+import { createBrushTip, generateBrushTipPixels, BrushTipNotFoundError } from './brushTip';
+import { UnknownBrushError } from './brushes';
+import type { WebGLRenderer, CompositeLayer } from './renderer';
 import { horizontalLineStroke, arcStroke, allTestStrokes } from '../data/testStrokes';
 import * as CoreTypes from '../types/core';
 
@@ -62,17 +84,33 @@ describe('WebGL Renderer (Browser Mode)', () => {
       expect(viewport[2]).toBe(1024); // width
       expect(viewport[3]).toBe(1024); // height
 
-      // Check clear color (should be white: 1,1,1,1)
+      // Check clear color (transparent; the white background is drawn as its own pass)
       const clearColor = gl.getParameter(gl.COLOR_CLEAR_VALUE);
-      expect(clearColor[0]).toBeCloseTo(1.0);
-      expect(clearColor[1]).toBeCloseTo(1.0);
-      expect(clearColor[2]).toBeCloseTo(1.0);
-      expect(clearColor[3]).toBeCloseTo(1.0);
+      expect(clearColor[0]).toBeCloseTo(0.0);
+      expect(clearColor[1]).toBeCloseTo(0.0);
+      expect(clearColor[2]).toBeCloseTo(0.0);
+      expect(clearColor[3]).toBeCloseTo(0.0);
 
       // Check blending is enabled
       expect(gl.isEnabled(gl.BLEND)).toBe(true);
     });
 
+    it('should keep the drawing buffer only when partial redraw is requested', () => {
+      // The drawing buffer is not preserved by default, so partial redraw is unavailable
+      expect(supportsPartialRedraw(renderer)).toBe(false);
+
+      const preserved = document.createElement('canvas');
+      preserved.id = 'renderer-test-preserved-canvas';
+      document.body.appendChild(preserved);
+      try {
+        const preservedRenderer = initializeRenderer(preserved.id, { preserveDrawingBuffer: true });
+        expect(supportsPartialRedraw(preservedRenderer)).toBe(true);
+        cleanupRenderer(preservedRenderer);
+      } finally {
+        preserved.remove();
+      }
+    });
+
     it('should throw RendererInitializationError for invalid canvas', () => {
       expect(() => {
         initializeRenderer('non-existent-canvas');
@@ -140,6 +178,288 @@ describe('WebGL Renderer (Browser Mode)', () => {
     });
   });
 
+  describe('Per-Stroke Style', () => {
+    const styledStroke: StrokeData = {
+      ...horizontalLineStroke,
+      style: {
+        color: [1.0, 0.0, 0.0, 1.0],
+        size: 30,
+        opacity: 0.5,
+        brushId: 'chalk',
+        blendMode: 'normal',
+      },
+    };
+
+    it('should restore renderer settings after drawing a styled stroke', () => {
+      setDrawingColor(renderer, 0.0, 0.0, 1.0, 1.0);
+      setBrushSize(renderer, 4);
+      setBrush(renderer, 'marker');
+
+      renderStroke(renderer, styledStroke);
+
+      expect(renderer.color).toEqual([0.0, 0.0, 1.0, 1.0]);
+      expect(renderer.brushSize).toBe(4);
+      expect(renderer.brush.id).toBe('marker');
+    });
+
+    it('should apply color, opacity, size and brush from a style', () => {
+      applyStrokeStyle(renderer, styledStroke.style!);
+
+      expect(renderer.color).toEqual([1.0, 0.0, 0.0, 0.5]);
+      expect(renderer.brushSize).toBe(30);
+      expect(renderer.brush.id).toBe('chalk');
+      expect(renderer.blendMode).toBe('normal');
+    });
+
+    it('should fall back to the default brush for unknown brush ids', () => {
+      applyStrokeStyle(renderer, { ...styledStroke.style!, brushId: 'removed-brush' });
+
+      expect(renderer.brush.id).toBe('round');
+    });
+  });
+
+  const shortStroke: StrokeData = {
+    id: 'view-test',
+    points: [
+      { x: 100, y: 100, pressure: 1.0, timestamp: 1000 },
+      { x: 140, y: 100, pressure: 1.0, timestamp: 1010 },
+    ],
+    timestamp: 1000,
+  };
+
+  const layer: CompositeLayer = { id: 'layer', visible: true, opacity: 1.0, blendMode: CoreTypes.BlendMode.NORMAL };
+
+  // Red channel at canvas coordinates (readPixels counts rows from the bottom)
+  const redAt = (x: number, y: number): number => {
+    const pixel = new Uint8Array(4);
+    renderer.gl.readPixels(x, canvas.height - 1 - y, 1, 1, renderer.gl.RGBA, renderer.gl.UNSIGNED_BYTE, pixel);
+    return pixel[0];
+  };
+
+  const pixelAt = (x: number, y: number): number[] => {
+    const pixel = new Uint8Array(4);
+    renderer.gl.readPixels(x, canvas.height - 1 - y, 1, 1, renderer.gl.RGBA, renderer.gl.UNSIGNED_BYTE, pixel);
+    return Array.from(pixel);
+  };
+
+  describe('View Transform', () => {
+    it('should draw strokes through the view matrix', () => {
+      setBrushSize(renderer, 10);
+      setViewMatrix(renderer, Matrix3x3.translation(100, 0));
+
+      clearCanvas(renderer);
+      renderStroke(renderer, shortStroke);
+
+      expect(redAt(220, 100)).toBeLessThan(128);
+      expect(redAt(120, 100)).toBe(255);
+    });
+
+    it('should bake the cache in canvas coordinates and composite it through the view', () => {
+      setBrushSize(renderer, 10);
+      setViewMatrix(renderer, Matrix3x3.translation(100, 0));
+
+      clearCanvas(renderer);
+      expect(updateLayerCache(renderer, layer.id, [shortStroke], '')).toBe(true);
+      compositeLayers(renderer, [layer]);
+
+      expect(renderer.viewMatrix.equals(Matrix3x3.translation(100, 0))).toBe(true);
+      expect(redAt(220, 100)).toBeLessThan(128);
+      expect(redAt(120, 100)).toBe(255);
+    });
+
+    it('should repeat the cache in neighbouring tiles when zoomed out', () => {
+      setBrushSize(renderer, 10);
+      const zoomOut = Matrix3x3.translation(512, 512)
+        .multiply(Matrix3x3.scale(0.5))
+        .multiply(Matrix3x3.translation(-512, -512));
+      setViewMatrix(renderer, zoomOut);
+
+      clearCanvas(renderer);
+      expect(updateLayerCache(renderer, layer.id, [shortStroke], '')).toBe(true);
+      compositeLayersTiled(renderer, [layer], true);
+
+      // Canvas (120, 100) lands at view (316, 306); the tile to the right at (828, 306)
+      expect(redAt(316, 306)).toBeLessThan(128);
+      expect(redAt(828, 306)).toBeLessThan(128);
+      expect(redAt(600, 306)).toBe(255);
+      expect(renderer.gl.getError()).toBe(renderer.gl.NO_ERROR);
+    });
+  });
+
+  describe('Document Background', () => {
+    it('should draw the default white background', () => {
+      clearCanvas(renderer);
+
+      expect(pixelAt(10, 10)).toEqual([255, 255, 255, 255]);
+    });
+
+    it('should leave the canvas transparent without a background', () => {
+      setBackground(renderer, null);
+      clearCanvas(renderer);
+
+      expect(pixelAt(10, 10)).toEqual([0, 0, 0, 0]);
+    });
+
+    it('should show a checkerboard for transparent documents', () => {
+      setBackground(renderer, getBackgroundPass({ type: CoreTypes.BackgroundType.TRANSPARENT, color: [1, 1, 1, 1] }, true));
+      clearCanvas(renderer);
+
+      const cell = CHECKERBOARD_CELL_SIZE;
+      expect(pixelAt(cell / 2, cell / 2)).not.toEqual(pixelAt(cell + cell / 2, cell / 2));
+      expect(pixelAt(cell / 2, cell / 2)).toEqual(pixelAt(cell + cell / 2, cell + cell / 2));
+    });
+
+    it('should draw the background only over the document', () => {
+      setBackground(renderer, getBackgroundPass({ type: CoreTypes.BackgroundType.SOLID, color: [1, 0, 0, 1] }, true));
+      setViewMatrix(renderer, Matrix3x3.translation(100, 0));
+      clearCanvas(renderer);
+
+      expect(pixelAt(50, 10)).toEqual([0, 0, 0, 0]);
+      expect(pixelAt(150, 10)).toEqual([255, 0, 0, 255]);
+    });
+  });
+
+  describe('Layer Compositing', () => {
+    it('should composite layers with their opacity and skip hidden layers', () => {
+      setBrushSize(renderer, 10);
+      clearCanvas(renderer);
+      updateLayerCache(renderer, 'half', [shortStroke], '');
+      updateLayerCache(renderer, 'hidden', [{ ...shortStroke, id: 'hidden-stroke', points: shortStroke.points.map(p => ({ ...p, y: 200 })) }], '');
+
+      compositeLayers(renderer, [
+        { ...layer, id: 'half', opacity: 0.5 },
+        { ...layer, id: 'hidden', visible: false },
+      ]);
+
+      // Black at half opacity over white
+      expect(redAt(120, 100)).toBeGreaterThan(100);
+      expect(redAt(120, 100)).toBeLessThan(160);
+      expect(redAt(120, 200)).toBe(255);
+    });
+
+    it('should blend strokes with shader blend modes', () => {
+      clearCanvas(renderer);
+      setBrushSize(renderer, 10);
+      setDrawingColor(renderer, 1.0, 0.0, 0.0, 1.0);
+      renderStroke(renderer, shortStroke);
+
+      renderStroke(renderer, {
+        ...shortStroke,
+        id: 'multiply-stroke',
+        style: { color: [0, 0, 1, 1], size: 10, opacity: 1, brushId: 'round', blendMode: CoreTypes.BlendMode.MULTIPLY },
+      });
+
+      // Red multiplied by blue is black; normal blending would leave blue
+      const [red, green, blue] = pixelAt(120, 100);
+      expect(Math.max(red, green, blue)).toBeLessThan(30);
+      expect(renderer.blendMode).toBe(CoreTypes.BlendMode.NORMAL);
+      expect(renderer.gl.getError()).toBe(renderer.gl.NO_ERROR);
+    });
+
+    it('should composite layers with shader blend modes', () => {
+      setBrushSize(renderer, 10);
+      clearCanvas(renderer);
+      setDrawingColor(renderer, 1.0, 0.0, 0.0, 1.0);
+      updateLayerCache(renderer, 'bottom', [shortStroke], '');
+      setDrawingColor(renderer, 0.0, 0.0, 1.0, 1.0);
+      updateLayerCache(renderer, 'top', [shortStroke], '');
+
+      compositeLayers(renderer, [
+        { ...layer, id: 'bottom' },
+        { ...layer, id: 'top', blendMode: CoreTypes.BlendMode.SCREEN },
+      ]);
+
+      // Red screened with blue is magenta
+      const [red, green, blue] = pixelAt(120, 100);
+      expect(red).toBeGreaterThan(225);
+      expect(green).toBeLessThan(30);
+      expect(blue).toBeGreaterThan(225);
+    });
+
+    it('should erase within the previewed layer only', () => {
+      setBrushSize(renderer, 10);
+      clearCanvas(renderer);
+      setDrawingColor(renderer, 1.0, 0.0, 0.0, 1.0);
+      updateLayerCache(renderer, 'bottom', [shortStroke], '');
+      setDrawingColor(renderer, 0.0, 0.0, 1.0, 1.0);
+      updateLayerCache(renderer, 'top', [shortStroke], '');
+      const layers = [{ ...layer, id: 'bottom' }, { ...layer, id: 'top' }];
+
+      const previewed = beginLayerPreview(renderer, 'top', () => {
+        renderStroke(renderer, {
+          ...shortStroke,
+          id: 'erase-stroke',
+          style: { color: [0, 0, 0, 1], size: 10, opacity: 1, brushId: 'round', blendMode: CoreTypes.BlendMode.ERASE },
+        });
+      });
+      compositeLayers(renderer, layers);
+
+      // The blue top layer is erased, revealing the red bottom layer
+      expect(previewed).toBe(true);
+      expect(pixelAt(120, 100).slice(0, 3)).toEqual([255, 0, 0]);
+
+      endLayerPreview(renderer);
+      clearCanvas(renderer);
+      compositeLayers(renderer, layers);
+
+      expect(pixelAt(120, 100).slice(0, 3)).toEqual([0, 0, 255]);
+      expect(renderer.gl.getError()).toBe(renderer.gl.NO_ERROR);
+    });
+
+    it('should free caches of removed layers', () => {
+      updateLayerCache(renderer, 'a', [shortStroke], '');
+      updateLayerCache(renderer, 'b', [shortStroke], '');
+      const removed = renderer.layerCaches.get('b')!;
+
+      retainLayerCaches(renderer, ['a']);
+
+      expect(Array.from(renderer.layerCaches.keys())).toEqual(['a']);
+      expect(renderer.gl.isTexture(removed.target.texture)).toBe(false);
+    });
+  });
+
+  describe('Stamp Brush Rendering', () => {
+    it('should create built-in brush tips on initialization', () => {
+      expect(renderer.stampProgram).toBeDefined();
+      expect(renderer.brushTips.has('soft-round')).toBe(true);
+      expect(renderer.gl.isTexture(renderer.brushTips.get('soft-round')!.texture)).toBe(true);
+    });
+
+    it('should render strokes with stamp brushes without error', () => {
+      setBrushSize(renderer, 20);
+
+      for (const brushId of ['airbrush', 'chalk', 'confetti']) {
+        setBrush(renderer, brushId);
+        expect(() => {
+          renderStroke(renderer, arcStroke);
+        }).not.toThrow();
+      }
+      expect(renderer.gl.getError()).toBe(renderer.gl.NO_ERROR);
+    });
+
+    it('should use registered custom brush tips', () => {
+      const tip = createBrushTip(renderer.gl, 'soft-round', generateBrushTipPixels('hard-round', 16));
+      const previous = renderer.brushTips.get('soft-round')!;
+
+      registerBrushTip(renderer, tip);
+
+      expect(renderer.brushTips.get('soft-round')).toBe(tip);
+      expect(renderer.gl.isTexture(previous.texture)).toBe(false);
+
+      setBrush(renderer, 'airbrush');
+      expect(() => {
+        renderStroke(renderer, horizontalLineStroke);
+      }).not.toThrow();
+    });
+
+    it('should reject unknown brushes and missing tips', () => {
+      expect(() => setBrush(renderer, 'does-not-exist')).toThrow(UnknownBrushError);
+
+      renderer.brushTips.delete('chalk');
+      expect(() => setBrush(renderer, 'chalk')).toThrow(BrushTipNotFoundError);
+    });
+  });
+
   describe('Multiple Stroke Rendering', () => {
     it('should render multiple strokes without error', () => {
       const strokes = [horizontalLineStroke, arcStroke];
@@ -314,6 +634,127 @@ describe('WebGL Renderer (Browser Mode)', () => {
     });
   });
 
+  describe('Backends', () => {
+    it('should multisample half-float layer caches on WebGL2', () => {
+      expect(renderer.features.backend).toBe('webgl2');
+      expect(renderer.quadVertexArrays).not.toBeNull();
+
+      setBrushSize(renderer, 10);
+      setDrawingColor(renderer, 1.0, 0.0, 0.0, 1.0);
+      updateLayerCache(renderer, 'layer', [shortStroke], '');
+      const { target } = renderer.layerCaches.get('layer')!;
+
+      expect(target.format).toBe(renderer.features.floatRenderTargets ? 'rgba16f' : 'rgba8');
+      expect(target.multisample !== null).toBe(renderer.features.msaaSamples > 0);
+
+      clearCanvas(renderer);
+      compositeLayers(renderer, [{ ...layer, blendMode: CoreTypes.BlendMode.MULTIPLY }]);
+
+      expect(pixelAt(120, 100).slice(0, 3)).toEqual([255, 0, 0]);
+      expect(renderer.gl.getError()).toBe(renderer.gl.NO_ERROR);
+    });
+
+    it('should render layers on the WebGL1 fallback', () => {
+      const fallbackCanvas = document.createElement('canvas');
+      fallbackCanvas.id = 'renderer-webgl1-canvas';
+      fallbackCanvas.width = 256;
+      fallbackCanvas.height = 256;
+      document.body.appendChild(fallbackCanvas);
+      const fallback = initializeRenderer('renderer-webgl1-canvas', { backends: ['webgl1'] });
+
+      try {
+        expect(fallback.features.backend).toBe('webgl1');
+
+        setBrushSize(fallback, 10);
+        setDrawingColor(fallback, 1.0, 0.0, 0.0, 1.0);
+        updateLayerCache(fallback, 'layer', [shortStroke], '');
+        clearCanvas(fallback);
+        compositeLayers(fallback, [{ ...layer, blendMode: CoreTypes.BlendMode.SCREEN }]);
+
+        const pixel = new Uint8Array(4);
+        fallback.gl.readPixels(120, 255 - 100, 1, 1, fallback.gl.RGBA, fallback.gl.UNSIGNED_BYTE, pixel);
+        expect(Array.from(pixel.slice(0, 3))).toEqual([255, 0, 0]);
+        expect(fallback.layerCaches.get('layer')!.target.multisample).toBeNull();
+        expect(fallback.gl.getError()).toBe(fallback.gl.NO_ERROR);
+      } finally {
+        cleanupRenderer(fallback);
+        fallbackCanvas.remove();
+      }
+    });
+  });
+
+  describe('Drawing Buffer Size', () => {
+    it('should keep the document size when the backing store is resized', () => {
+      resizeDrawingBuffer(renderer, 512, 512);
+
+      expect(canvas.width).toBe(512);
+      expect(renderer.canvasWidth).toBe(1024);
+      expect(Array.from(renderer.gl.getParameter(renderer.gl.VIEWPORT) as Int32Array)).toEqual([0, 0, 512, 512]);
+
+      setBrushSize(renderer, 10);
+      setDrawingColor(renderer, 1.0, 0.0, 0.0, 1.0);
+      updateLayerCache(renderer, 'layer', [shortStroke], '');
+      clearCanvas(renderer);
+      compositeLayers(renderer, [{ ...layer, blendMode: CoreTypes.BlendMode.MULTIPLY }]);
+
+      // Document (120, 100) lands at half scale in the drawing buffer
+      expect(pixelAt(60, 50).slice(0, 3)).toEqual([255, 0, 0]);
+      expect(renderer.blendTargets!.canvasBackdrop!.width).toBe(512);
+      expect(renderer.gl.getError()).toBe(renderer.gl.NO_ERROR);
+    });
+
+    it('should rebuild layer caches for a non-square document', () => {
+      setBrushSize(renderer, 10);
+      setDrawingColor(renderer, 1.0, 0.0, 0.0, 1.0);
+      updateLayerCache(renderer, 'layer', [shortStroke], '');
+
+      resizeDocument(renderer, 1024, 512);
+
+      expect(renderer.layerCaches.size).toBe(0);
+      expect(updateLayerCache(renderer, 'layer', [shortStroke], '')).toBe(true);
+      expect(renderer.layerCaches.get('layer')!.target.height).toBe(512);
+
+      clearCanvas(renderer);
+      compositeLayers(renderer, [layer]);
+
+      // The 1024x512 document fills the square drawing buffer, so y is stretched twice
+      expect(pixelAt(120, 200).slice(0, 3)).toEqual([255, 0, 0]);
+      expect(renderer.gl.getError()).toBe(renderer.gl.NO_ERROR);
+    });
+  });
+
+  describe('Context Loss', () => {
+    it('should redraw layers after the context is restored', async () => {
+      const ext = renderer.gl.getExtension('WEBGL_lose_context')!;
+      const restored = new Promise<void>(resolve => {
+        watchContextLoss(canvas, { onLost: () => {}, onRestored: resolve });
+      });
+      setBrushSize(renderer, 10);
+      setDrawingColor(renderer, 1.0, 0.0, 0.0, 1.0);
+      updateLayerCache(renderer, 'layer', [shortStroke], '');
+      const lostProgram = renderer.strokeProgram.program;
+
+      ext.loseContext();
+      expect(isContextLost(renderer)).toBe(true);
+
+      ext.restoreContext();
+      await restored;
+      restoreRenderer(renderer);
+
+      expect(isContextLost(renderer)).toBe(false);
+      expect(renderer.strokeProgram.program).not.toBe(lostProgram);
+      expect(renderer.layerCaches.size).toBe(0);
+
+      clearCanvas(renderer);
+      expect(updateLayerCache(renderer, 'layer', [shortStroke], '')).toBe(true);
+      compositeLayers(renderer, [layer]);
+
+      // Drawing state survives the restore
+      expect(pixelAt(120, 100).slice(0, 3)).toEqual([255, 0, 0]);
+      expect(renderer.gl.getError()).toBe(renderer.gl.NO_ERROR);
+    });
+  });
+
   describe('Cleanup', () => {
     it('should cleanup renderer resources without error', () => {
       expect(() => {
@@ -1,30 +1,213 @@
 // WebGL renderer for stroke drawing
 
 import * as CoreTypes from '../types/core';
-import { initializeWebGL } from './context';
-import { createBasicShaderProgram, setupShaderUniforms } from './shaders';
-import type { ShaderProgram } from './shaders';
+import { initializeWebGL, queryWebGLFeatures } from './context';
+import type { WebGLFeatures, WebGLContextOptions } from './context';
+import {
+  createBasicShaderProgram,
+  createStrokeShaderProgram,
+  createStampShaderProgram,
+  createCompositeShaderProgram,
+  createOverlayShaderProgram,
+  createBlendShaderProgram,
+  createBackgroundShaderProgram,
+  setupShaderUniforms
+} from './shaders';
+import type {
+  ShaderProgram,
+  StrokeShaderProgram,
+  StampShaderProgram,
+  CompositeShaderProgram,
+  OverlayShaderProgram,
+  BlendShaderProgram,
+  BackgroundShaderProgram
+} from './shaders';
+import { getShaderRegistry, BuiltinShader } from './shaderRegistry';
+import type { ShaderRegistry } from './shaderRegistry';
 import {
-  strokeDataToVertexData,
   multipleStrokesToVertexData,
+  strokeDataToTriangleStripVertexData,
   createVertexBuffer,
   bindVertexBuffer,
+  bindStrokeVertexBuffer,
+  bindStampVertexBuffer,
   unbindVertexAttributes,
+  unbindStrokeVertexAttributes,
+  unbindStampVertexAttributes,
   deleteVertexBuffer,
-  drawVertexBufferAsLineStrip,
-  drawVertexBuffer
+  drawVertexBufferAsTriangleStrip,
+  drawVertexBufferAsTriangles,
+  drawVertexBuffer,
+  BufferCreationError,
+  STROKE_VERTEX_COMPONENTS
 } from './buffers';
+import { getBrushPreset, DEFAULT_BRUSH_ID } from './brushes';
+import type { BrushPreset } from './brushes';
+import { placeStamps, stampsToVertexData, hashStringToSeed, STAMP_VERTEX_COMPONENTS } from './stamps';
+import type { StampBrushSettings } from './stamps';
+import { createDefaultBrushTips, deleteBrushTip, BrushTipNotFoundError } from './brushTip';
+import type { BrushTip } from './brushTip';
+import {
+  createStrokeCache,
+  updateStrokeCache as updateStrokeCacheFunc,
+  invalidateStrokeCache as invalidateStrokeCacheFunc,
+  deleteStrokeCache
+} from './strokeCache';
+import type { StrokeCache } from './strokeCache';
+import {
+  createRenderTarget,
+  bindRenderTarget,
+  clearRenderTarget,
+  deleteRenderTarget,
+  resolveRenderTarget,
+  FramebufferCreationError
+} from './framebuffer';
+import type { RenderTarget, RenderTargetOptions } from './framebuffer';
+import {
+  isFixedFunctionBlendMode,
+  applyFixedFunctionBlend,
+  copyFramebufferToTarget,
+  BLEND_MODE_SHADER_IDS
+} from './blending';
+import {
+  transformMatricesToInstanceData,
+  bindInstanceTransforms,
+  unbindInstanceTransforms,
+  setConstantTransform,
+  InstancingUnsupportedError
+} from './instancing';
+import type { InstanceTransformAttributeLocations } from './instancing';
+import { createBackgroundTextures, deleteBackgroundTextures, getBackgroundPass } from './background';
+import type { BackgroundPass, BackgroundTextures } from './background';
+import type { VertexBuffer } from './buffers';
+import type { TransformMatrix } from '../symmetry/transform';
+import type { GuideLine } from '../symmetry/symmetryGuides';
+import { Matrix3x3 } from '../math/Matrix3x3';
+import { getCanvasLogicalSize } from '../input/coordinateTransformFunctions';
+import {
+  computeVisibleTileRange,
+  tileRangeToPositions,
+  tileBorderVertexData,
+  TILE_BORDER_VERTEX_COMPONENTS
+} from './tiling';
+import { getDirtyPixelBoxes } from './dirtyRegion';
 
 type StrokeData = CoreTypes.StrokeData;
+type StrokeStyle = CoreTypes.StrokeStyle;
+type BlendMode = CoreTypes.BlendMode;
+type TilePosition = CoreTypes.TilePosition;
+type DirtyRect = CoreTypes.DirtyRect;
 
 export interface WebGLRenderer {
   canvas: HTMLCanvasElement;
   gl: WebGLRenderingContext;
+  /** Programs of this context, compiled on first use; the built-in programs below come from it */
+  shaderRegistry: ShaderRegistry;
   shaderProgram: ShaderProgram;
+  strokeProgram: StrokeShaderProgram;
+  stampProgram: StampShaderProgram;
+  compositeProgram: CompositeShaderProgram;
+  overlayProgram: OverlayShaderProgram;
+  blendProgram: BlendShaderProgram;
+  backgroundProgram: BackgroundShaderProgram;
+  /** Pattern textures for the document background */
+  backgroundTextures: BackgroundTextures;
+  /** Full-screen quad used for compositing */
+  quadBuffer: VertexBuffer;
+  /** Vertex array objects binding the quad to each compositing program (null without VAO support) */
+  quadVertexArrays: QuadVertexArrays | null;
+  /** Backend and optional GPU features, detected again after a context restore */
+  features: WebGLFeatures;
+  /** Committed strokes of each layer baked into a texture, keyed by layer id */
+  layerCaches: Map<string, StrokeCache>;
+  /** False once a render target failed to allocate; callers then draw strokes directly */
+  renderTargetsSupported: boolean;
+  /** Offscreen targets for shader blend modes (created on first use) */
+  blendTargets: BlendTargets | null;
+  /** A layer's cache plus in-progress strokes (created on first use) */
+  previewTarget: RenderTarget | null;
+  /** Layer composited from previewTarget instead of its cache */
+  previewLayerId: string | null;
+  /** Offscreen targets of nested layer groups, one per nesting depth (created on first use) */
+  groupTargets: RenderTarget[];
+  /** Number of layer groups currently being drawn */
+  groupDepth: number;
+  /** Document regions the next frame redraws, scissoring the clear, layer preview and compositing (null redraws everything) */
+  dirtyRects: readonly DirtyRect[] | null;
+  /** ANGLE_instanced_arrays (null when symmetry must be expanded on the CPU) */
+  instancedArrays: ANGLE_instanced_arrays | null;
+  /** Per-instance transform data, re-uploaded for each instanced draw */
+  instanceBuffer: WebGLBuffer;
+  brush: BrushPreset;
+  /** Drawing color (RGBA 0-1), mirrored from the u_color uniforms */
+  color: [number, number, number, number];
+  /** Active blend mode */
+  blendMode: BlendMode;
+  /** Brush size in pixels, mirrored from the u_brushSize uniforms for stamp spacing */
+  brushSize: number;
+  /** Anti-aliasing ramp width, mirrored from the u_aaWidth uniform */
+  antialiasWidth: number;
+  /** Canvas-to-view transform (zoom/pan/rotation), mirrored from the u_viewMatrix uniforms */
+  viewMatrix: Matrix3x3;
+  /** Document background drawn by clearCanvas (null leaves the document transparent) */
+  background: BackgroundPass | null;
+  /** Tip textures available to stamp brushes, keyed by id */
+  brushTips: Map<string, BrushTip>;
   canvasWidth: number;
   canvasHeight: number;
 }
 
+/**
+ * Offscreen targets used by shader blend modes
+ */
+export interface BlendTargets {
+  /** Receives a stroke drawn with normal blending before it is blended */
+  scratch: RenderTarget;
+  /** Copy of the target being blended onto */
+  backdrop: RenderTarget;
+  /** Copy of the canvas at the drawing buffer size, allocated on first use (copies need matching formats and sizes) */
+  canvasBackdrop: RenderTarget | null;
+}
+
+/**
+ * Quad vertex arrays of the programs that draw the compositing quad
+ */
+export interface QuadVertexArrays {
+  composite: WebGLVertexArrayObjectOES;
+  blend: WebGLVertexArrayObjectOES;
+  background: WebGLVertexArrayObjectOES;
+}
+
+/**
+ * How a layer's cache is composited onto the layers below it
+ */
+export interface CompositeLayer {
+  id: string;
+  visible: boolean;
+  opacity: number;
+  blendMode: BlendMode;
+}
+
+/**
+ * Default anti-aliasing ramp width (canvas pixels)
+ */
+export const DEFAULT_AA_WIDTH = 1.0;
+
+/**
+ * Tile border overlay color (RGBA 0-1)
+ */
+export const TILE_BORDER_COLOR: [number, number, number, number] = [0.2, 0.5, 1.0, 0.6];
+
+/**
+ * Guide line overlay color, e.g. mirror axes (RGBA 0-1)
+ */
+export const GUIDE_LINE_COLOR: [number, number, number, number] = [1.0, 0.25, 0.5, 0.7];
+
+/**
+ * Brush size set by setupShaderUniforms
+ */
+const DEFAULT_BRUSH_SIZE = 2.0;
+
 export class RendererInitializationError extends Error {
   constructor(message: string) {
     super(message);
@@ -32,43 +215,72 @@ export class RendererInitializationError extends Error {
   }
 }
 
+/**
+ * GPU resources owned by the renderer
+ * All of them are recreated when a lost context is restored.
+ */
+type RendererResources = Pick<
+  WebGLRenderer,
+  | 'shaderRegistry'
+  | 'shaderProgram'
+  | 'strokeProgram'
+  | 'stampProgram'
+  | 'compositeProgram'
+  | 'overlayProgram'
+  | 'blendProgram'
+  | 'backgroundProgram'
+  | 'backgroundTextures'
+  | 'quadBuffer'
+  | 'quadVertexArrays'
+  | 'instanceBuffer'
+  | 'brushTips'
+>;
+
 /**
  * Initialize the WebGL renderer
+ * WebGL2 is preferred and WebGL1 (with extensions) is the fallback unless contextOptions restricts the backends.
  */
-export function initializeRenderer(canvasId: string): WebGLRenderer {
+export function initializeRenderer(canvasId: string, contextOptions: WebGLContextOptions = {}): WebGLRenderer {
   try {
     // Initialize WebGL context
-    const webglContext = initializeWebGL(canvasId);
-    const { gl, canvas } = webglContext;
-
-    // Create shader program
-    const shaderProgram = createBasicShaderProgram(gl);
-
-    // Setup initial uniforms
-    setupShaderUniforms(gl, shaderProgram, canvas.width, canvas.height);
-
-    // Set up WebGL viewport
-    gl.viewport(0, 0, canvas.width, canvas.height);
-
-    // Clear color (white background as per spec)
-    gl.clearColor(1.0, 1.0, 1.0, 1.0);
-
-    // Enable blending for smooth lines
-    gl.enable(gl.BLEND);
-    gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
+    const webglContext = initializeWebGL(canvasId, contextOptions);
+    const { gl, canvas, features } = webglContext;
+    // Documents keep their logical size; the backing store may be scaled for high-DPI displays
+    const { width: canvasWidth, height: canvasHeight } = getCanvasLogicalSize(canvas);
+    const resources = createRendererResources(gl, features, canvasWidth, canvasHeight);
 
     console.log('WebGL renderer initialized successfully:', {
-      canvasSize: [canvas.width, canvas.height],
-      shaderProgram: 'basic',
-      viewport: [0, 0, canvas.width, canvas.height],
+      backend: features.backend,
+      canvasSize: [canvasWidth, canvasHeight],
+      shaderProgram: ['basic', 'stroke', 'stamp', 'composite', 'overlay', 'blend', 'background'],
+      instancing: webglContext.hasInstancedArrays,
+      brushTips: Array.from(resources.brushTips.keys()),
+      viewport: [0, 0, gl.drawingBufferWidth, gl.drawingBufferHeight],
     });
 
     return {
       canvas,
       gl,
-      shaderProgram,
-      canvasWidth: canvas.width,
-      canvasHeight: canvas.height,
+      ...resources,
+      features,
+      layerCaches: new Map(),
+      renderTargetsSupported: true,
+      blendTargets: null,
+      previewTarget: null,
+      previewLayerId: null,
+      groupTargets: [],
+      groupDepth: 0,
+      dirtyRects: null,
+      instancedArrays: features.instancedArrays,
+      brush: getBrushPreset(DEFAULT_BRUSH_ID),
+      color: [0.0, 0.0, 0.0, 1.0],
+      blendMode: CoreTypes.BlendMode.NORMAL,
+      brushSize: DEFAULT_BRUSH_SIZE,
+      antialiasWidth: DEFAULT_AA_WIDTH,
+      viewMatrix: Matrix3x3.identity(),
+      background: getBackgroundPass(CoreTypes.DEFAULT_CANVAS_BACKGROUND, true),
+      canvasWidth,
+      canvasHeight,
     };
   } catch (error) {
     throw new RendererInitializationError(
@@ -78,10 +290,289 @@ export function initializeRenderer(canvasId: string): WebGLRenderer {
 }
 
 /**
- * Clear the canvas
+ * Create shader programs, buffers and built-in brush tips, and set the default GL state
+ */
+function createRendererResources(
+  gl: WebGLRenderingContext,
+  features: WebGLFeatures,
+  width: number,
+  height: number
+): RendererResources {
+  // Create shader programs (points/debug, triangle-strip strokes and stamps)
+  // The registry links each program once per context and deletes them together on cleanup
+  const shaderRegistry = getShaderRegistry(gl);
+  const linked = (name: BuiltinShader) => shaderRegistry.get(name).program;
+  const shaderProgram = createBasicShaderProgram(gl, linked(BuiltinShader.BASIC));
+  const strokeProgram = createStrokeShaderProgram(gl, linked(BuiltinShader.STROKE));
+  const stampProgram = createStampShaderProgram(gl, linked(BuiltinShader.STAMP));
+  const compositeProgram = createCompositeShaderProgram(gl, linked(BuiltinShader.COMPOSITE));
+  const overlayProgram = createOverlayShaderProgram(gl, linked(BuiltinShader.OVERLAY));
+  const blendProgram = createBlendShaderProgram(gl, linked(BuiltinShader.BLEND));
+  const backgroundProgram = createBackgroundShaderProgram(gl, linked(BuiltinShader.BACKGROUND));
+
+  // Setup initial uniforms
+  setupShaderUniforms(gl, shaderProgram, width, height);
+  setupShaderUniforms(gl, strokeProgram, width, height);
+  gl.useProgram(strokeProgram.program);
+  gl.uniform1f(strokeProgram.uniforms.aaWidth, DEFAULT_AA_WIDTH);
+  setupShaderUniforms(gl, stampProgram, width, height);
+  gl.uniform1i(stampProgram.uniforms.tip, 0);
+  setupShaderUniforms(gl, compositeProgram, width, height);
+  gl.uniform1i(compositeProgram.uniforms.texture, 0);
+  gl.uniform1f(compositeProgram.uniforms.opacity, 1.0);
+  setupShaderUniforms(gl, overlayProgram, width, height);
+  setupShaderUniforms(gl, blendProgram, width, height);
+  gl.uniform1i(blendProgram.uniforms.source, 0);
+  gl.uniform1i(blendProgram.uniforms.backdrop, 1);
+  gl.uniform1f(blendProgram.uniforms.opacity, 1.0);
+  setupShaderUniforms(gl, backgroundProgram, width, height);
+  gl.uniform1i(backgroundProgram.uniforms.texture, 0);
+
+  // Built-in procedural brush tips and background patterns
+  const brushTips = createDefaultBrushTips(gl);
+  const backgroundTextures = createBackgroundTextures(gl);
+
+  // Full-screen quad for compositing (triangle strip in clip space)
+  const quadBuffer = createVertexBuffer(
+    gl,
+    { vertices: new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]), vertexCount: 4 },
+    2
+  );
+
+  // Record the quad's attribute setup once per program where vertex array objects exist
+  const { vertexArrays } = features;
+  const quadVertexArrays = vertexArrays && {
+    composite: createQuadVertexArray(gl, vertexArrays, quadBuffer, compositeProgram.attributes.position),
+    blend: createQuadVertexArray(gl, vertexArrays, quadBuffer, blendProgram.attributes.position),
+    background: createQuadVertexArray(gl, vertexArrays, quadBuffer, backgroundProgram.attributes.position),
+  };
+
+  // Per-instance transforms for symmetric copies
+  const instanceBuffer = gl.createBuffer();
+  if (!instanceBuffer) {
+    throw new BufferCreationError('Failed to create instance transform buffer');
+  }
+
+  // Set up WebGL viewport (the drawing buffer, which is not the document size on high-DPI displays)
+  gl.viewport(0, 0, gl.drawingBufferWidth, gl.drawingBufferHeight);
+
+  // Clear color (transparent; the document background is drawn as its own pass)
+  gl.clearColor(0.0, 0.0, 0.0, 0.0);
+
+  // Enable blending for smooth lines
+  // Alpha accumulates as premultiplied coverage so offscreen targets composite correctly
+  gl.enable(gl.BLEND);
+  applyFixedFunctionBlend(gl, CoreTypes.BlendMode.NORMAL, false);
+
+  return {
+    shaderRegistry,
+    shaderProgram,
+    strokeProgram,
+    stampProgram,
+    compositeProgram,
+    overlayProgram,
+    blendProgram,
+    backgroundProgram,
+    backgroundTextures,
+    quadBuffer,
+    quadVertexArrays,
+    instanceBuffer,
+    brushTips,
+  };
+}
+
+/**
+ * Create a vertex array object that feeds the quad to a position attribute
+ */
+function createQuadVertexArray(
+  gl: WebGLRenderingContext,
+  vertexArrays: OES_vertex_array_object,
+  quadBuffer: VertexBuffer,
+  location: number
+): WebGLVertexArrayObjectOES {
+  const vertexArray = vertexArrays.createVertexArrayOES();
+
+  vertexArrays.bindVertexArrayOES(vertexArray);
+  gl.bindBuffer(gl.ARRAY_BUFFER, quadBuffer.buffer);
+  gl.enableVertexAttribArray(location);
+  gl.vertexAttribPointer(location, 2, gl.FLOAT, false, 0, 0);
+  vertexArrays.bindVertexArrayOES(null);
+
+  return vertexArray;
+}
+
+/**
+ * Bind the compositing quad to a program's position attribute
+ * Returns a function that undoes the binding.
+ */
+function bindQuad(
+  renderer: WebGLRenderer,
+  vertexArray: WebGLVertexArrayObjectOES | undefined,
+  location: number
+): () => void {
+  const { gl, quadBuffer, features } = renderer;
+  const { vertexArrays } = features;
+
+  if (vertexArray && vertexArrays) {
+    vertexArrays.bindVertexArrayOES(vertexArray);
+    return () => vertexArrays.bindVertexArrayOES(null);
+  }
+
+  gl.bindBuffer(gl.ARRAY_BUFFER, quadBuffer.buffer);
+  gl.enableVertexAttribArray(location);
+  gl.vertexAttribPointer(location, 2, gl.FLOAT, false, 0, 0);
+  return () => gl.disableVertexAttribArray(location);
+}
+
+/**
+ * Whether the WebGL context is currently lost
+ */
+export function isContextLost(renderer: WebGLRenderer): boolean {
+  return renderer.gl.isContextLost();
+}
+
+/**
+ * Recreate GPU resources after the WebGL context was restored
+ * Handles from the lost context are dropped without deleting them. Drawing state
+ * (brush, color, size, blend mode, view) is applied again; layer caches start empty
+ * and are rebuilt from the strokes passed to the next updateLayerCache.
+ * Brush tips registered by the caller are not restored and must be registered again.
+ */
+export function restoreRenderer(renderer: WebGLRenderer): void {
+  const { gl, canvasWidth, canvasHeight, color, brushSize, blendMode, antialiasWidth, viewMatrix } = renderer;
+
+  // Extension objects do not survive the loss, so features are detected again
+  const features = queryWebGLFeatures(gl);
+  renderer.shaderRegistry.discardPrograms();
+  Object.assign(renderer, createRendererResources(gl, features, canvasWidth, canvasHeight));
+  renderer.features = features;
+  renderer.instancedArrays = features.instancedArrays;
+  renderer.layerCaches = new Map();
+  renderer.renderTargetsSupported = true;
+  renderer.blendTargets = null;
+  renderer.previewTarget = null;
+  renderer.previewLayerId = null;
+  renderer.groupTargets = [];
+  renderer.groupDepth = 0;
+
+  setDrawingColor(renderer, ...color);
+  setBrushSize(renderer, brushSize);
+  setBlendMode(renderer, blendMode);
+  setAntialiasWidth(renderer, antialiasWidth);
+  setViewMatrix(renderer, viewMatrix);
+
+  console.log('WebGL renderer restored after context loss');
+}
+
+/**
+ * Change the document size (canvas coordinates)
+ * Every program's resolution follows, and document-sized targets are freed; layer caches
+ * are rebuilt by the next updateLayerCache. The view matrix depends on the document size,
+ * so set it again afterwards.
+ */
+export function resizeDocument(renderer: WebGLRenderer, width: number, height: number): void {
+  if (renderer.canvasWidth === width && renderer.canvasHeight === height) {
+    return;
+  }
+
+  const { gl } = renderer;
+  deleteDocumentTargets(renderer);
+  renderer.canvasWidth = width;
+  renderer.canvasHeight = height;
+
+  const programs = [
+    renderer.shaderProgram,
+    renderer.strokeProgram,
+    renderer.stampProgram,
+    renderer.compositeProgram,
+    renderer.overlayProgram,
+    renderer.blendProgram,
+    renderer.backgroundProgram,
+  ];
+  for (const program of programs) {
+    if (program.uniforms.resolution) {
+      gl.useProgram(program.program);
+      gl.uniform2f(program.uniforms.resolution, width, height);
+    }
+  }
+}
+
+/**
+ * Resize the canvas backing store (device pixels) and match the viewport to it
+ * The document size, uniforms and layer caches are unchanged; the canvas is cleared, so redraw afterwards.
+ */
+export function resizeDrawingBuffer(renderer: WebGLRenderer, width: number, height: number): void {
+  const { gl, canvas } = renderer;
+
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width;
+    canvas.height = height;
+  }
+  gl.viewport(0, 0, gl.drawingBufferWidth, gl.drawingBufferHeight);
+}
+
+/**
+ * Clear the canvas to transparent and draw the document background through the view transform
  */
 export function clearCanvas(renderer: WebGLRenderer): void {
-  renderer.gl.clear(renderer.gl.COLOR_BUFFER_BIT);
+  drawInDirtyRects(renderer, 'canvas', () => {
+    renderer.gl.clear(renderer.gl.COLOR_BUFFER_BIT);
+    drawBackgroundQuads(renderer, [renderer.viewMatrix]);
+  });
+}
+
+/**
+ * Limit the clear, layer preview and compositing to document regions (null redraws everything)
+ * Only meaningful when the drawing buffer is preserved, since the rest of the
+ * canvas must still hold the previous frame.
+ */
+export function setDirtyRects(renderer: WebGLRenderer, rects: readonly DirtyRect[] | null): void {
+  renderer.dirtyRects = rects;
+}
+
+/**
+ * Whether the canvas keeps its content between frames, so dirty rects can be used
+ */
+export function supportsPartialRedraw(renderer: WebGLRenderer): boolean {
+  return renderer.gl.getContextAttributes()?.preserveDrawingBuffer === true;
+}
+
+/**
+ * Run draw once per scissor box of the dirty rects, or once unscissored without them
+ * Many or dense boxes come back from getDirtyPixelBoxes as their union, so draw runs once.
+ * 'document' targets (layer preview) are document-sized with no view transform;
+ * 'canvas' is the drawing buffer, where the rects go through the view transform.
+ */
+function drawInDirtyRects(renderer: WebGLRenderer, space: 'document' | 'canvas', draw: () => void): void {
+  const { gl, dirtyRects, canvasWidth, canvasHeight } = renderer;
+  if (!dirtyRects) {
+    draw();
+    return;
+  }
+
+  const width = space === 'canvas' ? gl.drawingBufferWidth : canvasWidth;
+  const height = space === 'canvas' ? gl.drawingBufferHeight : canvasHeight;
+  const pixelMatrix = space === 'canvas'
+    ? Matrix3x3.scale(width / canvasWidth, height / canvasHeight).multiply(renderer.viewMatrix)
+    : Matrix3x3.identity();
+
+  gl.enable(gl.SCISSOR_TEST);
+  try {
+    for (const box of getDirtyPixelBoxes(dirtyRects, pixelMatrix, width, height)) {
+      // Scissor boxes count rows from the bottom
+      gl.scissor(box.x, height - box.y - box.height, box.width, box.height);
+      draw();
+    }
+  } finally {
+    gl.disable(gl.SCISSOR_TEST);
+  }
+}
+
+/**
+ * Set the document background drawn by clearCanvas (null for none)
+ */
+export function setBackground(renderer: WebGLRenderer, background: BackgroundPass | null): void {
+  renderer.background = background;
 }
 
 /**
@@ -94,10 +585,14 @@ export function setDrawingColor(
   blue: number,
   alpha: number = 1.0
 ): void {
-  renderer.gl.useProgram(renderer.shaderProgram.program);
+  renderer.color = [red, green, blue, alpha];
+
+  for (const program of [renderer.shaderProgram, renderer.strokeProgram, renderer.stampProgram]) {
+    renderer.gl.useProgram(program.program);
 
-  if (renderer.shaderProgram.uniforms.color) {
-    renderer.gl.uniform4f(renderer.shaderProgram.uniforms.color, red, green, blue, alpha);
+    if (program.uniforms.color) {
+      renderer.gl.uniform4f(program.uniforms.color, red, green, blue, alpha);
+    }
   }
 }
 
@@ -105,70 +600,245 @@ export function setDrawingColor(
  * Set the brush size
  */
 export function setBrushSize(renderer: WebGLRenderer, size: number): void {
-  renderer.gl.useProgram(renderer.shaderProgram.program);
+  // Stroke width is produced by triangle-strip geometry, so gl.lineWidth
+  // (clamped to 1px by most browsers) is no longer involved
+  renderer.brushSize = size;
+
+  for (const program of [renderer.shaderProgram, renderer.strokeProgram, renderer.stampProgram]) {
+    renderer.gl.useProgram(program.program);
 
-  if (renderer.shaderProgram.uniforms.brushSize) {
-    renderer.gl.uniform1f(renderer.shaderProgram.uniforms.brushSize, size);
+    if (program.uniforms.brushSize) {
+      renderer.gl.uniform1f(program.uniforms.brushSize, size);
+    }
   }
+}
+
+/**
+ * Set the canvas-to-view transform (zoom/pan/rotation) applied to everything drawn
+ */
+export function setViewMatrix(renderer: WebGLRenderer, viewMatrix: Matrix3x3): void {
+  const { gl } = renderer;
+  renderer.viewMatrix = viewMatrix;
+
+  // Matrix3x3 is row-major; GLSL expects column-major and WebGL 1 cannot transpose on upload
+  const columnMajor = viewMatrix.transpose().elements;
+
+  for (const program of [
+    renderer.shaderProgram,
+    renderer.strokeProgram,
+    renderer.stampProgram,
+    renderer.compositeProgram,
+    renderer.overlayProgram,
+    renderer.blendProgram,
+    renderer.backgroundProgram,
+  ]) {
+    gl.useProgram(program.program);
+
+    if (program.uniforms.viewMatrix) {
+      gl.uniformMatrix3fv(program.uniforms.viewMatrix, false, columnMajor);
+    }
+  }
+}
+
+/**
+ * Select the brush preset used for stroke geometry (joins and caps)
+ */
+export function setBrush(renderer: WebGLRenderer, brushId: string): void {
+  const brush = getBrushPreset(brushId);
+
+  if (brush.kind === 'stamp' && !renderer.brushTips.has(brush.stamp.tipId)) {
+    throw new BrushTipNotFoundError(brush.stamp.tipId);
+  }
+
+  renderer.brush = brush;
+}
+
+/**
+ * Register a brush tip texture for stamp brushes
+ * Replaces (and deletes) any existing tip with the same id.
+ */
+export function registerBrushTip(renderer: WebGLRenderer, tip: BrushTip): void {
+  const existing = renderer.brushTips.get(tip.id);
+  if (existing && existing.texture !== tip.texture) {
+    deleteBrushTip(renderer.gl, existing);
+  }
+  renderer.brushTips.set(tip.id, tip);
+}
+
+/**
+ * Set the anti-aliasing ramp width in canvas pixels
+ * Should be about one device pixel, so it changes with the display scale.
+ */
+export function setAntialiasWidth(renderer: WebGLRenderer, width: number): void {
+  const { gl, strokeProgram } = renderer;
+  renderer.antialiasWidth = Math.max(width, 1e-3);
+  gl.useProgram(strokeProgram.program);
+  gl.uniform1f(strokeProgram.uniforms.aaWidth, renderer.antialiasWidth);
+}
+
+/**
+ * Set the blend mode used for subsequent stroke draws
+ * Modes glBlendFunc cannot express are applied when each stroke is drawn (see drawStroke).
+ */
+export function setBlendMode(renderer: WebGLRenderer, blendMode: BlendMode): void {
+  applyFixedFunctionBlend(renderer.gl, blendMode, false);
+  renderer.blendMode = blendMode;
+}
+
+/**
+ * Apply a stroke style (color, opacity, size, brush and blend mode)
+ * Unknown brush ids fall back to the default brush so older documents still render.
+ */
+export function applyStrokeStyle(renderer: WebGLRenderer, style: StrokeStyle): void {
+  const [red, green, blue, alpha] = style.color;
+  setDrawingColor(renderer, red, green, blue, alpha * style.opacity);
+  setBrushSize(renderer, style.size);
+  setBlendMode(renderer, style.blendMode);
 
-  // Also try to set gl.lineWidth for line strip rendering
-  // Note: Most browsers limit this to 1.0, but we'll try anyway
-  console.log("🌟MAX=", renderer.gl.getParameter(renderer.gl.ALIASED_LINE_WIDTH_RANGE))
   try {
-    renderer.gl.lineWidth(size);
-    console.log("🌟renderer.gl.lineWidth", size)
+    setBrush(renderer, style.brushId);
   } catch (error) {
-    // lineWidth might not be supported or might be clamped
-    console.warn('gl.lineWidth not supported or clamped:', error);
+    console.warn(`Falling back to default brush: ${error instanceof Error ? error.message : error}`);
+    setBrush(renderer, DEFAULT_BRUSH_ID);
   }
 }
 
 /**
- * Render a single stroke as line strip
+ * Render a single stroke
+ * Strokes with a style record are drawn with that style and the renderer's
+ * previous settings are restored afterwards; other strokes use the current settings.
  */
 export function renderStroke(renderer: WebGLRenderer, stroke: StrokeData): void {
+  renderStyledStroke(renderer, stroke, null);
+}
+
+/**
+ * Render a stroke once per transform in a single instanced draw
+ * The stroke is tessellated and uploaded once; each copy is transformed on the GPU.
+ */
+export function renderStrokeInstanced(
+  renderer: WebGLRenderer,
+  stroke: StrokeData,
+  transforms: readonly TransformMatrix[]
+): void {
+  if (!renderer.instancedArrays) {
+    throw new InstancingUnsupportedError();
+  }
+  if (transforms.length === 0) {
+    return;
+  }
+
+  renderStyledStroke(renderer, stroke, transforms);
+}
+
+/**
+ * Whether renderStrokeInstanced is available
+ */
+export function supportsInstancing(renderer: WebGLRenderer): boolean {
+  return renderer.instancedArrays !== null;
+}
+
+/**
+ * Draw a stroke with its own style, restoring the renderer's settings afterwards
+ */
+function renderStyledStroke(
+  renderer: WebGLRenderer,
+  stroke: StrokeData,
+  transforms: readonly TransformMatrix[] | null
+): void {
   if (stroke.points.length === 0) {
     return; // Nothing to draw
   }
 
-  const { gl, shaderProgram } = renderer;
+  if (!stroke.style) {
+    drawStroke(renderer, stroke, transforms);
+    return;
+  }
 
-  // Convert stroke to vertex data
-  const vertexData = strokeDataToVertexData(stroke);
+  const { color, brushSize, brush, blendMode } = renderer;
+  applyStrokeStyle(renderer, stroke.style);
+
+  try {
+    drawStroke(renderer, stroke, transforms);
+  } finally {
+    setDrawingColor(renderer, ...color);
+    setBrushSize(renderer, brushSize);
+    setBlendMode(renderer, blendMode);
+    renderer.brush = brush;
+  }
+}
+
+/**
+ * Draw a stroke with the current brush and blend mode
+ * Shader blend modes and translucent colors draw the stroke offscreen first, so
+ * overlapping parts of the stroke (round joins, self-overlaps and symmetric
+ * copies) do not blend with each other. A translucent stroke is drawn opaque
+ * offscreen and its alpha is applied once when it is blended back.
+ */
+function drawStroke(
+  renderer: WebGLRenderer,
+  stroke: StrokeData,
+  transforms: readonly TransformMatrix[] | null
+): void {
+  const { blendMode, color } = renderer;
+  const opacity = color[3];
+  if (isFixedFunctionBlendMode(blendMode) && opacity >= 1.0) {
+    drawStrokeWithBrush(renderer, stroke, transforms);
+    return;
+  }
+
+  drawBlendedOffscreen(renderer, blendMode, opacity, offscreen => {
+    if (!offscreen || opacity >= 1.0) {
+      drawStrokeWithBrush(renderer, stroke, transforms);
+      return;
+    }
+
+    setDrawingColor(renderer, color[0], color[1], color[2], 1.0);
+    try {
+      drawStrokeWithBrush(renderer, stroke, transforms);
+    } finally {
+      setDrawingColor(renderer, ...color);
+    }
+  });
+}
+
+/**
+ * Draw a stroke's geometry with the current brush
+ */
+function drawStrokeWithBrush(
+  renderer: WebGLRenderer,
+  stroke: StrokeData,
+  transforms: readonly TransformMatrix[] | null
+): void {
+  const { brush } = renderer;
+
+  if (brush.kind === 'stamp') {
+    renderStampStroke(renderer, stroke, brush.stamp, transforms);
+    return;
+  }
+
+  const { gl, strokeProgram } = renderer;
+
+  // Tessellate stroke into triangle-strip vertex data using the brush's joins and caps
+  const vertexData = strokeDataToTriangleStripVertexData(stroke, brush.geometry);
 
   // Create vertex buffer
-  const vertexBuffer = createVertexBuffer(gl, vertexData);
+  const vertexBuffer = createVertexBuffer(gl, vertexData, STROKE_VERTEX_COMPONENTS);
 
   try {
     // Use shader program
-    gl.useProgram(shaderProgram.program);
+    gl.useProgram(strokeProgram.program);
 
-    // Ensure brush size uniform is set with current value
-    // This should be called externally through setBrushSize before rendering
+    // Brush size uniform is set externally through setBrushSize before rendering
 
     // Bind vertex buffer and attributes
-    bindVertexBuffer(
-      gl,
-      vertexBuffer,
-      shaderProgram.attributes.position,
-      shaderProgram.attributes.pressure
-    );
+    bindStrokeVertexBuffer(gl, vertexBuffer, strokeProgram.attributes);
 
-    // Draw the stroke
-    if (stroke.points.length === 1) {
-      // Single point - draw as point
-      drawVertexBuffer(gl, vertexBuffer);
-    } else {
-      // Multiple points - draw as line strip
-      drawVertexBufferAsLineStrip(gl, vertexBuffer);
-    }
+    // Draw the stroke (single points are tessellated into a quad as well)
+    drawWithTransforms(renderer, strokeProgram.attributes, gl.TRIANGLE_STRIP, vertexBuffer, transforms);
 
     // Unbind attributes
-    unbindVertexAttributes(
-      gl,
-      shaderProgram.attributes.position,
-      shaderProgram.attributes.pressure
-    );
+    unbindStrokeVertexAttributes(gl, strokeProgram.attributes);
   } finally {
     // Clean up buffer
     deleteVertexBuffer(gl, vertexBuffer);
@@ -176,7 +846,633 @@ export function renderStroke(renderer: WebGLRenderer, stroke: StrokeData): void
 }
 
 /**
- * Render multiple strokes as line strips
+ * Render a single stroke by stamping the brush tip along it
+ * With transforms, every copy reuses the same stamps, so jitter is exactly symmetric.
+ */
+export function renderStampStroke(
+  renderer: WebGLRenderer,
+  stroke: StrokeData,
+  settings: StampBrushSettings,
+  transforms: readonly TransformMatrix[] | null = null
+): void {
+  const { gl, stampProgram, brushTips, brushSize } = renderer;
+
+  const tip = brushTips.get(settings.tipId);
+  if (!tip) {
+    throw new BrushTipNotFoundError(settings.tipId);
+  }
+
+  // CPU-expanded symmetric copies share the seed of their source stroke so their jitter matches
+  const seed = hashStringToSeed(stroke.id.replace(/_axis_\d+$/, ''));
+  const stamps = placeStamps(stroke.points, settings, brushSize, seed);
+  const vertexData = stampsToVertexData(stamps);
+
+  const vertexBuffer = createVertexBuffer(gl, vertexData, STAMP_VERTEX_COMPONENTS);
+
+  try {
+    gl.useProgram(stampProgram.program);
+
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, tip.texture);
+
+    bindStampVertexBuffer(gl, vertexBuffer, stampProgram.attributes);
+    drawWithTransforms(renderer, stampProgram.attributes, gl.TRIANGLES, vertexBuffer, transforms);
+    unbindStampVertexAttributes(gl, stampProgram.attributes);
+
+    gl.bindTexture(gl.TEXTURE_2D, null);
+  } finally {
+    deleteVertexBuffer(gl, vertexBuffer);
+  }
+}
+
+/**
+ * Draw the bound vertex buffer once per transform (instanced), or once untransformed
+ */
+function drawWithTransforms(
+  renderer: WebGLRenderer,
+  locations: InstanceTransformAttributeLocations,
+  mode: number,
+  vertexBuffer: VertexBuffer,
+  transforms: readonly TransformMatrix[] | null
+): void {
+  const { gl, instancedArrays, instanceBuffer } = renderer;
+
+  if (!transforms || !instancedArrays) {
+    setConstantTransform(gl, locations);
+    if (mode === gl.TRIANGLE_STRIP) {
+      drawVertexBufferAsTriangleStrip(gl, vertexBuffer);
+    } else {
+      drawVertexBufferAsTriangles(gl, vertexBuffer);
+    }
+    return;
+  }
+
+  if (vertexBuffer.vertexCount < 3) {
+    return;
+  }
+
+  bindInstanceTransforms(gl, instancedArrays, instanceBuffer, locations, transformMatricesToInstanceData(transforms));
+  instancedArrays.drawArraysInstancedANGLE(mode, 0, vertexBuffer.vertexCount, transforms.length);
+  unbindInstanceTransforms(gl, instancedArrays, locations);
+}
+
+/**
+ * Draw a canvas-sized premultiplied-alpha texture through the view transform
+ */
+export function compositeTexture(
+  renderer: WebGLRenderer,
+  texture: WebGLTexture,
+  opacity: number = 1.0,
+  blendMode: BlendMode = CoreTypes.BlendMode.NORMAL
+): void {
+  drawCompositeQuads(renderer, texture, [renderer.viewMatrix], opacity, blendMode);
+}
+
+/**
+ * Draw a canvas-sized texture once per tile, offset by whole canvas sizes
+ */
+export function compositeTextureTiled(
+  renderer: WebGLRenderer,
+  texture: WebGLTexture,
+  tiles: readonly TilePosition[],
+  opacity: number = 1.0,
+  blendMode: BlendMode = CoreTypes.BlendMode.NORMAL
+): void {
+  const { viewMatrix } = renderer;
+  const tileMatrices = tiles.map(tile => viewMatrix.multiply(Matrix3x3.translation(tile.offsetX, tile.offsetY)));
+
+  drawCompositeQuads(renderer, texture, tileMatrices, opacity, blendMode);
+}
+
+/**
+ * Draw the composite quad with each of the given view matrices
+ * Shader blend modes go through the blend program (normal blending if it is
+ * unavailable). The composite program's u_viewMatrix is restored to the renderer's view afterwards.
+ */
+function drawCompositeQuads(
+  renderer: WebGLRenderer,
+  texture: WebGLTexture,
+  viewMatrices: readonly Matrix3x3[],
+  opacity: number,
+  blendMode: BlendMode
+): void {
+  if (!isFixedFunctionBlendMode(blendMode) && drawBlendQuads(renderer, texture, viewMatrices, opacity, blendMode)) {
+    return;
+  }
+
+  const { gl, compositeProgram, quadBuffer } = renderer;
+
+  gl.useProgram(compositeProgram.program);
+  gl.uniform1f(compositeProgram.uniforms.opacity, opacity);
+  gl.activeTexture(gl.TEXTURE0);
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+
+  const unbindQuad = bindQuad(renderer, renderer.quadVertexArrays?.composite, compositeProgram.attributes.position);
+
+  applyFixedFunctionBlend(gl, blendMode, true);
+  for (const viewMatrix of viewMatrices) {
+    gl.uniformMatrix3fv(compositeProgram.uniforms.viewMatrix, false, viewMatrix.transpose().elements);
+    drawVertexBufferAsTriangleStrip(gl, quadBuffer);
+  }
+  gl.uniformMatrix3fv(compositeProgram.uniforms.viewMatrix, false, renderer.viewMatrix.transpose().elements);
+  setBlendMode(renderer, renderer.blendMode);
+
+  unbindQuad();
+  gl.bindTexture(gl.TEXTURE_2D, null);
+}
+
+/**
+ * Draw the document background with each of the given view matrices
+ * The background replaces what is under it (blending off), so drawing it again over itself is harmless.
+ * The background program's u_viewMatrix is restored to the renderer's view afterwards.
+ */
+function drawBackgroundQuads(renderer: WebGLRenderer, viewMatrices: readonly Matrix3x3[]): void {
+  const { gl, background, backgroundProgram, quadBuffer } = renderer;
+  if (!background) {
+    return;
+  }
+
+  gl.useProgram(backgroundProgram.program);
+  gl.uniform4f(backgroundProgram.uniforms.color, ...background.color);
+  gl.uniform1f(backgroundProgram.uniforms.tileSize, background.tileSize);
+  gl.activeTexture(gl.TEXTURE0);
+  gl.bindTexture(gl.TEXTURE_2D, renderer.backgroundTextures[background.pattern]);
+
+  const unbindQuad = bindQuad(renderer, renderer.quadVertexArrays?.background, backgroundProgram.attributes.position);
+
+  gl.disable(gl.BLEND);
+  for (const viewMatrix of viewMatrices) {
+    gl.uniformMatrix3fv(backgroundProgram.uniforms.viewMatrix, false, viewMatrix.transpose().elements);
+    drawVertexBufferAsTriangleStrip(gl, quadBuffer);
+  }
+  gl.enable(gl.BLEND);
+  gl.uniformMatrix3fv(backgroundProgram.uniforms.viewMatrix, false, renderer.viewMatrix.transpose().elements);
+
+  unbindQuad();
+  gl.bindTexture(gl.TEXTURE_2D, null);
+}
+
+/**
+ * Blend a canvas-sized texture onto the bound target with the blend program
+ * The target is copied to the backdrop first and then overwritten with the
+ * blended result wherever the quads cover it.
+ * Returns false when the backdrop cannot be allocated.
+ */
+function drawBlendQuads(
+  renderer: WebGLRenderer,
+  texture: WebGLTexture,
+  viewMatrices: readonly Matrix3x3[],
+  opacity: number,
+  blendMode: BlendMode
+): boolean {
+  const targets = getBlendTargets(renderer);
+  if (!targets) {
+    return false;
+  }
+
+  const { gl, blendProgram, quadBuffer } = renderer;
+
+  const drawingToCanvas = gl.getParameter(gl.FRAMEBUFFER_BINDING) === null;
+  const backdrop = drawingToCanvas ? getCanvasBackdrop(renderer, targets) : targets.backdrop;
+  if (!backdrop) {
+    return false;
+  }
+  copyFramebufferToTarget(gl, backdrop);
+
+  gl.useProgram(blendProgram.program);
+  gl.uniform1i(blendProgram.uniforms.mode, BLEND_MODE_SHADER_IDS[blendMode]);
+  gl.uniform1f(blendProgram.uniforms.opacity, opacity);
+
+  gl.activeTexture(gl.TEXTURE1);
+  gl.bindTexture(gl.TEXTURE_2D, backdrop.texture);
+  gl.activeTexture(gl.TEXTURE0);
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+
+  const unbindQuad = bindQuad(renderer, renderer.quadVertexArrays?.blend, blendProgram.attributes.position);
+
+  // The shader already composited source over backdrop
+  gl.disable(gl.BLEND);
+  for (const viewMatrix of viewMatrices) {
+    gl.uniformMatrix3fv(blendProgram.uniforms.viewMatrix, false, viewMatrix.transpose().elements);
+    drawVertexBufferAsTriangleStrip(gl, quadBuffer);
+  }
+  gl.enable(gl.BLEND);
+  gl.uniformMatrix3fv(blendProgram.uniforms.viewMatrix, false, renderer.viewMatrix.transpose().elements);
+
+  unbindQuad();
+  gl.activeTexture(gl.TEXTURE1);
+  gl.bindTexture(gl.TEXTURE_2D, null);
+  gl.activeTexture(gl.TEXTURE0);
+  gl.bindTexture(gl.TEXTURE_2D, null);
+
+  return true;
+}
+
+/**
+ * Draw into the scratch target with normal blending, then blend the result onto the bound target
+ * The scratch target has the bound target's pixel layout, so it is blended back 1:1
+ * with the given opacity. Without render targets the draw goes straight to the
+ * bound target with the current blending; `draw` is told which case it is in.
+ */
+function drawBlendedOffscreen(
+  renderer: WebGLRenderer,
+  blendMode: BlendMode,
+  opacity: number,
+  draw: (offscreen: boolean) => void
+): void {
+  const { gl } = renderer;
+  const framebuffer = gl.getParameter(gl.FRAMEBUFFER_BINDING) as WebGLFramebuffer | null;
+
+  const targets = getBlendTargets(renderer);
+  if (!targets) {
+    draw(false);
+    return;
+  }
+
+  clearRenderTarget(gl, targets.scratch);
+  bindRenderTarget(gl, targets.scratch);
+  applyFixedFunctionBlend(gl, CoreTypes.BlendMode.NORMAL, false);
+  try {
+    draw(true);
+  } finally {
+    gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+    setBlendMode(renderer, renderer.blendMode);
+  }
+
+  drawCompositeQuads(renderer, targets.scratch.texture, [Matrix3x3.identity()], opacity, blendMode);
+}
+
+/**
+ * Get the blend targets, creating them on first use
+ * Returns null when render targets cannot be allocated.
+ */
+function getBlendTargets(renderer: WebGLRenderer): BlendTargets | null {
+  if (renderer.blendTargets) {
+    return renderer.blendTargets;
+  }
+
+  // Same format as the layer targets, so strokes blend into caches without conversion
+  const { format } = getLayerTargetOptions(renderer);
+  const scratch = allocateRenderTarget(renderer, 'Blend scratch target', { format });
+  const backdrop = scratch && allocateRenderTarget(renderer, 'Blend backdrop target', { format });
+
+  if (!scratch || !backdrop) {
+    if (scratch) {
+      deleteRenderTarget(renderer.gl, scratch);
+    }
+    return null;
+  }
+
+  renderer.blendTargets = { scratch, backdrop, canvasBackdrop: null };
+  return renderer.blendTargets;
+}
+
+/**
+ * Get the canvas backdrop, reallocating it when the drawing buffer was resized
+ * The canvas is RGBA8 at the drawing buffer size, while layer targets may be half-float at the document size.
+ */
+function getCanvasBackdrop(renderer: WebGLRenderer, targets: BlendTargets): RenderTarget | null {
+  const { gl } = renderer;
+  const width = gl.drawingBufferWidth;
+  const height = gl.drawingBufferHeight;
+  const current = targets.canvasBackdrop;
+
+  if (current && current.width === width && current.height === height) {
+    return current;
+  }
+
+  if (current) {
+    deleteRenderTarget(gl, current);
+  }
+  targets.canvasBackdrop = allocateRenderTarget(renderer, 'Blend canvas backdrop target', {}, { width, height });
+  return targets.canvasBackdrop;
+}
+
+/**
+ * Format and multisampling of layer caches and the layer preview
+ * Half-float and MSAA where the backend has them, so many translucent strokes keep precision and smooth edges.
+ */
+function getLayerTargetOptions(renderer: WebGLRenderer): RenderTargetOptions {
+  const { floatRenderTargets, msaaSamples } = renderer.features;
+  return { format: floatRenderTargets ? 'rgba16f' : 'rgba8', samples: msaaSamples };
+}
+
+/**
+ * Allocate a render target (canvas-sized unless size is given), keeping the current framebuffer bound
+ * Returns null (and stops trying) when render targets cannot be allocated.
+ */
+function allocateRenderTarget(
+  renderer: WebGLRenderer,
+  purpose: string,
+  options: RenderTargetOptions = {},
+  size: { width: number; height: number } = { width: renderer.canvasWidth, height: renderer.canvasHeight }
+): RenderTarget | null {
+  if (!renderer.renderTargetsSupported) {
+    return null;
+  }
+
+  const { gl } = renderer;
+  const framebuffer = gl.getParameter(gl.FRAMEBUFFER_BINDING) as WebGLFramebuffer | null;
+
+  try {
+    return createRenderTarget(gl, size.width, size.height, options);
+  } catch (error) {
+    if (!(error instanceof FramebufferCreationError)) {
+      throw error;
+    }
+    console.warn(`${purpose} unavailable, falling back to direct rendering:`, error);
+    renderer.renderTargetsSupported = false;
+    return null;
+  } finally {
+    gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+  }
+}
+
+/**
+ * Draw lines in canvas coordinates with the overlay program
+ */
+function drawOverlayLines(
+  renderer: WebGLRenderer,
+  vertices: Float32Array,
+  color: [number, number, number, number]
+): void {
+  const { gl, overlayProgram } = renderer;
+  const vertexCount = vertices.length / TILE_BORDER_VERTEX_COMPONENTS;
+  const vertexBuffer = createVertexBuffer(gl, { vertices, vertexCount }, TILE_BORDER_VERTEX_COMPONENTS);
+
+  try {
+    gl.useProgram(overlayProgram.program);
+    gl.uniform4f(overlayProgram.uniforms.color, ...color);
+
+    gl.bindBuffer(gl.ARRAY_BUFFER, vertexBuffer.buffer);
+    gl.enableVertexAttribArray(overlayProgram.attributes.position);
+    gl.vertexAttribPointer(overlayProgram.attributes.position, 2, gl.FLOAT, false, 0, 0);
+
+    gl.drawArrays(gl.LINES, 0, vertexCount);
+
+    gl.disableVertexAttribArray(overlayProgram.attributes.position);
+  } finally {
+    deleteVertexBuffer(gl, vertexBuffer);
+  }
+}
+
+/**
+ * Get a layer's stroke cache, creating it on first use
+ * Returns null (and stops trying) when render targets cannot be allocated.
+ */
+function getLayerCache(renderer: WebGLRenderer, layerId: string): StrokeCache | null {
+  if (!renderer.renderTargetsSupported) {
+    return null;
+  }
+
+  const existing = renderer.layerCaches.get(layerId);
+  if (existing) {
+    return existing;
+  }
+
+  try {
+    const cache = createStrokeCache(
+      renderer.gl,
+      renderer.canvasWidth,
+      renderer.canvasHeight,
+      getLayerTargetOptions(renderer)
+    );
+    renderer.layerCaches.set(layerId, cache);
+    return cache;
+  } catch (error) {
+    if (!(error instanceof FramebufferCreationError)) {
+      throw error;
+    }
+    console.warn('Layer cache unavailable, falling back to full redraws:', error);
+    renderer.renderTargetsSupported = false;
+    return null;
+  }
+}
+
+/**
+ * Bake a layer's committed strokes into its cache
+ * Only strokes appended since the last update are drawn; anything else
+ * (undo, clear, a different contentKey) rebuilds the cache. drawStroke lets
+ * the caller expand strokes (e.g. symmetry) while the cache is bound.
+ * The cache holds canvas coordinates, so it is baked without the view transform
+ * and view changes only affect compositing.
+ * Returns false when there is no cache and the caller must draw directly.
+ */
+export function updateLayerCache(
+  renderer: WebGLRenderer,
+  layerId: string,
+  strokes: readonly StrokeData[],
+  contentKey: string,
+  drawStroke: (stroke: StrokeData) => void = (stroke) => renderStroke(renderer, stroke)
+): boolean {
+  const cache = getLayerCache(renderer, layerId);
+  if (!cache) {
+    return false;
+  }
+
+  const { viewMatrix } = renderer;
+  setViewMatrix(renderer, Matrix3x3.identity());
+
+  try {
+    updateStrokeCacheFunc(renderer.gl, cache, strokes, contentKey, drawStroke);
+  } finally {
+    setViewMatrix(renderer, viewMatrix);
+  }
+
+  return true;
+}
+
+/**
+ * Draw a layer's cache plus in-progress strokes into the preview target
+ * Until endLayerPreview, compositing uses the preview in place of the layer's
+ * cache, so a live stroke blends (or erases) within its layer as it will once committed.
+ * drawStrokes is called with the preview bound and no view transform.
+ * Returns false when the layer has no cache or the preview target cannot be allocated.
+ */
+export function beginLayerPreview(
+  renderer: WebGLRenderer,
+  layerId: string,
+  drawStrokes: () => void
+): boolean {
+  const cache = renderer.layerCaches.get(layerId);
+  if (!cache) {
+    return false;
+  }
+
+  renderer.previewTarget ??= allocateRenderTarget(renderer, 'Layer preview target', getLayerTargetOptions(renderer));
+  const target = renderer.previewTarget;
+  if (!target) {
+    return false;
+  }
+
+  const { gl, viewMatrix } = renderer;
+  setViewMatrix(renderer, Matrix3x3.identity());
+
+  // Outside the dirty rects the preview still holds the previous frame
+  try {
+    drawInDirtyRects(renderer, 'document', () => {
+      clearRenderTarget(gl, target);
+      bindRenderTarget(gl, target);
+      try {
+        compositeTexture(renderer, cache.target.texture);
+        drawStrokes();
+      } finally {
+        bindRenderTarget(gl, null);
+      }
+      resolveRenderTarget(gl, target);
+    });
+  } finally {
+    setViewMatrix(renderer, viewMatrix);
+  }
+
+  renderer.previewLayerId = layerId;
+  return true;
+}
+
+/**
+ * Composite layers from their caches again
+ */
+export function endLayerPreview(renderer: WebGLRenderer): void {
+  renderer.previewLayerId = null;
+}
+
+/**
+ * Texture a layer is composited from (its preview while one is active)
+ */
+function getLayerTexture(renderer: WebGLRenderer, layerId: string): WebGLTexture | null {
+  if (layerId === renderer.previewLayerId && renderer.previewTarget) {
+    return renderer.previewTarget.texture;
+  }
+  return renderer.layerCaches.get(layerId)?.target.texture ?? null;
+}
+
+/**
+ * Composite layer caches bottom to top onto the current target
+ * Hidden layers and layers without a cache are skipped.
+ */
+export function compositeLayers(renderer: WebGLRenderer, layers: readonly CompositeLayer[]): void {
+  drawInDirtyRects(renderer, 'canvas', () => {
+    for (const layer of layers) {
+      const texture = getLayerTexture(renderer, layer.id);
+      if (layer.visible && texture) {
+        compositeTexture(renderer, texture, layer.opacity, layer.blendMode);
+      }
+    }
+  });
+}
+
+/**
+ * Draw into a transparent layer group, then composite the group onto the bound target like a layer
+ * Strokes drawn by draw blend (and erase) within the group only, so a layer merged
+ * into the layer below keeps its look. Groups nest and are drawn while a layer cache
+ * is baked, so a group has the document size. Hidden groups draw nothing; without
+ * render targets the strokes go straight to the bound target.
+ */
+export function drawLayerGroup(renderer: WebGLRenderer, group: CompositeLayer, draw: () => void): void {
+  if (!group.visible) {
+    return;
+  }
+
+  const { gl, groupDepth } = renderer;
+  const target =
+    renderer.groupTargets[groupDepth] ??
+    allocateRenderTarget(renderer, 'Layer group target', getLayerTargetOptions(renderer));
+  if (!target) {
+    draw();
+    return;
+  }
+  renderer.groupTargets[groupDepth] = target;
+
+  const framebuffer = gl.getParameter(gl.FRAMEBUFFER_BINDING) as WebGLFramebuffer | null;
+  clearRenderTarget(gl, target);
+  bindRenderTarget(gl, target);
+  renderer.groupDepth++;
+  try {
+    draw();
+  } finally {
+    renderer.groupDepth--;
+    gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+  }
+
+  resolveRenderTarget(gl, target);
+  compositeTexture(renderer, target.texture, group.opacity, group.blendMode);
+}
+
+/**
+ * Composite layer caches repeated over every tile visible in the viewport
+ * The document background is repeated under them. Optionally draws the tile
+ * borders on top so seams can be checked.
+ */
+export function compositeLayersTiled(
+  renderer: WebGLRenderer,
+  layers: readonly CompositeLayer[],
+  showBorders: boolean = false
+): void {
+  const { canvasWidth, canvasHeight, viewMatrix } = renderer;
+  const range = computeVisibleTileRange(viewMatrix, canvasWidth, canvasHeight);
+  const scale = Math.sqrt(Math.abs(viewMatrix.determinant()));
+  const tiles = tileRangeToPositions(range, canvasWidth, canvasHeight, scale);
+
+  drawBackgroundQuads(renderer, tiles.map(tile => viewMatrix.multiply(Matrix3x3.translation(tile.offsetX, tile.offsetY))));
+
+  for (const layer of layers) {
+    const texture = getLayerTexture(renderer, layer.id);
+    if (layer.visible && texture) {
+      compositeTextureTiled(renderer, texture, tiles, layer.opacity, layer.blendMode);
+    }
+  }
+
+  if (showBorders) {
+    drawOverlayLines(renderer, tileBorderVertexData(range, canvasWidth, canvasHeight), TILE_BORDER_COLOR);
+  }
+}
+
+/**
+ * Line-list vertex data (x, y per vertex) for guide lines in canvas coordinates
+ */
+export function guideLineVertexData(lines: readonly GuideLine[]): Float32Array {
+  const vertices = new Float32Array(lines.length * 2 * TILE_BORDER_VERTEX_COMPONENTS);
+  lines.forEach((line, i) => {
+    vertices.set([line.start.x, line.start.y, line.end.x, line.end.y], i * 2 * TILE_BORDER_VERTEX_COMPONENTS);
+  });
+  return vertices;
+}
+
+/**
+ * Draw guide lines over the canvas
+ * Limited to the dirty rects like compositing, so a partial redraw does not
+ * blend the lines twice where they were kept from the previous frame.
+ */
+export function drawGuideLines(renderer: WebGLRenderer, lines: readonly GuideLine[]): void {
+  if (lines.length === 0) return;
+
+  const vertices = guideLineVertexData(lines);
+  drawInDirtyRects(renderer, 'canvas', () => drawOverlayLines(renderer, vertices, GUIDE_LINE_COLOR));
+}
+
+/**
+ * Force every layer cache to rebuild on its next update
+ */
+export function invalidateLayerCaches(renderer: WebGLRenderer): void {
+  for (const cache of renderer.layerCaches.values()) {
+    invalidateStrokeCacheFunc(cache);
+  }
+}
+
+/**
+ * Free the caches of layers that no longer exist
+ */
+export function retainLayerCaches(renderer: WebGLRenderer, layerIds: readonly string[]): void {
+  for (const [layerId, cache] of renderer.layerCaches) {
+    if (!layerIds.includes(layerId)) {
+      deleteStrokeCache(renderer.gl, cache);
+      renderer.layerCaches.delete(layerId);
+    }
+  }
+}
+
+/**
+ * Render multiple strokes with the current brush
  */
 export function renderStrokes(renderer: WebGLRenderer, strokes: StrokeData[]): void {
   if (strokes.length === 0) {
@@ -186,7 +1482,7 @@ export function renderStrokes(renderer: WebGLRenderer, strokes: StrokeData[]): v
   // Clear canvas first
   clearCanvas(renderer);
 
-  // Render each stroke individually to maintain proper line strip behavior
+  // Render each stroke individually to maintain proper triangle strip behavior
   for (const stroke of strokes) {
     renderStroke(renderer, stroke);
   }
@@ -239,7 +1535,7 @@ export function renderStrokesAsPoints(renderer: WebGLRenderer, strokes: StrokeDa
  * Render a test pattern with fixed strokes (preserves current color)
  */
 export function renderTestPattern(renderer: WebGLRenderer, strokes: StrokeData[]): void {
-  // Clear canvas with white background
+  // Clear canvas to the document background
   clearCanvas(renderer);
 
   // Render all test strokes (preserves current drawing color)
@@ -255,11 +1551,62 @@ export function renderTestPattern(renderer: WebGLRenderer, strokes: StrokeData[]
  * Clean up renderer resources
  */
 export function cleanupRenderer(renderer: WebGLRenderer): void {
-  const { gl, shaderProgram } = renderer;
+  const { gl, shaderRegistry, brushTips } = renderer;
+
+  // Built-in programs and every variant linked through the registry
+  shaderRegistry.dispose();
+
+  for (const tip of brushTips.values()) {
+    deleteBrushTip(gl, tip);
+  }
+  brushTips.clear();
+  deleteBackgroundTextures(gl, renderer.backgroundTextures);
+
+  deleteVertexBuffer(gl, renderer.quadBuffer);
+
+  if (renderer.quadVertexArrays && renderer.features.vertexArrays) {
+    renderer.features.vertexArrays.deleteVertexArrayOES(renderer.quadVertexArrays.composite);
+    renderer.features.vertexArrays.deleteVertexArrayOES(renderer.quadVertexArrays.blend);
+    renderer.features.vertexArrays.deleteVertexArrayOES(renderer.quadVertexArrays.background);
+    renderer.quadVertexArrays = null;
+  }
 
-  if (gl.isProgram(shaderProgram.program)) {
-    gl.deleteProgram(shaderProgram.program);
+  if (gl.isBuffer(renderer.instanceBuffer)) {
+    gl.deleteBuffer(renderer.instanceBuffer);
   }
 
+  deleteDocumentTargets(renderer);
+
   console.log('Renderer cleanup completed');
+}
+
+/**
+ * Delete the render targets sized to the document (layer caches, blend targets, layer preview, layer groups)
+ */
+function deleteDocumentTargets(renderer: WebGLRenderer): void {
+  const { gl } = renderer;
+
+  for (const cache of renderer.layerCaches.values()) {
+    deleteStrokeCache(gl, cache);
+  }
+  renderer.layerCaches.clear();
+
+  if (renderer.blendTargets) {
+    deleteRenderTarget(gl, renderer.blendTargets.scratch);
+    deleteRenderTarget(gl, renderer.blendTargets.backdrop);
+    if (renderer.blendTargets.canvasBackdrop) {
+      deleteRenderTarget(gl, renderer.blendTargets.canvasBackdrop);
+    }
+    renderer.blendTargets = null;
+  }
+
+  if (renderer.previewTarget) {
+    deleteRenderTarget(gl, renderer.previewTarget);
+    renderer.previewTarget = null;
+  }
+
+  for (const target of renderer.groupTargets) {
+    deleteRenderTarget(gl, target);
+  }
+  renderer.groupTargets = [];
 }
\ No newline at end of file
@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  ShaderRegistry,
+  getShaderRegistry,
+  applyShaderDefines,
+  getShaderVariantKey,
+  BuiltinShader,
+  ShaderNotRegisteredError,
+  InvalidShaderDefineError,
+} from './shaderRegistry';
+import { initializeWebGL } from './context';
+
+const tintVertexSource = `
+  attribute vec2 a_position;
+
+  void main() {
+    gl_Position = vec4(a_position, 0.0, 1.0);
+  }
+`;
+
+const tintFragmentSource = `
+  precision mediump float;
+
+  uniform vec4 u_color;
+  uniform float u_weights[3];
+
+  void main() {
+  #ifdef INVERT
+    gl_FragColor = vec4(1.0) - u_color * u_weights[2];
+  #else
+    gl_FragColor = u_color * u_weights[0];
+  #endif
+  }
+`;
+
+describe('Shader Defines', () => {
+  it('should give the same variant key for defines in any order', () => {
+    expect(getShaderVariantKey({ B: 2, A: true })).toBe('A=1,B=2');
+    expect(getShaderVariantKey({ A: true, B: 2 })).toBe('A=1,B=2');
+  });
+
+  it('should leave false defines out', () => {
+    expect(getShaderVariantKey({ INVERT: false })).toBe('');
+    expect(applyShaderDefines('void main() {}', { INVERT: false })).toBe('void main() {}');
+  });
+
+  it('should prepend defines to the source', () => {
+    expect(applyShaderDefines('void main() {}', { INVERT: true, SAMPLES: 4 })).toBe(
+      '#define INVERT 1\n#define SAMPLES 4\nvoid main() {}'
+    );
+  });
+
+  it('should keep #version on the first line', () => {
+    const source = '#version 300 es\nvoid main() {}';
+
+    expect(applyShaderDefines(source, { INVERT: true })).toBe('#version 300 es\n#define INVERT 1\nvoid main() {}');
+  });
+
+  it('should reject names that are not identifiers', () => {
+    expect(() => getShaderVariantKey({ 'NOT VALID': 1 })).toThrow(InvalidShaderDefineError);
+  });
+});
+
+describe('Shader Registry (Browser Mode)', () => {
+  let canvas: HTMLCanvasElement;
+  let gl: WebGLRenderingContext;
+  let registry: ShaderRegistry;
+
+  beforeEach(() => {
+    canvas = document.createElement('canvas');
+    canvas.id = 'shader-registry-canvas';
+    document.body.appendChild(canvas);
+
+    gl = initializeWebGL('shader-registry-canvas').gl;
+    registry = new ShaderRegistry(gl);
+    registry.register('tint', { vertex: tintVertexSource, fragment: tintFragmentSource });
+  });
+
+  afterEach(() => {
+    registry.dispose();
+    canvas.remove();
+  });
+
+  it('should link programs lazily and cache them', () => {
+    expect(registry.programCount).toBe(0);
+
+    const first = registry.get('tint');
+    const second = registry.get('tint');
+
+    expect(second).toBe(first);
+    expect(registry.programCount).toBe(1);
+    expect(gl.isProgram(first.program)).toBe(true);
+  });
+
+  it('should link each define variant separately', () => {
+    const plain = registry.get('tint');
+    const inverted = registry.get('tint', { INVERT: true });
+
+    expect(inverted.program).not.toBe(plain.program);
+    expect(inverted.variant).toBe('INVERT=1');
+    expect(registry.get('tint', { INVERT: false })).toBe(plain);
+  });
+
+  it('should reflect active attributes and uniforms', () => {
+    const { attributes, uniforms } = registry.get('tint');
+
+    expect(attributes.a_position).toBeGreaterThanOrEqual(0);
+    expect(uniforms.u_color).toBeDefined();
+    expect(uniforms.u_weights).toBe(uniforms['u_weights[0]']);
+  });
+
+  it('should throw for unregistered programs', () => {
+    expect(() => registry.get('missing')).toThrow(ShaderNotRegisteredError);
+  });
+
+  it('should delete replaced and disposed programs', () => {
+    const original = registry.get('tint');
+    registry.register('tint', { vertex: tintVertexSource, fragment: `#define INVERT 1\n${tintFragmentSource}` });
+
+    expect(gl.isProgram(original.program)).toBe(false);
+
+    const replaced = registry.get('tint');
+    registry.dispose();
+
+    expect(gl.isProgram(replaced.program)).toBe(false);
+    expect(registry.programCount).toBe(0);
+  });
+
+  it('should share one registry per context with the built-in programs', () => {
+    const shared = getShaderRegistry(gl);
+
+    expect(getShaderRegistry(gl)).toBe(shared);
+    expect(shared.has(BuiltinShader.STROKE)).toBe(true);
+
+    shared.dispose();
+    expect(getShaderRegistry(gl)).not.toBe(shared);
+  });
+});
@@ -0,0 +1,309 @@
+// Named shader programs compiled on first use and cached per GL context
+
+import {
+  linkShaderProgram,
+  basicVertexShaderSource,
+  basicFragmentShaderSource,
+  strokeVertexShaderSource,
+  strokeFragmentShaderSource,
+  stampVertexShaderSource,
+  stampFragmentShaderSource,
+  compositeVertexShaderSource,
+  compositeFragmentShaderSource,
+  overlayVertexShaderSource,
+  overlayFragmentShaderSource,
+  blendVertexShaderSource,
+  blendFragmentShaderSource,
+  backgroundVertexShaderSource,
+  backgroundFragmentShaderSource,
+} from './shaders';
+
+/**
+ * GLSL sources of a named program
+ */
+export interface ShaderSources {
+  vertex: string;
+  fragment: string;
+}
+
+/**
+ * Preprocessor defines of a program variant
+ * true defines the name as 1; false leaves it undefined so #ifdef skips it.
+ */
+export type ShaderDefines = Readonly<Record<string, string | number | boolean>>;
+
+/**
+ * A linked program variant with its active attributes and uniforms
+ * Keys are the GLSL names (a_position, u_color); array uniforms are listed
+ * under both u_name and u_name[0].
+ */
+export interface ReflectedShaderProgram {
+  name: string;
+  /** Variant key built from the defines (empty for the plain program) */
+  variant: string;
+  program: WebGLProgram;
+  attributes: Readonly<Record<string, number>>;
+  uniforms: Readonly<Record<string, WebGLUniformLocation>>;
+}
+
+/**
+ * Names of the renderer's built-in programs
+ */
+export const BuiltinShader = {
+  BASIC: 'basic',
+  STROKE: 'stroke',
+  STAMP: 'stamp',
+  COMPOSITE: 'composite',
+  OVERLAY: 'overlay',
+  BLEND: 'blend',
+  BACKGROUND: 'background',
+} as const;
+
+export type BuiltinShader = typeof BuiltinShader[keyof typeof BuiltinShader];
+
+/**
+ * Sources of the built-in programs
+ */
+export const BUILTIN_SHADER_SOURCES: Record<BuiltinShader, ShaderSources> = {
+  [BuiltinShader.BASIC]: { vertex: basicVertexShaderSource, fragment: basicFragmentShaderSource },
+  [BuiltinShader.STROKE]: { vertex: strokeVertexShaderSource, fragment: strokeFragmentShaderSource },
+  [BuiltinShader.STAMP]: { vertex: stampVertexShaderSource, fragment: stampFragmentShaderSource },
+  [BuiltinShader.COMPOSITE]: { vertex: compositeVertexShaderSource, fragment: compositeFragmentShaderSource },
+  [BuiltinShader.OVERLAY]: { vertex: overlayVertexShaderSource, fragment: overlayFragmentShaderSource },
+  [BuiltinShader.BLEND]: { vertex: blendVertexShaderSource, fragment: blendFragmentShaderSource },
+  [BuiltinShader.BACKGROUND]: { vertex: backgroundVertexShaderSource, fragment: backgroundFragmentShaderSource },
+};
+
+export class ShaderNotRegisteredError extends Error {
+  public readonly shaderName: string;
+
+  constructor(shaderName: string) {
+    super(`Shader program not registered: ${shaderName}`);
+    this.name = 'ShaderNotRegisteredError';
+    this.shaderName = shaderName;
+  }
+}
+
+export class InvalidShaderDefineError extends Error {
+  public readonly defineName: string;
+
+  constructor(defineName: string) {
+    super(`Invalid shader define name: ${defineName}`);
+    this.name = 'InvalidShaderDefineError';
+    this.defineName = defineName;
+  }
+}
+
+const DEFINE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// #version must stay the first line of a shader
+const VERSION_DIRECTIVE_PATTERN = /^\s*#version[^\n]*\n/;
+
+/**
+ * Sorted define entries, with false values dropped
+ */
+function defineEntries(defines: ShaderDefines): Array<[string, string]> {
+  return Object.keys(defines)
+    .sort()
+    .filter(name => defines[name] !== false)
+    .map(name => {
+      if (!DEFINE_NAME_PATTERN.test(name)) {
+        throw new InvalidShaderDefineError(name);
+      }
+      const value = defines[name];
+      return [name, value === true ? '1' : String(value)];
+    });
+}
+
+/**
+ * Cache key of a variant; the same defines in any order give the same key
+ */
+export function getShaderVariantKey(defines: ShaderDefines = {}): string {
+  return defineEntries(defines)
+    .map(([name, value]) => `${name}=${value}`)
+    .join(',');
+}
+
+/**
+ * Prepend #define lines to a shader source (after #version if it has one)
+ */
+export function applyShaderDefines(source: string, defines: ShaderDefines = {}): string {
+  const entries = defineEntries(defines);
+  if (entries.length === 0) {
+    return source;
+  }
+
+  const lines = entries.map(([name, value]) => `#define ${name} ${value}\n`).join('');
+  const version = source.match(VERSION_DIRECTIVE_PATTERN);
+
+  return version
+    ? version[0] + lines + source.slice(version[0].length)
+    : lines + source;
+}
+
+/**
+ * List a linked program's active attributes and uniforms
+ */
+export function reflectShaderProgram(
+  gl: WebGLRenderingContext,
+  program: WebGLProgram
+): Pick<ReflectedShaderProgram, 'attributes' | 'uniforms'> {
+  const attributes: Record<string, number> = {};
+  const uniforms: Record<string, WebGLUniformLocation> = {};
+
+  const attributeCount = gl.getProgramParameter(program, gl.ACTIVE_ATTRIBUTES) as number;
+  for (let i = 0; i < attributeCount; i++) {
+    const info = gl.getActiveAttrib(program, i);
+    if (info) {
+      attributes[info.name] = gl.getAttribLocation(program, info.name);
+    }
+  }
+
+  const uniformCount = gl.getProgramParameter(program, gl.ACTIVE_UNIFORMS) as number;
+  for (let i = 0; i < uniformCount; i++) {
+    const info = gl.getActiveUniform(program, i);
+    const location = info && gl.getUniformLocation(program, info.name);
+    if (info && location) {
+      uniforms[info.name] = location;
+      if (info.name.endsWith('[0]')) {
+        uniforms[info.name.slice(0, -3)] = location;
+      }
+    }
+  }
+
+  return { attributes, uniforms };
+}
+
+/**
+ * Named shader programs of one GL context
+ * Programs are linked on first request and cached per variant; dispose() deletes them all.
+ */
+export class ShaderRegistry {
+  private readonly gl: WebGLRenderingContext;
+  private sources = new Map<string, ShaderSources>();
+  private programs = new Map<string, Map<string, ReflectedShaderProgram>>();
+
+  constructor(gl: WebGLRenderingContext) {
+    this.gl = gl;
+  }
+
+  /**
+   * Register (or replace) a program's sources
+   * Variants already linked from replaced sources are deleted.
+   */
+  register(name: string, sources: ShaderSources): void {
+    const current = this.sources.get(name);
+    if (current && current.vertex === sources.vertex && current.fragment === sources.fragment) {
+      return;
+    }
+
+    this.deleteVariants(name);
+    this.sources.set(name, sources);
+  }
+
+  has(name: string): boolean {
+    return this.sources.has(name);
+  }
+
+  /**
+   * Get a program variant, linking it on first use
+   */
+  get(name: string, defines: ShaderDefines = {}): ReflectedShaderProgram {
+    const sources = this.sources.get(name);
+    if (!sources) {
+      throw new ShaderNotRegisteredError(name);
+    }
+
+    const variant = getShaderVariantKey(defines);
+    let variants = this.programs.get(name);
+    const cached = variants?.get(variant);
+    if (cached) {
+      return cached;
+    }
+
+    const program = linkShaderProgram(
+      this.gl,
+      applyShaderDefines(sources.vertex, defines),
+      applyShaderDefines(sources.fragment, defines)
+    );
+    const reflected: ReflectedShaderProgram = {
+      name,
+      variant,
+      program,
+      ...reflectShaderProgram(this.gl, program),
+    };
+
+    if (!variants) {
+      variants = new Map();
+      this.programs.set(name, variants);
+    }
+    variants.set(variant, reflected);
+
+    return reflected;
+  }
+
+  /**
+   * Number of linked program variants
+   */
+  get programCount(): number {
+    let count = 0;
+    for (const variants of this.programs.values()) {
+      count += variants.size;
+    }
+    return count;
+  }
+
+  /**
+   * Forget every linked program without deleting it
+   * For a lost context, whose handles are already invalid; programs are linked again on next use.
+   */
+  discardPrograms(): void {
+    this.programs.clear();
+  }
+
+  /**
+   * Delete every linked program and detach the registry from its context
+   * Registered sources are kept, so a registry still held elsewhere links them again on use.
+   */
+  dispose(): void {
+    for (const name of Array.from(this.programs.keys())) {
+      this.deleteVariants(name);
+    }
+    if (registries.get(this.gl) === this) {
+      registries.delete(this.gl);
+    }
+  }
+
+  private deleteVariants(name: string): void {
+    const variants = this.programs.get(name);
+    if (!variants) {
+      return;
+    }
+
+    for (const { program } of variants.values()) {
+      if (this.gl.isProgram(program)) {
+        this.gl.deleteProgram(program);
+      }
+    }
+    this.programs.delete(name);
+  }
+}
+
+const registries = new WeakMap<WebGLRenderingContext, ShaderRegistry>();
+
+/**
+ * Get the registry of a GL context, creating it with the built-in programs on first use
+ */
+export function getShaderRegistry(gl: WebGLRenderingContext): ShaderRegistry {
+  let registry = registries.get(gl);
+
+  if (!registry) {
+    registry = new ShaderRegistry(gl);
+    for (const [name, sources] of Object.entries(BUILTIN_SHADER_SOURCES)) {
+      registry.register(name, sources);
+    }
+    registries.set(gl, registry);
+  }
+
+  return registry;
+}
@@ -5,6 +5,10 @@ import {
   compileShader,
   createProgram,
   createBasicShaderProgram,
+  createStrokeShaderProgram,
+  createStampShaderProgram,
+  createBlendShaderProgram,
+  createBackgroundShaderProgram,
   validateShaderProgram,
   setupShaderUniforms,
   ShaderCompilationError,
@@ -201,6 +205,69 @@ describe('WebGL Shaders (Browser Mode)', () => {
     });
   });
 
+  describe('Stroke Shader Program', () => {
+    it('should create stroke shader program successfully', () => {
+      const strokeProgram = createStrokeShaderProgram(gl);
+
+      expect(gl.isProgram(strokeProgram.program)).toBe(true);
+      expect(strokeProgram.attributes.position).toBeGreaterThanOrEqual(0);
+      expect(strokeProgram.attributes.extrude).toBeGreaterThanOrEqual(0);
+      expect(strokeProgram.attributes.local).toBeGreaterThanOrEqual(0);
+      expect(strokeProgram.attributes.pressure).toBeGreaterThanOrEqual(0);
+      expect(strokeProgram.attributes.transformX).toBeGreaterThanOrEqual(0);
+      expect(strokeProgram.attributes.transformY).toBeGreaterThanOrEqual(0);
+      expect(strokeProgram.uniforms.resolution).not.toBeNull();
+      expect(strokeProgram.uniforms.color).not.toBeNull();
+      expect(strokeProgram.uniforms.brushSize).not.toBeNull();
+      expect(strokeProgram.uniforms.aaWidth).not.toBeNull();
+      expect(strokeProgram.uniforms.viewMatrix).not.toBeNull();
+
+      gl.deleteProgram(strokeProgram.program);
+    });
+  });
+
+  describe('Stamp Shader Program', () => {
+    it('should create stamp shader program successfully', () => {
+      const stampProgram = createStampShaderProgram(gl);
+
+      expect(gl.isProgram(stampProgram.program)).toBe(true);
+      expect(stampProgram.attributes.corner).toBeGreaterThanOrEqual(0);
+      expect(stampProgram.attributes.texCoord).toBeGreaterThanOrEqual(0);
+      expect(stampProgram.attributes.transformX).toBeGreaterThanOrEqual(0);
+      expect(stampProgram.attributes.transformY).toBeGreaterThanOrEqual(0);
+      expect(stampProgram.uniforms.tip).not.toBeNull();
+
+      gl.deleteProgram(stampProgram.program);
+    });
+  });
+
+  describe('Blend Shader Program', () => {
+    it('should create blend shader program successfully', () => {
+      const blendProgram = createBlendShaderProgram(gl);
+
+      expect(gl.isProgram(blendProgram.program)).toBe(true);
+      expect(blendProgram.attributes.position).toBeGreaterThanOrEqual(0);
+      expect(blendProgram.uniforms.source).not.toBeNull();
+      expect(blendProgram.uniforms.backdrop).not.toBeNull();
+      expect(blendProgram.uniforms.mode).not.toBeNull();
+
+      gl.deleteProgram(blendProgram.program);
+    });
+  });
+
+  describe('Background Shader Program', () => {
+    it('should create background shader program successfully', () => {
+      const backgroundProgram = createBackgroundShaderProgram(gl);
+
+      expect(gl.isProgram(backgroundProgram.program)).toBe(true);
+      expect(backgroundProgram.attributes.position).toBeGreaterThanOrEqual(0);
+      expect(backgroundProgram.uniforms.tileSize).not.toBeNull();
+      expect(backgroundProgram.uniforms.color).not.toBeNull();
+
+      gl.deleteProgram(backgroundProgram.program);
+    });
+  });
+
   describe('Shader Program Validation', () => {
     it('should validate correct shader program', () => {
       const shaderProgram = createBasicShaderProgram(gl);
@@ -8,11 +8,104 @@ export interface ShaderProgram {
   };
   uniforms: {
     resolution: WebGLUniformLocation | null;
+    viewMatrix: WebGLUniformLocation | null;
     color: WebGLUniformLocation | null;
     brushSize: WebGLUniformLocation | null;
   };
 }
 
+export interface StrokeShaderProgram {
+  program: WebGLProgram;
+  attributes: {
+    position: number;
+    extrude: number;
+    local: number;
+    pressure: number;
+    transformX: number;
+    transformY: number;
+  };
+  uniforms: {
+    resolution: WebGLUniformLocation | null;
+    viewMatrix: WebGLUniformLocation | null;
+    color: WebGLUniformLocation | null;
+    brushSize: WebGLUniformLocation | null;
+    aaWidth: WebGLUniformLocation | null;
+  };
+}
+
+export interface StampShaderProgram {
+  program: WebGLProgram;
+  attributes: {
+    position: number;
+    corner: number;
+    texCoord: number;
+    pressure: number;
+    transformX: number;
+    transformY: number;
+  };
+  uniforms: {
+    resolution: WebGLUniformLocation | null;
+    viewMatrix: WebGLUniformLocation | null;
+    color: WebGLUniformLocation | null;
+    brushSize: WebGLUniformLocation | null;
+    tip: WebGLUniformLocation | null;
+  };
+}
+
+export interface CompositeShaderProgram {
+  program: WebGLProgram;
+  attributes: {
+    position: number;
+  };
+  uniforms: {
+    resolution: WebGLUniformLocation | null;
+    viewMatrix: WebGLUniformLocation | null;
+    texture: WebGLUniformLocation | null;
+    opacity: WebGLUniformLocation | null;
+  };
+}
+
+export interface BlendShaderProgram {
+  program: WebGLProgram;
+  attributes: {
+    position: number;
+  };
+  uniforms: {
+    resolution: WebGLUniformLocation | null;
+    viewMatrix: WebGLUniformLocation | null;
+    source: WebGLUniformLocation | null;
+    backdrop: WebGLUniformLocation | null;
+    mode: WebGLUniformLocation | null;
+    opacity: WebGLUniformLocation | null;
+  };
+}
+
+export interface BackgroundShaderProgram {
+  program: WebGLProgram;
+  attributes: {
+    position: number;
+  };
+  uniforms: {
+    resolution: WebGLUniformLocation | null;
+    viewMatrix: WebGLUniformLocation | null;
+    texture: WebGLUniformLocation | null;
+    tileSize: WebGLUniformLocation | null;
+    color: WebGLUniformLocation | null;
+  };
+}
+
+export interface OverlayShaderProgram {
+  program: WebGLProgram;
+  attributes: {
+    position: number;
+  };
+  uniforms: {
+    resolution: WebGLUniformLocation | null;
+    viewMatrix: WebGLUniformLocation | null;
+    color: WebGLUniformLocation | null;
+  };
+}
+
 export class ShaderCompilationError extends Error {
   public readonly shaderType: string;
   public readonly shaderSource: string;
@@ -43,13 +136,17 @@ export const basicVertexShaderSource = `
   attribute float a_pressure;
   
   uniform vec2 u_resolution;
+  uniform mat3 u_viewMatrix;
   uniform float u_brushSize;
   
   varying float v_pressure;
   
   void main() {
+    // Apply the view transform (zoom/pan/rotation) in canvas coordinates
+    vec2 viewPosition = (u_viewMatrix * vec3(a_position, 1.0)).xy;
+    
     // Convert from canvas coordinates (0-1024) to clip space (-1 to 1)
-    vec2 zeroToOne = a_position / u_resolution;
+    vec2 zeroToOne = viewPosition / u_resolution;
     vec2 zeroToTwo = zeroToOne * 2.0;
     vec2 clipSpace = zeroToTwo - 1.0;
     
@@ -87,6 +184,311 @@ export const basicFragmentShaderSource = `
   }
 `;
 
+// Vertex shader for triangle-strip stroke rendering
+// Each vertex is pushed out from the stroke center by its extrude vector,
+// scaled by the pressure-dependent half width plus an anti-aliasing margin.
+// a_transformX/Y are the rows of a per-instance affine transform (symmetry copies).
+export const strokeVertexShaderSource = `
+  attribute vec2 a_position;
+  attribute vec2 a_extrude;
+  attribute vec2 a_local;
+  attribute float a_pressure;
+  attribute vec3 a_transformX;
+  attribute vec3 a_transformY;
+  
+  uniform vec2 u_resolution;
+  uniform mat3 u_viewMatrix;
+  uniform float u_brushSize;
+  uniform float u_aaWidth;
+  
+  varying vec2 v_local;
+  varying float v_halfWidth;
+  
+  void main() {
+    // Stroke width follows pressure, but never gets thinner than 1px
+    float halfWidth = max(a_pressure * u_brushSize, 1.0) * 0.5;
+    
+    // Grow the geometry so the anti-aliased edge is not clipped
+    float extent = halfWidth + u_aaWidth;
+    vec2 center = vec2(dot(a_transformX, vec3(a_position, 1.0)), dot(a_transformY, vec3(a_position, 1.0)));
+    vec2 extrude = vec2(dot(a_transformX.xy, a_extrude), dot(a_transformY.xy, a_extrude));
+    vec2 position = center + extrude * extent;
+    
+    // Distance-field coordinate in canvas pixels
+    v_local = a_local * extent;
+    v_halfWidth = halfWidth;
+    
+    // Apply the view transform (zoom/pan/rotation) in canvas coordinates
+    vec2 viewPosition = (u_viewMatrix * vec3(position, 1.0)).xy;
+    
+    // Convert from canvas coordinates (0-1024) to clip space (-1 to 1)
+    vec2 clipSpace = (viewPosition / u_resolution) * 2.0 - 1.0;
+    
+    // Flip Y coordinate (WebGL Y goes up, canvas Y goes down)
+    gl_Position = vec4(clipSpace.x, -clipSpace.y, 0.0, 1.0);
+  }
+`;
+
+// Fragment shader for triangle-strip stroke rendering
+// Coverage comes from the distance to the stroke center line, giving
+// anti-aliased edges, round caps and round joins without MSAA.
+export const strokeFragmentShaderSource = `
+  precision mediump float;
+  
+  uniform vec4 u_color;
+  uniform float u_aaWidth;
+  
+  varying vec2 v_local;
+  varying float v_halfWidth;
+  
+  void main() {
+    float distance = length(v_local);
+    float coverage = clamp((v_halfWidth - distance) / u_aaWidth + 0.5, 0.0, 1.0);
+    
+    if (coverage <= 0.0) {
+      discard;
+    }
+    
+    gl_FragColor = vec4(u_color.rgb, u_color.a * coverage);
+  }
+`;
+
+// Vertex shader for stamp brushes
+// Each stamp is a textured quad; the corner offset is already rotated and
+// jittered on the CPU and is scaled here by the pressure-dependent size.
+// Symmetry copies transform the whole quad, so reflected stamps are mirrored too.
+export const stampVertexShaderSource = `
+  attribute vec2 a_position;
+  attribute vec2 a_corner;
+  attribute vec2 a_texCoord;
+  attribute float a_pressure;
+  attribute vec3 a_transformX;
+  attribute vec3 a_transformY;
+  
+  uniform vec2 u_resolution;
+  uniform mat3 u_viewMatrix;
+  uniform float u_brushSize;
+  
+  varying vec2 v_texCoord;
+  
+  void main() {
+    // Stamp size follows pressure, but never gets smaller than 1px
+    float halfSize = max(a_pressure * u_brushSize, 1.0) * 0.5;
+    vec2 local = a_position + a_corner * halfSize;
+    vec2 position = vec2(dot(a_transformX, vec3(local, 1.0)), dot(a_transformY, vec3(local, 1.0)));
+    
+    v_texCoord = a_texCoord;
+    
+    // Apply the view transform (zoom/pan/rotation) in canvas coordinates
+    vec2 viewPosition = (u_viewMatrix * vec3(position, 1.0)).xy;
+    
+    // Convert from canvas coordinates (0-1024) to clip space (-1 to 1)
+    vec2 clipSpace = (viewPosition / u_resolution) * 2.0 - 1.0;
+    
+    // Flip Y coordinate (WebGL Y goes up, canvas Y goes down)
+    gl_Position = vec4(clipSpace.x, -clipSpace.y, 0.0, 1.0);
+  }
+`;
+
+// Fragment shader for stamp brushes
+// The tip texture's alpha is the stamp mask; color comes from u_color.
+export const stampFragmentShaderSource = `
+  precision mediump float;
+  
+  uniform vec4 u_color;
+  uniform sampler2D u_tip;
+  
+  varying vec2 v_texCoord;
+  
+  void main() {
+    float mask = texture2D(u_tip, v_texCoord).a;
+    
+    if (mask <= 0.0) {
+      discard;
+    }
+    
+    gl_FragColor = vec4(u_color.rgb, u_color.a * mask);
+  }
+`;
+
+// Vertex shader for compositing a canvas-sized texture through the view transform
+// a_position is a unit quad in clip space (-1 to 1). Render targets are filled
+// with the same clip-space mapping, so texture row 0 is the bottom of the canvas.
+export const compositeVertexShaderSource = `
+  attribute vec2 a_position;
+  
+  uniform vec2 u_resolution;
+  uniform mat3 u_viewMatrix;
+  
+  varying vec2 v_texCoord;
+  
+  void main() {
+    v_texCoord = a_position * 0.5 + 0.5;
+    
+    // Canvas coordinates of this corner (Y down)
+    vec2 canvasPosition = vec2(v_texCoord.x, 1.0 - v_texCoord.y) * u_resolution;
+    vec2 viewPosition = (u_viewMatrix * vec3(canvasPosition, 1.0)).xy;
+    
+    vec2 clipSpace = (viewPosition / u_resolution) * 2.0 - 1.0;
+    gl_Position = vec4(clipSpace.x, -clipSpace.y, 0.0, 1.0);
+  }
+`;
+
+// Fragment shader for compositing a premultiplied-alpha texture
+// Premultiplied texels scale uniformly, so opacity multiplies every channel.
+export const compositeFragmentShaderSource = `
+  precision mediump float;
+  
+  uniform sampler2D u_texture;
+  uniform float u_opacity;
+  
+  varying vec2 v_texCoord;
+  
+  void main() {
+    gl_FragColor = texture2D(u_texture, v_texCoord) * u_opacity;
+  }
+`;
+
+// Vertex shader for blend-mode compositing
+// Same quad mapping as the composite shader; the backdrop is a copy of the
+// target, so it is sampled at this fragment's own position.
+export const blendVertexShaderSource = `
+  attribute vec2 a_position;
+  
+  uniform vec2 u_resolution;
+  uniform mat3 u_viewMatrix;
+  
+  varying vec2 v_texCoord;
+  varying vec2 v_backdropCoord;
+  
+  void main() {
+    v_texCoord = a_position * 0.5 + 0.5;
+    
+    vec2 canvasPosition = vec2(v_texCoord.x, 1.0 - v_texCoord.y) * u_resolution;
+    vec2 viewPosition = (u_viewMatrix * vec3(canvasPosition, 1.0)).xy;
+    
+    vec2 clipSpace = (viewPosition / u_resolution) * 2.0 - 1.0;
+    gl_Position = vec4(clipSpace.x, -clipSpace.y, 0.0, 1.0);
+    v_backdropCoord = gl_Position.xy * 0.5 + 0.5;
+  }
+`;
+
+// Fragment shader for separable blend modes on premultiplied colors (W3C compositing)
+// Mode 7 (erase) is destination-out.
+// u_mode values match BLEND_MODE_SHADER_IDS; blendPremultiplied() is the CPU reference.
+export const blendFragmentShaderSource = `
+  precision mediump float;
+  
+  uniform sampler2D u_source;
+  uniform sampler2D u_backdrop;
+  uniform int u_mode;
+  uniform float u_opacity;
+  
+  varying vec2 v_texCoord;
+  varying vec2 v_backdropCoord;
+  
+  vec3 blendColor(vec3 cs, vec3 cb) {
+    if (u_mode == 1) return cs * cb;
+    if (u_mode == 2) return cs + cb - cs * cb;
+    if (u_mode == 3) return min(cs + cb, 1.0);
+    if (u_mode == 4) return min(cs, cb);
+    if (u_mode == 5) return max(cs, cb);
+    if (u_mode == 6) {
+      return mix(2.0 * cs * cb, 1.0 - 2.0 * (1.0 - cs) * (1.0 - cb), step(0.5, cb));
+    }
+    return cs;
+  }
+  
+  void main() {
+    vec4 source = texture2D(u_source, v_texCoord) * u_opacity;
+    vec4 backdrop = texture2D(u_backdrop, v_backdropCoord);
+    
+    if (u_mode == 7) {
+      gl_FragColor = backdrop * (1.0 - source.a);
+      return;
+    }
+    
+    vec3 cs = source.a > 0.0 ? source.rgb / source.a : vec3(0.0);
+    vec3 cb = backdrop.a > 0.0 ? backdrop.rgb / backdrop.a : vec3(0.0);
+    
+    vec3 color = (1.0 - backdrop.a) * source.rgb
+      + (1.0 - source.a) * backdrop.rgb
+      + source.a * backdrop.a * blendColor(cs, cb);
+    float alpha = source.a + backdrop.a * (1.0 - source.a);
+    
+    gl_FragColor = vec4(color, alpha);
+  }
+`;
+
+// Vertex shader for flat-colored overlays (tile borders, guides) in canvas coordinates
+export const overlayVertexShaderSource = `
+  attribute vec2 a_position;
+  
+  uniform vec2 u_resolution;
+  uniform mat3 u_viewMatrix;
+  
+  void main() {
+    vec2 viewPosition = (u_viewMatrix * vec3(a_position, 1.0)).xy;
+    vec2 clipSpace = (viewPosition / u_resolution) * 2.0 - 1.0;
+    gl_Position = vec4(clipSpace.x, -clipSpace.y, 0.0, 1.0);
+  }
+`;
+
+// Vertex shader for the document background
+// Same quad mapping as the composite shader; the pattern repeats every u_tileSize canvas pixels.
+export const backgroundVertexShaderSource = `
+  attribute vec2 a_position;
+  
+  uniform vec2 u_resolution;
+  uniform mat3 u_viewMatrix;
+  uniform float u_tileSize;
+  
+  varying vec2 v_patternCoord;
+  
+  void main() {
+    vec2 unitPosition = a_position * 0.5 + 0.5;
+    
+    // Canvas coordinates of this corner (Y down)
+    vec2 canvasPosition = vec2(unitPosition.x, 1.0 - unitPosition.y) * u_resolution;
+    v_patternCoord = canvasPosition / u_tileSize;
+    
+    vec2 viewPosition = (u_viewMatrix * vec3(canvasPosition, 1.0)).xy;
+    vec2 clipSpace = (viewPosition / u_resolution) * 2.0 - 1.0;
+    gl_Position = vec4(clipSpace.x, -clipSpace.y, 0.0, 1.0);
+  }
+`;
+
+// Fragment shader for the document background
+// The pattern is opaque and tinted by a premultiplied color.
+// Pattern coordinates reach hundreds of repeats, so highp is used where available.
+export const backgroundFragmentShaderSource = `
+  #ifdef GL_FRAGMENT_PRECISION_HIGH
+  precision highp float;
+  #else
+  precision mediump float;
+  #endif
+  
+  uniform sampler2D u_texture;
+  uniform vec4 u_color;
+  
+  varying vec2 v_patternCoord;
+  
+  void main() {
+    gl_FragColor = texture2D(u_texture, v_patternCoord) * u_color;
+  }
+`;
+
+// Fragment shader for flat-colored overlays
+export const overlayFragmentShaderSource = `
+  precision mediump float;
+  
+  uniform vec4 u_color;
+  
+  void main() {
+    gl_FragColor = u_color;
+  }
+`;
+
 /**
  * Compile a WebGL shader
  */
@@ -157,16 +559,42 @@ export function createProgram(
 }
 
 /**
- * Create the basic shader program for stroke rendering
+ * Compile vertex and fragment sources and link them into a program
+ * The shader objects are deleted once linked.
  */
-export function createBasicShaderProgram(gl: WebGLRenderingContext): ShaderProgram {
-  // Compile shaders
-  const vertexShader = compileShader(gl, gl.VERTEX_SHADER, basicVertexShaderSource);
-  const fragmentShader = compileShader(gl, gl.FRAGMENT_SHADER, basicFragmentShaderSource);
+export function linkShaderProgram(
+  gl: WebGLRenderingContext,
+  vertexSource: string,
+  fragmentSource: string
+): WebGLProgram {
+  const vertexShader = compileShader(gl, gl.VERTEX_SHADER, vertexSource);
+
+  let fragmentShader: WebGLShader;
+  try {
+    fragmentShader = compileShader(gl, gl.FRAGMENT_SHADER, fragmentSource);
+  } catch (error) {
+    gl.deleteShader(vertexShader);
+    throw error;
+  }
 
-  // Create program
-  const program = createProgram(gl, vertexShader, fragmentShader);
+  try {
+    return createProgram(gl, vertexShader, fragmentShader);
+  } finally {
+    // Linked programs keep their own copy of the compiled code
+    gl.deleteShader(vertexShader);
+    gl.deleteShader(fragmentShader);
+  }
+}
 
+/**
+ * Create the basic shader program for stroke rendering
+ * Like the other create*ShaderProgram functions, it links its own program unless
+ * one linked from the same sources (e.g. by the ShaderRegistry) is passed in.
+ */
+export function createBasicShaderProgram(
+  gl: WebGLRenderingContext,
+  program: WebGLProgram = linkShaderProgram(gl, basicVertexShaderSource, basicFragmentShaderSource)
+): ShaderProgram {
   // Get attribute locations
   const positionLocation = gl.getAttribLocation(program, 'a_position');
   const pressureLocation = gl.getAttribLocation(program, 'a_pressure');
@@ -180,13 +608,10 @@ export function createBasicShaderProgram(gl: WebGLRenderingContext): ShaderProgr
 
   // Get uniform locations
   const resolutionLocation = gl.getUniformLocation(program, 'u_resolution');
+  const viewMatrixLocation = gl.getUniformLocation(program, 'u_viewMatrix');
   const colorLocation = gl.getUniformLocation(program, 'u_color');
   const brushSizeLocation = gl.getUniformLocation(program, 'u_brushSize');
 
-  // Clean up shaders (they're linked into the program now)
-  gl.deleteShader(vertexShader);
-  gl.deleteShader(fragmentShader);
-
   console.log('Basic shader program created successfully:', {
     positionLocation,
     pressureLocation,
@@ -203,12 +628,271 @@ export function createBasicShaderProgram(gl: WebGLRenderingContext): ShaderProgr
     },
     uniforms: {
       resolution: resolutionLocation,
+      viewMatrix: viewMatrixLocation,
       color: colorLocation,
       brushSize: brushSizeLocation,
     },
   };
 }
 
+/**
+ * Create the shader program for triangle-strip stroke rendering
+ */
+export function createStrokeShaderProgram(
+  gl: WebGLRenderingContext,
+  program: WebGLProgram = linkShaderProgram(gl, strokeVertexShaderSource, strokeFragmentShaderSource)
+): StrokeShaderProgram {
+  const positionLocation = gl.getAttribLocation(program, 'a_position');
+  const extrudeLocation = gl.getAttribLocation(program, 'a_extrude');
+  const localLocation = gl.getAttribLocation(program, 'a_local');
+  const pressureLocation = gl.getAttribLocation(program, 'a_pressure');
+  const transformXLocation = gl.getAttribLocation(program, 'a_transformX');
+  const transformYLocation = gl.getAttribLocation(program, 'a_transformY');
+
+  if (positionLocation === -1) {
+    throw new Error('Failed to get a_position attribute location');
+  }
+  if (extrudeLocation === -1) {
+    throw new Error('Failed to get a_extrude attribute location');
+  }
+  if (localLocation === -1) {
+    throw new Error('Failed to get a_local attribute location');
+  }
+  if (pressureLocation === -1) {
+    throw new Error('Failed to get a_pressure attribute location');
+  }
+  if (transformXLocation === -1 || transformYLocation === -1) {
+    throw new Error('Failed to get a_transformX/a_transformY attribute locations');
+  }
+
+  const resolutionLocation = gl.getUniformLocation(program, 'u_resolution');
+  const viewMatrixLocation = gl.getUniformLocation(program, 'u_viewMatrix');
+  const colorLocation = gl.getUniformLocation(program, 'u_color');
+  const brushSizeLocation = gl.getUniformLocation(program, 'u_brushSize');
+  const aaWidthLocation = gl.getUniformLocation(program, 'u_aaWidth');
+
+  console.log('Stroke shader program created successfully:', {
+    positionLocation,
+    extrudeLocation,
+    localLocation,
+    pressureLocation,
+    transformXLocation,
+    transformYLocation,
+  });
+
+  return {
+    program,
+    attributes: {
+      position: positionLocation,
+      extrude: extrudeLocation,
+      local: localLocation,
+      pressure: pressureLocation,
+      transformX: transformXLocation,
+      transformY: transformYLocation,
+    },
+    uniforms: {
+      resolution: resolutionLocation,
+      viewMatrix: viewMatrixLocation,
+      color: colorLocation,
+      brushSize: brushSizeLocation,
+      aaWidth: aaWidthLocation,
+    },
+  };
+}
+
+/**
+ * Create the shader program for stamp brushes
+ */
+export function createStampShaderProgram(
+  gl: WebGLRenderingContext,
+  program: WebGLProgram = linkShaderProgram(gl, stampVertexShaderSource, stampFragmentShaderSource)
+): StampShaderProgram {
+  const positionLocation = gl.getAttribLocation(program, 'a_position');
+  const cornerLocation = gl.getAttribLocation(program, 'a_corner');
+  const texCoordLocation = gl.getAttribLocation(program, 'a_texCoord');
+  const pressureLocation = gl.getAttribLocation(program, 'a_pressure');
+  const transformXLocation = gl.getAttribLocation(program, 'a_transformX');
+  const transformYLocation = gl.getAttribLocation(program, 'a_transformY');
+
+  if (positionLocation === -1) {
+    throw new Error('Failed to get a_position attribute location');
+  }
+  if (cornerLocation === -1) {
+    throw new Error('Failed to get a_corner attribute location');
+  }
+  if (texCoordLocation === -1) {
+    throw new Error('Failed to get a_texCoord attribute location');
+  }
+  if (pressureLocation === -1) {
+    throw new Error('Failed to get a_pressure attribute location');
+  }
+  if (transformXLocation === -1 || transformYLocation === -1) {
+    throw new Error('Failed to get a_transformX/a_transformY attribute locations');
+  }
+
+  const resolutionLocation = gl.getUniformLocation(program, 'u_resolution');
+  const viewMatrixLocation = gl.getUniformLocation(program, 'u_viewMatrix');
+  const colorLocation = gl.getUniformLocation(program, 'u_color');
+  const brushSizeLocation = gl.getUniformLocation(program, 'u_brushSize');
+  const tipLocation = gl.getUniformLocation(program, 'u_tip');
+
+  console.log('Stamp shader program created successfully:', {
+    positionLocation,
+    cornerLocation,
+    texCoordLocation,
+    pressureLocation,
+    transformXLocation,
+    transformYLocation,
+  });
+
+  return {
+    program,
+    attributes: {
+      position: positionLocation,
+      corner: cornerLocation,
+      texCoord: texCoordLocation,
+      pressure: pressureLocation,
+      transformX: transformXLocation,
+      transformY: transformYLocation,
+    },
+    uniforms: {
+      resolution: resolutionLocation,
+      viewMatrix: viewMatrixLocation,
+      color: colorLocation,
+      brushSize: brushSizeLocation,
+      tip: tipLocation,
+    },
+  };
+}
+
+/**
+ * Create the shader program for compositing textures
+ */
+export function createCompositeShaderProgram(
+  gl: WebGLRenderingContext,
+  program: WebGLProgram = linkShaderProgram(gl, compositeVertexShaderSource, compositeFragmentShaderSource)
+): CompositeShaderProgram {
+  const positionLocation = gl.getAttribLocation(program, 'a_position');
+  if (positionLocation === -1) {
+    throw new Error('Failed to get a_position attribute location');
+  }
+
+  const resolutionLocation = gl.getUniformLocation(program, 'u_resolution');
+  const viewMatrixLocation = gl.getUniformLocation(program, 'u_viewMatrix');
+  const textureLocation = gl.getUniformLocation(program, 'u_texture');
+  const opacityLocation = gl.getUniformLocation(program, 'u_opacity');
+
+  return {
+    program,
+    attributes: {
+      position: positionLocation,
+    },
+    uniforms: {
+      resolution: resolutionLocation,
+      viewMatrix: viewMatrixLocation,
+      texture: textureLocation,
+      opacity: opacityLocation,
+    },
+  };
+}
+
+/**
+ * Create the shader program for blend-mode compositing
+ */
+export function createBlendShaderProgram(
+  gl: WebGLRenderingContext,
+  program: WebGLProgram = linkShaderProgram(gl, blendVertexShaderSource, blendFragmentShaderSource)
+): BlendShaderProgram {
+  const positionLocation = gl.getAttribLocation(program, 'a_position');
+  if (positionLocation === -1) {
+    throw new Error('Failed to get a_position attribute location');
+  }
+
+  const resolutionLocation = gl.getUniformLocation(program, 'u_resolution');
+  const viewMatrixLocation = gl.getUniformLocation(program, 'u_viewMatrix');
+  const sourceLocation = gl.getUniformLocation(program, 'u_source');
+  const backdropLocation = gl.getUniformLocation(program, 'u_backdrop');
+  const modeLocation = gl.getUniformLocation(program, 'u_mode');
+  const opacityLocation = gl.getUniformLocation(program, 'u_opacity');
+
+  return {
+    program,
+    attributes: {
+      position: positionLocation,
+    },
+    uniforms: {
+      resolution: resolutionLocation,
+      viewMatrix: viewMatrixLocation,
+      source: sourceLocation,
+      backdrop: backdropLocation,
+      mode: modeLocation,
+      opacity: opacityLocation,
+    },
+  };
+}
+
+/**
+ * Create the shader program for the document background pattern
+ */
+export function createBackgroundShaderProgram(
+  gl: WebGLRenderingContext,
+  program: WebGLProgram = linkShaderProgram(gl, backgroundVertexShaderSource, backgroundFragmentShaderSource)
+): BackgroundShaderProgram {
+  const positionLocation = gl.getAttribLocation(program, 'a_position');
+  if (positionLocation === -1) {
+    throw new Error('Failed to get a_position attribute location');
+  }
+
+  const resolutionLocation = gl.getUniformLocation(program, 'u_resolution');
+  const viewMatrixLocation = gl.getUniformLocation(program, 'u_viewMatrix');
+  const textureLocation = gl.getUniformLocation(program, 'u_texture');
+  const tileSizeLocation = gl.getUniformLocation(program, 'u_tileSize');
+  const colorLocation = gl.getUniformLocation(program, 'u_color');
+
+  return {
+    program,
+    attributes: {
+      position: positionLocation,
+    },
+    uniforms: {
+      resolution: resolutionLocation,
+      viewMatrix: viewMatrixLocation,
+      texture: textureLocation,
+      tileSize: tileSizeLocation,
+      color: colorLocation,
+    },
+  };
+}
+
+/**
+ * Create the shader program for flat-colored overlays
+ */
+export function createOverlayShaderProgram(
+  gl: WebGLRenderingContext,
+  program: WebGLProgram = linkShaderProgram(gl, overlayVertexShaderSource, overlayFragmentShaderSource)
+): OverlayShaderProgram {
+  const positionLocation = gl.getAttribLocation(program, 'a_position');
+  if (positionLocation === -1) {
+    throw new Error('Failed to get a_position attribute location');
+  }
+
+  const resolutionLocation = gl.getUniformLocation(program, 'u_resolution');
+  const viewMatrixLocation = gl.getUniformLocation(program, 'u_viewMatrix');
+  const colorLocation = gl.getUniformLocation(program, 'u_color');
+
+  return {
+    program,
+    attributes: {
+      position: positionLocation,
+    },
+    uniforms: {
+      resolution: resolutionLocation,
+      viewMatrix: viewMatrixLocation,
+      color: colorLocation,
+    },
+  };
+}
+
 /**
  * Validate shader program by checking all expected attributes and uniforms
  */
@@ -242,12 +926,17 @@ export function validateShaderProgram(gl: WebGLRenderingContext, shaderProgram:
   }
 }
 
+/**
+ * Identity mat3 for u_viewMatrix (symmetric, so the column-major layout is the same)
+ */
+const IDENTITY_VIEW_MATRIX = new Float32Array([1, 0, 0, 0, 1, 0, 0, 0, 1]);
+
 /**
  * Set up shader program uniforms with default values
  */
 export function setupShaderUniforms(
   gl: WebGLRenderingContext,
-  shaderProgram: ShaderProgram,
+  shaderProgram: { program: WebGLProgram; uniforms: Partial<ShaderProgram['uniforms']> },
   canvasWidth: number = 1024,
   canvasHeight: number = 1024
 ): void {
@@ -258,6 +947,11 @@ export function setupShaderUniforms(
     gl.uniform2f(shaderProgram.uniforms.resolution, canvasWidth, canvasHeight);
   }
 
+  // Set identity view transform (mat3 uniforms default to all zeros)
+  if (shaderProgram.uniforms.viewMatrix) {
+    gl.uniformMatrix3fv(shaderProgram.uniforms.viewMatrix, false, IDENTITY_VIEW_MATRIX);
+  }
+
   // Set default color (black)
   if (shaderProgram.uniforms.color) {
     gl.uniform4f(shaderProgram.uniforms.color, 0.0, 0.0, 0.0, 1.0);
@@ -0,0 +1,171 @@
+import { describe, it, expect } from 'vitest';
+import {
+  placeStamps,
+  stampsToVertexData,
+  createSeededRandom,
+  hashStringToSeed,
+  STAMP_VERTEX_COMPONENTS,
+  MAX_STAMPS_PER_STROKE,
+} from './stamps';
+import type { StampBrushSettings } from './stamps';
+import * as CoreTypes from '../types/core';
+
+type StrokePoint = CoreTypes.StrokePoint;
+
+const plainSettings: StampBrushSettings = {
+  tipId: 'hard-round',
+  spacing: 0.5,
+  scatter: 0,
+  rotationJitter: 0,
+  sizeJitter: 0,
+  followDirection: false,
+};
+
+const horizontal: StrokePoint[] = [
+  { x: 100, y: 100, pressure: 1.0, timestamp: 1000 },
+  { x: 200, y: 100, pressure: 1.0, timestamp: 1010 },
+];
+
+describe('Stamp Placement', () => {
+  describe('Seeded Random', () => {
+    it('should repeat the same sequence for the same seed', () => {
+      const a = createSeededRandom(42);
+      const b = createSeededRandom(42);
+
+      for (let i = 0; i < 10; i++) {
+        const value = a();
+        expect(value).toBe(b());
+        expect(value).toBeGreaterThanOrEqual(0);
+        expect(value).toBeLessThan(1);
+      }
+    });
+
+    it('should hash strings to stable 32-bit seeds', () => {
+      expect(hashStringToSeed('stroke-1')).toBe(hashStringToSeed('stroke-1'));
+      expect(hashStringToSeed('stroke-1')).not.toBe(hashStringToSeed('stroke-2'));
+      expect(hashStringToSeed('stroke-1')).toBeLessThanOrEqual(0xffffffff);
+    });
+  });
+
+  describe('Spacing', () => {
+    it('should place stamps at a fixed fraction of the diameter', () => {
+      // diameter 20 * spacing 0.5 = a stamp every 10px over 100px
+      const stamps = placeStamps(horizontal, plainSettings, 20, 1);
+
+      expect(stamps).toHaveLength(11);
+      stamps.forEach((stamp, i) => {
+        expect(stamp.x).toBeCloseTo(100 + i * 10);
+        expect(stamp.y).toBeCloseTo(100);
+        expect(stamp.scale).toBe(1);
+      });
+    });
+
+    it('should carry leftover distance across segments', () => {
+      const split: StrokePoint[] = [
+        { x: 100, y: 100, pressure: 1.0, timestamp: 1000 },
+        { x: 115, y: 100, pressure: 1.0, timestamp: 1005 },
+        { x: 200, y: 100, pressure: 1.0, timestamp: 1010 },
+      ];
+
+      const stamps = placeStamps(split, plainSettings, 20, 1);
+
+      expect(stamps.map(stamp => Math.round(stamp.x))).toEqual(
+        placeStamps(horizontal, plainSettings, 20, 1).map(stamp => Math.round(stamp.x))
+      );
+    });
+
+    it('should interpolate pressure and tighten spacing for light pressure', () => {
+      const fading: StrokePoint[] = [
+        { x: 100, y: 100, pressure: 1.0, timestamp: 1000 },
+        { x: 200, y: 100, pressure: 0.2, timestamp: 1010 },
+      ];
+
+      const stamps = placeStamps(fading, plainSettings, 20, 1);
+
+      expect(stamps.length).toBeGreaterThan(11);
+      for (let i = 1; i < stamps.length; i++) {
+        expect(stamps[i].pressure).toBeLessThan(stamps[i - 1].pressure);
+      }
+    });
+
+    it('should stamp single points once and ignore empty strokes', () => {
+      expect(placeStamps([horizontal[0]], plainSettings, 20, 1)).toHaveLength(1);
+      expect(placeStamps([], plainSettings, 20, 1)).toHaveLength(0);
+    });
+
+    it('should cap the number of stamps per stroke', () => {
+      const long: StrokePoint[] = [
+        { x: 0, y: 0, pressure: 1.0, timestamp: 0 },
+        { x: 1e6, y: 0, pressure: 1.0, timestamp: 1 },
+      ];
+
+      expect(placeStamps(long, { ...plainSettings, spacing: 0 }, 1, 1)).toHaveLength(MAX_STAMPS_PER_STROKE);
+    });
+  });
+
+  describe('Jitter', () => {
+    const jittery: StampBrushSettings = {
+      ...plainSettings,
+      scatter: 0.5,
+      rotationJitter: Math.PI,
+      sizeJitter: 0.5,
+    };
+
+    it('should keep jitter within the configured ranges', () => {
+      const stamps = placeStamps(horizontal, jittery, 20, 7);
+
+      for (const stamp of stamps) {
+        // Scatter is across the stroke direction only
+        expect(Math.abs(stamp.y - 100)).toBeLessThanOrEqual(0.5 * 20 + 1e-6);
+        expect(Math.abs(stamp.rotation)).toBeLessThanOrEqual(Math.PI);
+        expect(stamp.scale).toBeGreaterThan(0.5 - 1e-6);
+        expect(stamp.scale).toBeLessThanOrEqual(1);
+      }
+      expect(new Set(stamps.map(stamp => stamp.rotation)).size).toBeGreaterThan(1);
+    });
+
+    it('should be deterministic for the same seed', () => {
+      expect(placeStamps(horizontal, jittery, 20, 7)).toEqual(placeStamps(horizontal, jittery, 20, 7));
+      expect(placeStamps(horizontal, jittery, 20, 7)).not.toEqual(placeStamps(horizontal, jittery, 20, 8));
+    });
+
+    it('should follow the stroke direction when requested', () => {
+      const vertical: StrokePoint[] = [
+        { x: 100, y: 100, pressure: 1.0, timestamp: 1000 },
+        { x: 100, y: 200, pressure: 1.0, timestamp: 1010 },
+      ];
+
+      const stamps = placeStamps(vertical, { ...plainSettings, followDirection: true }, 20, 1);
+
+      for (const stamp of stamps) {
+        expect(stamp.rotation).toBeCloseTo(Math.PI / 2);
+      }
+    });
+  });
+
+  describe('Vertex Data', () => {
+    it('should emit two triangles per stamp', () => {
+      const stamps = placeStamps(horizontal, plainSettings, 20, 1);
+      const vertexData = stampsToVertexData(stamps);
+
+      expect(vertexData.vertexCount).toBe(stamps.length * 6);
+      expect(vertexData.vertices.length).toBe(vertexData.vertexCount * STAMP_VERTEX_COMPONENTS);
+    });
+
+    it('should rotate and scale quad corners', () => {
+      const vertexData = stampsToVertexData([
+        { x: 10, y: 20, pressure: 0.5, rotation: Math.PI / 2, scale: 0.5 },
+      ]);
+      const v = vertexData.vertices;
+
+      // First corner (-1, -1) rotated by 90 degrees and halved
+      expect(v[0]).toBe(10);
+      expect(v[1]).toBe(20);
+      expect(v[2]).toBeCloseTo(0.5);
+      expect(v[3]).toBeCloseTo(-0.5);
+      expect(v[4]).toBe(0);
+      expect(v[5]).toBe(0);
+      expect(v[6]).toBeCloseTo(0.5);
+    });
+  });
+});
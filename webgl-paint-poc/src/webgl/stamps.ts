@@ -0,0 +1,207 @@
+// Stamp placement for stamp-based brushes
+
+import type { StrokePoint } from '../types/core';
+import type { StrokeVertexData } from './buffers';
+
+/**
+ * Settings for a stamp brush
+ * Distances are fractions of the stamp diameter so a preset looks the same at any brush size.
+ */
+export interface StampBrushSettings {
+  /** Brush tip texture to stamp */
+  tipId: string;
+  /** Distance between stamps as a fraction of the stamp diameter */
+  spacing: number;
+  /** Maximum offset across the stroke as a fraction of the stamp diameter */
+  scatter: number;
+  /** Maximum random rotation in radians */
+  rotationJitter: number;
+  /** Maximum random size reduction (0 = none, 1 = down to nothing) */
+  sizeJitter: number;
+  /** Rotate stamps to follow the stroke direction */
+  followDirection: boolean;
+}
+
+/**
+ * A single stamp placed along a stroke
+ */
+export interface Stamp {
+  x: number;
+  y: number;
+  pressure: number;
+  /** Rotation in radians */
+  rotation: number;
+  /** Size multiplier from size jitter (0-1) */
+  scale: number;
+}
+
+/**
+ * Components per vertex for stamp geometry
+ * Format: [x, y, cornerX, cornerY, u, v, pressure, ...]
+ *
+ * corner is the rotated, jittered quad corner in half-size units; the vertex
+ * shader scales it by pressure * brushSize like stroke geometry.
+ */
+export const STAMP_VERTEX_COMPONENTS = 7;
+
+/**
+ * Upper bound on stamps generated for one stroke
+ */
+export const MAX_STAMPS_PER_STROKE = 20000;
+
+// Stamps are never placed closer than this (canvas pixels)
+const MIN_STAMP_STEP = 0.5;
+
+// Segments shorter than this have no direction
+const MIN_SEGMENT_LENGTH = 1e-4;
+
+// Two triangles per stamp quad: [cornerX, cornerY, u, v]
+const STAMP_QUAD_CORNERS: ReadonlyArray<[number, number, number, number]> = [
+  [-1, -1, 0, 0],
+  [1, -1, 1, 0],
+  [-1, 1, 0, 1],
+  [-1, 1, 0, 1],
+  [1, -1, 1, 0],
+  [1, 1, 1, 1],
+];
+
+/**
+ * Create a deterministic pseudo-random generator (mulberry32)
+ * Returns numbers in [0, 1). The same seed always gives the same sequence,
+ * so a stroke's jitter does not change when it is re-rendered.
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Hash a string to a 32-bit seed (FNV-1a)
+ */
+export function hashStringToSeed(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Place stamps along a stroke at the configured spacing
+ * Pressure is interpolated between points, and the spacing follows the
+ * pressure-dependent stamp diameter. Leftover distance carries over segment
+ * boundaries so spacing stays even regardless of input point density.
+ */
+export function placeStamps(
+  points: StrokePoint[],
+  settings: StampBrushSettings,
+  brushSize: number,
+  seed: number
+): Stamp[] {
+  if (points.length === 0) {
+    return [];
+  }
+
+  const random = createSeededRandom(seed);
+  const stamps: Stamp[] = [];
+
+  const diameterAt = (pressure: number) => Math.max(pressure * brushSize, 1.0);
+  const stepAt = (pressure: number) => Math.max(diameterAt(pressure) * settings.spacing, MIN_STAMP_STEP);
+
+  const addStamp = (x: number, y: number, pressure: number, direction: number) => {
+    // Always draw the same number of random values so later stamps do not shift
+    const scatterRandom = random() * 2 - 1;
+    const rotationRandom = random() * 2 - 1;
+    const sizeRandom = random();
+
+    const offset = scatterRandom * settings.scatter * diameterAt(pressure);
+    stamps.push({
+      x: x - Math.sin(direction) * offset,
+      y: y + Math.cos(direction) * offset,
+      pressure,
+      rotation: (settings.followDirection ? direction : 0) + rotationRandom * settings.rotationJitter,
+      scale: 1 - sizeRandom * settings.sizeJitter,
+    });
+  };
+
+  const directionAt = (index: number) => {
+    for (let i = index; i < points.length - 1; i++) {
+      const dx = points[i + 1].x - points[i].x;
+      const dy = points[i + 1].y - points[i].y;
+      if (Math.sqrt(dx * dx + dy * dy) >= MIN_SEGMENT_LENGTH) {
+        return Math.atan2(dy, dx);
+      }
+    }
+    return 0;
+  };
+
+  const first = points[0];
+  addStamp(first.x, first.y, first.pressure, directionAt(0));
+  let distanceToNext = stepAt(first.pressure);
+
+  for (let i = 0; i < points.length - 1; i++) {
+    const a = points[i];
+    const b = points[i + 1];
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const length = Math.sqrt(dx * dx + dy * dy);
+
+    if (length < MIN_SEGMENT_LENGTH) {
+      continue;
+    }
+
+    const direction = Math.atan2(dy, dx);
+    let position = 0;
+
+    while (position + distanceToNext <= length) {
+      position += distanceToNext;
+      const t = position / length;
+      const pressure = a.pressure + (b.pressure - a.pressure) * t;
+
+      addStamp(a.x + dx * t, a.y + dy * t, pressure, direction);
+      if (stamps.length >= MAX_STAMPS_PER_STROKE) {
+        return stamps;
+      }
+
+      distanceToNext = stepAt(pressure);
+    }
+
+    distanceToNext -= length - position;
+  }
+
+  return stamps;
+}
+
+/**
+ * Convert stamps to vertex data (two triangles per stamp)
+ */
+export function stampsToVertexData(stamps: Stamp[]): StrokeVertexData {
+  const vertexCount = stamps.length * STAMP_QUAD_CORNERS.length;
+  const vertices = new Float32Array(vertexCount * STAMP_VERTEX_COMPONENTS);
+
+  let offset = 0;
+  for (const stamp of stamps) {
+    const cos = Math.cos(stamp.rotation) * stamp.scale;
+    const sin = Math.sin(stamp.rotation) * stamp.scale;
+
+    for (const [cx, cy, u, v] of STAMP_QUAD_CORNERS) {
+      vertices.set(
+        [stamp.x, stamp.y, cx * cos - cy * sin, cx * sin + cy * cos, u, v, stamp.pressure],
+        offset
+      );
+      offset += STAMP_VERTEX_COMPONENTS;
+    }
+  }
+
+  return {
+    vertices,
+    vertexCount,
+  };
+}
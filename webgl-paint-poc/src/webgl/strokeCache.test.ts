@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  planStrokeCacheUpdate,
+  createStrokeCache,
+  updateStrokeCache,
+  invalidateStrokeCache,
+  deleteStrokeCache,
+} from './strokeCache';
+import { initializeWebGL } from './context';
+import * as CoreTypes from '../types/core';
+
+type StrokeData = CoreTypes.StrokeData;
+
+const makeStroke = (id: string): StrokeData => ({
+  id,
+  points: [
+    { x: 10, y: 10, pressure: 1.0, timestamp: 1000 },
+    { x: 50, y: 50, pressure: 1.0, timestamp: 1010 },
+  ],
+  timestamp: 1000,
+});
+
+describe('Stroke Cache Planning', () => {
+  const a = makeStroke('a');
+  const b = makeStroke('b');
+  const c = makeStroke('c');
+
+  it('should bake only appended strokes', () => {
+    const plan = planStrokeCacheUpdate({ strokes: [a], contentKey: 'k', valid: true }, [a, b, c], 'k');
+
+    expect(plan.rebuild).toBe(false);
+    expect(plan.strokesToBake).toEqual([b, c]);
+  });
+
+  it('should do nothing when the strokes are unchanged', () => {
+    const plan = planStrokeCacheUpdate({ strokes: [a, b], contentKey: 'k', valid: true }, [a, b], 'k');
+
+    expect(plan.rebuild).toBe(false);
+    expect(plan.strokesToBake).toHaveLength(0);
+  });
+
+  it('should rebuild after undo', () => {
+    const plan = planStrokeCacheUpdate({ strokes: [a, b], contentKey: 'k', valid: true }, [a], 'k');
+
+    expect(plan.rebuild).toBe(true);
+    expect(plan.strokesToBake).toEqual([a]);
+  });
+
+  it('should rebuild when a baked stroke was replaced', () => {
+    const plan = planStrokeCacheUpdate({ strokes: [a, b], contentKey: 'k', valid: true }, [a, makeStroke('b'), c], 'k');
+
+    expect(plan.rebuild).toBe(true);
+    expect(plan.strokesToBake).toHaveLength(3);
+  });
+
+  it('should rebuild when the content key changes', () => {
+    const plan = planStrokeCacheUpdate({ strokes: [a], contentKey: 'k', valid: true }, [a, b], 'other');
+
+    expect(plan.rebuild).toBe(true);
+    expect(plan.strokesToBake).toEqual([a, b]);
+  });
+
+  it('should rebuild after invalidation', () => {
+    const plan = planStrokeCacheUpdate({ strokes: [a], contentKey: 'k', valid: false }, [a, b], 'k');
+
+    expect(plan.rebuild).toBe(true);
+  });
+});
+
+describe('Stroke Cache (Browser Mode)', () => {
+  let gl: WebGLRenderingContext;
+
+  beforeEach(() => {
+    const canvas = document.createElement('canvas');
+    canvas.id = 'stroke-cache-test-canvas';
+    canvas.width = 64;
+    canvas.height = 64;
+    document.body.appendChild(canvas);
+
+    gl = initializeWebGL('stroke-cache-test-canvas').gl;
+  });
+
+  it('should bake strokes incrementally into the render target', () => {
+    const cache = createStrokeCache(gl, 64, 64);
+    const a = makeStroke('a');
+    const b = makeStroke('b');
+    const drawn: string[] = [];
+    const draw = (stroke: StrokeData) => {
+      expect(gl.getParameter(gl.FRAMEBUFFER_BINDING)).toBe(cache.target.framebuffer);
+      drawn.push(stroke.id);
+    };
+
+    expect(updateStrokeCache(gl, cache, [a], 'k', draw)).toBe(1);
+    expect(updateStrokeCache(gl, cache, [a, b], 'k', draw)).toBe(1);
+    expect(updateStrokeCache(gl, cache, [a, b], 'k', draw)).toBe(0);
+    expect(drawn).toEqual(['a', 'b']);
+    expect(gl.getParameter(gl.FRAMEBUFFER_BINDING)).toBeNull();
+
+    invalidateStrokeCache(cache);
+    expect(updateStrokeCache(gl, cache, [a, b], 'k', draw)).toBe(2);
+
+    deleteStrokeCache(gl, cache);
+    expect(gl.isFramebuffer(cache.target.framebuffer)).toBe(false);
+    expect(gl.getError()).toBe(gl.NO_ERROR);
+  });
+
+  it('should stay invalid when drawing throws', () => {
+    const cache = createStrokeCache(gl, 64, 64);
+
+    expect(() => {
+      updateStrokeCache(gl, cache, [makeStroke('a')], 'k', () => {
+        throw new Error('draw failed');
+      });
+    }).toThrow('draw failed');
+
+    expect(cache.valid).toBe(false);
+    expect(gl.getParameter(gl.FRAMEBUFFER_BINDING)).toBeNull();
+  });
+});
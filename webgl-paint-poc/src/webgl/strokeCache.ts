@@ -0,0 +1,134 @@
+// Cache of committed strokes baked into an offscreen render target
+
+import type { StrokeData } from '../types/core';
+import {
+  createRenderTarget,
+  bindRenderTarget,
+  clearRenderTarget,
+  deleteRenderTarget,
+  resolveRenderTarget,
+} from './framebuffer';
+import type { RenderTarget, RenderTargetOptions } from './framebuffer';
+
+/**
+ * Committed strokes baked into a texture
+ * Pixels are premultiplied alpha on a transparent background.
+ */
+export interface StrokeCache {
+  target: RenderTarget;
+  /** Strokes currently baked into the target, in draw order */
+  strokes: readonly StrokeData[];
+  /** Key for other settings that change the baked pixels (e.g. symmetry) */
+  contentKey: string;
+  /** False after invalidation; the next update rebuilds from scratch */
+  valid: boolean;
+}
+
+/**
+ * What an update has to do to bring the cache up to date
+ */
+export interface StrokeCachePlan {
+  /** Clear the target before baking */
+  rebuild: boolean;
+  /** Strokes to bake (every stroke when rebuilding) */
+  strokesToBake: readonly StrokeData[];
+}
+
+/**
+ * Decide how to update the cache for the given committed strokes
+ * New strokes appended after the baked ones are baked incrementally. Anything
+ * else (undo, clear, history trimming, a different content key) rebuilds.
+ * Strokes are compared by reference, which holds because history entries are immutable.
+ */
+export function planStrokeCacheUpdate(
+  cache: Pick<StrokeCache, 'strokes' | 'contentKey' | 'valid'>,
+  strokes: readonly StrokeData[],
+  contentKey: string
+): StrokeCachePlan {
+  const canAppend =
+    cache.valid &&
+    cache.contentKey === contentKey &&
+    strokes.length >= cache.strokes.length &&
+    cache.strokes.every((stroke, i) => strokes[i] === stroke);
+
+  if (canAppend) {
+    return { rebuild: false, strokesToBake: strokes.slice(cache.strokes.length) };
+  }
+
+  return { rebuild: true, strokesToBake: strokes };
+}
+
+/**
+ * Create an empty stroke cache
+ */
+export function createStrokeCache(
+  gl: WebGLRenderingContext,
+  width: number,
+  height: number,
+  options: RenderTargetOptions = {}
+): StrokeCache {
+  return {
+    target: createRenderTarget(gl, width, height, options),
+    strokes: [],
+    contentKey: '',
+    valid: true,
+  };
+}
+
+/**
+ * Bring the cache up to date with the committed strokes
+ * drawStroke is called with the cache bound as the render target.
+ * Returns the number of strokes baked by this update.
+ */
+export function updateStrokeCache(
+  gl: WebGLRenderingContext,
+  cache: StrokeCache,
+  strokes: readonly StrokeData[],
+  contentKey: string,
+  drawStroke: (stroke: StrokeData) => void
+): number {
+  const plan = planStrokeCacheUpdate(cache, strokes, contentKey);
+
+  // Stays invalid if drawing fails part way through
+  cache.valid = false;
+
+  if (plan.rebuild) {
+    clearRenderTarget(gl, cache.target);
+  }
+
+  if (plan.strokesToBake.length > 0) {
+    bindRenderTarget(gl, cache.target);
+    try {
+      for (const stroke of plan.strokesToBake) {
+        drawStroke(stroke);
+      }
+    } finally {
+      bindRenderTarget(gl, null);
+    }
+    resolveRenderTarget(gl, cache.target);
+  } else {
+    bindRenderTarget(gl, null);
+  }
+
+  cache.strokes = [...strokes];
+  cache.contentKey = contentKey;
+  cache.valid = true;
+
+  return plan.strokesToBake.length;
+}
+
+/**
+ * Mark the cache as stale so the next update rebuilds it
+ */
+export function invalidateStrokeCache(cache: StrokeCache): void {
+  cache.valid = false;
+}
+
+/**
+ * Delete the cache's render target
+ */
+export function deleteStrokeCache(gl: WebGLRenderingContext, cache: StrokeCache): void {
+  deleteRenderTarget(gl, cache.target);
+  cache.strokes = [];
+  cache.valid = false;
+}
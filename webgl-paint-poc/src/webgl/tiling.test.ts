@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import {
+  computeVisibleTileRange,
+  tileRangeToPositions,
+  tileBorderVertexData,
+  MAX_TILE_RADIUS,
+  TILE_BORDER_VERTEX_COMPONENTS,
+} from './tiling';
+import { Matrix3x3 } from '../math/Matrix3x3';
+
+const SIZE = 512;
+
+const zoomAroundCenter = (zoom: number): Matrix3x3 =>
+  Matrix3x3.translation(SIZE / 2, SIZE / 2)
+    .multiply(Matrix3x3.scale(zoom))
+    .multiply(Matrix3x3.translation(-SIZE / 2, -SIZE / 2));
+
+describe('Tiling Layout', () => {
+  it('should cover only the canvas at identity view', () => {
+    expect(computeVisibleTileRange(Matrix3x3.identity(), SIZE, SIZE)).toEqual({
+      minColumn: 0,
+      maxColumn: 0,
+      minRow: 0,
+      maxRow: 0,
+    });
+  });
+
+  it('should cover neighbouring tiles when zoomed out', () => {
+    expect(computeVisibleTileRange(zoomAroundCenter(0.5), SIZE, SIZE)).toEqual({
+      minColumn: -1,
+      maxColumn: 1,
+      minRow: -1,
+      maxRow: 1,
+    });
+  });
+
+  it('should cover the rotated viewport bounds', () => {
+    const rotated = Matrix3x3.rotationAround(Math.PI / 4, SIZE / 2, SIZE / 2);
+    const range = computeVisibleTileRange(rotated, SIZE, SIZE);
+
+    expect(range.minColumn).toBe(-1);
+    expect(range.maxColumn).toBe(1);
+  });
+
+  it('should clamp the range at extreme zoom', () => {
+    const range = computeVisibleTileRange(zoomAroundCenter(0.001), SIZE, SIZE);
+
+    expect(range.minColumn).toBe(-MAX_TILE_RADIUS);
+    expect(range.maxRow).toBe(MAX_TILE_RADIUS);
+  });
+
+  it('should list tile offsets row by row', () => {
+    const tiles = tileRangeToPositions({ minColumn: -1, maxColumn: 0, minRow: 0, maxRow: 1 }, SIZE, 256, 0.5);
+
+    expect(tiles).toEqual([
+      { offsetX: -SIZE, offsetY: 0, scale: 0.5 },
+      { offsetX: 0, offsetY: 0, scale: 0.5 },
+      { offsetX: -SIZE, offsetY: 256, scale: 0.5 },
+      { offsetX: 0, offsetY: 256, scale: 0.5 },
+    ]);
+  });
+
+  it('should emit each grid line once', () => {
+    const data = tileBorderVertexData({ minColumn: -1, maxColumn: 1, minRow: -1, maxRow: 1 }, SIZE, SIZE);
+
+    // 4 vertical + 4 horizontal lines, 2 vertices each
+    expect(data.length).toBe(8 * 2 * TILE_BORDER_VERTEX_COMPONENTS);
+    expect(Array.from(data.slice(0, 4))).toEqual([-SIZE, -SIZE, -SIZE, 2 * SIZE]);
+  });
+});
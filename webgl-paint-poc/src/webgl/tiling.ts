@@ -0,0 +1,105 @@
+// Tile layout for the seamless tiling preview
+
+import type { TilePosition } from '../types/core';
+import type { Matrix3x3 } from '../math/Matrix3x3';
+
+/**
+ * Range of tiles (inclusive) in units of the canvas size; tile (0, 0) is the canvas itself
+ */
+export interface TileRange {
+  minColumn: number;
+  maxColumn: number;
+  minRow: number;
+  maxRow: number;
+}
+
+/**
+ * Tiles drawn on each side of the canvas at most
+ * Covers the minimum zoom (0.1) at any rotation with room to spare.
+ */
+export const MAX_TILE_RADIUS = 16;
+
+/**
+ * Floats per tile border vertex: [x, y]
+ */
+export const TILE_BORDER_VERTEX_COMPONENTS = 2;
+
+/**
+ * Find the tiles that cover the viewport
+ * The viewport is the canvas-sized view, so view (0..width, 0..height) is
+ * mapped back through the inverse view matrix into canvas coordinates.
+ */
+export function computeVisibleTileRange(
+  viewMatrix: Matrix3x3,
+  canvasWidth: number,
+  canvasHeight: number
+): TileRange {
+  const viewToCanvas = viewMatrix.inverse();
+  const corners = [
+    viewToCanvas.transformPoint(0, 0),
+    viewToCanvas.transformPoint(canvasWidth, 0),
+    viewToCanvas.transformPoint(0, canvasHeight),
+    viewToCanvas.transformPoint(canvasWidth, canvasHeight),
+  ];
+
+  const xs = corners.map(corner => corner.x);
+  const ys = corners.map(corner => corner.y);
+  const clamp = (value: number) => Math.max(-MAX_TILE_RADIUS, Math.min(MAX_TILE_RADIUS, value));
+
+  return {
+    minColumn: clamp(Math.floor(Math.min(...xs) / canvasWidth)),
+    maxColumn: clamp(Math.ceil(Math.max(...xs) / canvasWidth) - 1),
+    minRow: clamp(Math.floor(Math.min(...ys) / canvasHeight)),
+    maxRow: clamp(Math.ceil(Math.max(...ys) / canvasHeight) - 1),
+  };
+}
+
+/**
+ * List tile positions in a range
+ * Offsets are in canvas coordinates; scale is the on-screen size of a tile relative to the canvas.
+ */
+export function tileRangeToPositions(
+  range: TileRange,
+  canvasWidth: number,
+  canvasHeight: number,
+  scale: number
+): TilePosition[] {
+  const tiles: TilePosition[] = [];
+
+  for (let row = range.minRow; row <= range.maxRow; row++) {
+    for (let column = range.minColumn; column <= range.maxColumn; column++) {
+      tiles.push({ offsetX: column * canvasWidth, offsetY: row * canvasHeight, scale });
+    }
+  }
+
+  return tiles;
+}
+
+/**
+ * Build line-list vertex data for the grid between tiles in a range
+ * Each shared edge is emitted once so overlapping borders do not darken.
+ */
+export function tileBorderVertexData(
+  range: TileRange,
+  canvasWidth: number,
+  canvasHeight: number
+): Float32Array {
+  const left = range.minColumn * canvasWidth;
+  const right = (range.maxColumn + 1) * canvasWidth;
+  const top = range.minRow * canvasHeight;
+  const bottom = (range.maxRow + 1) * canvasHeight;
+
+  const lines: number[] = [];
+
+  for (let column = range.minColumn; column <= range.maxColumn + 1; column++) {
+    const x = column * canvasWidth;
+    lines.push(x, top, x, bottom);
+  }
+
+  for (let row = range.minRow; row <= range.maxRow + 1; row++) {
+    const y = row * canvasHeight;
+    lines.push(left, y, right, y);
+  }
+
+  return new Float32Array(lines);
+}